@@ -0,0 +1,26 @@
+/**
+ * Anki Packages
+ *
+ * Writes the collection rows shared/ankiExport lays out into an .apkg, with
+ * sql.js loaded the Node way.
+ *
+ * The leading underscore keeps Vercel from serving this file as a function.
+ */
+
+import initSqlJs from 'sql.js';
+import type { SqlJsStatic } from 'sql.js';
+import { buildAnkiPackage } from '../shared/ankiExport';
+import type { AnkiCollectionData } from '../shared/ankiExport';
+
+let sqlJs: Promise<SqlJsStatic> | undefined;
+const loadSqlJs = () => sqlJs ??= initSqlJs();
+
+/**
+ * An .apkg of the collection and whichever of its media `readMedia` finds
+ */
+export async function writeAnkiPackage(
+  collection: AnkiCollectionData,
+  readMedia: (filename: string) => Promise<Buffer | null>
+): Promise<Buffer> {
+  return Buffer.from(await buildAnkiPackage(collection, loadSqlJs, readMedia));
+}
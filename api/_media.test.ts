@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { createMediaStore, deleteUnreferencedMedia, fileSystemMediaStore, s3MediaStore, type MediaStore } from './_media';
+
+const s3Config = {
+  endpoint: 'http://localhost:9000',
+  region: 'us-east-1',
+  bucket: 'koda-media',
+  accessKeyId: 'AKIDEXAMPLE',
+  secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+  forcePathStyle: true,
+};
+
+// The behaviour every backend shares
+const storeContract = (makeStore: () => MediaStore) => {
+  it('reads back what it stored', async () => {
+    const store = makeStore();
+    await store.put('a.png', Buffer.from('image bytes'), 'image/png');
+    expect((await store.get('a.png'))?.toString()).toBe('image bytes');
+  });
+
+  it('overwrites a file stored under the same name', async () => {
+    const store = makeStore();
+    await store.put('a.png', Buffer.from('first'), 'image/png');
+    await store.put('a.png', Buffer.from('second'), 'image/png');
+    expect((await store.get('a.png'))?.toString()).toBe('second');
+  });
+
+  it('returns null for a missing file', async () => {
+    expect(await makeStore().get('missing.png')).toBeNull();
+  });
+
+  it('deletes files, and ignores deleting a missing one', async () => {
+    const store = makeStore();
+    await store.put('a.png', Buffer.from('image bytes'), 'image/png');
+    await store.delete('a.png');
+    await store.delete('a.png');
+    expect(await store.get('a.png')).toBeNull();
+  });
+};
+
+describe('fileSystemMediaStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'koda-media-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  storeContract(() => fileSystemMediaStore(path.join(directory, 'media')));
+
+  it('creates its directory on first write', async () => {
+    const store = fileSystemMediaStore(path.join(directory, 'nested', 'media'));
+    await store.put('a.png', Buffer.from('x'), 'image/png');
+    expect(await fs.readdir(path.join(directory, 'nested', 'media'))).toEqual(['a.png']);
+  });
+
+  it('rethrows errors other than a missing file', async () => {
+    const store = fileSystemMediaStore(directory);
+    await fs.mkdir(path.join(directory, 'folder.png'));
+    await expect(store.get('folder.png')).rejects.toThrow();
+  });
+});
+
+/**
+ * A stand-in for an S3 bucket behind fetch, which checks each request's
+ * signature the way S3 does before serving it
+ */
+function stubS3(config: typeof s3Config) {
+  const objects = new Map<string, Buffer>();
+  const requests: Array<{ method: string; url: URL; headers: Record<string, string> }> = [];
+
+  const sha256Hex = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+  const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+  const expectedSignature = (method: string, url: URL, headers: Record<string, string>, signedHeaders: string[]) => {
+    const date = headers['x-amz-date'];
+    const canonicalHeaders = signedHeaders.map(name => `${name}:${name === 'host' ? url.host : headers[name]}\n`).join('');
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders.join(';'), headers['x-amz-content-sha256']].join('\n');
+    const scope = `${date.slice(0, 8)}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', date, scope, sha256Hex(canonicalRequest)].join('\n');
+    let key: string | Buffer = `AWS4${config.secretAccessKey}`;
+    for (const part of [date.slice(0, 8), config.region, 's3', 'aws4_request']) key = hmac(key, part);
+    return createHmac('sha256', key).update(stringToSign).digest('hex');
+  };
+
+  const fetchStub = vi.fn(async (input: string | URL, init: RequestInit = {}) => {
+    const url = new URL(input);
+    const method = init.method ?? 'GET';
+    const headers = init.headers as Record<string, string>;
+    requests.push({ method, url, headers });
+
+    const body = init.body ? Buffer.from(init.body as Uint8Array) : Buffer.alloc(0);
+    const authorization = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/([^,]+), SignedHeaders=([^,]+), Signature=([0-9a-f]{64})$/.exec(headers.authorization);
+    if (
+      !authorization
+      || authorization[1] !== config.accessKeyId
+      || headers['x-amz-content-sha256'] !== sha256Hex(body)
+      || authorization[4] !== expectedSignature(method, url, headers, authorization[3].split(';'))
+    ) {
+      return new Response('SignatureDoesNotMatch', { status: 403 });
+    }
+
+    const key = decodeURIComponent(url.pathname);
+    if (method === 'PUT') {
+      objects.set(key, body);
+      return new Response(null, { status: 200 });
+    }
+    if (method === 'DELETE') {
+      objects.delete(key);
+      return new Response(null, { status: 204 });
+    }
+    const object = objects.get(key);
+    return object ? new Response(new Uint8Array(object)) : new Response('NoSuchKey', { status: 404 });
+  });
+
+  return { fetchStub, objects, requests };
+}
+
+describe('s3MediaStore', () => {
+  let s3: ReturnType<typeof stubS3>;
+
+  beforeEach(() => {
+    s3 = stubS3(s3Config);
+    vi.stubGlobal('fetch', s3.fetchStub);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  storeContract(() => s3MediaStore(s3Config));
+
+  it('signs requests with the content hash, date and content type', async () => {
+    await s3MediaStore(s3Config).put('a.png', Buffer.from('image bytes'), 'image/png');
+
+    const [request] = s3.requests;
+    expect(request.method).toBe('PUT');
+    expect(request.headers['content-type']).toBe('image/png');
+    expect(request.headers['x-amz-date']).toMatch(/^\d{8}T\d{6}Z$/);
+    expect(request.headers.authorization).toContain(
+      `Credential=AKIDEXAMPLE/${request.headers['x-amz-date'].slice(0, 8)}/us-east-1/s3/aws4_request, `
+      + 'SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, '
+    );
+  });
+
+  it('puts the bucket in the path for path-style endpoints', async () => {
+    await s3MediaStore(s3Config).put('a.png', Buffer.from('x'), 'image/png');
+    expect(s3.requests[0].url.href).toBe('http://localhost:9000/koda-media/a.png');
+  });
+
+  it('puts the bucket in the host name otherwise', async () => {
+    const config = { ...s3Config, endpoint: 'https://s3.us-east-1.amazonaws.com', forcePathStyle: false };
+    vi.stubGlobal('fetch', stubS3(config).fetchStub);
+    const store = s3MediaStore(config);
+    await store.put('a.png', Buffer.from('x'), 'image/png');
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('https://koda-media.s3.us-east-1.amazonaws.com/a.png');
+    expect((await store.get('a.png'))?.toString()).toBe('x');
+  });
+
+  it('is rejected by a bucket that expects another secret', async () => {
+    const store = s3MediaStore({ ...s3Config, secretAccessKey: 'wrong' });
+    await expect(store.put('a.png', Buffer.from('x'), 'image/png')).rejects.toThrow('Media store could not store a.png (status 403)');
+    await expect(store.get('a.png')).rejects.toThrow('Media store could not read a.png (status 403)');
+    await expect(store.delete('a.png')).rejects.toThrow('Media store could not delete a.png (status 403)');
+  });
+
+  it('treats a missing object as already deleted', async () => {
+    s3.fetchStub.mockResolvedValueOnce(new Response('NoSuchKey', { status: 404 }));
+    await expect(s3MediaStore(s3Config).delete('a.png')).resolves.toBeUndefined();
+  });
+});
+
+// Runs against a real bucket when one is given, e.g. a local MinIO container
+describe.skipIf(!process.env.MEDIA_TEST_S3_ENDPOINT)('s3MediaStore against MEDIA_TEST_S3_ENDPOINT', () => {
+  const prefix = randomUUID();
+  const store = (): MediaStore => {
+    const real = s3MediaStore({
+      endpoint: process.env.MEDIA_TEST_S3_ENDPOINT!,
+      region: process.env.MEDIA_TEST_S3_REGION || 'us-east-1',
+      bucket: process.env.MEDIA_TEST_S3_BUCKET || 'koda-media-test',
+      accessKeyId: process.env.MEDIA_TEST_S3_ACCESS_KEY_ID || 'minioadmin',
+      secretAccessKey: process.env.MEDIA_TEST_S3_SECRET_ACCESS_KEY || 'minioadmin',
+      forcePathStyle: true,
+    });
+    // Keep each run's files apart, so runs can't see each other's leftovers
+    return {
+      put: (filename, data, contentType) => real.put(`${prefix}-${filename}`, data, contentType),
+      get: filename => real.get(`${prefix}-${filename}`),
+      delete: filename => real.delete(`${prefix}-${filename}`),
+    };
+  };
+
+  storeContract(store);
+});
+
+describe('createMediaStore', () => {
+  it('uses the file system by default', () => {
+    expect(() => createMediaStore({})).not.toThrow();
+  });
+
+  it('uses S3 once a bucket is set, and needs its credentials', () => {
+    expect(() => createMediaStore({ MEDIA_S3_BUCKET: 'koda-media' })).toThrow('MEDIA_S3_ACCESS_KEY_ID');
+    expect(() => createMediaStore({
+      MEDIA_S3_BUCKET: 'koda-media',
+      MEDIA_S3_ACCESS_KEY_ID: 'id',
+      MEDIA_S3_SECRET_ACCESS_KEY: 'secret',
+    })).not.toThrow();
+  });
+
+  it('rejects unknown stores', () => {
+    expect(() => createMediaStore({ MEDIA_STORE: 'ftp' })).toThrow('Unknown MEDIA_STORE "ftp"');
+  });
+});
+
+describe('deleteUnreferencedMedia', () => {
+  it('deletes the candidates no text refers to and keeps the rest', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'koda-media-'));
+    try {
+      const store = fileSystemMediaStore(directory);
+      for (const filename of ['kept.png', 'gone.png', 'kept.mp3', 'recent.png']) {
+        await store.put(filename, Buffer.from(filename), 'application/octet-stream');
+      }
+
+      // recent.png is unreferenced but not a candidate, as it was uploaded within the grace period
+      const removed = await deleteUnreferencedMedia(
+        store,
+        ['kept.png', 'gone.png', 'kept.mp3'],
+        ['<img src="kept.png">', null, 'Listen: [sound:kept.mp3]']
+      );
+
+      expect(removed).toEqual(['gone.png']);
+      expect((await fs.readdir(directory)).sort()).toEqual(['kept.mp3', 'kept.png', 'recent.png']);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('leaves the store alone when everything is referenced', async () => {
+    const store = { put: vi.fn(), get: vi.fn(), delete: vi.fn() };
+    expect(await deleteUnreferencedMedia(store, ['a.png'], ['<img src="a.png">'])).toEqual([]);
+    expect(store.delete).not.toHaveBeenCalled();
+  });
+});
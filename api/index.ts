@@ -1,6 +1,55 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import { randomUUID, createHash } from 'crypto';
+import {
+  scheduleReview,
+  seedFsrsState,
+  isLapse,
+  resolveSchedulingOptions,
+  countTodaysReviews,
+  remainingDailyBudget,
+  startOfDay,
+  addDays,
+  composeSession,
+  snapshotCardState,
+  restoreCardState,
+  isLeechLapse,
+  LEECH_TAG,
+  BURIED_QUEUE_STATES,
+  queueStateUpdate,
+  type CardStage,
+  type DailyBudget,
+  type SchedulingAlgorithm,
+  type SchedulingOptionsInput
+} from '../shared/scheduler';
+import { hasAnyTag, parseTags, formatTags } from '../shared/tags';
+import { generateSiblingCards, syncSiblingContent } from '../shared/siblings';
+import { planClozeCards } from '../shared/cloze';
+import {
+  BUILT_IN_NOTE_TYPES,
+  builtInNoteType,
+  builtInNoteFields,
+  generateNoteCards,
+  isBuiltInNoteType,
+  isPlainNoteType,
+  planNoteCards,
+  type GeneratedCard,
+  type NoteFields,
+  type NoteTemplate,
+  type NoteTypeDefinition
+} from '../shared/noteTypes';
+import {
+  MEDIA_TYPES,
+  MAX_MEDIA_BYTES,
+  MEDIA_GC_GRACE_MS,
+  mediaFilename,
+  isMediaFilename
+} from '../shared/media';
+import { MATH_MACRO_NAME, MAX_MATH_MACROS, MAX_MATH_MACRO_LENGTH } from '../shared/mathMacros';
+import { ankiPackageFilename, buildAnkiCollection, collectAnkiExportNotes } from '../shared/ankiExport';
+import { createMediaStore, deleteUnreferencedMedia, type MediaStore } from './_media';
+import { writeAnkiPackage } from './_anki';
 
 // Extend global types
 declare global {
@@ -17,11 +66,19 @@ prisma = global.prisma;
 // Schemas
 
 
+const mathMacrosSchema = z.record(
+  z.string().regex(MATH_MACRO_NAME, 'Macro names look like \\name'),
+  z.string().min(1).max(MAX_MATH_MACRO_LENGTH)
+).refine(macros => Object.keys(macros).length <= MAX_MATH_MACROS, `At most ${MAX_MATH_MACROS} macros`);
+
 const createDeckSchema = z.object({
   name: z.string().min(1),
   description: z.string().optional(),
   isPublic: z.boolean().optional().default(false),
   tags: z.string().optional().default(""),
+  algorithm: z.enum(['sm2', 'fsrs']).optional().default('sm2'),
+  optionsId: z.string().nullable().optional(),
+  mathMacros: mathMacrosSchema.optional(),
 });
 
 const updateDeckSchema = z.object({
@@ -29,31 +86,104 @@ const updateDeckSchema = z.object({
   description: z.string().optional(),
   isPublic: z.boolean().optional(),
   tags: z.string().optional(),
+  algorithm: z.enum(['sm2', 'fsrs']).optional(),
+  optionsId: z.string().nullable().optional(),
+  mathMacros: mathMacrosSchema.optional(),
 });
 
+const deckOptionsSchema = z.object({
+  name: z.string().min(1),
+  learningSteps: z.array(z.number().int().positive()).min(1).optional(),
+  relearningSteps: z.array(z.number().int().positive()).min(1).optional(),
+  graduatingInterval: z.number().positive().optional(),
+  easyInterval: z.number().positive().optional(),
+  maximumInterval: z.number().positive().optional(),
+  startingEase: z.number().min(1.3).max(5).optional(),
+  masteryStreak: z.number().int().min(1).optional(),
+  desiredRetention: z.number().min(0.7).max(0.99).optional(),
+  newCardsPerDay: z.number().int().min(0).optional(),
+  reviewsPerDay: z.number().int().min(0).optional(),
+  reviewsPerNewCard: z.number().int().min(0).optional(),
+  leechThreshold: z.number().int().min(0).optional(),
+  leechAction: z.enum(['tag', 'suspend']).optional(),
+  answerIgnoreCase: z.boolean().optional(),
+  answerIgnoreAccents: z.boolean().optional(),
+  answerIgnorePunctuation: z.boolean().optional(),
+  answerTolerance: z.number().int().min(0).optional(),
+});
+
+const updateDeckOptionsSchema = deckOptionsSchema.partial();
+
+// Cloze cards keep the answers in the front text, so their back is optional extra info
+const requireBackUnlessCloze = (card: { back?: string; type?: string }) =>
+  card.back === undefined || card.back.length > 0 || card.type === 'cloze';
+
 const createCardSchema = z.object({
   deckId: z.string(),
   front: z.string().min(1),
-  back: z.string().min(1),
+  back: z.string(),
   hint: z.string().optional(),
   type: z.string().optional().default("basic"),
   tags: z.string().optional().default(""),
-});
+}).refine(requireBackUnlessCloze, { message: 'Back is required', path: ['back'] });
 
 const updateCardSchema = z.object({
   front: z.string().min(1).optional(),
-  back: z.string().min(1).optional(),
+  back: z.string().optional(),
   hint: z.string().optional(),
   type: z.string().optional(),
   tags: z.string().optional(),
+  queueState: z.enum(['normal', 'suspended', 'buried-until-tomorrow', 'buried-manually']).optional(),
+}).refine(requireBackUnlessCloze, { message: 'Back is required', path: ['back'] });
+
+const noteTypeBaseSchema = z.object({
+  name: z.string().min(1),
+  fields: z.array(z.string().trim().min(1)).min(1),
+  templates: z.array(z.object({
+    name: z.string().min(1),
+    front: z.string().min(1),
+    back: z.string(),
+    cardType: z.enum(['basic', 'reverse', 'typed', 'choice', 'cloze']),
+  })).min(1),
+  isCloze: z.boolean().optional(),
 });
 
-const startStudySessionSchema = z.object({
+const uniqueFieldNames = (noteType: { fields?: string[] }) =>
+  !noteType.fields || new Set(noteType.fields).size === noteType.fields.length;
+
+const noteTypeSchema = noteTypeBaseSchema.refine(uniqueFieldNames, { message: 'Field names must be unique', path: ['fields'] });
+
+const updateNoteTypeSchema = noteTypeBaseSchema.partial().refine(uniqueFieldNames, { message: 'Field names must be unique', path: ['fields'] });
+
+const createNoteSchema = z.object({
   deckId: z.string(),
-  sessionType: z.string().optional().default("mixed"),
+  noteTypeId: z.string(),
+  fields: z.record(z.string()),
+  hint: z.string().optional(),
+  tags: z.string().optional().default(""),
+});
+
+const updateNoteSchema = z.object({
+  fields: z.record(z.string()),
+});
+
+const startStudySessionSchema = z.object({
+  deckId: z.string().optional(),
+  sessionType: z.enum(['review', 'learn', 'mixed']).optional().default("mixed"),
   maxCards: z.number().optional().default(20),
 });
 
+const customStudySchema = z.object({
+  deckId: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  stages: z.array(z.enum(['new', 'learning', 'review', 'mastered'])).optional(),
+  minLapses: z.number().int().min(0).optional(),
+  reviewedWithinDays: z.number().int().positive().optional(),
+  failedWithinDays: z.number().int().positive().optional(),
+  mode: z.enum(['reschedule', 'preview']).optional().default('preview'),
+  maxCards: z.number().int().positive().optional().default(50),
+});
+
 const reviewSchema = z.object({
   cardId: z.string(),
   sessionId: z.string().optional(),
@@ -72,11 +202,59 @@ const batchCreateCardsSchema = z.object({
   deckId: z.string(),
   cards: z.array(z.object({
     front: z.string().min(1),
-    back: z.string().min(1),
+    back: z.string(),
     hint: z.string().optional(),
     type: z.string().optional().default("basic"),
     tags: z.string().optional().default(""),
-  })),
+  }).refine(requireBackUnlessCloze, { message: 'Back is required', path: ['back'] })),
+});
+
+// Scheduling carried over from another app, matched to a note's cards by template and cloze number
+const importedCardSchema = z.object({
+  templateIndex: z.number().int().min(0),
+  clozeIndex: z.number().int().min(1).optional(),
+  schedule: z.object({
+    stage: z.enum(['new', 'learning', 'review', 'mastered']),
+    interval: z.number().min(0),
+    easeFactor: z.number().positive(),
+    nextReviewAt: z.coerce.date(),
+    reviewCount: z.number().int().min(0),
+    consecutiveCorrect: z.number().int().min(0),
+    lapses: z.number().int().min(0),
+    queueState: z.enum(['normal', 'suspended']),
+    stability: z.number().min(0),
+    difficulty: z.number().min(0).max(1),
+    lastReviewedAt: z.coerce.date().nullable(),
+  }),
+  reviews: z.array(z.object({
+    quality: z.number().min(0).max(5),
+    responseTime: z.number().int().min(0),
+    wasCorrect: z.boolean(),
+    intervalBefore: z.number(),
+    intervalAfter: z.number(),
+    isCram: z.boolean(),
+    createdAt: z.coerce.date(),
+  })).optional().default([]),
+});
+
+const batchCreateNotesSchema = z.object({
+  deckId: z.string(),
+  notes: z.array(z.object({
+    noteTypeId: z.string(),
+    fields: z.record(z.string()),
+    tags: z.string().optional().default(""),
+    cards: z.array(importedCardSchema).optional().default([]),
+  })).max(500),
+});
+
+const exportDeckSchema = z.object({
+  format: z.enum(['apkg']),
+  scheduling: z.enum(['true', 'false']).optional().default('false'),
+});
+
+const uploadMediaSchema = z.object({
+  contentType: z.string().refine(type => type in MEDIA_TYPES, { message: 'Only PNG, JPEG, GIF and WebP images and MP3, OGG, WAV, WebM and M4A audio can be uploaded' }),
+  data: z.string().min(1), // base64
 });
 
 // Simple rate limiting store (in production, use Redis)
@@ -103,6 +281,170 @@ function rateLimit(req: VercelRequest, res: VercelResponse, limit: number = 100,
   return true;
 }
 
+// Cards that can be studied: normal ones, and buried ones whose burial was on an earlier day.
+// Burials end at the day boundary without being written back, as isInRotation reads them.
+const inRotation = (now: Date = new Date()) => ({
+  OR: [
+    { queueState: 'normal' },
+    { queueState: { in: BURIED_QUEUE_STATES }, OR: [{ buriedAt: null }, { buriedAt: { lt: startOfDay(now) } }] }
+  ]
+});
+
+// Cards on a learning or relearning step shorter than a day, which are studied outside the review limit
+const intradayLearning = { stage: 'learning', interval: { lt: 1 } };
+
+// Built-in note types come from shared code, custom ones from the database
+const toNoteTypeDefinition = (noteType: { id: string; name: string; fields: string[]; templates: unknown; isCloze: boolean }): NoteTypeDefinition => ({
+  id: noteType.id,
+  name: noteType.name,
+  fields: noteType.fields,
+  templates: noteType.templates as NoteTemplate[],
+  isCloze: noteType.isCloze,
+});
+
+async function findNoteType(id: string): Promise<NoteTypeDefinition | null> {
+  const builtIn = BUILT_IN_NOTE_TYPES.find(noteType => noteType.id === id);
+  if (builtIn) return builtIn;
+  
+  const noteType = await prisma.noteType.findUnique({ where: { id } });
+  return noteType ? toNoteTypeDefinition(noteType) : null;
+}
+
+const cardFromNote = (deckId: string, noteId: string, card: GeneratedCard, tags: string) => ({
+  deckId,
+  noteId,
+  front: card.front,
+  back: card.back,
+  hint: card.hint ?? undefined,
+  type: card.type,
+  templateIndex: card.templateIndex,
+  clozeIndex: card.clozeIndex,
+  tags
+});
+
+type ImportedCard = z.infer<typeof importedCardSchema>;
+
+// A note and the cards it generates, as operations for one transaction (the note comes first).
+// Cards matching an imported card by template and cloze number take over its schedule and reviews.
+function noteCreateOperations(deckId: string, noteTypeId: string, fields: NoteFields, cards: GeneratedCard[], tags: string, imported: ImportedCard[] = []) {
+  const noteId = randomUUID();
+  const operations = [];
+  const reviews = [];
+  for (const card of cards) {
+    const match = imported.find(importedCard =>
+      importedCard.templateIndex === card.templateIndex && (importedCard.clozeIndex ?? null) === (card.clozeIndex ?? null));
+    if (!match) {
+      operations.push(prisma.card.create({ data: cardFromNote(deckId, noteId, card, tags) }));
+      continue;
+    }
+    const cardId = randomUUID();
+    operations.push(prisma.card.create({ data: { ...cardFromNote(deckId, noteId, card, tags), id: cardId, ...match.schedule } }));
+    reviews.push(...match.reviews.map(review => ({ ...review, cardId })));
+  }
+  return [
+    prisma.note.create({ data: { id: noteId, deckId, noteTypeId, fields } }),
+    ...operations,
+    ...(reviews.length > 0 ? [prisma.reviewHistory.createMany({ data: reviews })] : [])
+  ];
+}
+
+// Re-render a note's cards from its fields, keeping the schedule of every card that is still generated
+async function syncNoteCards(note: { id: string; deckId: string; fields: unknown }, noteType: NoteTypeDefinition) {
+  const generated = generateNoteCards(noteType, note.fields as NoteFields);
+  if (generated.length === 0) return null;
+  
+  const existing = await prisma.card.findMany({
+    where: { noteId: note.id },
+    select: { id: true, type: true, templateIndex: true, clozeIndex: true, tags: true }
+  });
+  const plan = planNoteCards(noteType, generated, existing);
+  // New cards share the note's tags, but not a leech tag earned by one of its cards
+  const tags = formatTags(parseTags(existing[0]?.tags).filter(tag => tag !== LEECH_TAG));
+  
+  await prisma.$transaction([
+    ...plan.update.map(({ id, card }) =>
+      prisma.card.update({
+        where: { id },
+        data: { front: card.front, back: card.back, type: card.type, templateIndex: card.templateIndex, clozeIndex: card.clozeIndex ?? null }
+      })
+    ),
+    ...plan.create.map(card => prisma.card.create({ data: cardFromNote(note.deckId, note.id, card, tags) })),
+    prisma.card.deleteMany({ where: { id: { in: plan.remove } } })
+  ]);
+  return plan;
+}
+
+// Created on first use, so a misconfigured store only breaks media routes
+let mediaStore: MediaStore | undefined;
+const getMediaStore = () => mediaStore ??= createMediaStore();
+
+/**
+ * Delete stored media that no card or note refers to any more. Recent uploads
+ * are kept, since they may belong to a card that hasn't been saved yet.
+ */
+async function collectMediaGarbage(now: Date = new Date()) {
+  const candidates = await prisma.media.findMany({
+    where: { uploadedAt: { lt: new Date(now.getTime() - MEDIA_GC_GRACE_MS) } },
+    select: { filename: true }
+  });
+  if (candidates.length === 0) return [];
+  
+  const [cards, notes] = await Promise.all([
+    prisma.card.findMany({ select: { front: true, back: true, hint: true } }),
+    prisma.note.findMany({ select: { fields: true } })
+  ]);
+  const texts = [
+    ...cards.flatMap(card => [card.front, card.back, card.hint]),
+    ...notes.flatMap(note => Object.values(note.fields as NoteFields))
+  ];
+  
+  const unused = await deleteUnreferencedMedia(getMediaStore(), candidates.map(media => media.filename), texts);
+  await prisma.media.deleteMany({ where: { filename: { in: unused } } });
+  return unused;
+}
+
+// Today's remaining quota per deck, capped by the cards actually waiting, and the learning cards due outside it
+async function getDailyBudgets(decks: Array<{ id: string; options: SchedulingOptionsInput | null }>) {
+  const now = new Date();
+  const deckIds = decks.map(deck => deck.id);
+  
+  const [history, dueReviews, dueLearning, newCards] = await Promise.all([
+    prisma.reviewHistory.findMany({
+      where: { card: { deckId: { in: deckIds } }, createdAt: { gte: startOfDay(now) }, isCram: false },
+      select: { cardId: true, stageBefore: true, intervalBefore: true, createdAt: true, card: { select: { deckId: true } } }
+    }),
+    prisma.card.groupBy({
+      by: ['deckId'],
+      where: { deckId: { in: deckIds }, stage: { not: 'new' }, nextReviewAt: { lte: now }, AND: [inRotation(now), { NOT: intradayLearning }] },
+      _count: { _all: true }
+    }),
+    prisma.card.groupBy({
+      by: ['deckId'],
+      where: { deckId: { in: deckIds }, ...intradayLearning, nextReviewAt: { lte: now }, AND: [inRotation(now)] },
+      _count: { _all: true }
+    }),
+    prisma.card.groupBy({
+      by: ['deckId'],
+      where: { deckId: { in: deckIds }, stage: 'new', nextReviewAt: { lte: now }, AND: [inRotation(now)] },
+      _count: { _all: true }
+    })
+  ]);
+  
+  const dueByDeck = new Map(dueReviews.map(group => [group.deckId, group._count._all]));
+  const learningByDeck = new Map(dueLearning.map(group => [group.deckId, group._count._all]));
+  const newByDeck = new Map(newCards.map(group => [group.deckId, group._count._all]));
+  
+  return new Map<string, DailyBudget & { learningDue: number }>(decks.map(deck => {
+    const counts = countTodaysReviews(history.filter(entry => entry.card.deckId === deck.id), now);
+    const budget = remainingDailyBudget(deck.options, counts);
+    return [deck.id, {
+      newLeft: Math.min(budget.newLeft, newByDeck.get(deck.id) || 0),
+      reviewsLeft: Math.min(budget.reviewsLeft, dueByDeck.get(deck.id) || 0),
+      learningDue: learningByDeck.get(deck.id) || 0
+    }];
+  }));
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Apply rate limiting
   const limit = 100;
@@ -143,20 +485,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       if (req.method === 'GET') {
         const decks = await prisma.deck.findMany({
           orderBy: { createdAt: 'desc' },
-          include: { _count: { select: { cards: true } } }
+          include: { options: true, _count: { select: { cards: true } } }
         });
         
+        const budgets = await getDailyBudgets(decks);
+        
         return res.status(200).json({
-          decks: decks.map(deck => ({ ...deck, cardCount: deck._count.cards, dueCount: 0 })),
+          decks: decks.map(deck => {
+            const budget = budgets.get(deck.id)!;
+            return {
+              ...deck,
+              cardCount: deck._count.cards,
+              dueCount: budget.newLeft + budget.reviewsLeft + budget.learningDue,
+              ...budget
+            };
+          }),
           pagination: { page: 1, limit: 50, total: decks.length, totalPages: 1 }
         });
       }
       
       if (req.method === 'POST') {
-        const { name, description, isPublic, tags } = createDeckSchema.parse(req.body);
+        const { name, description, isPublic, tags, algorithm, optionsId, mathMacros } = createDeckSchema.parse(req.body);
         const deck = await prisma.deck.create({
-          data: { name, description, isPublic, tags },
-          include: { _count: { select: { cards: true } } }
+          data: { name, description, isPublic, tags, algorithm, optionsId, mathMacros },
+          include: { options: true, _count: { select: { cards: true } } }
         });
         
         return res.status(201).json({
@@ -172,15 +524,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       if (req.method === 'GET') {
         const deck = await prisma.deck.findUnique({
           where: { id: deckId },
-          include: { _count: { select: { cards: true } } }
+          include: { options: true, _count: { select: { cards: true } } }
         });
         
         if (!deck) {
           return res.status(404).json({ error: 'Deck not found' });
         }
         
+        const budget = (await getDailyBudgets([deck])).get(deck.id)!;
+        
         return res.status(200).json({
-          deck: { ...deck, cardCount: deck._count.cards }
+          deck: {
+            ...deck,
+            cardCount: deck._count.cards,
+            dueCount: budget.newLeft + budget.reviewsLeft + budget.learningDue,
+            ...budget
+          }
         });
       }
       
@@ -194,10 +553,31 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           return res.status(404).json({ error: 'Deck not found' });
         }
         
+        // Seed FSRS memory state from review history when switching algorithms
+        if (updateData.algorithm === 'fsrs' && existingDeck.algorithm !== 'fsrs') {
+          const cards = await prisma.card.findMany({
+            where: { deckId },
+            include: { reviewHistory: { where: { isCram: false }, select: { quality: true, createdAt: true } } }
+          });
+          
+          const seeded = cards
+            .map(card => ({ id: card.id, state: seedFsrsState(card.reviewHistory) }))
+            .filter(entry => entry.state !== null);
+          
+          await prisma.$transaction(
+            seeded.map(({ id, state }) =>
+              prisma.card.update({
+                where: { id },
+                data: state!
+              })
+            )
+          );
+        }
+        
         const deck = await prisma.deck.update({
           where: { id: deckId },
           data: updateData,
-          include: { _count: { select: { cards: true } } }
+          include: { options: true, _count: { select: { cards: true } } }
         });
         
         return res.status(200).json({
@@ -219,6 +599,291 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
+    // Route: /api/deck-options
+    if (pathSegments[0] === 'deck-options' && pathSegments.length === 1) {
+      if (req.method === 'GET') {
+        const presets = await prisma.deckOptions.findMany({
+          orderBy: { createdAt: 'asc' },
+          include: { _count: { select: { decks: true } } }
+        });
+        
+        return res.status(200).json({
+          options: presets.map(preset => ({ ...preset, deckCount: preset._count.decks }))
+        });
+      }
+      
+      if (req.method === 'POST') {
+        const data = deckOptionsSchema.parse(req.body);
+        const preset = await prisma.deckOptions.create({ data });
+        
+        return res.status(201).json({ options: { ...preset, deckCount: 0 } });
+      }
+    }
+
+    // Route: /api/deck-options/[id]
+    if (pathSegments[0] === 'deck-options' && pathSegments.length === 2) {
+      const optionsId = pathSegments[1];
+      
+      const existingPreset = await prisma.deckOptions.findUnique({
+        where: { id: optionsId }
+      });
+      
+      if (!existingPreset) {
+        return res.status(404).json({ error: 'Deck options not found' });
+      }
+      
+      if (req.method === 'PUT') {
+        const updateData = updateDeckOptionsSchema.parse(req.body);
+        const preset = await prisma.deckOptions.update({
+          where: { id: optionsId },
+          data: updateData,
+          include: { _count: { select: { decks: true } } }
+        });
+        
+        return res.status(200).json({ options: { ...preset, deckCount: preset._count.decks } });
+      }
+      
+      if (req.method === 'DELETE') {
+        // Decks using this preset fall back to the defaults
+        await prisma.deckOptions.delete({ where: { id: optionsId } });
+        return res.status(200).json({ message: 'Deck options deleted successfully' });
+      }
+    }
+
+    // Route: /api/note-types
+    if (pathSegments[0] === 'note-types' && pathSegments.length === 1) {
+      if (req.method === 'GET') {
+        const customTypes = await prisma.noteType.findMany({ orderBy: { createdAt: 'asc' } });
+        
+        return res.status(200).json({
+          noteTypes: [
+            ...BUILT_IN_NOTE_TYPES.map(noteType => ({ ...noteType, builtIn: true })),
+            ...customTypes.map(noteType => ({ ...toNoteTypeDefinition(noteType), builtIn: false }))
+          ]
+        });
+      }
+      
+      if (req.method === 'POST') {
+        const { isCloze, ...data } = noteTypeSchema.parse(req.body);
+        const noteType = await prisma.noteType.create({ data: { ...data, isCloze: Boolean(isCloze) } });
+        
+        return res.status(201).json({ noteType: { ...toNoteTypeDefinition(noteType), builtIn: false } });
+      }
+    }
+
+    // Route: /api/note-types/[id]
+    if (pathSegments[0] === 'note-types' && pathSegments.length === 2) {
+      const noteTypeId = pathSegments[1];
+      
+      if (isBuiltInNoteType(noteTypeId)) {
+        return res.status(400).json({ error: 'Built-in note types cannot be changed' });
+      }
+      
+      const existingNoteType = await prisma.noteType.findUnique({
+        where: { id: noteTypeId }
+      });
+      
+      if (!existingNoteType) {
+        return res.status(404).json({ error: 'Note type not found' });
+      }
+      
+      if (req.method === 'PUT') {
+        const updateData = updateNoteTypeSchema.parse(req.body);
+        const noteType = toNoteTypeDefinition(await prisma.noteType.update({
+          where: { id: noteTypeId },
+          data: updateData
+        }));
+        
+        // Re-render every note of this type with the new fields and templates
+        const notes = await prisma.note.findMany({ where: { noteTypeId } });
+        for (const note of notes) {
+          await syncNoteCards(note, noteType);
+        }
+        
+        return res.status(200).json({ noteType: { ...noteType, builtIn: false }, notesUpdated: notes.length });
+      }
+      
+      if (req.method === 'DELETE') {
+        const noteCount = await prisma.note.count({ where: { noteTypeId } });
+        if (noteCount > 0) {
+          return res.status(409).json({ error: `This note type is used by ${noteCount} note${noteCount === 1 ? '' : 's'}` });
+        }
+        
+        await prisma.noteType.delete({ where: { id: noteTypeId } });
+        return res.status(200).json({ message: 'Note type deleted successfully' });
+      }
+    }
+
+    // Route: /api/notes
+    if (pathSegments[0] === 'notes' && pathSegments.length === 1 && req.method === 'POST') {
+      const { deckId, noteTypeId, fields, hint, tags } = createNoteSchema.parse(req.body);
+      
+      const [deck, noteType] = await Promise.all([
+        prisma.deck.findUnique({ where: { id: deckId } }),
+        findNoteType(noteTypeId)
+      ]);
+      
+      if (!deck) {
+        return res.status(404).json({ error: 'Deck not found' });
+      }
+      if (!noteType) {
+        return res.status(404).json({ error: 'Note type not found' });
+      }
+      
+      // The hint describes the question side, so reverse cards don't get it
+      const cards = generateNoteCards(noteType, fields).map(card => card.type === 'reverse' ? card : { ...card, hint });
+      if (cards.length === 0) {
+        return res.status(400).json({ error: 'This note does not generate any cards; fill in the fields its templates use' });
+      }
+      
+      const [note, ...createdCards] = await prisma.$transaction(noteCreateOperations(deckId, noteType.id, fields, cards, tags));
+      
+      return res.status(201).json({ note, cards: createdCards });
+    }
+
+    // Route: /api/notes/batch
+    if (pathSegments[0] === 'notes' && pathSegments[1] === 'batch' && pathSegments.length === 2 && req.method === 'POST') {
+      const { deckId, notes } = batchCreateNotesSchema.parse(req.body);
+      
+      const deck = await prisma.deck.findUnique({ where: { id: deckId } });
+      if (!deck) {
+        return res.status(404).json({ error: 'Deck not found' });
+      }
+      
+      const noteTypeIds = Array.from(new Set(notes.map(note => note.noteTypeId)));
+      const noteTypes = new Map<string, NoteTypeDefinition>();
+      for (const noteTypeId of noteTypeIds) {
+        const noteType = await findNoteType(noteTypeId);
+        if (!noteType) {
+          return res.status(404).json({ error: 'Note type not found' });
+        }
+        noteTypes.set(noteTypeId, noteType);
+      }
+      
+      // Notes whose fields don't fill in any template are skipped rather than failing the batch
+      let skipped = 0;
+      const operations = notes.flatMap(note => {
+        const noteType = noteTypes.get(note.noteTypeId)!;
+        const cards = generateNoteCards(noteType, note.fields);
+        if (cards.length === 0) {
+          skipped++;
+          return [];
+        }
+        return noteCreateOperations(deckId, noteType.id, note.fields, cards, note.tags, note.cards);
+      });
+      const created = await prisma.$transaction(operations);
+      
+      return res.status(201).json({
+        noteCount: notes.length - skipped,
+        cardCount: created.filter(record => 'templateIndex' in record).length,
+        skipped
+      });
+    }
+
+    // Route: /api/notes/[id]
+    if (pathSegments[0] === 'notes' && pathSegments.length === 2) {
+      const noteId = pathSegments[1];
+      
+      const note = await prisma.note.findUnique({
+        where: { id: noteId }
+      });
+      
+      if (!note) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+      
+      if (req.method === 'GET') {
+        const [noteType, cards] = await Promise.all([
+          findNoteType(note.noteTypeId),
+          prisma.card.findMany({ where: { noteId }, orderBy: [{ templateIndex: 'asc' }, { clozeIndex: 'asc' }] })
+        ]);
+        
+        return res.status(200).json({ note, noteType, cards });
+      }
+      
+      if (req.method === 'PUT') {
+        const { fields } = updateNoteSchema.parse(req.body);
+        const noteType = await findNoteType(note.noteTypeId);
+        
+        if (!noteType) {
+          return res.status(404).json({ error: 'Note type not found' });
+        }
+        if (generateNoteCards(noteType, fields).length === 0) {
+          return res.status(400).json({ error: 'This note would no longer generate any cards' });
+        }
+        
+        const updatedNote = await prisma.note.update({ where: { id: noteId }, data: { fields } });
+        await syncNoteCards(updatedNote, noteType);
+        const cards = await prisma.card.findMany({ where: { noteId } });
+        
+        return res.status(200).json({ note: updatedNote, cards });
+      }
+      
+      if (req.method === 'DELETE') {
+        await prisma.$transaction([
+          prisma.card.deleteMany({ where: { noteId } }),
+          prisma.note.delete({ where: { id: noteId } })
+        ]);
+        return res.status(200).json({ message: 'Note deleted successfully' });
+      }
+    }
+
+    // Route: /api/media
+    if (pathSegments[0] === 'media' && pathSegments.length === 1 && req.method === 'POST') {
+      const { contentType, data } = uploadMediaSchema.parse(req.body);
+      const bytes = Buffer.from(data, 'base64');
+      
+      if (bytes.length === 0) {
+        return res.status(400).json({ error: 'The file is empty' });
+      }
+      if (bytes.length > MAX_MEDIA_BYTES) {
+        return res.status(413).json({ error: `Files can be at most ${MAX_MEDIA_BYTES / 1024 / 1024} MB` });
+      }
+      
+      // Content-addressed, so uploading the same file twice stores it once
+      const filename = mediaFilename(createHash('sha256').update(bytes).digest('hex').slice(0, 32), contentType);
+      const existing = await prisma.media.findUnique({ where: { filename } });
+      if (!existing) {
+        await getMediaStore().put(filename, bytes, contentType);
+      }
+      
+      const media = await prisma.media.upsert({
+        where: { filename },
+        create: { filename, contentType, size: bytes.length },
+        update: { uploadedAt: new Date() }
+      });
+      
+      return res.status(201).json({ media });
+    }
+
+    // Route: /api/media/gc (GET for the scheduled job, POST on request)
+    if (pathSegments[0] === 'media' && pathSegments[1] === 'gc' && pathSegments.length === 2) {
+      if (req.method === 'GET' || req.method === 'POST') {
+        const removed = await collectMediaGarbage();
+        return res.status(200).json({ removed });
+      }
+    }
+
+    // Route: /api/media/[filename]
+    if (pathSegments[0] === 'media' && pathSegments.length === 2 && req.method === 'GET') {
+      const filename = pathSegments[1];
+      const media = isMediaFilename(filename)
+        ? await prisma.media.findUnique({ where: { filename } })
+        : null;
+      const data = media && await getMediaStore().get(filename);
+      
+      if (!media || !data) {
+        return res.status(404).json({ error: 'Media not found' });
+      }
+      
+      res.setHeader('Content-Type', media.contentType);
+      res.setHeader('Content-Length', data.length);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      // Names are content hashes, so a file never changes
+      res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+      return res.status(200).send(data);
+    }
+
     // Route: /api/cards/deck/[deckId]
     if (pathSegments[0] === 'cards' && pathSegments[1] === 'deck' && pathSegments.length === 3) {
       const deckId = pathSegments[2];
@@ -257,11 +922,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           return res.status(404).json({ error: 'Deck not found' });
         }
         
-        const card = await prisma.card.create({
-          data: { deckId, front, back, hint, type, tags },
-        });
+        // Plain cards are notes of a built-in note type; "reverse" creates a forward and a reverse sibling
+        const noteType = builtInNoteType(type);
+        const [, ...cards] = await prisma.$transaction(
+          noteCreateOperations(deckId, noteType.id, builtInNoteFields(noteType, { front, back }), generateSiblingCards({ front, back, hint, type }), tags)
+        );
         
-        return res.status(201).json({ card });
+        return res.status(201).json({ card: cards[0], cards });
       }
     }
 
@@ -278,21 +945,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(404).json({ error: 'Deck not found' });
       }
       
-      // Create all cards in a transaction
-      const createdCards = await prisma.$transaction(
-        cards.map(card => 
-          prisma.card.create({
-            data: {
-              deckId,
-              front: card.front,
-              back: card.back,
-              hint: card.hint,
-              type: card.type || 'basic',
-              tags: card.tags || ''
-            }
-          })
-        )
+      // Create all notes and their cards in a transaction, expanding two-way notes into siblings
+      const created = await prisma.$transaction(
+        cards.flatMap(card => {
+          const noteType = builtInNoteType(card.type);
+          return noteCreateOperations(
+            deckId,
+            noteType.id,
+            builtInNoteFields(noteType, { front: card.front, back: card.back }),
+            generateSiblingCards({ front: card.front, back: card.back, hint: card.hint, type: card.type }),
+            card.tags || ''
+          );
+        })
       );
+      const createdCards = created.filter(record => !('noteTypeId' in record));
       
       return res.status(201).json({ 
         cards: createdCards,
@@ -318,7 +984,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
       
       if (req.method === 'PUT') {
-        const updateData = updateCardSchema.parse(req.body);
+        const { queueState, ...updateData } = updateCardSchema.parse(req.body);
         const existingCard = await prisma.card.findUnique({
           where: { id: cardId }
         });
@@ -327,11 +993,113 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           return res.status(404).json({ error: 'Card not found' });
         }
         
-        const card = await prisma.card.update({
+        // Content edits to a card with a note go through the note's fields, and its card types through the note type
+        const contentEdited = updateData.front !== undefined || updateData.back !== undefined;
+        const note = existingCard.noteId
+          ? await prisma.note.findUnique({ where: { id: existingCard.noteId } })
+          : null;
+        if (note && updateData.type !== undefined && updateData.type !== existingCard.type) {
+          return res.status(400).json({ error: "A note's cards take their type from its note type" });
+        }
+        if (note && contentEdited) {
+          if (!isPlainNoteType(note.noteTypeId)) {
+            return res.status(400).json({ error: 'Edit this card through its note fields' });
+          }
+          const noteType = builtInNoteType(note.noteTypeId);
+          const front = updateData.front ?? existingCard.front;
+          const back = updateData.back ?? existingCard.back;
+          // Reverse cards show the note's sides swapped
+          const fields = builtInNoteFields(noteType, existingCard.type === 'reverse' ? { front: back, back: front } : { front, back });
+          if (generateNoteCards(noteType, fields).length === 0) {
+            return res.status(400).json({ error: 'This note would no longer generate any cards' });
+          }
+          
+          await prisma.card.update({
+            where: { id: cardId },
+            data: { hint: updateData.hint, tags: updateData.tags, ...(queueState && queueStateUpdate(queueState)) }
+          });
+          const updatedNote = await prisma.note.update({ where: { id: note.id }, data: { fields } });
+          await syncNoteCards(updatedNote, noteType);
+          
+          const card = await prisma.card.findUnique({ where: { id: cardId } });
+          return res.status(200).json({ card });
+        }
+        
+        let card = await prisma.card.update({
           where: { id: cardId },
-          data: updateData
+          data: {
+            ...updateData,
+            // Burying a card records the day it was buried so it can return tomorrow
+            ...(queueState && queueStateUpdate(queueState))
+          }
         });
         
+        // A reverse card from before notes existed becomes the forward card of a reverse note,
+        // which gains the back → front sibling it was always meant to have
+        if (card.type === 'reverse' && !card.noteId) {
+          const noteType = builtInNoteType('reverse');
+          const legacyNote = await prisma.note.create({
+            data: { deckId: card.deckId, noteTypeId: noteType.id, fields: builtInNoteFields(noteType, card) }
+          });
+          card = await prisma.card.update({
+            where: { id: card.id },
+            data: { noteId: legacyNote.id, type: 'basic', templateIndex: 0 }
+          });
+          await syncNoteCards(legacyNote, noteType);
+        }
+        
+        // Cloze notes have one card per cloze number, so editing the text can add or retire cards
+        if (card.type === 'cloze' && updateData.front !== undefined) {
+          const noteId = card.noteId || randomUUID();
+          const noteCards = card.noteId
+            ? await prisma.card.findMany({ where: { noteId, type: 'cloze' }, select: { id: true, clozeIndex: true } })
+            : [card];
+          const plan = planClozeCards(card.front, card.id, noteCards);
+          const assigned = plan.assign.find(entry => entry.id === card.id);
+          
+          await prisma.$transaction([
+            prisma.card.update({
+              where: { id: card.id },
+              data: { noteId, clozeIndex: assigned ? assigned.clozeIndex : undefined }
+            }),
+            ...plan.assign.filter(entry => entry.id !== card.id).map(entry =>
+              prisma.card.update({ where: { id: entry.id }, data: { clozeIndex: entry.clozeIndex } })
+            ),
+            ...plan.create.map(clozeIndex =>
+              prisma.card.create({
+                data: { deckId: card.deckId, front: card.front, back: card.back, hint: card.hint, type: 'cloze', tags: card.tags, noteId, clozeIndex }
+              })
+            ),
+            prisma.card.deleteMany({ where: { id: { in: plan.remove } } })
+          ]);
+          // A card whose cloze number was deleted goes with it, so answer with one of the note's remaining cards
+          card = plan.remove.includes(card.id)
+            ? (await prisma.card.findFirst({ where: { noteId }, orderBy: { clozeIndex: 'asc' } }))!
+            : { ...card, noteId, clozeIndex: assigned ? assigned.clozeIndex : card.clozeIndex };
+        }
+        
+        // The note's cards are rendered from its fields, so only the hint is shared, with cards of the same template
+        if (note && updateData.hint !== undefined) {
+          await prisma.card.updateMany({
+            where: { noteId: note.id, id: { not: card.id }, templateIndex: card.templateIndex },
+            data: { hint: updateData.hint }
+          });
+        }
+        
+        // Keep the other cards of a note from before note types showing the same content
+        const contentChanged = updateData.front !== undefined || updateData.back !== undefined || updateData.hint !== undefined;
+        if (!note && card.noteId && contentChanged) {
+          const siblings = await prisma.card.findMany({
+            where: { noteId: card.noteId, id: { not: card.id } }
+          });
+          await prisma.$transaction(siblings.map(sibling =>
+            prisma.card.update({
+              where: { id: sibling.id },
+              data: syncSiblingContent(card, sibling)
+            })
+          ));
+        }
+        
         return res.status(200).json({ card });
       }
       
@@ -345,6 +1113,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         }
         
         await prisma.card.delete({ where: { id: cardId } });
+        
+        // A note goes once its last card is gone
+        if (existingCard.noteId && await prisma.card.count({ where: { noteId: existingCard.noteId } }) === 0) {
+          await prisma.note.deleteMany({ where: { id: existingCard.noteId } });
+        }
         return res.status(200).json({ message: 'Card deleted successfully' });
       }
     }
@@ -384,33 +1157,136 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (pathSegments[0] === 'study' && pathSegments[1] === 'session' && req.method === 'POST') {
       const { deckId, sessionType, maxCards } = startStudySessionSchema.parse(req.body);
       
-      // Verify deck exists
-      const deck = await prisma.deck.findUnique({
-        where: { id: deckId }
+      // Study one deck, or every deck when no deck is given
+      let decks;
+      if (deckId) {
+        const deck = await prisma.deck.findUnique({
+          where: { id: deckId },
+          include: { options: true }
+        });
+        
+        if (!deck) {
+          return res.status(404).json({ error: 'Deck not found' });
+        }
+        decks = [deck];
+      } else {
+        decks = await prisma.deck.findMany({
+          orderBy: { createdAt: 'asc' },
+          include: { options: true }
+        });
+      }
+      
+      // Work out today's budget from what has already been studied in each deck
+      const budgets = await getDailyBudgets(decks);
+      const cardInclude = {
+        deck: { select: { name: true, algorithm: true, options: true, mathMacros: true } }
+      };
+      
+      // Get every card whose review has fallen due, capped by today's budget. New cards failed on a
+      // learning step wait out the step like any other card, and cards on an intraday learning step
+      // are all taken whatever the review limit says. "learn" sessions only take new cards and
+      // "review" sessions only take due reviews.
+      const perDeck = await Promise.all(decks.map(deck => {
+        const { newLeft, reviewsLeft } = budgets.get(deck.id)!;
+        return Promise.all([
+          prisma.card.findMany({
+            where: {
+              deckId: deck.id,
+              stage: { not: 'new' },
+              nextReviewAt: { lte: new Date() },
+              AND: [inRotation(), { NOT: intradayLearning }]
+            },
+            take: sessionType === 'learn' ? 0 : Math.min(maxCards, reviewsLeft),
+            orderBy: [
+              { nextReviewAt: 'asc' },
+              { createdAt: 'asc' }
+            ],
+            include: cardInclude
+          }),
+          prisma.card.findMany({
+            where: { deckId: deck.id, ...intradayLearning, nextReviewAt: { lte: new Date() }, AND: [inRotation()] },
+            take: sessionType === 'learn' ? 0 : maxCards,
+            orderBy: [
+              { nextReviewAt: 'asc' },
+              { createdAt: 'asc' }
+            ],
+            include: cardInclude
+          }),
+          prisma.card.findMany({
+            where: { deckId: deck.id, stage: 'new', nextReviewAt: { lte: new Date() }, AND: [inRotation()] },
+            take: sessionType === 'review' ? 0 : Math.min(maxCards, newLeft),
+            orderBy: [
+              { nextReviewAt: 'asc' },
+              { createdAt: 'asc' }
+            ],
+            include: cardInclude
+          })
+        ]);
+      }));
+      const reviewCards = perDeck
+        .flatMap(([reviews, learning]) => [...reviews, ...learning])
+        .sort((a, b) => a.nextReviewAt.getTime() - b.nextReviewAt.getTime());
+      const newCards = perDeck.flatMap(([, , unseen]) => unseen);
+      
+      // A single deck mixes at its own ratio; cross-deck sessions use the default
+      const { reviewsPerNewCard } = resolveSchedulingOptions(deckId ? decks[0].options : null);
+      const cards = composeSession(sessionType, reviewCards, newCards, reviewsPerNewCard, maxCards);
+      
+      // Create study session
+      const session = await prisma.studySession.create({
+        data: {
+          deckId: deckId || null,
+          sessionType
+        }
       });
       
-      if (!deck) {
-        return res.status(404).json({ error: 'Deck not found' });
+      return res.status(200).json({ session, cards });
+    }
+
+    // Route: /api/study/custom
+    if (pathSegments[0] === 'study' && pathSegments[1] === 'custom' && req.method === 'POST') {
+      const filters = customStudySchema.parse(req.body);
+      
+      if (filters.deckId) {
+        const deck = await prisma.deck.findUnique({ where: { id: filters.deckId } });
+        if (!deck) {
+          return res.status(404).json({ error: 'Deck not found' });
+        }
       }
       
-      // Get all non-mastered cards for study
-      const cards = await prisma.card.findMany({
-        where: { 
-          deckId,
-          stage: { not: 'mastered' } // Get all cards that aren't mastered
+      // Narrow by tag substring in the query, then match whole tags below
+      const matching = await prisma.card.findMany({
+        where: {
+          deckId: filters.deckId,
+          AND: [inRotation()],
+          stage: filters.stages?.length ? { in: filters.stages } : undefined,
+          lapses: filters.minLapses ? { gte: filters.minLapses } : undefined,
+          lastReviewedAt: filters.reviewedWithinDays
+            ? { gte: addDays(new Date(), -filters.reviewedWithinDays) }
+            : undefined,
+          reviewHistory: filters.failedWithinDays
+            ? { some: { wasCorrect: false, createdAt: { gte: addDays(new Date(), -filters.failedWithinDays) } } }
+            : undefined,
+          OR: filters.tags?.length
+            ? filters.tags.map(tag => ({ tags: { contains: tag, mode: 'insensitive' as const } }))
+            : undefined
         },
-        take: maxCards,
         orderBy: [
           { nextReviewAt: 'asc' },
           { createdAt: 'asc' }
-        ]
+        ],
+        include: {
+          deck: { select: { name: true, algorithm: true, options: true, mathMacros: true } }
+        }
       });
+      const cards = (filters.tags?.length ? matching.filter(card => hasAnyTag(card.tags, filters.tags!)) : matching)
+        .slice(0, filters.maxCards);
       
-      // Create study session
       const session = await prisma.studySession.create({
         data: {
-          deckId,
-          sessionType
+          deckId: filters.deckId || null,
+          sessionType: 'custom',
+          isCram: filters.mode === 'preview'
         }
       });
       
@@ -418,7 +1294,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // Route: /api/study/review
-    if (pathSegments[0] === 'study' && pathSegments[1] === 'review' && req.method === 'POST') {
+    if (pathSegments[0] === 'study' && pathSegments[1] === 'review' && pathSegments.length === 2 && req.method === 'POST') {
       const { cardId, sessionId, quality, responseTime, wasCorrect } = reviewSchema.parse(req.body);
       
       // Verify session exists (if sessionId provided)
@@ -433,124 +1309,185 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         }
       }
       
-      // Get the card
+      // Get the card with its deck's algorithm
       const card = await prisma.card.findUnique({
-        where: { id: cardId }
+        where: { id: cardId },
+        include: { deck: { select: { algorithm: true, options: true } } }
       });
       
       if (!card) {
         return res.status(404).json({ error: 'Card not found' });
       }
       
-      // Enhanced spaced repetition with robust stage management
-      let newInterval = card.interval;
-      let newEaseFactor = card.easeFactor;
-      let newStage = card.stage;
-      let newConsecutiveCorrect = card.consecutiveCorrect || 0;
-      
-      if (wasCorrect) {
-        newConsecutiveCorrect = newConsecutiveCorrect + 1;
-        
-        // Stage progression based on performance and consecutive correct answers
-        if (card.stage === 'new') {
-          newStage = 'learning';
-          newInterval = quality >= 4 ? 2 : 1; // Easy = 2 days, Good = 1 day
-        } else if (card.stage === 'learning') {
-          // Graduate to review after consistent good performance
-          if (newConsecutiveCorrect >= 2 && quality >= 3) {
-            newStage = 'review';
-            newInterval = quality >= 4 ? 5 : 4; // Easy = 5 days, Good = 4 days
-          } else {
-            // Stay in learning but increase interval slightly
-            newInterval = Math.max(1, Math.round(card.interval * 1.3));
+      // Cram sessions log the review but leave the card's schedule untouched
+      if (session?.isCram) {
+        const review = await prisma.reviewHistory.create({
+          data: {
+            cardId,
+            sessionId,
+            quality,
+            responseTime,
+            wasCorrect,
+            ...snapshotCardState(card),
+            intervalAfter: card.interval,
+            isCram: true
           }
-        } else if (card.stage === 'review') {
-          // Graduate to mastered after excellent consistent performance
-          if (newConsecutiveCorrect >= 3 && quality >= 4) {
-            newStage = 'mastered';
-          } else if (newConsecutiveCorrect >= 4 && quality >= 3) {
-            newStage = 'mastered';
-          }
-          // Continue with spaced repetition
-          newInterval = Math.max(1, Math.round(card.interval * newEaseFactor));
-        } else if (card.stage === 'mastered') {
-          // Maintain mastered status with longer intervals
-          newInterval = Math.max(7, Math.round(card.interval * newEaseFactor));
-        }
-        
-        // Adjust ease factor based on quality (1-5 scale)
-        if (quality >= 4) {
-          newEaseFactor = Math.min(2.8, newEaseFactor + 0.1);
-        } else if (quality === 3) {
-          newEaseFactor = Math.min(2.8, newEaseFactor + 0.05);
-        } else {
-          newEaseFactor = Math.max(1.3, newEaseFactor - 0.1);
-        }
-      } else {
-        // Failed review - reset consecutive correct and demote if necessary
-        newConsecutiveCorrect = 0;
-        newEaseFactor = Math.max(1.3, newEaseFactor - 0.2);
+        });
         
-        if (card.stage === 'mastered' || card.stage === 'review') {
-          newStage = 'learning'; // Demote to learning
-          newInterval = 1;
-        } else if (card.stage === 'learning') {
-          newStage = 'new'; // Demote to new
-          newInterval = 0.5; // 12 hours
-        } else {
-          // Already new, just reset interval
-          newInterval = 0.25; // 6 hours
-        }
+        const { deck: _deck, ...unchangedCard } = card;
+        return res.status(200).json({
+          reviewId: review.id,
+          card: unchangedCard,
+          nextReviewAt: card.nextReviewAt,
+          interval: card.interval
+        });
       }
       
-      const nextReviewAt = new Date();
-      nextReviewAt.setDate(nextReviewAt.getDate() + newInterval);
+      // Calculate the next scheduling state with the shared scheduler
+      const scheduled = scheduleReview(
+        {
+          stage: card.stage as CardStage,
+          interval: card.interval,
+          easeFactor: card.easeFactor,
+          consecutiveCorrect: card.consecutiveCorrect,
+          stability: card.stability,
+          difficulty: card.difficulty,
+          lastReviewedAt: card.lastReviewedAt,
+          relearningInterval: card.relearningInterval,
+        },
+        { quality, wasCorrect },
+        { algorithm: card.deck.algorithm as SchedulingAlgorithm, options: card.deck.options }
+      );
+      const newInterval = scheduled.interval;
+      const nextReviewAt = scheduled.nextReviewAt;
+      
+      // Cards that keep lapsing get tagged as leeches and, if the deck says so, suspended
+      const lapsed = isLapse({ stage: card.stage as CardStage }, { quality, wasCorrect });
+      const options = resolveSchedulingOptions(card.deck.options);
+      const leech = lapsed && isLeechLapse(card.lapses + 1, options);
       
       // Update card
       const updatedCard = await prisma.card.update({
         where: { id: cardId },
         data: {
-          stage: newStage,
+          stage: scheduled.stage,
           interval: newInterval,
-          easeFactor: newEaseFactor,
+          easeFactor: scheduled.easeFactor,
           nextReviewAt,
           reviewCount: { increment: 1 },
-          consecutiveCorrect: newConsecutiveCorrect
+          consecutiveCorrect: scheduled.consecutiveCorrect,
+          lapses: lapsed ? { increment: 1 } : undefined,
+          stability: scheduled.stability,
+          difficulty: scheduled.difficulty,
+          lastReviewedAt: scheduled.lastReviewedAt,
+          relearningInterval: scheduled.relearningInterval,
+          tags: leech ? formatTags([...parseTags(card.tags), LEECH_TAG]) : undefined,
+          queueState: leech && options.leechAction === 'suspend' ? 'suspended' : undefined
         }
       });
       
-      // Create review history
-      await prisma.reviewHistory.create({
+      // Create review history with the previous card state so it can be undone
+      const review = await prisma.reviewHistory.create({
         data: {
           cardId,
           sessionId: sessionId || null,
           quality,
           responseTime,
           wasCorrect,
-          intervalBefore: card.interval,
+          ...snapshotCardState(card),
           intervalAfter: newInterval
         }
       });
       
+      // Siblings from the same note sit out the rest of the day
+      if (card.noteId) {
+        await prisma.card.updateMany({
+          where: { noteId: card.noteId, id: { not: card.id }, AND: [inRotation()] },
+          data: queueStateUpdate('buried-until-tomorrow')
+        });
+      }
+      
       return res.status(200).json({ 
+        reviewId: review.id,
         card: updatedCard,
         nextReviewAt,
-        interval: newInterval
+        interval: newInterval,
+        leech
       });
     }
 
+    // Route: /api/study/review/[id]/undo
+    if (pathSegments[0] === 'study' && pathSegments[1] === 'review' && pathSegments[3] === 'undo' && req.method === 'POST') {
+      const reviewId = pathSegments[2];
+      
+      const review = await prisma.reviewHistory.findUnique({
+        where: { id: reviewId }
+      });
+      
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      
+      // Only the card's latest review can be undone, otherwise later reviews would be lost
+      const latest = await prisma.reviewHistory.findFirst({
+        where: { cardId: review.cardId },
+        orderBy: { createdAt: 'desc' }
+      });
+      if (latest?.id !== review.id) {
+        return res.status(409).json({ error: 'Only the most recent review of a card can be undone' });
+      }
+      
+      // Cram reviews never changed the card, so only the log entry goes
+      if (review.isCram) {
+        await prisma.reviewHistory.delete({ where: { id: reviewId } });
+        const card = await prisma.card.findUnique({ where: { id: review.cardId } });
+        return res.status(200).json({ card });
+      }
+      
+      const restored = restoreCardState(review);
+      if (!restored) {
+        return res.status(409).json({ error: 'This review was recorded before undo was available' });
+      }
+      
+      const [card] = await prisma.$transaction([
+        prisma.card.update({
+          where: { id: review.cardId },
+          data: {
+            ...restored,
+            reviewCount: { decrement: 1 }
+          }
+        }),
+        prisma.reviewHistory.delete({ where: { id: reviewId } })
+      ]);
+      
+      // Unbury the siblings this review buried, unless another review of the note today still applies
+      if (card.noteId) {
+        const now = new Date();
+        const otherReviewsToday = await prisma.reviewHistory.count({
+          where: { card: { noteId: card.noteId }, createdAt: { gte: startOfDay(now) }, isCram: false }
+        });
+        if (otherReviewsToday === 0) {
+          await prisma.card.updateMany({
+            where: { noteId: card.noteId, id: { not: card.id }, queueState: 'buried-until-tomorrow' },
+            data: queueStateUpdate('normal', now)
+          });
+        }
+      }
+      
+      return res.status(200).json({ card });
+    }
+
     // Route: /api/study/due
     if (pathSegments[0] === 'study' && pathSegments[1] === 'due' && req.method === 'GET') {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const now = new Date();
       
       // Get all cards due for study
       const cards = await prisma.card.findMany(
         {
           where: {
-            OR: [
-              { nextReviewAt: { lte: new Date() } },
-              { stage: 'new' }
-            ]
+            AND: [inRotation(now)],
+            nextReviewAt: { lte: now }
           },
           take: limit,
           orderBy: [
@@ -566,10 +1503,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // Get total count of due cards
       const totalDue = await prisma.card.count({
         where: {
-          OR: [
-            { nextReviewAt: { lte: new Date() } },
-            { stage: 'new' }
-          ]
+          AND: [inRotation(now)],
+          nextReviewAt: { lte: now }
         }
       });
       
@@ -632,7 +1567,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           easeFactor: 2.5,
           nextReviewAt: new Date(),
           reviewCount: 0,
-          consecutiveCorrect: 0
+          consecutiveCorrect: 0,
+          lapses: 0,
+          stability: 0,
+          difficulty: 0.5,
+          lastReviewedAt: null,
+          relearningInterval: null
         }
       });
       
@@ -642,6 +1582,42 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    // Route: /api/decks/[id]/export
+    if (pathSegments[0] === 'decks' && pathSegments.length === 3 && pathSegments[2] === 'export' && req.method === 'GET') {
+      const deckId = pathSegments[1];
+      const { scheduling } = exportDeckSchema.parse(req.query);
+      
+      const deck = await prisma.deck.findUnique({ where: { id: deckId } });
+      if (!deck) {
+        return res.status(404).json({ error: 'Deck not found' });
+      }
+      
+      const cards = await prisma.card.findMany({ where: { deckId }, orderBy: { createdAt: 'asc' } });
+      const noteIds = Array.from(new Set(cards.map(card => card.noteId).filter((id): id is string => Boolean(id))));
+      const notes = await prisma.note.findMany({ where: { id: { in: noteIds } } });
+      const noteTypes = await Promise.all(Array.from(new Set(notes.map(note => note.noteTypeId))).map(findNoteType));
+      const reviews = scheduling === 'true'
+        ? await prisma.reviewHistory.findMany({ where: { card: { deckId } }, orderBy: { createdAt: 'asc' } })
+        : null;
+      
+      const collection = await buildAnkiCollection(
+        deck,
+        collectAnkiExportNotes(cards, notes, noteTypes.filter((noteType): noteType is NoteTypeDefinition => noteType !== null)),
+        reviews,
+        async text => createHash('sha1').update(text).digest('hex')
+      );
+      const stored = new Set((await prisma.media.findMany({
+        where: { filename: { in: collection.media } },
+        select: { filename: true }
+      })).map(media => media.filename));
+      const apkg = await writeAnkiPackage(collection, async filename => stored.has(filename) ? getMediaStore().get(filename) : null);
+      
+      res.setHeader('Content-Type', 'application/octet-stream');
+      // Deck names may hold any character, which headers only carry percent-encoded
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(ankiPackageFilename(deck.name))}`);
+      res.setHeader('Content-Length', apkg.length);
+      return res.status(200).send(apkg);
+    }
 
     // Default 404
     return res.status(404).json({
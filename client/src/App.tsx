@@ -22,6 +22,14 @@ function App() {
             path="/deck/:id" 
             element={<DeckViewPage />} 
           />
+          <Route 
+            path="/study" 
+            element={<StudySessionPage />} 
+          />
+          <Route 
+            path="/study/custom" 
+            element={<StudySessionPage custom />} 
+          />
           <Route 
             path="/study/:id" 
             element={<StudySessionPage />} 
@@ -5,11 +5,15 @@
  */
 
 import { useState } from 'react';
-import { ApiService } from '../../services';
+import { ApiService, apiErrorMessage } from '../../services';
 import { Button, MathRenderer, ConfirmModal } from '../ui';
 import EditCardModal from './EditCardModal';
 import { formatDate } from '../../utils/dateUtils';
-import type { Card } from '../../types';
+import { effectiveQueueState, isBuriedState } from '../../../../shared/scheduler';
+import { clozeFaces } from '../../../../shared/cloze';
+import type { MathMacros } from '../../../../shared/mathMacros';
+import { mediaReferences } from '../../../../shared/media';
+import type { Card, CardQueueState } from '../../types';
 
 interface CardListProps {
   cards: Card[];
@@ -17,6 +21,7 @@ interface CardListProps {
   onCardDeleted: () => void;
   onCardUpdated: () => void;
   onCardSelect?: (cardId: string) => void;
+  mathMacros?: MathMacros; // KaTeX macros of the cards' deck
 }
 
 const CardList: React.FC<CardListProps> = ({ 
@@ -24,10 +29,12 @@ const CardList: React.FC<CardListProps> = ({
   selectedCards, 
   onCardDeleted, 
   onCardUpdated, 
-  onCardSelect 
+  onCardSelect,
+  mathMacros
 }) => {
   const [editingCard, setEditingCard] = useState<Card | null>(null);
   const [deletingCardId, setDeletingCardId] = useState<string | null>(null);
+  const [updatingCardId, setUpdatingCardId] = useState<string | null>(null);
   const [confirmModal, setConfirmModal] = useState<{
     isOpen: boolean;
     title: string;
@@ -40,6 +47,9 @@ const CardList: React.FC<CardListProps> = ({
     if (!text) return '';
     if (text.length <= maxLength) return text;
     
+    // Media markup would break if cut in half
+    if (mediaReferences(text).length > 0) return text;
+    
     // Find LaTeX expressions in the text
     const latexPatterns = [
       /\\\[(.*?)\\\]/gs,  // Display math \[...\]
@@ -101,6 +111,18 @@ const CardList: React.FC<CardListProps> = ({
     }
   };
 
+  // Suspend, bury or return a card to the study queue
+  const handleQueueStateChange = async (cardId: string, queueState: CardQueueState) => {
+    try {
+      setUpdatingCardId(cardId);
+      await ApiService.updateCard(cardId, { queueState });
+      onCardUpdated();
+    } catch (error) {
+      alert(apiErrorMessage(error, 'Failed to update card'));
+    } finally {
+      setUpdatingCardId(null);
+    }
+  };
 
   const getDifficultyColor = (difficulty: number) => {
     if (difficulty <= 0.3) return 'bg-success-light text-koda-primary';
@@ -120,100 +142,145 @@ const CardList: React.FC<CardListProps> = ({
 
   return (
     <div className="space-y-3 sm:space-y-4">
-      {cards.map((card) => (
-        <div 
-          key={card.id} 
-          className={`card group transition-all duration-200 overflow-hidden ${
-            selectedCards?.has(card.id) ? 'ring-2 ring-koda-primary bg-koda-primary/5' : ''
-          }`}
-        >
-          <div className="flex items-start gap-3 sm:gap-4">
-            {/* Selection Checkbox */}
-            {onCardSelect && (
-              <div className="mt-1 flex-shrink-0">
-                <label className="block cursor-pointer p-2 min-h-[44px] min-w-[44px] flex items-center justify-center">
-                  <input
-                    type="checkbox"
-                    checked={selectedCards?.has(card.id) || false}
-                    onChange={() => onCardSelect(card.id)}
-                    className="w-5 h-5 text-koda-primary border-border rounded focus:ring-koda-primary accent-koda-primary"
-                  />
-                </label>
-              </div>
-            )}
+      {cards.map((card) => {
+        const queueState = effectiveQueueState(card);
+        const isBuried = isBuriedState(queueState);
+        // Cloze faces are HTML, so they are shown whole rather than truncated
+        const isCloze = card.type === 'cloze';
+        const isOcclusion = card.type === 'occlusion';
+        const faces = isCloze
+          ? clozeFaces(card)
+          : { front: truncateContent(card.front, 150), back: truncateContent(card.back, 150) };
+        return (
+          <div 
+            key={card.id} 
+            className={`card group transition-all duration-200 overflow-hidden ${
+              selectedCards?.has(card.id) ? 'ring-2 ring-koda-primary bg-koda-primary/5' : ''
+            }`}
+          >
+            <div className="flex items-start gap-3 sm:gap-4">
+              {/* Selection Checkbox */}
+              {onCardSelect && (
+                <div className="mt-1 flex-shrink-0">
+                  <label className="block cursor-pointer p-2 min-h-[44px] min-w-[44px] flex items-center justify-center">
+                    <input
+                      type="checkbox"
+                      checked={selectedCards?.has(card.id) || false}
+                      onChange={() => onCardSelect(card.id)}
+                      className="w-5 h-5 text-koda-primary border-border rounded focus:ring-koda-primary accent-koda-primary"
+                    />
+                  </label>
+                </div>
+              )}
             
-            <div className="flex-1 min-w-0">
-              <div className="space-y-4 lg:space-y-0 lg:grid lg:grid-cols-2 lg:gap-6 mb-4">
-                {/* Front Content */}
-                <div className="min-w-0">
-                  <div className="flex items-start gap-2 mb-2">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between mb-2">
-                        <h4 className="text-xs font-semibold text-text-muted uppercase tracking-wide">Question</h4>
-                        <span className={`px-2 py-1 rounded text-xs font-medium flex-shrink-0 whitespace-nowrap hidden sm:inline-block ${getStageColor(card.stage)}`}>
-                          {card.stage.charAt(0).toUpperCase() + card.stage.slice(1)}
-                        </span>
-                      </div>
-                      <div className="relative">
-                        <MathRenderer 
-                          content={truncateContent(card.front, 150)}
-                          className="font-semibold text-text-primary group-hover:text-koda-primary transition-colors leading-relaxed max-w-full text-sm block"
-                        />
+              <div className="flex-1 min-w-0">
+                <div className="space-y-4 lg:space-y-0 lg:grid lg:grid-cols-2 lg:gap-6 mb-4">
+                  {/* Front Content */}
+                  <div className="min-w-0">
+                    <div className="flex items-start gap-2 mb-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between mb-2">
+                          <h4 className="text-xs font-semibold text-text-muted uppercase tracking-wide">Question</h4>
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            {(isCloze || isOcclusion) && card.clozeIndex != null && (
+                              <span className="px-2 py-1 rounded text-xs font-medium whitespace-nowrap bg-koda-primary/10 text-koda-primary">
+                                {isOcclusion ? '#' : 'c'}{card.clozeIndex}
+                              </span>
+                            )}
+                            {queueState !== 'normal' && (
+                              <span className="px-2 py-1 rounded text-xs font-medium whitespace-nowrap bg-neutral-100 text-neutral-600">
+                                {isBuried ? 'Buried' : 'Suspended'}
+                              </span>
+                            )}
+                            <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap hidden sm:inline-block ${getStageColor(card.stage)}`}>
+                              {card.stage.charAt(0).toUpperCase() + card.stage.slice(1)}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="relative">
+                          <MathRenderer 
+                            content={faces.front}
+                            macros={mathMacros}
+                            className="font-semibold text-text-primary group-hover:text-koda-primary transition-colors leading-relaxed max-w-full text-sm block"
+                          />
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
                 
-                {/* Back Content */}
-                <div className="min-w-0">
-                  <div className="flex items-center gap-2 mb-2">
-                    <h4 className="text-xs font-semibold text-text-muted uppercase tracking-wide">Answer</h4>
-                  </div>
-                  <div className="relative">
-                    <MathRenderer 
-                      content={truncateContent(card.back, 150)}
-                      className="text-text-secondary leading-relaxed max-w-full text-sm block"
-                    />
+                  {/* Back Content */}
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-2">
+                      <h4 className="text-xs font-semibold text-text-muted uppercase tracking-wide">Answer</h4>
+                    </div>
+                    <div className="relative">
+                      <MathRenderer 
+                        content={faces.back}
+                        macros={mathMacros}
+                        className="text-text-secondary leading-relaxed max-w-full text-sm block"
+                      />
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              {card.hint && (
-                <div className="mb-3 p-2 bg-info-light rounded text-xs text-info">
-                  💡 <span>{truncateContent(card.hint, 100)}</span>
-                </div>
-              )}
+                {card.hint && (
+                  <div className="mb-3 p-2 bg-info-light rounded text-xs text-info">
+                    💡 <span>{truncateContent(card.hint, 100)}</span>
+                  </div>
+                )}
 
-            </div>
+              </div>
 
-            <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2 flex-shrink-0">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setEditingCard(card)}
-                className="min-h-[44px] w-full sm:w-auto"
-              >
-                Edit
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                isLoading={deletingCardId === card.id}
-                onClick={() => handleDeleteCard(card.id)}
-                disabled={deletingCardId === card.id}
-                className="text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300 min-h-[44px] w-full sm:w-auto"
-              >
-                {deletingCardId === card.id ? 'Deleting...' : 'Delete'}
-              </Button>
+              <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2 flex-shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEditingCard(card)}
+                  className="min-h-[44px] w-full sm:w-auto"
+                >
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={updatingCardId === card.id || queueState === 'suspended'}
+                  onClick={() => handleQueueStateChange(card.id, isBuried ? 'normal' : 'buried-manually')}
+                  className="min-h-[44px] w-full sm:w-auto"
+                  title={isBuried ? 'Return to today\'s queue' : 'Hide until tomorrow'}
+                >
+                  {isBuried ? 'Unbury' : 'Bury'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={updatingCardId === card.id}
+                  onClick={() => handleQueueStateChange(card.id, queueState === 'suspended' ? 'normal' : 'suspended')}
+                  className="min-h-[44px] w-full sm:w-auto"
+                  title={queueState === 'suspended' ? 'Return to study' : 'Hide until unsuspended'}
+                >
+                  {queueState === 'suspended' ? 'Unsuspend' : 'Suspend'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  isLoading={deletingCardId === card.id}
+                  onClick={() => handleDeleteCard(card.id)}
+                  disabled={deletingCardId === card.id}
+                  className="text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300 min-h-[44px] w-full sm:w-auto"
+                >
+                  {deletingCardId === card.id ? 'Deleting...' : 'Delete'}
+                </Button>
+              </div>
             </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
 
       {/* Edit Card Modal */}
       {editingCard && (
         <EditCardModal
           card={editingCard}
+          mathMacros={mathMacros}
           onClose={() => setEditingCard(null)}
           onCardUpdated={() => {
             setEditingCard(null);
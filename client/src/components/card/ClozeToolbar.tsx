@@ -0,0 +1,64 @@
+/**
+ * Cloze Toolbar Component
+ * 
+ * Wraps the selected text of a cloze note's textarea in {{cN::...}} markup.
+ */
+
+import { Button } from '../ui';
+import { clozeNumbers, wrapCloze } from '../../../../shared/cloze';
+
+interface ClozeToolbarProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  value: string;
+  onChange: (text: string) => void;
+  disabled?: boolean;
+}
+
+const ClozeToolbar: React.FC<ClozeToolbarProps> = ({ textareaRef, value, onChange, disabled }) => {
+  const numbers = clozeNumbers(value);
+  const lastIndex = numbers.length ? numbers[numbers.length - 1] : null;
+
+  const handleWrap = (index?: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { text, cursor } = wrapCloze(value, textarea.selectionStart, textarea.selectionEnd, index);
+    onChange(text);
+
+    // Restore focus once the new value has been rendered
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => handleWrap()}
+        disabled={disabled}
+      >
+        Wrap in cloze (c{lastIndex === null ? 1 : lastIndex + 1})
+      </Button>
+      {lastIndex !== null && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => handleWrap(lastIndex)}
+          disabled={disabled}
+        >
+          Same card (c{lastIndex})
+        </Button>
+      )}
+      <span className="text-xs text-neutral-500">
+        Add a hint with {'{{c1::answer::hint}}'}
+      </span>
+    </div>
+  );
+};
+
+export default ClozeToolbar;
@@ -0,0 +1,31 @@
+/**
+ * Code Mode Toggle Component
+ *
+ * Switches a card editor's fields between prose and a monospace, unwrapped
+ * mode for writing code.
+ */
+
+import { CodeBracketIcon } from '@heroicons/react/24/outline';
+import { Button } from '../ui';
+
+interface CodeModeToggleProps {
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+const CodeModeToggle: React.FC<CodeModeToggleProps> = ({ enabled, onChange }) => (
+  <Button
+    type="button"
+    variant={enabled ? 'secondary' : 'ghost'}
+    size="sm"
+    onClick={() => onChange(!enabled)}
+    className="ml-auto flex items-center gap-2"
+    title="Monospace fields without line wrapping. Use ```language fences for highlighted code blocks."
+    aria-pressed={enabled}
+  >
+    <CodeBracketIcon className="w-4 h-4" />
+    Code
+  </Button>
+);
+
+export default CodeModeToggle;
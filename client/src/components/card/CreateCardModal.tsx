@@ -1,7 +1,9 @@
 /**
  * Create Card Modal Component
  * 
- * Modal for creating new flashcards with preview functionality.
+ * Modal for creating new flashcards with preview functionality. Cards are
+ * made from a note: its note type decides the fields to fill in and the
+ * cards they generate.
  */
 
 import { useState, useEffect } from 'react';
@@ -10,25 +12,53 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { ApiService } from '../../services';
 import { Button, KodaBear } from '../ui';
-import type { Deck } from '../../types';
+import NoteFieldsForm from './NoteFieldsForm';
+import CodeModeToggle from './CodeModeToggle';
+import NotePreview from './NotePreview';
+import NoteTypeModal from './NoteTypeModal';
+import MathErrorNotice from './MathErrorNotice';
+import { countMathErrors } from '../../utils/mathLint';
+import { hasCodeBlock } from '../../../../shared/math';
+import {
+  BUILT_IN_NOTE_TYPES,
+  builtInNoteFields,
+  builtInNoteType,
+  noteFieldsError,
+  type NoteFields,
+} from '../../../../shared/noteTypes';
+import type { Deck, NoteType } from '../../types';
 
 const createCardSchema = z.object({
-  front: z.string().min(1, 'Front content is required').max(2000, 'Content too long'),
-  back: z.string().min(1, 'Back content is required').max(2000, 'Content too long'),
-  type: z.enum(['basic', 'cloze', 'reverse']),
+  noteTypeId: z.string().min(1, 'Choose a note type'),
+  fields: z.record(z.string().max(2000, 'Content too long')),
 });
 
 type CreateCardFormData = z.infer<typeof createCardSchema>;
 
+// Built-in types are usable before the custom ones have loaded
+const BUILT_IN_TYPES: NoteType[] = BUILT_IN_NOTE_TYPES.map(noteType => ({ ...noteType, builtIn: true }));
+
 interface CreateCardModalProps {
   deck: Deck;
+  initialValues?: { front?: string; back?: string }; // e.g. when splitting a leech
   onClose: () => void;
   onCardCreated: () => void;
 }
 
-const CreateCardModal: React.FC<CreateCardModalProps> = ({ deck, onClose, onCardCreated }) => {
+const CreateCardModal: React.FC<CreateCardModalProps> = ({ deck, initialValues, onClose, onCardCreated }) => {
   const [serverError, setServerError] = useState<string>('');
   const [showPreview, setShowPreview] = useState(false);
+  const [noteTypes, setNoteTypes] = useState<NoteType[]>(BUILT_IN_TYPES);
+  const [showNoteTypes, setShowNoteTypes] = useState(false);
+  const [noteError, setNoteError] = useState<string>('');
+  const [allowMathErrors, setAllowMathErrors] = useState(false);
+  const [codeMode, setCodeMode] = useState(() => hasCodeBlock(initialValues?.front) || hasCodeBlock(initialValues?.back));
+
+  useEffect(() => {
+    ApiService.getNoteTypes()
+      .then(response => setNoteTypes(response.noteTypes))
+      .catch(error => console.error('Failed to load note types:', error));
+  }, []);
 
   // Prevent background scrolling when modal is open
   useEffect(() => {
@@ -43,26 +73,52 @@ const CreateCardModal: React.FC<CreateCardModalProps> = ({ deck, onClose, onCard
     handleSubmit,
     formState: { errors, isSubmitting },
     watch,
+    setValue,
   } = useForm<CreateCardFormData>({
     resolver: zodResolver(createCardSchema),
     defaultValues: {
-      type: 'basic',
+      noteTypeId: 'basic',
+      fields: builtInNoteFields(builtInNoteType('basic'), { front: initialValues?.front || '', back: initialValues?.back || '' }),
     },
   });
 
-  const watchedValues = watch();
+  const noteTypeId = watch('noteTypeId');
+  const fields = watch('fields');
+  const noteType = noteTypes.find(candidate => candidate.id === noteTypeId) || noteTypes[0];
+  const fieldErrors = Object.fromEntries(
+    noteType.fields.map(name => [name, errors.fields?.[name]?.message])
+  );
+
+  const mathErrorCount = countMathErrors(noteType.fields.map(name => fields[name]), deck.mathMacros);
+  const mathBlocked = mathErrorCount > 0 && !allowMathErrors;
+
+  const setFields = (values: NoteFields) => {
+    setNoteError('');
+    setValue('fields', values, { shouldDirty: true });
+  };
+
+  // Carry what was typed over to the new type's fields, in order
+  const changeNoteType = (nextId: string) => {
+    const next = noteTypes.find(candidate => candidate.id === nextId);
+    if (!next) return;
+    const previousValues = noteType.fields.map(name => fields[name] || '');
+    setFields(Object.fromEntries(next.fields.map((name, index) => [name, fields[name] ?? previousValues[index] ?? ''])));
+  };
 
   const onSubmit = async (data: CreateCardFormData) => {
+    const problem = noteFieldsError(noteType, data.fields);
+    if (problem) {
+      setNoteError(problem);
+      return;
+    }
+    if (mathBlocked) return;
+
     try {
       setServerError('');
-      const cardData = {
-        deckId: deck.id,
-        front: data.front.trim(),
-        back: data.back.trim(),
-        type: data.type,
-      };
+      // Only the fields this note type has, without surrounding whitespace
+      const noteFields = Object.fromEntries(noteType.fields.map(name => [name, (data.fields[name] || '').trim()]));
       
-      await ApiService.createCard(cardData);
+      await ApiService.createNote({ deckId: deck.id, noteTypeId: noteType.id, fields: noteFields });
       onCardCreated();
       onClose();
     } catch (error: any) {
@@ -84,7 +140,7 @@ const CreateCardModal: React.FC<CreateCardModalProps> = ({ deck, onClose, onCard
             </p>
           </div>
 
-          <div className="flex space-x-2 mb-6">
+          <div className="flex gap-2 mb-6">
             <Button
               variant={!showPreview ? 'primary' : 'outline'}
               size="sm"
@@ -99,32 +155,18 @@ const CreateCardModal: React.FC<CreateCardModalProps> = ({ deck, onClose, onCard
             >
               Preview
             </Button>
+            {!showPreview && (
+              <CodeModeToggle enabled={codeMode} onChange={setCodeMode} />
+            )}
           </div>
 
           {showPreview ? (
             // Preview Mode
             <div className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="card-flashcard bg-gradient-to-br from-koda-accent-light to-white">
-                  <div className="text-center">
-                    <div className="text-xs text-koda-primary-dark mb-2 opacity-75">FRONT</div>
-                    <div className="text-lg font-medium text-koda-primary-dark">
-                      {watchedValues.front || 'Enter front content...'}
-                    </div>
-                  </div>
-                </div>
-                <div className="card-flashcard bg-gradient-to-br from-blue-50 to-white">
-                  <div className="text-center">
-                    <div className="text-xs text-neutral-600 mb-2 opacity-75">BACK</div>
-                    <div className="text-lg font-medium text-neutral-700">
-                      {watchedValues.back || 'Enter back content...'}  
-                    </div>
-                  </div>
-                </div>
-              </div>
+              <NotePreview noteType={noteType} fields={fields} mathMacros={deck.mathMacros} />
               
               <div className="text-sm text-neutral-500">
-                <span>Type: {watchedValues.type}</span>
+                <span>Note type: {noteType.name}</span>
               </div>
             </div>
           ) : (
@@ -136,57 +178,55 @@ const CreateCardModal: React.FC<CreateCardModalProps> = ({ deck, onClose, onCard
                 </div>
               )}
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <label htmlFor="front" className="block text-sm font-medium text-neutral-700 mb-1">
-                    Front (Question) *
-                  </label>
-                  <textarea
-                    {...register('front')}
-                    id="front"
-                    rows={4}
-                    className="input-primary resize-none"
-                    placeholder="What goes on the front of the card?"
+              <div>
+                <label htmlFor="noteTypeId" className="block text-sm font-medium text-neutral-700 mb-1">
+                  Note Type
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    {...register('noteTypeId', { onChange: (event) => changeNoteType(event.target.value) })}
+                    id="noteTypeId"
+                    className="input-primary flex-1"
                     disabled={isSubmitting}
-                  />
-                  {errors.front && (
-                    <p className="text-koda-error text-sm mt-1">{errors.front.message}</p>
-                  )}
-                </div>
-
-                <div>
-                  <label htmlFor="back" className="block text-sm font-medium text-neutral-700 mb-1">
-                    Back (Answer) *
-                  </label>
-                  <textarea
-                    {...register('back')}
-                    id="back"
-                    rows={4}
-                    className="input-primary resize-none"
-                    placeholder="What goes on the back of the card?"
+                  >
+                    {noteTypes.map(candidate => (
+                      <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                    ))}
+                  </select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowNoteTypes(true)}
                     disabled={isSubmitting}
-                  />
-                  {errors.back && (
-                    <p className="text-koda-error text-sm mt-1">{errors.back.message}</p>
-                  )}
+                  >
+                    Manage
+                  </Button>
                 </div>
               </div>
 
-              <div>
-                <label htmlFor="type" className="block text-sm font-medium text-neutral-700 mb-1">
-                  Card Type
-                </label>
-                <select
-                  {...register('type')}
-                  id="type"
-                  className="input-primary"
-                  disabled={isSubmitting}
-                >
-                  <option value="basic">Basic (Front → Back)</option>
-                  <option value="reverse">Reverse (Back → Front too)</option>
-                  <option value="cloze">Cloze Deletion</option>
-                </select>
-              </div>
+              <NoteFieldsForm
+                noteType={noteType}
+                values={fields}
+                onChange={setFields}
+                errors={fieldErrors}
+                disabled={isSubmitting}
+                mathMacros={deck.mathMacros}
+                codeMode={codeMode}
+              />
+              {noteError && (
+                <p className="text-koda-error text-sm">{noteError}</p>
+              )}
+              <MathErrorNotice
+                count={mathErrorCount}
+                allowed={allowMathErrors}
+                onAllowedChange={setAllowMathErrors}
+                disabled={isSubmitting}
+              />
+
+              {noteType.isCloze && (
+                <NotePreview noteType={noteType} fields={fields} mathMacros={deck.mathMacros} />
+              )}
             </form>
           )}
 
@@ -205,7 +245,7 @@ const CreateCardModal: React.FC<CreateCardModalProps> = ({ deck, onClose, onCard
                 onClick={handleSubmit(onSubmit)}
                 className="flex-1"
                 isLoading={isSubmitting}
-                disabled={isSubmitting || !watchedValues.front || !watchedValues.back}
+                disabled={isSubmitting || noteFieldsError(noteType, fields) !== null || mathBlocked}
               >
                 {isSubmitting ? 'Creating...' : 'Create Card'}
               </Button>
@@ -213,6 +253,13 @@ const CreateCardModal: React.FC<CreateCardModalProps> = ({ deck, onClose, onCard
           </div>
         </div>
       </div>
+
+      {showNoteTypes && (
+        <NoteTypeModal
+          onClose={() => setShowNoteTypes(false)}
+          onNoteTypesChanged={setNoteTypes}
+        />
+      )}
     </div>
   );
 };
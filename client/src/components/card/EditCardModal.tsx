@@ -1,35 +1,69 @@
 /**
  * Edit Card Modal Component
  * 
- * Modal for editing existing flashcards.
+ * Modal for editing existing flashcards. Cards made from a note are edited
+ * through the note's fields, which updates all of its cards.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { ApiService } from '../../services';
+import { ApiService, apiErrorMessage } from '../../services';
 import { Button, KodaBear } from '../ui';
-import type { Card } from '../../types';
+import ClozeToolbar from './ClozeToolbar';
+import NoteFieldsForm from './NoteFieldsForm';
+import NotePreview from './NotePreview';
+import MediaTextarea from './MediaTextarea';
+import CodeModeToggle from './CodeModeToggle';
+import MathIssueList from './MathIssueList';
+import MathErrorNotice from './MathErrorNotice';
+import { countMathErrors } from '../../utils/mathLint';
+import { hasCodeBlock } from '../../../../shared/math';
+import { clozeNumbers } from '../../../../shared/cloze';
+import { builtInNoteType, noteFieldsError, type NoteFields, type NoteTypeDefinition } from '../../../../shared/noteTypes';
+import type { MathMacros } from '../../../../shared/mathMacros';
+import type { Card, Note } from '../../types';
 
 const editCardSchema = z.object({
   front: z.string().min(1, 'Front content is required').max(2000, 'Content too long'),
-  back: z.string().min(1, 'Back content is required').max(2000, 'Content too long'),
+  back: z.string().max(2000, 'Content too long'),
   hint: z.string().max(500, 'Hint too long').optional(),
-  type: z.enum(['basic', 'cloze', 'reverse']),
+  type: z.enum(['basic', 'cloze', 'reverse', 'typed', 'choice']),
+  editsNote: z.boolean(),
+}).superRefine((data, ctx) => {
+  // Note fields are checked against their note type instead
+  if (data.editsNote) return;
+  
+  // Cloze notes carry their answers inline; the back only holds optional extra info
+  if (data.type === 'cloze') {
+    if (clozeNumbers(data.front).length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['front'], message: 'Add at least one cloze deletion, e.g. {{c1::answer}}' });
+    }
+  } else if (!data.back.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['back'], message: 'Back content is required' });
+  }
 });
 
 type EditCardFormData = z.infer<typeof editCardSchema>;
 
 interface EditCardModalProps {
   card: Card;
+  mathMacros?: MathMacros; // KaTeX macros of the card's deck, for the preview
   onClose: () => void;
   onCardUpdated: () => void;
 }
 
-const EditCardModal: React.FC<EditCardModalProps> = ({ card, onClose, onCardUpdated }) => {
+const EditCardModal: React.FC<EditCardModalProps> = ({ card, mathMacros, onClose, onCardUpdated }) => {
   const [serverError, setServerError] = useState<string>('');
   const [showPreview, setShowPreview] = useState(false);
+  const frontTextareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [note, setNote] = useState<{ note: Note; noteType: NoteTypeDefinition } | null>(null);
+  const [noteFields, setNoteFields] = useState<NoteFields>({});
+  const [noteError, setNoteError] = useState<string>('');
+  const [isLoadingNote, setIsLoadingNote] = useState(Boolean(card.noteId));
+  const [allowMathErrors, setAllowMathErrors] = useState(false);
+  const [codeMode, setCodeMode] = useState(() => hasCodeBlock(card.front) || hasCodeBlock(card.back));
 
   // Prevent background scrolling when modal is open
   useEffect(() => {
@@ -44,6 +78,7 @@ const EditCardModal: React.FC<EditCardModalProps> = ({ card, onClose, onCardUpda
     handleSubmit,
     formState: { errors, isSubmitting },
     watch,
+    setValue,
   } = useForm<EditCardFormData>({
     resolver: zodResolver(editCardSchema),
     defaultValues: {
@@ -51,12 +86,58 @@ const EditCardModal: React.FC<EditCardModalProps> = ({ card, onClose, onCardUpda
       back: card.back,
       hint: card.hint || '',
       type: card.type,
+      editsNote: false,
     },
   });
 
+  // Cards made before note types, or whose note is gone, are edited on their own
+  useEffect(() => {
+    if (!card.noteId) return;
+    ApiService.getNote(card.noteId)
+      .then(response => {
+        if (!response.noteType) return;
+        setNote({ note: response.note, noteType: response.noteType });
+        setNoteFields(response.note.fields);
+        setValue('editsNote', true);
+      })
+      .catch(() => {})
+      .finally(() => setIsLoadingNote(false));
+  }, [card.noteId, setValue]);
+
   const watchedValues = watch();
+  const isCloze = watchedValues.type === 'cloze';
+  const { ref: frontFieldRef, ...frontField } = register('front');
+  const mathErrorCount = countMathErrors(
+    note
+      ? [...note.noteType.fields.map(name => noteFields[name]), watchedValues.hint]
+      : [watchedValues.front, watchedValues.back, watchedValues.hint],
+    mathMacros
+  );
+  const mathBlocked = mathErrorCount > 0 && !allowMathErrors;
 
   const onSubmit = async (data: EditCardFormData) => {
+    if (mathBlocked) return;
+
+    if (note) {
+      const problem = noteFieldsError(note.noteType, noteFields);
+      if (problem) {
+        setNoteError(problem);
+        return;
+      }
+      
+      try {
+        setServerError('');
+        // The hint belongs to this card; update it before the note may re-render its cards
+        await ApiService.updateCard(card.id, { hint: data.hint?.trim() || undefined });
+        const fields = Object.fromEntries(note.noteType.fields.map(name => [name, (noteFields[name] || '').trim()]));
+        await ApiService.updateNote(note.note.id, fields);
+        onCardUpdated();
+      } catch (error) {
+        setServerError(apiErrorMessage(error, 'Failed to update card. Please try again.'));
+      }
+      return;
+    }
+    
     try {
       setServerError('');
       const updateData = {
@@ -87,7 +168,7 @@ const EditCardModal: React.FC<EditCardModalProps> = ({ card, onClose, onCardUpda
             </p>
           </div>
 
-          <div className="flex space-x-2 mb-6">
+          <div className="flex gap-2 mb-6">
             <Button
               variant={!showPreview ? 'primary' : 'outline'}
               size="sm"
@@ -102,37 +183,46 @@ const EditCardModal: React.FC<EditCardModalProps> = ({ card, onClose, onCardUpda
             >
               Preview
             </Button>
+            {!showPreview && (
+              <CodeModeToggle enabled={codeMode} onChange={setCodeMode} />
+            )}
           </div>
 
           {showPreview ? (
             // Preview Mode
             <div className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="card-flashcard bg-gradient-to-br from-koda-accent-light to-white">
-                  <div className="text-center">
-                    <div className="text-xs text-koda-primary-dark mb-2 opacity-75">FRONT</div>
-                    <div className="text-lg font-medium text-koda-primary-dark">
-                      {watchedValues.front}
+              {note ? (
+                <NotePreview noteType={note.noteType} fields={noteFields} mathMacros={mathMacros} />
+              ) : isCloze ? (
+                <NotePreview noteType={builtInNoteType('cloze')} fields={{ Text: watchedValues.front || '', Extra: watchedValues.back }} mathMacros={mathMacros} />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="card-flashcard bg-gradient-to-br from-koda-accent-light to-white">
+                    <div className="text-center">
+                      <div className="text-xs text-koda-primary-dark mb-2 opacity-75">FRONT</div>
+                      <div className="text-lg font-medium text-koda-primary-dark">
+                        {watchedValues.front}
+                      </div>
                     </div>
                   </div>
-                </div>
-                <div className="card-flashcard bg-gradient-to-br from-blue-50 to-white">
-                  <div className="text-center">
-                    <div className="text-xs text-neutral-600 mb-2 opacity-75">BACK</div>
-                    <div className="text-lg font-medium text-neutral-700">
-                      {watchedValues.back}
-                    </div>
-                    {watchedValues.hint && (
-                      <div className="text-sm text-neutral-500 mt-3 border-t pt-3">
-                        💡 {watchedValues.hint}
+                  <div className="card-flashcard bg-gradient-to-br from-blue-50 to-white">
+                    <div className="text-center">
+                      <div className="text-xs text-neutral-600 mb-2 opacity-75">BACK</div>
+                      <div className="text-lg font-medium text-neutral-700">
+                        {watchedValues.back}
                       </div>
-                    )}
+                      {watchedValues.hint && (
+                        <div className="text-sm text-neutral-500 mt-3 border-t pt-3">
+                          💡 {watchedValues.hint}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
               
               <div className="text-sm text-neutral-500">
-                <span>Type: {watchedValues.type}</span>
+                <span>{note ? `Note type: ${note.noteType.name}` : `Type: ${watchedValues.type}`}</span>
               </div>
 
               {/* Card Stats */}
@@ -169,19 +259,57 @@ const EditCardModal: React.FC<EditCardModalProps> = ({ card, onClose, onCardUpda
                 </div>
               )}
 
+              {isLoadingNote ? (
+                <div className="text-sm text-neutral-500 text-center py-6">Loading note...</div>
+              ) : note ? (
+                <>
+                  <NoteFieldsForm
+                    noteType={note.noteType}
+                    values={noteFields}
+                    onChange={(fields) => {
+                      setNoteError('');
+                      setNoteFields(fields);
+                    }}
+                    disabled={isSubmitting}
+                    mathMacros={mathMacros}
+                    codeMode={codeMode}
+                  />
+                  {noteError && (
+                    <p className="text-koda-error text-sm">{noteError}</p>
+                  )}
+                  <p className="text-xs text-neutral-500">
+                    Changes apply to every card of this note.
+                  </p>
+                </>
+              ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label htmlFor="front" className="block text-sm font-medium text-neutral-700 mb-1">
-                    Front (Question) *
+                    {isCloze ? 'Text *' : 'Front (Question) *'}
                   </label>
-                  <textarea
-                    {...register('front')}
+                  <MediaTextarea
+                    {...frontField}
+                    onMediaInsert={(text) => setValue('front', text, { shouldDirty: true, shouldValidate: true })}
+                    ref={(element) => {
+                      frontFieldRef(element);
+                      frontTextareaRef.current = element;
+                    }}
                     id="front"
                     rows={4}
                     className="input-primary resize-none"
-                    placeholder="What goes on the front of the card?"
+                    monospace={codeMode}
+                    placeholder={isCloze ? 'The {{c1::capital}} of France is {{c2::Paris}}' : 'What goes on the front of the card?'}
                     disabled={isSubmitting}
                   />
+                  {isCloze && (
+                    <ClozeToolbar
+                      textareaRef={frontTextareaRef}
+                      value={watchedValues.front || ''}
+                      onChange={(text) => setValue('front', text, { shouldDirty: true, shouldValidate: true })}
+                      disabled={isSubmitting}
+                    />
+                  )}
+                  <MathIssueList text={watchedValues.front} macros={mathMacros} />
                   {errors.front && (
                     <p className="text-koda-error text-sm mt-1">{errors.front.message}</p>
                   )}
@@ -189,39 +317,46 @@ const EditCardModal: React.FC<EditCardModalProps> = ({ card, onClose, onCardUpda
 
                 <div>
                   <label htmlFor="back" className="block text-sm font-medium text-neutral-700 mb-1">
-                    Back (Answer) *
+                    {isCloze ? 'Extra (Optional)' : 'Back (Answer) *'}
                   </label>
-                  <textarea
+                  <MediaTextarea
                     {...register('back')}
+                    onMediaInsert={(text) => setValue('back', text, { shouldDirty: true, shouldValidate: true })}
                     id="back"
                     rows={4}
                     className="input-primary resize-none"
-                    placeholder="What goes on the back of the card?"
+                    monospace={codeMode}
+                    placeholder={isCloze ? 'Shown below the answer on every card' : 'What goes on the back of the card?'}
                     disabled={isSubmitting}
                   />
+                  <MathIssueList text={watchedValues.back} macros={mathMacros} />
                   {errors.back && (
                     <p className="text-koda-error text-sm mt-1">{errors.back.message}</p>
                   )}
                 </div>
               </div>
+              )}
 
               <div>
                 <label htmlFor="hint" className="block text-sm font-medium text-neutral-700 mb-1">
                   Hint (Optional)
                 </label>
-                <input
+                <MediaTextarea
                   {...register('hint')}
-                  type="text"
+                  onMediaInsert={(text) => setValue('hint', text, { shouldDirty: true, shouldValidate: true })}
                   id="hint"
-                  className="input-primary"
+                  rows={2}
+                  className="input-primary resize-none"
                   placeholder="Optional hint to help remember the answer"
                   disabled={isSubmitting}
                 />
+                <MathIssueList text={watchedValues.hint} macros={mathMacros} />
                 {errors.hint && (
                   <p className="text-koda-error text-sm mt-1">{errors.hint.message}</p>
                 )}
               </div>
 
+              {!note && !isLoadingNote && (
               <div>
                 <label htmlFor="type" className="block text-sm font-medium text-neutral-700 mb-1">
                   Card Type
@@ -235,8 +370,24 @@ const EditCardModal: React.FC<EditCardModalProps> = ({ card, onClose, onCardUpda
                   <option value="basic">Basic (Front → Back)</option>
                   <option value="reverse">Reverse (Back → Front too)</option>
                   <option value="cloze">Cloze Deletion</option>
+                  <option value="typed">Type in the Answer</option>
+                  <option value="choice">Multiple Choice</option>
                 </select>
               </div>
+              )}
+
+              <MathErrorNotice
+                count={mathErrorCount}
+                allowed={allowMathErrors}
+                onAllowedChange={setAllowMathErrors}
+                disabled={isSubmitting}
+              />
+
+              {note?.noteType.isCloze ? (
+                <NotePreview noteType={note.noteType} fields={noteFields} mathMacros={mathMacros} />
+              ) : isCloze && !note && (
+                <NotePreview noteType={builtInNoteType('cloze')} fields={{ Text: watchedValues.front || '', Extra: watchedValues.back }} mathMacros={mathMacros} />
+              )}
             </form>
           )}
 
@@ -255,7 +406,7 @@ const EditCardModal: React.FC<EditCardModalProps> = ({ card, onClose, onCardUpda
                 onClick={handleSubmit(onSubmit)}
                 className="flex-1"
                 isLoading={isSubmitting}
-                disabled={isSubmitting}
+                disabled={isSubmitting || isLoadingNote || mathBlocked}
               >
                 {isSubmitting ? 'Saving...' : 'Save Changes'}
               </Button>
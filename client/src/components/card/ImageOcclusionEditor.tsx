@@ -0,0 +1,352 @@
+/**
+ * Image Occlusion Editor Component
+ *
+ * Upload an image and draw the masks that become its cards: rectangles by
+ * dragging, polygons by clicking their corners (double-click or Enter to
+ * finish). Masks can be selected and deleted; each keeps its number.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  PhotoIcon,
+  StopIcon,
+  PencilIcon,
+  CursorArrowRaysIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { ApiService, apiErrorMessage } from '../../services';
+import { MEDIA_TYPES, mediaMarkup, mediaReferences } from '../../../../shared/media';
+import {
+  OCCLUSION_FIELDS,
+  nextOcclusionId,
+  parseOcclusionMasks,
+  serializeOcclusionMasks,
+} from '../../../../shared/occlusion';
+import type { OcclusionMasks, OcclusionMode, OcclusionPoint, OcclusionShape } from '../../../../shared/occlusion';
+import type { NoteFields } from '../../../../shared/noteTypes';
+
+interface ImageOcclusionEditorProps {
+  image: string;
+  masks: string;
+  onChange: (changes: NoteFields) => void; // the fields that changed
+  disabled?: boolean;
+}
+
+// Omit applied to each member of a union, so a rect or polygon keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+type Tool = 'rect' | 'polygon' | 'select';
+
+const TOOLS: Array<{ value: Tool; label: string; icon: typeof StopIcon }> = [
+  { value: 'rect', label: 'Rectangle', icon: StopIcon },
+  { value: 'polygon', label: 'Polygon', icon: PencilIcon },
+  { value: 'select', label: 'Select', icon: CursorArrowRaysIcon },
+];
+
+const MODES: Array<{ value: OcclusionMode; label: string }> = [
+  { value: 'hide-one', label: 'Hide one, guess one' },
+  { value: 'hide-all', label: 'Hide all, guess one' },
+];
+
+const IMAGE_TYPES = Object.keys(MEDIA_TYPES).filter(type => MEDIA_TYPES[type].kind === 'image').join(',');
+
+// Masks smaller than this (in percent of the image) are treated as stray clicks
+const MIN_MASK_SIZE = 1;
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+const rectFrom = ([x1, y1]: OcclusionPoint, [x2, y2]: OcclusionPoint) => ({
+  x: Math.min(x1, x2),
+  y: Math.min(y1, y2),
+  width: Math.abs(x2 - x1),
+  height: Math.abs(y2 - y1),
+});
+
+const shapeCenter = (shape: OcclusionShape): OcclusionPoint => {
+  if (shape.kind === 'rect') return [shape.x + shape.width / 2, shape.y + shape.height / 2];
+  const total = shape.points.reduce(([x, y], [px, py]) => [x + px, y + py], [0, 0]);
+  return [total[0] / shape.points.length, total[1] / shape.points.length];
+};
+
+const ImageOcclusionEditor: React.FC<ImageOcclusionEditorProps> = ({ image, masks, onChange, disabled }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [tool, setTool] = useState<Tool>('rect');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [dragStart, setDragStart] = useState<OcclusionPoint | null>(null);
+  const [dragEnd, setDragEnd] = useState<OcclusionPoint | null>(null);
+  const [polygonPoints, setPolygonPoints] = useState<OcclusionPoint[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  const parsed = parseOcclusionMasks(masks);
+  const filename = mediaReferences(image)[0];
+
+  useEffect(() => {
+    if (!filename) {
+      setImageUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    ApiService.getMediaUrls([filename])
+      .then(urls => { if (!cancelled) setImageUrl(urls[filename] || null); })
+      .catch(() => { if (!cancelled) setImageUrl(null); });
+    return () => { cancelled = true; };
+  }, [filename]);
+
+  const setMasks = (next: OcclusionMasks) => onChange({ [OCCLUSION_FIELDS.masks]: serializeOcclusionMasks(next) });
+
+  const addShape = (shape: DistributiveOmit<OcclusionShape, 'id'>) => {
+    const id = nextOcclusionId(parsed.shapes);
+    setMasks({ ...parsed, shapes: [...parsed.shapes, { ...shape, id }] });
+    setSelectedId(id);
+  };
+
+  const deleteShape = (id: number) => {
+    setMasks({ ...parsed, shapes: parsed.shapes.filter(shape => shape.id !== id) });
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const finishPolygon = () => {
+    if (polygonPoints.length >= 3) addShape({ kind: 'polygon', points: polygonPoints });
+    setPolygonPoints([]);
+  };
+
+  const pointAt = (event: React.PointerEvent | React.MouseEvent): OcclusionPoint => {
+    const box = svgRef.current!.getBoundingClientRect();
+    return [
+      clamp(((event.clientX - box.left) / box.width) * 100),
+      clamp(((event.clientY - box.top) / box.height) * 100),
+    ];
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError('');
+      setIsUploading(true);
+      const { media } = await ApiService.uploadMedia(file);
+      onChange({ [OCCLUSION_FIELDS.image]: mediaMarkup(media) });
+    } catch (uploadError) {
+      setError(apiErrorMessage(uploadError, 'Failed to upload the image. Please try again.'));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    if (tool === 'select') {
+      setSelectedId(null);
+    } else if (tool === 'rect') {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      const point = pointAt(event);
+      setDragStart(point);
+      setDragEnd(point);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragStart) setDragEnd(pointAt(event));
+  };
+
+  const handlePointerUp = () => {
+    if (dragStart && dragEnd) {
+      const rect = rectFrom(dragStart, dragEnd);
+      if (rect.width >= MIN_MASK_SIZE && rect.height >= MIN_MASK_SIZE) addShape({ kind: 'rect', ...rect });
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    // The second click of a double-click finishes the polygon instead
+    if (disabled || tool !== 'polygon' || event.detail > 1) return;
+    setPolygonPoints(points => [...points, pointAt(event)]);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' && polygonPoints.length > 0) {
+      event.preventDefault();
+      finishPolygon();
+    } else if (event.key === 'Escape' && polygonPoints.length > 0) {
+      event.stopPropagation();
+      setPolygonPoints([]);
+    } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId != null) {
+      event.preventDefault();
+      deleteShape(selectedId);
+    }
+  };
+
+  const changeTool = (next: Tool) => {
+    setTool(next);
+    setPolygonPoints([]);
+  };
+
+  const shapeProps = (shape: OcclusionShape) => ({
+    fill: shape.id === selectedId ? 'rgba(249, 115, 22, 0.6)' : 'rgba(59, 130, 246, 0.55)',
+    stroke: shape.id === selectedId ? '#ea580c' : '#2563eb',
+    strokeWidth: 2,
+    vectorEffect: 'non-scaling-stroke' as const,
+    className: tool === 'select' ? 'cursor-pointer' : undefined,
+    onPointerDown: (event: React.PointerEvent) => {
+      if (tool !== 'select') return;
+      event.stopPropagation();
+      setSelectedId(shape.id);
+    },
+  });
+
+  const draftRect = dragStart && dragEnd ? rectFrom(dragStart, dragEnd) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex items-center px-3 py-1.5 text-sm border border-neutral-300 rounded-lg hover:border-koda-primary hover:text-koda-primary"
+          disabled={disabled || isUploading}
+        >
+          <PhotoIcon className="w-4 h-4 mr-1" />
+          {isUploading ? 'Uploading...' : filename ? 'Replace Image' : 'Choose Image'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMAGE_TYPES}
+          className="hidden"
+          onChange={(event) => {
+            handleUpload(event.target.files?.[0]);
+            event.target.value = '';
+          }}
+        />
+
+        {filename && (
+          <>
+            <div className="flex rounded-lg border border-neutral-300 overflow-hidden">
+              {TOOLS.map(({ value, label, icon: Icon }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => changeTool(value)}
+                  className={`inline-flex items-center px-2.5 py-1.5 text-sm ${
+                    tool === value ? 'bg-koda-primary text-white' : 'text-neutral-700 hover:bg-neutral-100'
+                  }`}
+                  disabled={disabled}
+                  title={label}
+                >
+                  <Icon className="w-4 h-4 mr-1" />
+                  {label}
+                </button>
+              ))}
+            </div>
+            <select
+              value={parsed.mode}
+              onChange={(event) => setMasks({ ...parsed, mode: event.target.value as OcclusionMode })}
+              className="input-primary w-auto py-1.5 text-sm"
+              disabled={disabled}
+            >
+              {MODES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+
+      {filename && (
+        <div
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          className="relative inline-block max-w-full border border-neutral-200 rounded-lg overflow-hidden focus:outline-none focus:ring-2 focus:ring-koda-primary"
+        >
+          {imageUrl ? (
+            <img src={imageUrl} alt="" draggable={false} className="block max-w-full select-none" />
+          ) : (
+            <div className="w-64 h-40 flex items-center justify-center text-sm text-neutral-500">Loading image...</div>
+          )}
+          <svg
+            ref={svgRef}
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            className={`absolute inset-0 w-full h-full touch-none ${tool === 'select' ? '' : 'cursor-crosshair'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onClick={handleClick}
+            onDoubleClick={finishPolygon}
+          >
+            {parsed.shapes.map(shape => shape.kind === 'rect' ? (
+              <rect key={shape.id} x={shape.x} y={shape.y} width={shape.width} height={shape.height} {...shapeProps(shape)} />
+            ) : (
+              <polygon key={shape.id} points={shape.points.map(point => point.join(',')).join(' ')} {...shapeProps(shape)} />
+            ))}
+            {draftRect && (
+              <rect {...draftRect} fill="rgba(59, 130, 246, 0.3)" stroke="#2563eb" strokeWidth={2} strokeDasharray="4" vectorEffect="non-scaling-stroke" />
+            )}
+            {polygonPoints.length > 0 && (
+              <polyline
+                points={polygonPoints.map(point => point.join(',')).join(' ')}
+                fill="rgba(59, 130, 246, 0.3)"
+                stroke="#2563eb"
+                strokeWidth={2}
+                strokeDasharray="4"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </svg>
+          {/* Numbers sit outside the SVG so they aren't stretched with the image */}
+          {parsed.shapes.map(shape => {
+            const [x, y] = shapeCenter(shape);
+            return (
+              <span
+                key={shape.id}
+                className="absolute -translate-x-1/2 -translate-y-1/2 px-1.5 rounded bg-white/90 text-xs font-semibold text-neutral-800 pointer-events-none"
+                style={{ left: `${x}%`, top: `${y}%` }}
+              >
+                {shape.id}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {filename && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-500">
+          {tool === 'rect' && <span>Drag over the image to hide a region.</span>}
+          {tool === 'polygon' && <span>Click each corner, then double-click or press Enter to finish.</span>}
+          {tool === 'select' && <span>Click a mask to select it, then press Delete to remove it.</span>}
+          {parsed.shapes.map(shape => (
+            <span
+              key={shape.id}
+              className={`inline-flex items-center rounded px-2 py-0.5 ${
+                shape.id === selectedId ? 'bg-orange-100 text-orange-700' : 'bg-neutral-100 text-neutral-700'
+              }`}
+            >
+              <button type="button" onClick={() => setSelectedId(shape.id)} disabled={disabled}>
+                Mask {shape.id}
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteShape(shape.id)}
+                className="ml-1 hover:text-koda-error"
+                disabled={disabled}
+                title={`Delete mask ${shape.id}`}
+              >
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-koda-error text-sm">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default ImageOcclusionEditor;
@@ -0,0 +1,147 @@
+/**
+ * Leech List Component
+ * 
+ * Shows the deck's cards tagged as leeches so they can be rewritten, split
+ * into simpler cards, or put back into rotation.
+ */
+
+import { useState } from 'react';
+import { ApiService, apiErrorMessage } from '../../services';
+import { Button, MathRenderer, ConfirmModal } from '../ui';
+import EditCardModal from './EditCardModal';
+import CreateCardModal from './CreateCardModal';
+import { LEECH_TAG } from '../../../../shared/scheduler';
+import { hasAnyTag, parseTags, formatTags } from '../../../../shared/tags';
+import type { Card, Deck } from '../../types';
+
+interface LeechListProps {
+  deck: Deck;
+  cards: Card[];
+  onCardsChanged: () => void;
+}
+
+const LeechList: React.FC<LeechListProps> = ({ deck, cards, onCardsChanged }) => {
+  const [editingCard, setEditingCard] = useState<Card | null>(null);
+  const [splittingCard, setSplittingCard] = useState<Card | null>(null);
+  const [clearingCardId, setClearingCardId] = useState<string | null>(null);
+  const [splitOriginal, setSplitOriginal] = useState<Card | null>(null);
+
+  const leeches = cards.filter(card => hasAnyTag(card.tags, [LEECH_TAG]));
+
+  if (leeches.length === 0) return null;
+
+  // Drop the leech tag and unsuspend, giving the card a fresh start
+  const handleClearLeech = async (card: Card) => {
+    try {
+      setClearingCardId(card.id);
+      await ApiService.updateCard(card.id, {
+        tags: formatTags(parseTags(card.tags).filter(tag => tag.toLowerCase() !== LEECH_TAG)),
+        queueState: 'normal',
+      });
+      onCardsChanged();
+    } catch (error) {
+      alert(apiErrorMessage(error, 'Failed to update card'));
+    } finally {
+      setClearingCardId(null);
+    }
+  };
+
+  const handleDeleteOriginal = async (card: Card) => {
+    setSplitOriginal(null);
+    try {
+      await ApiService.deleteCard(card.id);
+      onCardsChanged();
+    } catch (error) {
+      alert(apiErrorMessage(error, 'Failed to delete card'));
+    }
+  };
+
+  return (
+    <div className="bg-surface rounded-2xl border border-border overflow-hidden mb-6">
+      <div className="px-6 py-4 border-b border-border bg-surface-elevated">
+        <h3 className="text-xl font-semibold text-text-primary">
+          Leeches ({leeches.length})
+        </h3>
+        <p className="text-sm text-text-secondary mt-1">
+          These cards keep being forgotten. Rewriting or splitting them usually helps more than reviewing them again.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-3">
+        {leeches.map(card => (
+          <div key={card.id} className="card flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <MathRenderer
+                content={card.front}
+                macros={deck.mathMacros}
+                className="font-semibold text-text-primary text-sm block truncate"
+              />
+              <div className="flex items-center gap-2 mt-1 text-xs text-text-muted">
+                <span>{card.lapses} lapses</span>
+                {card.queueState === 'suspended' && (
+                  <span className="px-2 py-0.5 rounded-full bg-neutral-100 text-neutral-600">Suspended</span>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={() => setEditingCard(card)}>
+                Rewrite
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setSplittingCard(card)}>
+                Split
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                isLoading={clearingCardId === card.id}
+                disabled={clearingCardId === card.id}
+                onClick={() => handleClearLeech(card)}
+              >
+                {card.queueState === 'suspended' ? 'Unsuspend' : 'Clear'}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editingCard && (
+        <EditCardModal
+          card={editingCard}
+          mathMacros={deck.mathMacros}
+          onClose={() => setEditingCard(null)}
+          onCardUpdated={() => {
+            setEditingCard(null);
+            onCardsChanged();
+          }}
+        />
+      )}
+
+      {/* Splitting starts from a copy of the leech; the original can go afterwards */}
+      {splittingCard && (
+        <CreateCardModal
+          deck={deck}
+          initialValues={{ front: splittingCard.front, back: splittingCard.back }}
+          onClose={() => setSplittingCard(null)}
+          onCardCreated={() => {
+            setSplitOriginal(splittingCard);
+            onCardsChanged();
+          }}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={!!splitOriginal}
+        title="Delete Original Card"
+        message="The new card was added. Delete the original leech now, or keep it to split off more cards?"
+        confirmText="Delete Original"
+        cancelText="Keep Original"
+        confirmVariant="danger"
+        onConfirm={() => splitOriginal && handleDeleteOriginal(splitOriginal)}
+        onCancel={() => setSplitOriginal(null)}
+      />
+    </div>
+  );
+};
+
+export default LeechList;
@@ -0,0 +1,37 @@
+/**
+ * Math Error Notice Component
+ *
+ * Shown above an editor's save button while some formulas fail to parse.
+ * Saving stays blocked until they are fixed or the user chooses to save anyway.
+ */
+
+interface MathErrorNoticeProps {
+  count: number; // formulas that fail to parse
+  allowed: boolean; // whether to save anyway
+  onAllowedChange: (allowed: boolean) => void;
+  disabled?: boolean;
+}
+
+const MathErrorNotice: React.FC<MathErrorNoticeProps> = ({ count, allowed, onAllowedChange, disabled }) => {
+  if (count === 0) return null;
+
+  return (
+    <div className="bg-koda-error-light border border-koda-error/20 text-koda-error px-4 py-3 rounded-lg text-sm">
+      <p>
+        {count === 1 ? '1 formula fails' : `${count} formulas fail`} to parse and would show as red text when studying.
+      </p>
+      <label className="flex items-center gap-2 mt-2 text-neutral-700">
+        <input
+          type="checkbox"
+          checked={allowed}
+          onChange={(event) => onAllowedChange(event.target.checked)}
+          className="accent-koda-primary"
+          disabled={disabled}
+        />
+        Save anyway
+      </label>
+    </div>
+  );
+};
+
+export default MathErrorNotice;
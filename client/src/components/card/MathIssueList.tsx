@@ -0,0 +1,53 @@
+/**
+ * Math Issue List Component
+ *
+ * Lists the formulas in a field that fail to parse, each underlined with
+ * KaTeX's message, as the field is edited.
+ */
+
+import { useMemo } from 'react';
+import { findMathIssues } from '../../utils/mathLint';
+import type { MathMacros } from '../../../../shared/mathMacros';
+
+interface MathIssueListProps {
+  text: string | null | undefined;
+  macros?: MathMacros;
+  errorsOnly?: boolean; // leave out formulas that render despite a warning
+}
+
+const MAX_SOURCE_LENGTH = 60;
+
+const MathIssueList: React.FC<MathIssueListProps> = ({ text, macros, errorsOnly = false }) => {
+  const issues = useMemo(
+    () => findMathIssues(text, macros).filter(issue => !errorsOnly || issue.severity === 'error'),
+    [text, macros, errorsOnly]
+  );
+
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="mt-1 space-y-1">
+      {issues.map(issue => {
+        const isError = issue.severity === 'error';
+        const source = issue.source.length > MAX_SOURCE_LENGTH
+          ? `${issue.source.slice(0, MAX_SOURCE_LENGTH)}...`
+          : issue.source;
+        return (
+          <li key={`${issue.start}:${issue.message}`} className="text-xs break-words">
+            <span
+              className={`font-mono underline decoration-wavy underline-offset-2 ${
+                isError ? 'decoration-koda-error' : 'decoration-amber-500'
+              }`}
+              title={issue.message}
+            >
+              {source}
+            </span>
+            <span className={isError ? 'text-koda-error' : 'text-amber-600'}> {issue.message}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default MathIssueList;
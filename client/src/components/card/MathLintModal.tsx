@@ -0,0 +1,104 @@
+/**
+ * Math Lint Modal Component
+ *
+ * Deck-level report of every card whose math fails to parse, whether it was
+ * written in the editor or came in through an import, with a way to fix each.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button, KodaBear } from '../ui';
+import EditCardModal from './EditCardModal';
+import MathIssueList from './MathIssueList';
+import { countMathErrors } from '../../utils/mathLint';
+import type { Card, Deck } from '../../types';
+
+interface MathLintModalProps {
+  deck: Deck;
+  cards: Card[];
+  onClose: () => void;
+  onCardsChanged: () => void;
+}
+
+const SIDES: Array<{ key: 'front' | 'back' | 'hint'; label: string }> = [
+  { key: 'front', label: 'Front' },
+  { key: 'back', label: 'Back' },
+  { key: 'hint', label: 'Hint' },
+];
+
+const MathLintModal: React.FC<MathLintModalProps> = ({ deck, cards, onClose, onCardsChanged }) => {
+  const [editingCard, setEditingCard] = useState<Card | null>(null);
+
+  // Prevent background scrolling when modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, []);
+
+  const reports = useMemo(() => cards
+    .map(card => ({
+      card,
+      sides: SIDES.filter(({ key }) => countMathErrors([card[key]], deck.mathMacros) > 0),
+    }))
+    .filter(report => report.sides.length > 0),
+  [cards, deck.mathMacros]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="text-center mb-6">
+            <KodaBear size="lg" expression={reports.length > 0 ? 'alert' : 'celebrating'} className="mx-auto mb-4" />
+            <h2 className="text-2xl font-display font-bold text-koda-primary-dark">
+              Math Check
+            </h2>
+            <p className="text-neutral-600 mt-2">
+              {reports.length === 0
+                ? `All formulas in ${cards.length} card${cards.length === 1 ? '' : 's'} parse correctly`
+                : `${reports.length} of ${cards.length} card${cards.length === 1 ? '' : 's'} have formulas that fail to parse`}
+            </p>
+          </div>
+
+          {reports.length > 0 && (
+            <div className="space-y-3 mb-6">
+              {reports.map(({ card, sides }) => (
+                <div key={card.id} className="card flex flex-col sm:flex-row sm:items-start gap-3">
+                  <div className="flex-1 min-w-0 space-y-2">
+                    {sides.map(({ key, label }) => (
+                      <div key={key}>
+                        <div className="text-xs font-semibold text-text-muted uppercase tracking-wide">{label}</div>
+                        <MathIssueList text={card[key]} macros={deck.mathMacros} errorsOnly />
+                      </div>
+                    ))}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setEditingCard(card)} className="flex-shrink-0">
+                    Fix
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button variant="outline" className="w-full" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+
+      {editingCard && (
+        <EditCardModal
+          card={editingCard}
+          mathMacros={deck.mathMacros}
+          onClose={() => setEditingCard(null)}
+          onCardUpdated={() => {
+            setEditingCard(null);
+            onCardsChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MathLintModal;
@@ -0,0 +1,132 @@
+/**
+ * Media Textarea Component
+ *
+ * Textarea that uploads images and audio pasted, dropped or attached into it
+ * and inserts their markup at the cursor. In monospace mode lines don't
+ * wrap, so code keeps its indentation while it is written.
+ */
+
+import { useRef, useState } from 'react';
+import { PaperClipIcon } from '@heroicons/react/24/outline';
+import { ApiService, apiErrorMessage } from '../../services';
+import { MEDIA_TYPES, mediaMarkup } from '../../../../shared/media';
+
+interface MediaTextareaProps extends React.TextareaHTMLAttributes<HTMLTextAreaElement> {
+  ref?: React.Ref<HTMLTextAreaElement>;
+  onMediaInsert: (text: string) => void; // the textarea's new value
+  monospace?: boolean;
+}
+
+const ACCEPTED_TYPES = Object.keys(MEDIA_TYPES).join(',');
+
+const mediaFiles = (files: FileList | null | undefined) =>
+  Array.from(files || []).filter(file => file.type in MEDIA_TYPES);
+
+const MediaTextarea: React.FC<MediaTextareaProps> = ({ ref, onMediaInsert, monospace = false, className = '', disabled, ...props }) => {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState('');
+
+  const insertFiles = async (files: File[]) => {
+    const textarea = textareaRef.current;
+    if (!textarea || files.length === 0) return;
+
+    try {
+      setError('');
+      setIsUploading(true);
+      const markup: string[] = [];
+      for (const file of files) {
+        const { media } = await ApiService.uploadMedia(file);
+        markup.push(mediaMarkup(media));
+      }
+
+      // Insert where the cursor is now, in case more was typed during the upload
+      const { value, selectionStart, selectionEnd } = textarea;
+      const inserted = markup.join(' ');
+      const cursor = selectionStart + inserted.length;
+      onMediaInsert(value.slice(0, selectionStart) + inserted + value.slice(selectionEnd));
+
+      requestAnimationFrame(() => {
+        textarea.focus();
+        textarea.setSelectionRange(cursor, cursor);
+      });
+    } catch (uploadError) {
+      setError(apiErrorMessage(uploadError, 'Failed to upload the file. Please try again.'));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div>
+      <textarea
+        {...props}
+        wrap={monospace ? 'off' : props.wrap}
+        spellCheck={monospace ? false : props.spellCheck}
+        ref={(element) => {
+          textareaRef.current = element;
+          if (typeof ref === 'function') {
+            ref(element);
+          } else if (ref) {
+            ref.current = element;
+          }
+        }}
+        className={`${className} ${monospace ? 'font-mono text-sm [tab-size:4]' : ''} ${isDragging ? 'ring-2 ring-koda-primary' : ''}`}
+        disabled={disabled || isUploading}
+        onPaste={(event) => {
+          const files = mediaFiles(event.clipboardData.files);
+          if (files.length > 0) {
+            event.preventDefault();
+            insertFiles(files);
+          }
+        }}
+        onDragOver={(event) => {
+          if (event.dataTransfer.types.includes('Files')) {
+            event.preventDefault();
+            setIsDragging(true);
+          }
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(event) => {
+          setIsDragging(false);
+          const files = mediaFiles(event.dataTransfer.files);
+          if (files.length > 0) {
+            event.preventDefault();
+            insertFiles(files);
+          }
+        }}
+      />
+      <div className="flex items-center justify-between mt-1 text-xs text-neutral-500">
+        <span>{isUploading ? 'Uploading...' : 'Paste or drop images and audio'}</span>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex items-center hover:text-koda-primary"
+          disabled={disabled || isUploading}
+          title="Attach an image or audio clip"
+        >
+          <PaperClipIcon className="w-4 h-4 mr-1" />
+          Attach
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            insertFiles(mediaFiles(event.target.files));
+            event.target.value = '';
+          }}
+        />
+      </div>
+      {error && (
+        <p className="text-koda-error text-sm mt-1">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default MediaTextarea;
@@ -0,0 +1,92 @@
+/**
+ * Note Fields Form Component
+ *
+ * One input per field of a note type, each accepting pasted or dropped media.
+ * Cloze note types get the cloze toolbar on their first field, and image
+ * occlusion note types the mask editor in place of their Image and Masks fields.
+ * Formulas that fail to parse are listed under their field, and code mode
+ * switches every field to a monospace, unwrapped editor.
+ */
+
+import { useRef } from 'react';
+import ClozeToolbar from './ClozeToolbar';
+import MediaTextarea from './MediaTextarea';
+import ImageOcclusionEditor from './ImageOcclusionEditor';
+import MathIssueList from './MathIssueList';
+import { OCCLUSION_FIELDS } from '../../../../shared/occlusion';
+import type { MathMacros } from '../../../../shared/mathMacros';
+import type { NoteFields, NoteTypeDefinition } from '../../../../shared/noteTypes';
+
+interface NoteFieldsFormProps {
+  noteType: NoteTypeDefinition;
+  values: NoteFields;
+  onChange: (fields: NoteFields) => void;
+  errors?: Partial<Record<string, string>>;
+  disabled?: boolean;
+  mathMacros?: MathMacros; // KaTeX macros of the note's deck
+  codeMode?: boolean;
+}
+
+const NoteFieldsForm: React.FC<NoteFieldsFormProps> = ({ noteType, values, onChange, errors = {}, disabled, mathMacros, codeMode }) => {
+  const firstTextareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const setField = (name: string, value: string) => onChange({ ...values, [name]: value });
+  const isOcclusion = noteType.templates.some(template => template.cardType === 'occlusion');
+  const occlusionFields: string[] = [OCCLUSION_FIELDS.image, OCCLUSION_FIELDS.masks];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {isOcclusion && (
+        <div className="md:col-span-2">
+          <span className="block text-sm font-medium text-neutral-700 mb-1">
+            {OCCLUSION_FIELDS.image} *
+          </span>
+          <ImageOcclusionEditor
+            image={values[OCCLUSION_FIELDS.image] || ''}
+            masks={values[OCCLUSION_FIELDS.masks] || ''}
+            onChange={(changes) => onChange({ ...values, ...changes })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+      {noteType.fields.map((name, index) => {
+        if (isOcclusion && occlusionFields.includes(name)) return null;
+        const id = `field-${index}`;
+        const showClozeToolbar = noteType.isCloze && index === 0;
+        return (
+          <div key={name}>
+            <label htmlFor={id} className="block text-sm font-medium text-neutral-700 mb-1">
+              {name}{index === 0 ? ' *' : ''}
+            </label>
+            <MediaTextarea
+              ref={index === 0 ? firstTextareaRef : undefined}
+              id={id}
+              rows={4}
+              className="input-primary resize-none"
+              value={values[name] || ''}
+              onChange={(event) => setField(name, event.target.value)}
+              onMediaInsert={(text) => setField(name, text)}
+              monospace={codeMode}
+              placeholder={showClozeToolbar ? 'The {{c1::capital}} of France is {{c2::Paris}}' : undefined}
+              disabled={disabled}
+            />
+            {showClozeToolbar && (
+              <ClozeToolbar
+                textareaRef={firstTextareaRef}
+                value={values[name] || ''}
+                onChange={(text) => setField(name, text)}
+                disabled={disabled}
+              />
+            )}
+            <MathIssueList text={values[name]} macros={mathMacros} />
+            {errors[name] && (
+              <p className="text-koda-error text-sm mt-1">{errors[name]}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NoteFieldsForm;
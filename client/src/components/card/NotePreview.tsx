@@ -0,0 +1,62 @@
+/**
+ * Note Preview Component
+ *
+ * Shows the front and back of every card a note will generate.
+ */
+
+import { MathRenderer } from '../ui';
+import { clozeFaces } from '../../../../shared/cloze';
+import type { MathMacros } from '../../../../shared/mathMacros';
+import { generateNoteCards, noteFieldsError, type NoteFields, type NoteTypeDefinition } from '../../../../shared/noteTypes';
+
+interface NotePreviewProps {
+  noteType: NoteTypeDefinition;
+  fields: NoteFields;
+  mathMacros?: MathMacros; // KaTeX macros of the note's deck
+}
+
+const NotePreview: React.FC<NotePreviewProps> = ({ noteType, fields, mathMacros }) => {
+  const cards = generateNoteCards(noteType, fields);
+
+  if (cards.length === 0) {
+    return (
+      <div className="text-sm text-neutral-500 text-center py-6">
+        {noteFieldsError(noteType, fields)} to preview its cards.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {cards.map(card => {
+        const faces = card.type === 'cloze' ? clozeFaces(card) : card;
+        const templateName = noteType.templates[card.templateIndex ?? 0]?.name;
+        return (
+          <div key={`${card.templateIndex}:${card.clozeIndex ?? ''}`}>
+            <div className="text-xs font-semibold text-neutral-500 mb-2">
+              {card.type === 'occlusion'
+                ? `Mask ${card.clozeIndex}`
+                : card.clozeIndex ? `Card c${card.clozeIndex}` : templateName}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="card-flashcard bg-gradient-to-br from-koda-accent-light to-white">
+                <div className="text-center">
+                  <div className="text-xs text-koda-primary-dark mb-2 opacity-75">FRONT</div>
+                  <MathRenderer content={faces.front} macros={mathMacros} className="text-lg font-medium text-koda-primary-dark" />
+                </div>
+              </div>
+              <div className="card-flashcard bg-gradient-to-br from-blue-50 to-white">
+                <div className="text-center">
+                  <div className="text-xs text-neutral-600 mb-2 opacity-75">BACK</div>
+                  <MathRenderer content={faces.back} macros={mathMacros} className="text-lg font-medium text-neutral-700" />
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NotePreview;
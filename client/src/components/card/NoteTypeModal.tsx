@@ -0,0 +1,426 @@
+/**
+ * Note Type Modal Component
+ *
+ * Lists custom note types and edits their fields and card templates.
+ * Saving a note type re-renders the cards of every note that uses it.
+ */
+
+import { useState, useEffect } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { PencilSquareIcon, TrashIcon, PlusCircleIcon } from '@heroicons/react/24/outline';
+import { ApiService, apiErrorMessage } from '../../services';
+import { Button, ConfirmModal } from '../ui';
+import { NOTE_CARD_TYPES, templateFieldNames } from '../../../../shared/noteTypes';
+import type { NoteType, NoteTypeData } from '../../types';
+
+const CARD_TYPE_LABELS: Record<typeof NOTE_CARD_TYPES[number], string> = {
+  basic: 'Basic',
+  reverse: 'Reverse',
+  typed: 'Type in the Answer',
+  choice: 'Multiple Choice',
+};
+
+const parseFieldNames = (text: string) =>
+  text.split('\n').map(name => name.trim()).filter(Boolean);
+
+const noteTypeSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name too long'),
+  fields: z.string(),
+  isCloze: z.boolean(),
+  templates: z.array(z.object({
+    name: z.string().trim().min(1, 'Template name is required'),
+    front: z.string().trim().min(1, 'Front template is required'),
+    back: z.string(),
+    cardType: z.enum(NOTE_CARD_TYPES),
+  })).min(1, 'Add at least one card template'),
+}).superRefine((data, ctx) => {
+  const fields = parseFieldNames(data.fields);
+  if (fields.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields'], message: 'Add at least one field' });
+  } else if (new Set(fields).size !== fields.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields'], message: 'Field names must be unique' });
+  } else if (fields.some(name => /[{}#^/]/.test(name))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields'], message: 'Field names cannot contain { } # ^ or /' });
+  }
+
+  // Templates may only refer to fields the note type has
+  data.templates.forEach((noteTemplate, index) => {
+    (['front', 'back'] as const).forEach(side => {
+      const unknown = templateFieldNames(noteTemplate[side]).filter(name => !fields.includes(name));
+      if (unknown.length > 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['templates', index, side], message: `Unknown field: ${unknown.join(', ')}` });
+      }
+    });
+  });
+});
+
+type NoteTypeFormData = z.infer<typeof noteTypeSchema>;
+
+const emptyTemplate = (): NoteTypeFormData['templates'][number] =>
+  ({ name: 'Card 1', front: '{{Front}}', back: '{{Back}}', cardType: 'basic' });
+
+const toFormData = (noteType?: NoteType): NoteTypeFormData => noteType ? {
+  name: noteType.name,
+  fields: noteType.fields.join('\n'),
+  isCloze: noteType.isCloze,
+  // Cloze templates always make cloze cards, so their card type isn't edited;
+  // image occlusion is built in only
+  templates: noteType.templates.map(noteTemplate => ({
+    ...noteTemplate,
+    cardType: noteTemplate.cardType === 'cloze' || noteTemplate.cardType === 'occlusion' ? 'basic' : noteTemplate.cardType,
+  })),
+} : {
+  name: '',
+  fields: 'Front\nBack',
+  isCloze: false,
+  templates: [emptyTemplate()],
+};
+
+const fromFormData = (data: NoteTypeFormData): NoteTypeData => ({
+  name: data.name.trim(),
+  fields: parseFieldNames(data.fields),
+  isCloze: data.isCloze,
+  templates: data.templates.map(noteTemplate => ({
+    name: noteTemplate.name.trim(),
+    front: noteTemplate.front,
+    back: noteTemplate.back,
+    cardType: data.isCloze ? 'cloze' : noteTemplate.cardType,
+  })),
+});
+
+interface NoteTypeModalProps {
+  onClose: () => void;
+  onNoteTypesChanged: (noteTypes: NoteType[]) => void;
+}
+
+const NoteTypeModal: React.FC<NoteTypeModalProps> = ({ onClose, onNoteTypesChanged }) => {
+  const [noteTypes, setNoteTypes] = useState<NoteType[]>([]);
+  const [editing, setEditing] = useState<NoteType | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<NoteType | null>(null);
+  const [serverError, setServerError] = useState<string>('');
+  const [notice, setNotice] = useState<string>('');
+
+  const customTypes = noteTypes.filter(noteType => !noteType.builtIn);
+
+  const loadNoteTypes = async () => {
+    const response = await ApiService.getNoteTypes();
+    setNoteTypes(response.noteTypes);
+    onNoteTypesChanged(response.noteTypes);
+  };
+
+  useEffect(() => {
+    ApiService.getNoteTypes()
+      .then(response => setNoteTypes(response.noteTypes))
+      .catch(error => console.error('Failed to load note types:', error));
+  }, []);
+
+  // Prevent background scrolling when modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, []);
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<NoteTypeFormData>({
+    resolver: zodResolver(noteTypeSchema),
+    defaultValues: toFormData(),
+  });
+
+  const { fields: templateFields, append, remove } = useFieldArray({ control, name: 'templates' });
+  const isCloze = watch('isCloze');
+
+  const startEditing = (noteType: NoteType | 'new') => {
+    setServerError('');
+    setNotice('');
+    reset(toFormData(noteType === 'new' ? undefined : noteType));
+    setEditing(noteType);
+  };
+
+  const onSubmit = async (data: NoteTypeFormData) => {
+    try {
+      setServerError('');
+      if (editing && editing !== 'new') {
+        const response = await ApiService.updateNoteType(editing.id, fromFormData(data));
+        setNotice(`Saved "${response.noteType.name}" and updated ${response.notesUpdated} note${response.notesUpdated === 1 ? '' : 's'}`);
+      } else {
+        const response = await ApiService.createNoteType(fromFormData(data));
+        setNotice(`Created "${response.noteType.name}"`);
+      }
+      setEditing(null);
+      await loadNoteTypes();
+    } catch (error) {
+      setServerError(apiErrorMessage(error, 'Failed to save note type. Please try again.'));
+    }
+  };
+
+  const handleDelete = async (noteType: NoteType) => {
+    setDeleting(null);
+    try {
+      setServerError('');
+      await ApiService.deleteNoteType(noteType.id);
+      setNotice(`Deleted "${noteType.name}"`);
+      await loadNoteTypes();
+    } catch (error) {
+      setServerError(apiErrorMessage(error, 'Failed to delete note type. Please try again.'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start sm:items-center justify-center p-2 sm:p-4 z-50 overflow-y-auto">
+      <div className="bg-white rounded-xl max-w-2xl w-full min-h-screen sm:min-h-0 sm:max-h-[90vh] overflow-y-auto mt-0 sm:mt-4 mb-0 sm:mb-4">
+        <div className="p-4 sm:p-6 pb-safe">
+          <div className="text-center mb-4 sm:mb-6">
+            <h2 className="text-xl sm:text-2xl font-display font-bold text-koda-primary-dark">
+              Note Types
+            </h2>
+            <p className="text-sm sm:text-base text-neutral-600 mt-2">
+              Name the fields of a note and lay out the cards it makes
+            </p>
+          </div>
+
+          {serverError && (
+            <div className="bg-koda-error-light border border-koda-error/20 text-koda-error px-4 py-3 rounded-lg text-sm mb-4">
+              {serverError}
+            </div>
+          )}
+          {notice && !editing && (
+            <div className="bg-koda-accent-light text-koda-primary-dark px-4 py-3 rounded-lg text-sm mb-4">
+              {notice}
+            </div>
+          )}
+
+          {editing ? (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label htmlFor="noteTypeName" className="block text-sm font-medium text-neutral-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  {...register('name')}
+                  type="text"
+                  id="noteTypeName"
+                  className="input-primary"
+                  placeholder="e.g., Vocabulary"
+                  disabled={isSubmitting}
+                />
+                {errors.name && (
+                  <p className="text-koda-error text-sm mt-1">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="noteTypeFields" className="block text-sm font-medium text-neutral-700 mb-1">
+                  Fields (one per line) *
+                </label>
+                <textarea
+                  {...register('fields')}
+                  id="noteTypeFields"
+                  rows={4}
+                  className="input-primary resize-none"
+                  placeholder={'Word\nMeaning\nExample'}
+                  disabled={isSubmitting}
+                />
+                <p className="text-xs text-neutral-500 mt-1">
+                  Notes keep the values of fields whose names stay the same.
+                </p>
+                {errors.fields && (
+                  <p className="text-koda-error text-sm mt-1">{errors.fields.message}</p>
+                )}
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-neutral-700">
+                <input {...register('isCloze')} type="checkbox" disabled={isSubmitting} />
+                <span>Cloze note type (one card per cloze deletion on the front)</span>
+              </label>
+
+              <div className="space-y-4">
+                <div className="text-sm font-medium text-neutral-700">
+                  Card Templates
+                </div>
+                <p className="text-xs text-neutral-500">
+                  {'Use {{Field}} for a field, and {{#Field}}...{{/Field}} for content shown only when the field is filled in.'}
+                </p>
+                {templateFields.map((templateField, index) => (
+                  <div key={templateField.id} className="card bg-neutral-50 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <input
+                        {...register(`templates.${index}.name`)}
+                        type="text"
+                        className="input-primary flex-1"
+                        placeholder="Template name"
+                        disabled={isSubmitting}
+                      />
+                      {!isCloze && (
+                        <select
+                          {...register(`templates.${index}.cardType`)}
+                          className="input-primary w-auto"
+                          disabled={isSubmitting}
+                        >
+                          {NOTE_CARD_TYPES.map(cardType => (
+                            <option key={cardType} value={cardType}>{CARD_TYPE_LABELS[cardType]}</option>
+                          ))}
+                        </select>
+                      )}
+                      {templateFields.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => remove(index)}
+                          className="p-2 text-neutral-500 hover:text-koda-error"
+                          title="Remove template"
+                          disabled={isSubmitting}
+                        >
+                          <TrashIcon className="w-5 h-5" />
+                        </button>
+                      )}
+                    </div>
+                    {errors.templates?.[index]?.name && (
+                      <p className="text-koda-error text-sm">{errors.templates[index]?.name?.message}</p>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs text-neutral-600 mb-1">Front template</label>
+                        <textarea
+                          {...register(`templates.${index}.front`)}
+                          rows={3}
+                          className="input-primary resize-none font-mono text-sm"
+                          disabled={isSubmitting}
+                        />
+                        {errors.templates?.[index]?.front && (
+                          <p className="text-koda-error text-sm mt-1">{errors.templates[index]?.front?.message}</p>
+                        )}
+                      </div>
+                      <div>
+                        <label className="block text-xs text-neutral-600 mb-1">Back template</label>
+                        <textarea
+                          {...register(`templates.${index}.back`)}
+                          rows={3}
+                          className="input-primary resize-none font-mono text-sm"
+                          disabled={isSubmitting}
+                        />
+                        {errors.templates?.[index]?.back && (
+                          <p className="text-koda-error text-sm mt-1">{errors.templates[index]?.back?.message}</p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {errors.templates?.message && (
+                  <p className="text-koda-error text-sm">{errors.templates.message}</p>
+                )}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append({ ...emptyTemplate(), name: `Card ${templateFields.length + 1}` })}
+                  disabled={isSubmitting}
+                >
+                  <PlusCircleIcon className="w-4 h-4 mr-1" />
+                  Add Template
+                </Button>
+              </div>
+
+              <div className="flex space-x-3 pt-6 border-t">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setEditing(null)}
+                  disabled={isSubmitting}
+                >
+                  Back
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1"
+                  isLoading={isSubmitting}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? 'Saving...' : 'Save Note Type'}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              {customTypes.length === 0 ? (
+                <div className="text-sm text-neutral-500 text-center py-6">
+                  No custom note types yet. The built-in types cover basic, reverse, cloze, typed and multiple choice cards.
+                </div>
+              ) : (
+                <ul className="divide-y border rounded-lg">
+                  {customTypes.map(noteType => (
+                    <li key={noteType.id} className="flex items-center justify-between px-4 py-3">
+                      <div>
+                        <div className="font-medium text-neutral-800">{noteType.name}</div>
+                        <div className="text-xs text-neutral-500">
+                          {noteType.fields.join(', ')} · {noteType.isCloze ? 'cloze' : `${noteType.templates.length} template${noteType.templates.length === 1 ? '' : 's'}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center">
+                        <button
+                          type="button"
+                          onClick={() => startEditing(noteType)}
+                          className="p-2 text-neutral-500 hover:text-koda-primary"
+                          title="Edit note type"
+                        >
+                          <PencilSquareIcon className="w-5 h-5" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setDeleting(noteType)}
+                          className="p-2 text-neutral-500 hover:text-koda-error"
+                          title="Delete note type"
+                        >
+                          <TrashIcon className="w-5 h-5" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex space-x-3 pt-6 border-t">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1"
+                  onClick={onClose}
+                >
+                  Close
+                </Button>
+                <Button
+                  type="button"
+                  className="flex-1"
+                  onClick={() => startEditing('new')}
+                >
+                  New Note Type
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={deleting !== null}
+        title="Delete Note Type"
+        message={`Delete "${deleting?.name}"? Note types still used by notes can't be deleted.`}
+        confirmText="Delete"
+        confirmVariant="danger"
+        onConfirm={() => deleting && handleDelete(deleting)}
+        onCancel={() => setDeleting(null)}
+      />
+    </div>
+  );
+};
+
+export default NoteTypeModal;
@@ -4,4 +4,15 @@
 
 export { default as CardList } from './CardList';
 export { default as CreateCardModal } from './CreateCardModal';
-export { default as EditCardModal } from './EditCardModal';
\ No newline at end of file
+export { default as EditCardModal } from './EditCardModal';
+export { default as LeechList } from './LeechList';
+export { default as ClozeToolbar } from './ClozeToolbar';
+export { default as NotePreview } from './NotePreview';
+export { default as NoteFieldsForm } from './NoteFieldsForm';
+export { default as NoteTypeModal } from './NoteTypeModal';
+export { default as MediaTextarea } from './MediaTextarea';
+export { default as ImageOcclusionEditor } from './ImageOcclusionEditor';
+export { default as MathIssueList } from './MathIssueList';
+export { default as MathErrorNotice } from './MathErrorNotice';
+export { default as MathLintModal } from './MathLintModal';
+export { default as CodeModeToggle } from './CodeModeToggle';
@@ -10,15 +10,67 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { ApiService } from '../../services';
 import { Button, KodaBear } from '../ui';
-import type { Deck } from '../../types';
+import {
+  formatSteps,
+  parseSteps,
+  resolveSchedulingOptions,
+  type SchedulingOptions,
+} from '../../../../shared/scheduler';
+import { formatMathMacros, parseMathMacros } from '../../../../shared/mathMacros';
+import type { Deck, DeckOptions } from '../../types';
+
+const stepsField = z.string().refine(value => parseSteps(value) !== null, 'Use steps like "10m 1h 1d"');
+const numberField = (message: string) => z.number({ invalid_type_error: message });
 
 const editDeckSchema = z.object({
   name: z.string().min(1, 'Deck name is required').max(100, 'Name too long'),
   description: z.string().max(500, 'Description too long').optional(),
+  algorithm: z.enum(['sm2', 'fsrs']),
+  optionsId: z.string(),
+  learningSteps: stepsField,
+  relearningSteps: stepsField,
+  graduatingInterval: numberField('Enter a number of days').positive('Must be positive'),
+  easyInterval: numberField('Enter a number of days').positive('Must be positive'),
+  maximumInterval: numberField('Enter a number of days').positive('Must be positive'),
+  startingEase: numberField('Enter a number').min(1.3, 'At least 1.3').max(5, 'At most 5'),
+  masteryStreak: numberField('Enter a number').int().min(1, 'At least 1'),
+  desiredRetention: numberField('Enter a number').min(0.7, 'At least 0.7').max(0.99, 'At most 0.99'),
+  newCardsPerDay: numberField('Enter a number').int().min(0, 'Cannot be negative'),
+  reviewsPerDay: numberField('Enter a number').int().min(0, 'Cannot be negative'),
+  reviewsPerNewCard: numberField('Enter a number').int().min(0, 'Cannot be negative'),
+  leechThreshold: numberField('Enter a number').int().min(0, 'Cannot be negative'),
+  leechAction: z.enum(['tag', 'suspend']),
+  answerIgnoreCase: z.boolean(),
+  answerIgnoreAccents: z.boolean(),
+  answerIgnorePunctuation: z.boolean(),
+  answerTolerance: numberField('Enter a number').int().min(0, 'Cannot be negative'),
+  mathMacros: z.string().superRefine((value, ctx) => {
+    const { errors } = parseMathMacros(value);
+    if (errors.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: errors.join('. ') });
+    }
+  }),
 });
 
 type EditDeckFormData = z.infer<typeof editDeckSchema>;
 
+type SchedulingFormFields = Omit<EditDeckFormData, 'name' | 'description' | 'algorithm' | 'optionsId' | 'mathMacros'>;
+
+const toFormFields = (options: SchedulingOptions): SchedulingFormFields => ({
+  ...options,
+  learningSteps: formatSteps(options.learningSteps),
+  relearningSteps: formatSteps(options.relearningSteps),
+});
+
+const fromFormFields = (data: SchedulingFormFields): SchedulingOptions => resolveSchedulingOptions({
+  ...data,
+  learningSteps: parseSteps(data.learningSteps) || undefined,
+  relearningSteps: parseSteps(data.relearningSteps) || undefined,
+});
+
+const sameSchedulingOptions = (a: SchedulingOptions, b: SchedulingOptions) =>
+  JSON.stringify(resolveSchedulingOptions(a)) === JSON.stringify(resolveSchedulingOptions(b));
+
 interface EditDeckModalProps {
   deck: Deck;
   onClose: () => void;
@@ -31,6 +83,16 @@ const EditDeckModal: React.FC<EditDeckModalProps> = ({
   onDeckUpdated
 }) => {
   const [serverError, setServerError] = useState<string>('');
+  const [presets, setPresets] = useState<DeckOptions[]>([]);
+  const [showScheduling, setShowScheduling] = useState(false);
+  const [showMathMacros, setShowMathMacros] = useState(false);
+
+  // Load shareable scheduling presets
+  useEffect(() => {
+    ApiService.getDeckOptions()
+      .then(response => setPresets(response.options))
+      .catch(error => console.error('Failed to load deck options:', error));
+  }, []);
 
   // Prevent background scrolling when modal is open
   useEffect(() => {
@@ -43,21 +105,59 @@ const EditDeckModal: React.FC<EditDeckModalProps> = ({
   const {
     register,
     handleSubmit,
+    setValue,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<EditDeckFormData>({
     resolver: zodResolver(editDeckSchema),
     defaultValues: {
       name: deck.name,
       description: deck.description || '',
+      algorithm: deck.algorithm || 'sm2',
+      optionsId: deck.optionsId || '',
+      mathMacros: formatMathMacros(deck.mathMacros),
+      ...toFormFields(resolveSchedulingOptions(deck.options)),
     },
   });
 
+  const selectedPresetId = watch('optionsId');
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+  const otherDecksUsingPreset = selectedPreset
+    ? (selectedPreset.deckCount || 0) - (deck.optionsId === selectedPreset.id ? 1 : 0)
+    : 0;
+
+  // Fill the scheduling fields from the chosen preset
+  const applyPreset = (presetId: string) => {
+    const fields = toFormFields(resolveSchedulingOptions(presets.find(preset => preset.id === presetId)));
+    (Object.keys(fields) as Array<keyof SchedulingFormFields>).forEach(key => {
+      setValue(key, fields[key], { shouldValidate: true });
+    });
+  };
+
   const onSubmit = async (data: EditDeckFormData) => {
     try {
       setServerError('');
+      const { name, description, algorithm, optionsId, mathMacros, ...schedulingFields } = data;
+      const schedulingOptions = fromFormFields(schedulingFields);
+      const preset = presets.find(p => p.id === optionsId);
+      let deckOptionsId = preset ? preset.id : null;
+      
+      // Save changed scheduling options to the preset, or create a preset for this deck
+      if (!sameSchedulingOptions(schedulingOptions, resolveSchedulingOptions(preset))) {
+        if (preset) {
+          await ApiService.updateDeckOptions(preset.id, schedulingOptions);
+        } else {
+          const response = await ApiService.createDeckOptions({ name, ...schedulingOptions });
+          deckOptionsId = response.options.id;
+        }
+      }
+      
       const updateData = {
-        name: data.name,
-        description: data.description || undefined,
+        name,
+        description: description || undefined,
+        algorithm,
+        optionsId: deckOptionsId,
+        mathMacros: parseMathMacros(mathMacros).macros,
       };
       
       const response = await ApiService.updateDeck(deck.id, updateData);
@@ -123,6 +223,236 @@ const EditDeckModal: React.FC<EditDeckModalProps> = ({
               )}
             </div>
 
+            <div>
+              <label htmlFor="algorithm" className="block text-sm font-medium text-neutral-700 mb-1">
+                Scheduling Algorithm
+              </label>
+              <select
+                {...register('algorithm')}
+                id="algorithm"
+                className="input-primary"
+                disabled={isSubmitting}
+              >
+                <option value="sm2">SM-2 (Classic)</option>
+                <option value="fsrs">FSRS (Memory model)</option>
+              </select>
+              <p className="text-neutral-500 text-xs mt-1">
+                Switching to FSRS estimates each card's memory from its review history.
+              </p>
+            </div>
+
+            <div className="border-t pt-4">
+              <button
+                type="button"
+                onClick={() => setShowScheduling(!showScheduling)}
+                className="flex items-center justify-between w-full text-sm font-medium text-neutral-700"
+              >
+                <span>Scheduling Options</span>
+                <span className="text-neutral-500">{showScheduling ? '−' : '+'}</span>
+              </button>
+
+              {showScheduling && (
+                <div className="space-y-4 mt-4">
+                  <div>
+                    <label htmlFor="optionsId" className="block text-sm font-medium text-neutral-700 mb-1">
+                      Preset
+                    </label>
+                    <select
+                      {...register('optionsId', { onChange: (e) => applyPreset(e.target.value) })}
+                      id="optionsId"
+                      className="input-primary"
+                      disabled={isSubmitting}
+                    >
+                      <option value="">Default settings</option>
+                      {presets.map(preset => (
+                        <option key={preset.id} value={preset.id}>{preset.name}</option>
+                      ))}
+                    </select>
+                    <p className="text-neutral-500 text-xs mt-1">
+                      {otherDecksUsingPreset > 0
+                        ? `Shared with ${otherDecksUsingPreset} other deck${otherDecksUsingPreset === 1 ? '' : 's'} - changes apply to all of them.`
+                        : selectedPreset
+                          ? 'Changes are saved to this preset.'
+                          : 'Changing a value creates a preset for this deck.'}
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label htmlFor="learningSteps" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Learning steps
+                      </label>
+                      <input {...register('learningSteps')} type="text" id="learningSteps" className="input-primary" placeholder="10m 1d" disabled={isSubmitting} />
+                      {errors.learningSteps && (
+                        <p className="text-koda-error text-sm mt-1">{errors.learningSteps.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="relearningSteps" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Relearning steps
+                      </label>
+                      <input {...register('relearningSteps')} type="text" id="relearningSteps" className="input-primary" placeholder="12h" disabled={isSubmitting} />
+                      {errors.relearningSteps && (
+                        <p className="text-koda-error text-sm mt-1">{errors.relearningSteps.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="graduatingInterval" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Graduating interval (days)
+                      </label>
+                      <input {...register('graduatingInterval', { valueAsNumber: true })} type="number" step="any" id="graduatingInterval" className="input-primary" disabled={isSubmitting} />
+                      {errors.graduatingInterval && (
+                        <p className="text-koda-error text-sm mt-1">{errors.graduatingInterval.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="easyInterval" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Easy interval (days)
+                      </label>
+                      <input {...register('easyInterval', { valueAsNumber: true })} type="number" step="any" id="easyInterval" className="input-primary" disabled={isSubmitting} />
+                      {errors.easyInterval && (
+                        <p className="text-koda-error text-sm mt-1">{errors.easyInterval.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="maximumInterval" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Maximum interval (days)
+                      </label>
+                      <input {...register('maximumInterval', { valueAsNumber: true })} type="number" id="maximumInterval" className="input-primary" disabled={isSubmitting} />
+                      {errors.maximumInterval && (
+                        <p className="text-koda-error text-sm mt-1">{errors.maximumInterval.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="startingEase" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Starting ease
+                      </label>
+                      <input {...register('startingEase', { valueAsNumber: true })} type="number" step="0.05" id="startingEase" className="input-primary" disabled={isSubmitting} />
+                      {errors.startingEase && (
+                        <p className="text-koda-error text-sm mt-1">{errors.startingEase.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="masteryStreak" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Mastery streak
+                      </label>
+                      <input {...register('masteryStreak', { valueAsNumber: true })} type="number" id="masteryStreak" className="input-primary" disabled={isSubmitting} />
+                      {errors.masteryStreak && (
+                        <p className="text-koda-error text-sm mt-1">{errors.masteryStreak.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="desiredRetention" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Desired retention (FSRS)
+                      </label>
+                      <input {...register('desiredRetention', { valueAsNumber: true })} type="number" step="0.01" id="desiredRetention" className="input-primary" disabled={isSubmitting} />
+                      {errors.desiredRetention && (
+                        <p className="text-koda-error text-sm mt-1">{errors.desiredRetention.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="newCardsPerDay" className="block text-sm font-medium text-neutral-700 mb-1">
+                        New cards/day
+                      </label>
+                      <input {...register('newCardsPerDay', { valueAsNumber: true })} type="number" id="newCardsPerDay" className="input-primary" disabled={isSubmitting} />
+                      {errors.newCardsPerDay && (
+                        <p className="text-koda-error text-sm mt-1">{errors.newCardsPerDay.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="reviewsPerDay" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Reviews/day
+                      </label>
+                      <input {...register('reviewsPerDay', { valueAsNumber: true })} type="number" id="reviewsPerDay" className="input-primary" disabled={isSubmitting} />
+                      {errors.reviewsPerDay && (
+                        <p className="text-koda-error text-sm mt-1">{errors.reviewsPerDay.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="reviewsPerNewCard" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Reviews per new card (mixed)
+                      </label>
+                      <input {...register('reviewsPerNewCard', { valueAsNumber: true })} type="number" id="reviewsPerNewCard" className="input-primary" disabled={isSubmitting} />
+                      {errors.reviewsPerNewCard && (
+                        <p className="text-koda-error text-sm mt-1">{errors.reviewsPerNewCard.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="leechThreshold" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Leech threshold (lapses, 0 = off)
+                      </label>
+                      <input {...register('leechThreshold', { valueAsNumber: true })} type="number" id="leechThreshold" className="input-primary" disabled={isSubmitting} />
+                      {errors.leechThreshold && (
+                        <p className="text-koda-error text-sm mt-1">{errors.leechThreshold.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <label htmlFor="leechAction" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Leech action
+                      </label>
+                      <select {...register('leechAction')} id="leechAction" className="input-primary" disabled={isSubmitting}>
+                        <option value="tag">Tag only</option>
+                        <option value="suspend">Tag and suspend</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="answerTolerance" className="block text-sm font-medium text-neutral-700 mb-1">
+                        Typed answers: typos allowed
+                      </label>
+                      <input {...register('answerTolerance', { valueAsNumber: true })} type="number" id="answerTolerance" className="input-primary" disabled={isSubmitting} />
+                      {errors.answerTolerance && (
+                        <p className="text-koda-error text-sm mt-1">{errors.answerTolerance.message}</p>
+                      )}
+                    </div>
+                    <div className="space-y-1">
+                      <span className="block text-sm font-medium text-neutral-700 mb-1">Typed answers: ignore</span>
+                      <label className="flex items-center gap-2 text-sm text-neutral-700">
+                        <input {...register('answerIgnoreCase')} type="checkbox" className="accent-koda-primary" disabled={isSubmitting} />
+                        Case
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-neutral-700">
+                        <input {...register('answerIgnoreAccents')} type="checkbox" className="accent-koda-primary" disabled={isSubmitting} />
+                        Accents
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-neutral-700">
+                        <input {...register('answerIgnorePunctuation')} type="checkbox" className="accent-koda-primary" disabled={isSubmitting} />
+                        Punctuation
+                      </label>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="border-t pt-4">
+              <button
+                type="button"
+                onClick={() => setShowMathMacros(!showMathMacros)}
+                className="flex items-center justify-between w-full text-sm font-medium text-neutral-700"
+              >
+                <span>Math Macros</span>
+                <span className="text-neutral-500">{showMathMacros ? '−' : '+'}</span>
+              </button>
+
+              {(showMathMacros || errors.mathMacros) && (
+                <div className="mt-4">
+                  <textarea
+                    {...register('mathMacros')}
+                    id="mathMacros"
+                    rows={5}
+                    className="input-primary resize-none font-mono text-sm"
+                    placeholder={'\\R = \\mathbb{R}\n\\vec = \\mathbf{#1}'}
+                    disabled={isSubmitting}
+                  />
+                  {errors.mathMacros && (
+                    <p className="text-koda-error text-sm mt-1">{errors.mathMacros.message}</p>
+                  )}
+                  <p className="text-neutral-500 text-xs mt-1">
+                    One per line as \name = expansion, used in every card's LaTeX. Use #1, #2, ... for arguments.
+                  </p>
+                </div>
+              )}
+            </div>
 
             <div className="flex space-x-3 pt-4">
               <Button
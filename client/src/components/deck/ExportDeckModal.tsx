@@ -0,0 +1,121 @@
+/**
+ * Export Deck Modal Component
+ *
+ * Downloads a deck as an Anki package (.apkg), optionally carrying each
+ * card's schedule and review history along with its notes and media.
+ */
+
+import { useEffect, useState } from 'react';
+import { ApiService, apiErrorMessage } from '../../services';
+import { Button, KodaBear } from '../ui';
+import { ankiPackageFilename } from '../../../../shared/ankiExport';
+import type { Deck } from '../../types';
+
+interface ExportDeckModalProps {
+  deck: Deck;
+  onClose: () => void;
+}
+
+const ExportDeckModal: React.FC<ExportDeckModalProps> = ({ deck, onClose }) => {
+  const [includeScheduling, setIncludeScheduling] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [serverError, setServerError] = useState<string>('');
+
+  // Prevent background scrolling when modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, []);
+
+  const handleExport = async () => {
+    try {
+      setServerError('');
+      setIsExporting(true);
+      const blob = await ApiService.exportDeck(deck.id, { includeScheduling });
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = ankiPackageFilename(deck.name);
+      link.click();
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (error) {
+      setServerError(apiErrorMessage(error, 'Failed to export deck. Please try again.'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="text-center mb-6">
+            <KodaBear size="lg" expression="default" className="mx-auto mb-4" />
+            <h2 className="text-2xl font-display font-bold text-koda-primary-dark">
+              Export Deck
+            </h2>
+            <p className="text-neutral-600 mt-2">
+              Download "{deck.name}" as an Anki package
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            {serverError && (
+              <div className="bg-koda-error-light border border-koda-error/20 text-koda-error px-4 py-3 rounded-lg text-sm">
+                {serverError}
+              </div>
+            )}
+
+            <p className="text-sm text-text-secondary">
+              Notes keep their fields, tags and media. Math is converted to the delimiters Anki's
+              MathJax reads, and image occlusion cards are exported as basic cards.
+            </p>
+
+            <label className="flex items-start gap-3 p-4 bg-surface-elevated rounded-xl cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeScheduling}
+                onChange={(e) => setIncludeScheduling(e.target.checked)}
+                disabled={isExporting}
+                className="mt-1 rounded border-border text-koda-primary focus:ring-koda-primary"
+              />
+              <span>
+                <span className="block text-sm font-medium text-text-primary">Include scheduling and review history</span>
+                <span className="block text-xs text-text-secondary">
+                  Keep each card's interval, due date and past reviews. Leave this off to share the deck as new cards.
+                </span>
+              </span>
+            </label>
+
+            <div className="flex space-x-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={onClose}
+                disabled={isExporting}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                onClick={handleExport}
+                isLoading={isExporting}
+                disabled={isExporting}
+              >
+                {isExporting ? 'Exporting...' : 'Download .apkg'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDeckModal;
@@ -3,4 +3,5 @@
  */
 
 export { default as CreateDeckModal } from './CreateDeckModal';
-export { default as EditDeckModal } from './EditDeckModal';
\ No newline at end of file
+export { default as EditDeckModal } from './EditDeckModal';
+export { default as ExportDeckModal } from './ExportDeckModal';
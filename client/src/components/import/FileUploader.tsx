@@ -7,12 +7,16 @@
 import { useState, useCallback, useRef } from 'react';
 import { Button } from '../ui';
 import { CloudArrowUpIcon, DocumentTextIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { ANKI_PACKAGE_EXTENSIONS } from '../../../../shared/anki';
 
 interface FileUploaderProps {
-  onFileUpload: (file: File, content: string) => void;
+  onFileUpload: (file: File, content: string) => void; // content is empty for Anki packages, which are binary
   supportedFormats: string[];
 }
 
+const isAnkiPackage = (file: File) =>
+  ANKI_PACKAGE_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() || '');
+
 const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, supportedFormats }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -20,9 +24,10 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, supportedForm
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateFile = (file: File): string | null => {
-    // Check file size (50MB limit)
-    if (file.size > 50 * 1024 * 1024) {
-      return 'File size must be less than 50MB';
+    // Check file size (50MB limit, 200MB for Anki packages with their media)
+    const maxMegabytes = isAnkiPackage(file) ? 200 : 50;
+    if (file.size > maxMegabytes * 1024 * 1024) {
+      return `File size must be less than ${maxMegabytes}MB`;
     }
 
     // Check file type
@@ -33,7 +38,9 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, supportedForm
       json: ['application/json', 'text/json'],
       txt: ['text/plain'],
       xlsx: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
-      xls: ['application/vnd.ms-excel']
+      xls: ['application/vnd.ms-excel'],
+      apkg: ['application/zip', 'application/octet-stream'],
+      colpkg: ['application/zip', 'application/octet-stream']
     };
 
     const supportedExtensions = Object.keys(mimeTypes);
@@ -83,8 +90,8 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, supportedForm
         return;
       }
 
-      // Read file content
-      const content = await readFileContent(file);
+      // Read file content; Anki packages are zips the parent unpacks itself
+      const content = isAnkiPackage(file) ? '' : await readFileContent(file);
       
       // Call parent handler
       onFileUpload(file, content);
@@ -152,7 +159,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileUpload, supportedForm
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.tsv,.json,.txt,.xlsx,.xls"
+          accept=".csv,.tsv,.json,.txt,.xlsx,.xls,.apkg,.colpkg"
           onChange={handleFileSelect}
           className="hidden"
         />
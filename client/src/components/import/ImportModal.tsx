@@ -25,7 +25,11 @@ import {
   AcademicCapIcon,
   XCircleIcon
 } from '@heroicons/react/24/outline';
-import { ApiService } from '../../services';
+import { ApiService, prepareAnkiImport, importAnkiPackage } from '../../services';
+import type { PreparedAnkiImport } from '../../services';
+import { readAnkiPackage } from '../../utils/ankiPackage';
+import type { AnkiPackage } from '../../utils/ankiPackage';
+import { ANKI_PACKAGE_EXTENSIONS } from '../../../../shared/anki';
 import type { Deck } from '../../types';
 
 interface ImportModalProps {
@@ -54,6 +58,11 @@ interface ImportData {
     duplicates: number;
   };
   format: string;
+  // Anki packages import as notes, so their preview is read-only
+  anki?: {
+    ankiPackage: AnkiPackage;
+    prepared: PreparedAnkiImport;
+  };
 }
 
 const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComplete }) => {
@@ -66,6 +75,9 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
   const [currentIcon, setCurrentIcon] = useState<any>(null);
   const [editingCard, setEditingCard] = useState<number | null>(null);
   const [showAllCards, setShowAllCards] = useState(false);
+  const [includeScheduling, setIncludeScheduling] = useState(true);
+  const [importedCount, setImportedCount] = useState(0);
+  const [importNotice, setImportNotice] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Prevent background scrolling when modal is open
@@ -82,11 +94,17 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
     setProgress(0);
     
     try {
-      // Read file content
-      const content = await readFileContent(file);
-      
-      // Smart parsing with auto-detection
-      const parsed = await parseFileIntelligently(file, content);
+      const extension = file.name.split('.').pop()?.toLowerCase() || '';
+      let parsed: ImportData;
+      if (ANKI_PACKAGE_EXTENSIONS.includes(extension)) {
+        parsed = await parseAnkiPackage(file);
+      } else {
+        // Read file content
+        const content = await readFileContent(file);
+        
+        // Smart parsing with auto-detection
+        parsed = await parseFileIntelligently(file, content);
+      }
       
       setImportData(parsed);
       setState('preview');
@@ -111,6 +129,44 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
     });
   };
 
+  const parseAnkiPackage = async (file: File): Promise<ImportData> => {
+    if (file.size > 200 * 1024 * 1024) {
+      throw new Error('File too large. Please use Anki packages under 200MB.');
+    }
+    
+    setProgress(20);
+    setCurrentCard('Opening your Anki package...');
+    setCurrentIcon(DocumentTextIcon);
+    const ankiPackage = await readAnkiPackage(file);
+    
+    setProgress(70);
+    setCurrentCard('Converting note types and notes...');
+    setCurrentIcon(CpuChipIcon);
+    const prepared = prepareAnkiImport(ankiPackage);
+    
+    // One preview entry per card the notes generate; notes that generate none are flagged
+    const cards = prepared.notes.flatMap((note): ParsedCard[] => {
+      const tags = note.tags ? note.tags.split(';') : undefined;
+      if (note.generated.length === 0) {
+        return [{ front: Object.values(note.fields).find(value => value.trim()) || '', back: '', tags, confidence: 0, issues: ['Note generates no cards and will be skipped'] }];
+      }
+      return note.generated.map(card => ({ front: card.front, back: card.back, tags, confidence: 1, issues: [] }));
+    });
+    
+    setProgress(100);
+    return {
+      cards,
+      stats: {
+        total: cards.length,
+        valid: cards.filter(card => card.issues?.length === 0).length,
+        withIssues: cards.filter(card => card.issues && card.issues.length > 0).length,
+        duplicates: 0,
+      },
+      format: 'Anki',
+      anki: { ankiPackage, prepared },
+    };
+  };
+
   const parseFileIntelligently = async (file: File, content: string): Promise<ImportData> => {
     // Beautiful animated processing with realistic steps
     const steps = [
@@ -475,6 +531,30 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
     setProgress(0);
     
     try {
+      if (importData.anki) {
+        const { ankiPackage, prepared } = importData.anki;
+        const result = await importAnkiPackage(ankiPackage, prepared, deck.id, {
+          includeScheduling,
+          onProgress: ({ progress, message }) => {
+            setProgress(progress);
+            setCurrentCard(message);
+          },
+        });
+        setImportedCount(result.cardCount);
+        const notices: string[] = [];
+        if (result.skippedMedia.length > 0) {
+          const count = result.skippedMedia.length;
+          notices.push(`${count} media file${count === 1 ? '' : 's'} could not be imported, as Koda doesn't support the file type or size`);
+        }
+        if (result.unscheduledCards > 0) {
+          const count = result.unscheduledCards;
+          notices.push(`${count} card${count === 1 ? "'s" : "s'"} Anki schedule could not be read, so ${count === 1 ? 'it starts' : 'they start'} as new`);
+        }
+        setImportNotice(notices.join('. '));
+        setState('success');
+        return;
+      }
+      
       const validCards = importData.cards.filter(card => card.issues?.length === 0);
       const batches = [];
       const batchSize = 50;
@@ -509,6 +589,7 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
         await new Promise(resolve => setTimeout(resolve, 300));
       }
       
+      setImportedCount(validCards.length);
       setState('success');
       
     } catch (err: any) {
@@ -587,6 +668,8 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
     setCurrentCard('');
     setEditingCard(null);
     setShowAllCards(false);
+    setImportedCount(0);
+    setImportNotice('');
   };
 
   return (
@@ -605,7 +688,7 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                   Add to "{deck.name}"
                 </p>
                 <p className="text-xs text-text-muted">
-                  CSV, JSON, TSV
+                  CSV, JSON, TSV, Anki (.apkg)
                 </p>
               </div>
             </div>
@@ -634,7 +717,7 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".csv,.tsv,.json,.txt"
+                  accept=".csv,.tsv,.json,.txt,.apkg,.colpkg"
                   onChange={handleFileInput}
                   className="hidden"
                 />
@@ -665,7 +748,7 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
               </div>
               
               {/* Supported Formats - Compact */}
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4">
                 <div className="bg-surface-elevated rounded-lg p-3 sm:p-4 text-center">
                   <div className="w-8 h-8 bg-blue-100 rounded flex items-center justify-center mx-auto mb-2">
                     <DocumentTextIcon className="w-4 h-4 text-blue-600" />
@@ -689,6 +772,14 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                   <h4 className="font-semibold text-text-primary mb-1 text-sm">TSV Files</h4>
                   <p className="text-xs text-text-secondary">Anki, Quizlet exports</p>
                 </div>
+                
+                <div className="bg-surface-elevated rounded-lg p-3 sm:p-4 text-center">
+                  <div className="w-8 h-8 bg-orange-100 rounded flex items-center justify-center mx-auto mb-2">
+                    <DocumentTextIcon className="w-4 h-4 text-orange-600" />
+                  </div>
+                  <h4 className="font-semibold text-text-primary mb-1 text-sm">Anki Packages</h4>
+                  <p className="text-xs text-text-secondary">Note types, media and progress</p>
+                </div>
               </div>
             </div>
           )}
@@ -793,7 +884,7 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                               Needs Review
                             </span>
                           )}
-                          <div className="flex items-center gap-1">
+                          {!importData.anki && <div className="flex items-center gap-1">
                             <button
                               onClick={() => setEditingCard(editingCard === index ? null : index)}
                               className="text-gray-500 hover:text-gray-700 p-1 min-h-[32px] min-w-[32px] flex items-center justify-center rounded hover:bg-gray-200 transition-colors"
@@ -806,7 +897,7 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                             >
                               <TrashIcon className="w-4 h-4" />
                             </button>
-                          </div>
+                          </div>}
                         </div>
                       </div>
                       
@@ -850,6 +941,7 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                                 <div className="break-words overflow-wrap-anywhere hyphens-auto max-w-full">
                                   <MathRenderer 
                                     content={card.front.length > 100 ? `${card.front.substring(0, 100)}...` : card.front} 
+                                    macros={deck.mathMacros}
                                     className="text-sm text-gray-900 leading-relaxed max-w-full overflow-hidden" 
                                   />
                                 </div>
@@ -865,6 +957,7 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                                 <div className="break-words overflow-wrap-anywhere hyphens-auto max-w-full">
                                   <MathRenderer 
                                     content={card.back.length > 100 ? `${card.back.substring(0, 100)}...` : card.back} 
+                                    macros={deck.mathMacros}
                                     className="text-sm text-gray-900 leading-relaxed max-w-full overflow-hidden" 
                                   />
                                 </div>
@@ -892,6 +985,24 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                 </div>
               </div>
               
+              {importData.anki && importData.anki.prepared.scheduledCards > 0 && (
+                <label className="flex items-start gap-3 p-4 bg-surface-elevated rounded-xl cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeScheduling}
+                    onChange={(e) => setIncludeScheduling(e.target.checked)}
+                    className="mt-1 rounded border-border text-koda-primary focus:ring-koda-primary"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-text-primary">Include review history and scheduling</span>
+                    <span className="block text-xs text-text-secondary">
+                      Keep Anki's intervals and due dates for {importData.anki.prepared.scheduledCards} studied cards and
+                      their {importData.anki.prepared.reviewCount} reviews. Otherwise every card starts as new.
+                    </span>
+                  </span>
+                </label>
+              )}
+              
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row justify-between gap-3 sm:gap-4">
                 <Button variant="outline" onClick={reset} className="min-h-[48px]">
@@ -955,8 +1066,11 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                   Import Complete
                 </h3>
                 <p className="text-text-secondary text-lg max-w-md mx-auto">
-                  {importData?.stats.valid} cards successfully imported to "{deck.name}"
+                  {importedCount} cards successfully imported to "{deck.name}"
                 </p>
+                {importNotice && (
+                  <p className="text-sm text-text-muted max-w-md mx-auto">{importNotice}</p>
+                )}
               </div>
               
               {/* Action Buttons */}
@@ -1035,8 +1149,9 @@ const ImportModal: React.FC<ImportModalProps> = ({ deck, onClose, onImportComple
                 <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-2 text-left">
                   <li>• Ensure your file has at least two columns (front/back)</li>
                   <li>• Use common headers like "question/answer" or "front/back"</li>
-                  <li>• Files should be under 50MB</li>
-                  <li>• Supported formats: CSV, TSV, JSON</li>
+                  <li>• Files should be under 50MB, or 200MB for Anki packages</li>
+                  <li>• Export from Anki with File → Export as "Anki Deck Package (.apkg)"</li>
+                  <li>• Supported formats: CSV, TSV, JSON, Anki (.apkg, .colpkg)</li>
                 </ul>
               </div>
             </div>
@@ -0,0 +1,226 @@
+/**
+ * Custom Study Modal Component
+ *
+ * Builder for cram sessions filtered by deck, tags, stage, lapses and
+ * recent reviews, optionally without touching the schedule.
+ */
+
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useDeckStore } from '../../stores';
+import { Button, KodaBear } from '../ui';
+import { customStudyToSearchParams } from '../../utils/customStudy';
+import type { Card } from '../../types';
+
+const STAGE_OPTIONS: Array<{ value: Card['stage']; label: string }> = [
+  { value: 'new', label: 'New' },
+  { value: 'learning', label: 'Learning' },
+  { value: 'review', label: 'Review' },
+  { value: 'mastered', label: 'Mastered' },
+];
+
+const optionalCount = z.string().regex(/^\d*$/, 'Enter a whole number');
+
+const customStudySchema = z.object({
+  deckId: z.string(),
+  tags: z.string(),
+  stages: z.array(z.enum(['new', 'learning', 'review', 'mastered'])),
+  minLapses: optionalCount,
+  reviewedWithinDays: optionalCount,
+  failedWithinDays: optionalCount,
+  mode: z.enum(['preview', 'reschedule']),
+  maxCards: z.string().regex(/^[1-9]\d*$/, 'At least 1 card'),
+});
+
+type CustomStudyFormData = z.infer<typeof customStudySchema>;
+
+const toCount = (value: string) => (value ? parseInt(value, 10) || undefined : undefined);
+
+interface CustomStudyModalProps {
+  initialDeckId?: string;
+  onClose: () => void;
+}
+
+const CustomStudyModal: React.FC<CustomStudyModalProps> = ({ initialDeckId, onClose }) => {
+  const navigate = useNavigate();
+  const { decks, fetchDecks } = useDeckStore();
+
+  // Prevent background scrolling when modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, []);
+
+  useEffect(() => {
+    if (decks.length === 0) {
+      fetchDecks().catch(console.error);
+    }
+  }, [decks.length, fetchDecks]);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<CustomStudyFormData>({
+    resolver: zodResolver(customStudySchema),
+    defaultValues: {
+      deckId: initialDeckId || '',
+      tags: '',
+      stages: [],
+      minLapses: '',
+      reviewedWithinDays: '',
+      failedWithinDays: '',
+      mode: 'preview',
+      maxCards: '50',
+    },
+  });
+
+  const onSubmit = (data: CustomStudyFormData) => {
+    const params = customStudyToSearchParams({
+      deckId: data.deckId || undefined,
+      tags: data.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      stages: data.stages,
+      minLapses: toCount(data.minLapses),
+      reviewedWithinDays: toCount(data.reviewedWithinDays),
+      failedWithinDays: toCount(data.failedWithinDays),
+      mode: data.mode,
+      maxCards: toCount(data.maxCards),
+    });
+    navigate(`/study/custom?${params.toString()}`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="text-center mb-6">
+            <KodaBear size="lg" expression="determined" className="mx-auto mb-4" />
+            <h2 className="text-2xl font-display font-bold text-koda-primary-dark">
+              Custom Study
+            </h2>
+            <p className="text-neutral-600 mt-2">
+              Drill exactly the cards you need before an exam
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <label htmlFor="customDeckId" className="block text-sm font-medium text-neutral-700 mb-1">
+                Deck
+              </label>
+              <select {...register('deckId')} id="customDeckId" className="input-primary">
+                <option value="">All decks</option>
+                {decks.map(deck => (
+                  <option key={deck.id} value={deck.id}>{deck.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="customTags" className="block text-sm font-medium text-neutral-700 mb-1">
+                Tags
+              </label>
+              <input
+                {...register('tags')}
+                type="text"
+                id="customTags"
+                className="input-primary"
+                placeholder="e.g., verbs, chapter-3 (any of them)"
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-neutral-700 mb-1">Stages</span>
+              <div className="flex flex-wrap gap-3">
+                {STAGE_OPTIONS.map(stage => (
+                  <label key={stage.value} className="flex items-center gap-2 text-sm text-neutral-700">
+                    <input {...register('stages')} type="checkbox" value={stage.value} />
+                    {stage.label}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-neutral-500 mt-1">Leave empty for every stage</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="minLapses" className="block text-sm font-medium text-neutral-700 mb-1">
+                  Min. lapses
+                </label>
+                <input {...register('minLapses')} type="number" min="0" id="minLapses" className="input-primary" placeholder="Any" />
+                {errors.minLapses && (
+                  <p className="text-koda-error text-sm mt-1">{errors.minLapses.message}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="maxCards" className="block text-sm font-medium text-neutral-700 mb-1">
+                  Max. cards
+                </label>
+                <input {...register('maxCards')} type="number" min="1" id="maxCards" className="input-primary" />
+                {errors.maxCards && (
+                  <p className="text-koda-error text-sm mt-1">{errors.maxCards.message}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="reviewedWithinDays" className="block text-sm font-medium text-neutral-700 mb-1">
+                  Reviewed in last (days)
+                </label>
+                <input {...register('reviewedWithinDays')} type="number" min="1" id="reviewedWithinDays" className="input-primary" placeholder="Any" />
+                {errors.reviewedWithinDays && (
+                  <p className="text-koda-error text-sm mt-1">{errors.reviewedWithinDays.message}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="failedWithinDays" className="block text-sm font-medium text-neutral-700 mb-1">
+                  Failed in last (days)
+                </label>
+                <input {...register('failedWithinDays')} type="number" min="1" id="failedWithinDays" className="input-primary" placeholder="Any" />
+                {errors.failedWithinDays && (
+                  <p className="text-koda-error text-sm mt-1">{errors.failedWithinDays.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-neutral-700 mb-1">Scheduling</span>
+              <label className="flex items-start gap-2 text-sm text-neutral-700 mb-1">
+                <input {...register('mode')} type="radio" value="preview" className="mt-1" />
+                <span>Preview only: practice without changing when cards are due</span>
+              </label>
+              <label className="flex items-start gap-2 text-sm text-neutral-700">
+                <input {...register('mode')} type="radio" value="reschedule" className="mt-1" />
+                <span>Reschedule normally: answers count like a regular review</span>
+              </label>
+            </div>
+
+            <div className="flex space-x-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={onClose}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={isSubmitting}
+              >
+                Start Session
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomStudyModal;
@@ -1,7 +1,9 @@
 /**
  * Study Card Component
  * 
- * Interactive flashcard with flip animation and review buttons.
+ * Interactive flashcard with flip animation and review buttons. Typed-answer
+ * and multiple-choice cards ask for the answer first and suggest a grade
+ * from it, which the review buttons can still override.
  */
 
 import { useState, useEffect } from 'react';
@@ -14,6 +16,17 @@ import {
   HandThumbUpIcon 
 } from '@heroicons/react/24/outline';
 import type { Card } from '../../types';
+import { clozeFaces } from '../../../../shared/cloze';
+import {
+  compareTypedAnswer,
+  type TypedAnswerOptions,
+  type TypedAnswerResult,
+} from '../../../../shared/typedAnswer';
+import { choiceQuality } from '../../../../shared/multipleChoice';
+import { DEFAULT_SCHEDULING_OPTIONS } from '../../../../shared/scheduler';
+import type { MathMacros } from '../../../../shared/mathMacros';
+
+const QUALITY_LABELS: Record<number, string> = { 1: 'Again', 2: 'Hard', 3: 'Good', 4: 'Easy' };
 
 interface StudyCardProps {
   card: Card;
@@ -21,46 +34,38 @@ interface StudyCardProps {
   totalCards: number;
   remainingCards?: number;
   reviewCount?: number;
+  showDeckName?: boolean; // Label the card with its deck when studying several decks
+  answerOptions?: TypedAnswerOptions; // How typed answers are compared, from the deck options
+  choices?: string[]; // Shown as multiple choice when given, one of them being the card's back
+  mathMacros?: MathMacros; // KaTeX macros of the card's deck
   onReview: (quality: number, responseTime: number, wasCorrect: boolean) => void;
 }
 
-const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, remainingCards, reviewCount, onReview }) => {
+const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, remainingCards, reviewCount, showDeckName, answerOptions = DEFAULT_SCHEDULING_OPTIONS, choices = [], mathMacros, onReview }) => {
   const [isFlipped, setIsFlipped] = useState(false);
   const [startTime, setStartTime] = useState<Date>(new Date());
   const [showHint, setShowHint] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [answerResult, setAnswerResult] = useState<TypedAnswerResult | null>(null);
+  const [chosenIndex, setChosenIndex] = useState<number | null>(null);
+  const isChoice = choices.length > 0;
+  const isTyped = !isChoice && card.type === 'typed';
+  const suggestedQuality = answerResult
+    ? answerResult.suggestedQuality
+    : chosenIndex !== null ? choiceQuality(choices[chosenIndex] === card.back) : null;
 
-  // Smart truncation that respects LaTeX expressions
-  const smartTruncate = (text: string, maxLength: number): string => {
-    if (text.length <= maxLength) return text;
-    
-    // Find the last complete LaTeX expression before maxLength
-    let truncateAt = maxLength;
-    let inLatex = false;
-    let latexStart = -1;
-    
-    for (let i = 0; i < maxLength; i++) {
-      if (text.slice(i, i + 2) === '\\(' || text.slice(i, i + 2) === '\\[') {
-        inLatex = true;
-        latexStart = i;
-      } else if (text.slice(i, i + 2) === '\\)' || text.slice(i, i + 2) === '\\]') {
-        inLatex = false;
-        latexStart = -1;
-      }
-    }
-    
-    // If we're in the middle of a LaTeX expression, truncate before it
-    if (inLatex && latexStart > 0) {
-      truncateAt = latexStart;
-    }
-    
-    return text.substring(0, truncateAt) + '...';
-  };
+  // Faces are shown in full: long ones scroll inside the card, as cutting the
+  // text would break the Markdown, math and code it renders from
+  const faces = card.type === 'cloze' ? clozeFaces(card) : { front: card.front, back: card.back };
 
   // Reset card state when card changes or immediately after review
   useEffect(() => {
     setIsFlipped(false);
     setShowHint(false);
     setStartTime(new Date());
+    setTypedAnswer('');
+    setAnswerResult(null);
+    setChosenIndex(null);
   }, [card.id]);
 
   // Keyboard shortcuts
@@ -71,6 +76,16 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
         return;
       }
 
+      // Number keys pick an option before a multiple-choice card is revealed
+      if (!isFlipped && isChoice && /^[1-9]$/.test(event.key)) {
+        const index = Number(event.key) - 1;
+        if (index < choices.length) {
+          event.preventDefault();
+          handleChoose(index);
+        }
+        return;
+      }
+
       switch (event.key) {
         case ' ':
           event.preventDefault();
@@ -84,6 +99,9 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
           event.preventDefault();
           if (!isFlipped) {
             handleFlip();
+          } else if (suggestedQuality !== null) {
+            // Accept the suggested grade
+            handleReview(suggestedQuality, suggestedQuality >= 2);
           }
           break;
         case 'ArrowLeft':
@@ -102,7 +120,7 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
         case '2':
           if (isFlipped) {
             event.preventDefault();
-            handleReview(2, false);
+            handleReview(2, true);
           }
           break;
         case '3':
@@ -135,12 +153,30 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [isFlipped, card.hint, showHint]);
+  }, [isFlipped, card.hint, showHint, suggestedQuality, typedAnswer, choices]);
 
   const handleFlip = () => {
+    if (isTyped) {
+      setAnswerResult(compareTypedAnswer(typedAnswer, card.back, answerOptions));
+    }
+    setIsFlipped(true);
+  };
+
+  const handleChoose = (index: number) => {
+    setChosenIndex(index);
     setIsFlipped(true);
   };
 
+  const suggestedClass = (quality: number) =>
+    suggestedQuality === quality ? 'ring-2 ring-koda-primary border-koda-primary/40' : '';
+
+  const choiceClass = (index: number) => {
+    if (!isFlipped) return 'border-border hover:border-koda-primary/40 hover:bg-koda-primary/5';
+    if (choices[index] === card.back) return 'border-koda-primary bg-koda-primary/10';
+    if (index === chosenIndex) return 'border-error bg-error/10';
+    return 'border-border opacity-60';
+  };
+
   const handleReview = (quality: number, wasCorrect: boolean) => {
     const responseTime = Date.now() - startTime.getTime();
     
@@ -204,11 +240,23 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
 
   return (
     <div className="max-w-2xl mx-auto relative px-2 sm:px-4 lg:px-0">
+      {/* Deck Label */}
+      {showDeckName && card.deck && (
+        <div className="flex justify-center mb-2 sm:mb-3">
+          <span className="px-3 py-1 rounded-full bg-koda-primary/10 text-koda-primary text-xs sm:text-sm font-semibold truncate max-w-full">
+            {card.deck.name}
+          </span>
+        </div>
+      )}
+
       {/* Flashcard */}
       <div className="relative mb-4 sm:mb-6 lg:mb-8 perspective-1000">
         <div 
           className={`card-flashcard transform group ${isFlipped ? 'rotate-y-180' : ''} ${!isFlipped ? 'cursor-pointer hover:scale-105 hover:shadow-strong active:scale-95' : ''} w-full`}
-          onClick={!isFlipped ? handleFlip : undefined}
+          onClick={!isFlipped ? (event) => {
+            // Playing a clip on the front shouldn't reveal the answer
+            if (!(event.target as HTMLElement).closest('audio')) handleFlip();
+          } : undefined}
           style={{
             transformStyle: 'preserve-3d',
             minHeight: window.innerWidth < 640 ? '240px' : window.innerWidth < 768 ? '280px' : '320px',
@@ -223,11 +271,14 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
             }`}
             style={{ backfaceVisibility: 'hidden' }}
           >
-            <div className="transform transition-all duration-300 max-w-full w-full flex flex-col justify-center min-h-0">
-              <div className="flex-1 flex items-center justify-center min-h-0 overflow-hidden">
-                <div className="w-full max-w-full overflow-hidden">
+            <div className="transform transition-all duration-300 max-w-full w-full max-h-full flex flex-col justify-center min-h-0">
+              {/* Auto margins center short faces and still let long ones scroll from the top */}
+              <div className="flex-1 flex min-h-0 overflow-y-auto overflow-x-hidden">
+                <div className="w-full max-w-full my-auto">
                   <MathRenderer 
-                    content={smartTruncate(card.front, window.innerWidth < 640 ? 100 : 150)}
+                    content={faces.front}
+                    macros={mathMacros}
+                    autoPlay={!isFlipped}
                     className={`font-display font-semibold text-text-primary leading-relaxed group-hover:text-koda-primary transition-colors duration-300 break-words hyphens-auto overflow-wrap-anywhere max-w-full ${
                       card.front.length > 80 
                         ? 'text-base sm:text-lg md:text-xl lg:text-2xl' 
@@ -245,8 +296,16 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
                     className="mb-3 sm:mb-4 group-hover:scale-110 transition-transform duration-300"
                   />
                   <div className="text-xs sm:text-sm lg:text-base text-text-secondary bg-surface-elevated px-3 sm:px-4 lg:px-6 py-2 sm:py-3 rounded-full border border-border animate-pulse shadow-subtle group-hover:shadow-card group-hover:bg-koda-primary/5 group-hover:border-koda-primary/20 transition-all duration-300 max-w-full overflow-hidden">
-                    <span className="hidden sm:inline whitespace-nowrap overflow-hidden text-ellipsis">I'm curious about your answer! Click or press space to reveal ✨</span>
-                    <span className="sm:hidden">Tap to reveal answer ✨</span>
+                    {isTyped ? (
+                      <span className="whitespace-nowrap overflow-hidden text-ellipsis">Type your answer below ✍️</span>
+                    ) : isChoice ? (
+                      <span className="whitespace-nowrap overflow-hidden text-ellipsis">Pick an answer below 👇</span>
+                    ) : (
+                      <>
+                        <span className="hidden sm:inline whitespace-nowrap overflow-hidden text-ellipsis">I'm curious about your answer! Click or press space to reveal ✨</span>
+                        <span className="sm:hidden">Tap to reveal answer ✨</span>
+                      </>
+                    )}
                   </div>
                 </div>
               )}
@@ -263,11 +322,13 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
               transform: 'rotateY(180deg)'
             }}
           >
-            <div className="transform transition-all duration-300 max-w-full w-full flex flex-col justify-center min-h-0">
-              <div className="flex-1 flex items-center justify-center min-h-0 overflow-hidden">
-                <div className="w-full max-w-full overflow-hidden">
+            <div className="transform transition-all duration-300 max-w-full w-full max-h-full flex flex-col justify-center min-h-0">
+              <div className="flex-1 flex min-h-0 overflow-y-auto overflow-x-hidden">
+                <div className="w-full max-w-full my-auto">
                   <MathRenderer 
-                    content={smartTruncate(card.back, window.innerWidth < 640 ? 100 : 150)}
+                    content={faces.back}
+                    macros={mathMacros}
+                    autoPlay={isFlipped}
                     className={`font-display font-semibold text-text-primary leading-relaxed break-words hyphens-auto overflow-wrap-anywhere max-w-full ${
                       card.back.length > 80 
                         ? 'text-base sm:text-lg md:text-xl lg:text-2xl' 
@@ -283,7 +344,7 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
                     <span className="text-lg sm:text-xl lg:text-2xl mr-2">💡</span>
                     <span className="font-semibold text-info">Hint</span>
                   </div>
-                  <div className="break-words overflow-wrap-anywhere">{card.hint}</div>
+                  <MathRenderer content={card.hint} macros={mathMacros} className="break-words overflow-wrap-anywhere" />
                 </div>
               )}
               
@@ -302,8 +363,54 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
         </div>
       </div>
 
+      {/* Multiple Choice Options */}
+      {isChoice && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3 px-2 sm:px-4 lg:px-0 mb-4 sm:mb-6 max-w-3xl mx-auto">
+          {choices.map((choice, index) => (
+            <button
+              key={index}
+              onClick={() => handleChoose(index)}
+              disabled={isFlipped}
+              className={`relative flex items-center justify-center text-center min-h-[56px] rounded-lg bg-surface border transition-all duration-200 p-3 pr-7 ${choiceClass(index)}`}
+              aria-label={`Option ${index + 1}`}
+            >
+              <MathRenderer content={choice} macros={mathMacros} className="text-sm sm:text-base text-text-primary break-words max-w-full" />
+              <span className="absolute top-1 right-1 text-xs font-medium text-text-muted bg-surface-elevated rounded-full w-4 h-4 flex items-center justify-center">
+                {index + 1}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Action Buttons */}
-      {!isFlipped ? (
+      {!isFlipped && isTyped ? (
+        // Before flip - typed-answer cards ask for the answer first
+        <form
+          className="flex flex-col sm:flex-row gap-2 sm:gap-3 px-2 sm:px-4 lg:px-0 max-w-xl mx-auto"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleFlip();
+          }}
+        >
+          <input
+            type="text"
+            value={typedAnswer}
+            onChange={(event) => setTypedAnswer(event.target.value)}
+            className="input-primary flex-1 text-base sm:text-lg"
+            placeholder="Type your answer..."
+            aria-label="Your answer"
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+            autoFocus
+          />
+          <Button type="submit" size="lg" className="min-h-[48px]">
+            <EyeIcon className="w-5 h-5 mr-2" />
+            Check
+          </Button>
+        </form>
+      ) : !isFlipped ? (
         // Before flip - show flip button
         <div className="flex justify-center px-2 sm:px-4 lg:px-0">
           <Button 
@@ -318,6 +425,34 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
       ) : (
         // After flip - show review buttons
         <div className="space-y-3 sm:space-y-4 lg:space-y-6 px-2 sm:px-4 lg:px-0">
+          {answerResult && (
+            <div className="max-w-xl mx-auto bg-surface-elevated border border-border rounded-lg p-3 sm:p-4 text-center">
+              <div className="font-mono text-base sm:text-lg break-words">
+                {answerResult.diff.length === 0 ? (
+                  <span className="text-text-muted">No answer typed</span>
+                ) : answerResult.diff.map((segment, index) => (
+                  <span
+                    key={index}
+                    className={
+                      segment.kind === 'correct' ? 'text-koda-primary' :
+                      segment.kind === 'extra' ? 'text-error line-through' :
+                      'text-text-muted underline decoration-dotted'
+                    }
+                  >
+                    {segment.text}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {suggestedQuality !== null && (
+            <p className="text-center text-xs sm:text-sm text-text-secondary">
+              Suggested: <span className="font-semibold text-koda-primary">{QUALITY_LABELS[suggestedQuality]}</span>
+              {' '}· press Enter to accept or pick another grade
+            </p>
+          )}
+
           <div className="text-center">
             <p className="text-sm sm:text-base lg:text-lg text-text-primary font-semibold px-2">
               How well did you know this?
@@ -328,7 +463,7 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
             {/* Again */}
             <button
               onClick={() => handleReview(1, false)}
-              className="group relative flex flex-col items-center justify-center min-h-[60px] sm:min-h-[72px] rounded-lg bg-surface border border-border hover:border-koda-primary/40 hover:bg-koda-primary/5 transition-all duration-200 hover:shadow-card active:scale-95 focus:outline-none focus:ring-2 focus:ring-koda-primary/20 p-2 sm:p-3"
+              className={`group relative flex flex-col items-center justify-center min-h-[60px] sm:min-h-[72px] rounded-lg bg-surface border border-border hover:border-koda-primary/40 hover:bg-koda-primary/5 transition-all duration-200 hover:shadow-card active:scale-95 focus:outline-none focus:ring-2 focus:ring-koda-primary/20 p-2 sm:p-3 ${suggestedClass(1)}`}
               aria-label="Rate as 'Again'"
             >
               <HandThumbDownIcon className="w-4 h-4 sm:w-5 sm:h-5 text-text-secondary group-hover:text-koda-primary transition-colors duration-200 mb-1" />
@@ -342,8 +477,8 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
             
             {/* Hard */}
             <button
-              onClick={() => handleReview(2, false)}
-              className="group relative flex flex-col items-center justify-center min-h-[60px] sm:min-h-[72px] rounded-lg bg-surface border border-border hover:border-koda-primary/40 hover:bg-koda-primary/5 transition-all duration-200 hover:shadow-card active:scale-95 focus:outline-none focus:ring-2 focus:ring-koda-primary/20 p-2 sm:p-3"
+              onClick={() => handleReview(2, true)}
+              className={`group relative flex flex-col items-center justify-center min-h-[60px] sm:min-h-[72px] rounded-lg bg-surface border border-border hover:border-koda-primary/40 hover:bg-koda-primary/5 transition-all duration-200 hover:shadow-card active:scale-95 focus:outline-none focus:ring-2 focus:ring-koda-primary/20 p-2 sm:p-3 ${suggestedClass(2)}`}
               aria-label="Rate as 'Hard'"
             >
               <ExclamationTriangleIcon className="w-4 h-4 sm:w-5 sm:h-5 text-text-secondary group-hover:text-koda-primary transition-colors duration-200 mb-1" />
@@ -358,7 +493,7 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
             {/* Good */}
             <button
               onClick={() => handleReview(3, true)}
-              className="group relative flex flex-col items-center justify-center min-h-[60px] sm:min-h-[72px] rounded-lg bg-surface border border-border hover:border-koda-primary/40 hover:bg-koda-primary/5 transition-all duration-200 hover:shadow-card active:scale-95 focus:outline-none focus:ring-2 focus:ring-koda-primary/20 p-2 sm:p-3"
+              className={`group relative flex flex-col items-center justify-center min-h-[60px] sm:min-h-[72px] rounded-lg bg-surface border border-border hover:border-koda-primary/40 hover:bg-koda-primary/5 transition-all duration-200 hover:shadow-card active:scale-95 focus:outline-none focus:ring-2 focus:ring-koda-primary/20 p-2 sm:p-3 ${suggestedClass(3)}`}
               aria-label="Rate as 'Good'"
             >
               <ArrowTrendingUpIcon className="w-4 h-4 sm:w-5 sm:h-5 text-text-secondary group-hover:text-koda-primary transition-colors duration-200 mb-1" />
@@ -373,7 +508,7 @@ const StudyCard: React.FC<StudyCardProps> = ({ card, cardNumber, totalCards, rem
             {/* Easy */}
             <button
               onClick={() => handleReview(4, true)}
-              className="group relative flex flex-col items-center justify-center min-h-[60px] sm:min-h-[72px] rounded-lg bg-surface border border-border hover:border-koda-primary/40 hover:bg-koda-primary/5 transition-all duration-200 hover:shadow-card active:scale-95 focus:outline-none focus:ring-2 focus:ring-koda-primary/20 p-2 sm:p-3"
+              className={`group relative flex flex-col items-center justify-center min-h-[60px] sm:min-h-[72px] rounded-lg bg-surface border border-border hover:border-koda-primary/40 hover:bg-koda-primary/5 transition-all duration-200 hover:shadow-card active:scale-95 focus:outline-none focus:ring-2 focus:ring-koda-primary/20 p-2 sm:p-3 ${suggestedClass(4)}`}
               aria-label="Rate as 'Easy'"
             >
               <HandThumbUpIcon className="w-4 h-4 sm:w-5 sm:h-5 text-text-secondary group-hover:text-koda-primary transition-colors duration-200 mb-1" />
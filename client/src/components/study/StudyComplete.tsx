@@ -5,16 +5,17 @@
  */
 
 import { Button, KodaBear } from '../ui';
-import type { Deck } from '../../types';
+import type { Deck, LeechEvent } from '../../types';
 
 interface StudyCompleteProps {
-  deck: Deck;
+  deck: Deck | null; // null after studying every deck
   sessionStats: {
     studied: number;
     correct: number;
     totalReviews: number;
     startTime: Date;
     completedCards: Set<string>;
+    leeches?: LeechEvent[];
   };
   onContinue: () => void;
   onStudyMore: () => void;
@@ -60,7 +61,7 @@ const StudyComplete: React.FC<StudyCompleteProps> = ({
           <div className="flex items-center justify-center gap-3 mb-2">
             <span className="text-2xl animate-bounce">🐻</span>
             <p className="text-text-secondary text-lg">
-              You completed <span className="text-koda-primary font-semibold">{deck.name}</span>
+              You completed <span className="text-koda-primary font-semibold">{deck ? deck.name : 'all your due cards'}</span>
             </p>
           </div>
           
@@ -95,6 +96,30 @@ const StudyComplete: React.FC<StudyCompleteProps> = ({
           </div>
         </div>
 
+        {/* Cards that turned into leeches this session */}
+        {sessionStats.leeches && sessionStats.leeches.length > 0 && (
+          <div className="bg-surface rounded-2xl border border-border p-6 shadow-card mb-8 animate-fade-in">
+            <h2 className="font-semibold text-text-primary mb-1">
+              {sessionStats.leeches.length} {sessionStats.leeches.length === 1 ? 'leech' : 'leeches'} found
+            </h2>
+            <p className="text-sm text-text-secondary mb-3">
+              These cards keep slipping. Consider rewriting or splitting them from the deck page.
+            </p>
+            <ul className="space-y-2">
+              {sessionStats.leeches.map(leech => (
+                <li key={leech.cardId} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-text-primary truncate">{leech.front}</span>
+                  {leech.suspended && (
+                    <span className="px-2 py-0.5 rounded-full bg-neutral-100 text-neutral-600 text-xs flex-shrink-0">
+                      Suspended
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="space-y-3 animate-fade-in">
           <Button 
@@ -102,10 +127,10 @@ const StudyComplete: React.FC<StudyCompleteProps> = ({
             className="w-full"
             onClick={onContinue}
           >
-            Back to Deck
+            {deck ? 'Back to Deck' : 'Back to Dashboard'}
           </Button>
           
-          {deck.dueCount > sessionStats.studied && (
+          {deck && deck.dueCount > sessionStats.studied && (
             <Button 
               variant="outline" 
               size="lg" 
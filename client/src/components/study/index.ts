@@ -4,4 +4,4 @@
 
 export { default as StudyCard } from './StudyCard';
 export { default as StudyComplete } from './StudyComplete';
-export { default as StudyProgress } from './StudyProgress';
\ No newline at end of file
+export { default as StudyProgress } from './StudyProgress';export { default as CustomStudyModal } from './CustomStudyModal';
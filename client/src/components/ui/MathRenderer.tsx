@@ -1,103 +1,66 @@
 /**
  * Math Renderer Component
  * 
- * Renders LaTeX mathematical expressions using KaTeX.
+ * Renders card text as sanitized Markdown with LaTeX expressions typeset by
+ * KaTeX and fenced code syntax-highlighted (see utils/cardHtml), along with
+ * the card's images and audio clips.
  */
 
-import { useState, useEffect } from 'react';
-import katex from 'katex';
+import { useState, useEffect, useRef } from 'react';
 import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+import { ApiService } from '../../services';
+import { renderCardHtml } from '../../utils/cardHtml';
+import { mediaReferences } from '../../../../shared/media';
+import type { MathMacros } from '../../../../shared/mathMacros';
 
 interface MathRendererProps {
   content: string;
   className?: string;
+  autoPlay?: boolean; // play the first audio clip once shown
+  macros?: MathMacros; // the deck's KaTeX macros
 }
 
-const MathRenderer: React.FC<MathRendererProps> = ({ content, className = '' }) => {
-  const [renderedContent, setRenderedContent] = useState(content);
+const MathRenderer: React.FC<MathRendererProps> = ({ content, className = '', autoPlay = false, macros }) => {
+  const [renderedContent, setRenderedContent] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Compared by value, so a macros object rebuilt on every render doesn't re-render the math
+  const macrosKey = JSON.stringify(macros || {});
 
   useEffect(() => {
-    // Process the content to render LaTeX expressions
-    const processContent = (text: string) => {
-      // Skip truncation check - always process LaTeX even in truncated content
-      // CSS will handle visual truncation while preserving rendered math
+    const deckMacros: MathMacros = JSON.parse(macrosKey);
+    const filenames = mediaReferences(content);
+    if (filenames.length === 0) {
+      setRenderedContent(renderCardHtml(content, deckMacros));
+      return;
+    }
 
-      let processed = text;
-
-      // Decode HTML entities first (crucial for LaTeX with special characters)
-      processed = processed
-        .replace(/&amp;/g, '&')
-        .replace(/&lt;/g, '<')
-        .replace(/&gt;/g, '>')
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        .replace(/&nbsp;/g, ' ');
-
-      // Replace inline math \(...\) with improved error handling
-      processed = processed.replace(/\\\((.*?)\\\)/gs, (match, expression) => {
-        try {
-          // Clean up the expression - remove extra whitespace and newlines
-          const cleanExpression = expression.trim().replace(/\s+/g, ' ');
-          return katex.renderToString(cleanExpression, { 
-            displayMode: false,
-            throwOnError: false,
-            strict: false
-          });
-        } catch (error) {
-          console.warn('KaTeX rendering error for inline math:', error, 'Expression:', expression);
-          return match; // Return original if rendering fails
-        }
-      });
-
-      // Replace display math \[...\] with improved error handling
-      processed = processed.replace(/\\\[(.*?)\\\]/gs, (match, expression) => {
-        try {
-          // Clean up the expression - remove extra whitespace and newlines
-          const cleanExpression = expression.trim().replace(/\s+/g, ' ');
-          return katex.renderToString(cleanExpression, { 
-            displayMode: true,
-            throwOnError: false,
-            strict: false
-          });
-        } catch (error) {
-          console.warn('KaTeX rendering error for display math:', error, 'Expression:', expression);
-          return match; // Return original if rendering fails
-        }
+    // Media URLs may have to be looked up (demo files live in IndexedDB)
+    let cancelled = false;
+    ApiService.getMediaUrls(filenames)
+      .catch(error => {
+        console.warn('Failed to load media:', error);
+        return {} as Record<string, string>;
+      })
+      .then(urls => {
+        if (!cancelled) setRenderedContent(renderCardHtml(content, deckMacros, filename => urls[filename]));
       });
-
-      // Handle \displaylines{} and other special LaTeX commands
-      processed = processed.replace(/\\displaylines\{(.*?)\}/gs, (match, expression) => {
-        try {
-          // \displaylines is for multiple lines - convert to align environment
-          const alignExpression = expression.replace(/\\\\/g, '\\\\');
-          return katex.renderToString(`\\begin{aligned}${alignExpression}\\end{aligned}`, { 
-            displayMode: true,
-            throwOnError: false,
-            strict: false
-          });
-        } catch (error) {
-          console.warn('KaTeX rendering error for displaylines:', error);
-          // Fallback: try rendering as regular display math
-          try {
-            return katex.renderToString(expression, { 
-              displayMode: true,
-              throwOnError: false,
-              strict: false
-            });
-          } catch (fallbackError) {
-            return match; // Return original if both attempts fail
-          }
-        }
-      });
-
-      return processed;
+    return () => {
+      cancelled = true;
     };
+  }, [content, macrosKey]);
 
-    setRenderedContent(processContent(content));
-  }, [content]);
+  useEffect(() => {
+    if (!autoPlay) return;
+    const audio = containerRef.current?.querySelector('audio');
+    // Browsers may refuse to play before the user has interacted with the page
+    audio?.play().catch(() => {});
+    return () => audio?.pause();
+  }, [autoPlay, renderedContent]);
 
   return (
     <div 
+      ref={containerRef}
       className={`math-container content-safe ${className}`}
       style={{
         wordWrap: 'break-word',
@@ -5,8 +5,9 @@
  */
 
 import { useState, useEffect } from 'react';
-import { XMarkIcon, AcademicCapIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, AcademicCapIcon, PhotoIcon } from '@heroicons/react/24/outline';
 import Button from './Button';
+import { ApiService, apiErrorMessage } from '../../services';
 
 interface SettingsModalProps {
   onClose: () => void;
@@ -17,6 +18,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
+  const [isCleaningMedia, setIsCleaningMedia] = useState(false);
+  const [mediaMessage, setMediaMessage] = useState('');
 
   // Close modal on escape key
   useEffect(() => {
@@ -52,6 +55,21 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
     }
   };
 
+  const handleCleanUpMedia = async () => {
+    try {
+      setIsCleaningMedia(true);
+      setError('');
+      const { removed } = await ApiService.collectMediaGarbage();
+      setMediaMessage(removed.length
+        ? `Removed ${removed.length} unused file${removed.length === 1 ? '' : 's'}`
+        : 'No unused files to remove');
+    } catch (error) {
+      setError(apiErrorMessage(error, 'Failed to clean up media'));
+    } finally {
+      setIsCleaningMedia(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-surface rounded-2xl border border-border shadow-card max-w-md w-full max-h-[90vh] overflow-y-auto">
@@ -135,6 +153,26 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
               </div>
             </div>
           </div>
+
+          {/* Media */}
+          <div>
+            <div className="flex items-center gap-2 mb-4">
+              <PhotoIcon className="w-5 h-5 text-koda-primary" />
+              <h3 className="text-lg font-semibold text-text-primary">Media</h3>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-text-muted text-sm">
+                Remove images and audio no card uses any more (files from the last day are kept)
+              </p>
+              <Button variant="outline" size="sm" onClick={handleCleanUpMedia} isLoading={isCleaningMedia}>
+                Clean Up
+              </Button>
+            </div>
+            {mediaMessage && (
+              <p className="text-text-secondary text-xs mt-2">{mediaMessage}</p>
+            )}
+          </div>
         </div>
 
         {/* Footer */}
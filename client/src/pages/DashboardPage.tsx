@@ -6,15 +6,16 @@
 
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { PencilSquareIcon, TrashIcon, PlusCircleIcon, AcademicCapIcon, EyeIcon } from '@heroicons/react/24/outline';
+import { PencilSquareIcon, TrashIcon, PlusCircleIcon, AcademicCapIcon, EyeIcon, AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline';
 import { useDeckStore } from '../stores';
-import { Button, KodaBear, CreateDeckModal, EditDeckModal, ConfirmModal, SettingsDropdown } from '../components';
+import { Button, KodaBear, CreateDeckModal, EditDeckModal, ConfirmModal, SettingsDropdown, CustomStudyModal } from '../components';
 import { ApiService } from '../services';
 
 const DashboardPage: React.FC = () => {
   const navigate = useNavigate();
   const { decks, isLoading, fetchDecks } = useDeckStore();
   const [showCreateDeck, setShowCreateDeck] = useState(false);
+  const [showCustomStudy, setShowCustomStudy] = useState(false);
   const [deletingDeckId, setDeletingDeckId] = useState<string | null>(null);
   const [editingDeck, setEditingDeck] = useState<any>(null);
   const [confirmModal, setConfirmModal] = useState<{
@@ -28,6 +29,9 @@ const DashboardPage: React.FC = () => {
     fetchDecks().catch(console.error);
   }, [fetchDecks]);
 
+  // Cards left to study today across every deck
+  const totalDue = decks.reduce((sum, deck) => sum + (deck.dueCount || 0), 0);
+
 
   const handleDeleteDeck = async (deckId: string, deckName: string) => {
     setConfirmModal({
@@ -124,13 +128,33 @@ const DashboardPage: React.FC = () => {
                   Continue your learning journey with these decks
                 </p>
               </div>
-              <Button 
-                onClick={() => setShowCreateDeck(true)}
-                className="w-full sm:w-auto shadow-card hover:shadow-card-hover transform hover:scale-105 active:scale-95 transition-all duration-300 flex items-center justify-center gap-2"
-              >
-                <PlusCircleIcon className="w-5 h-5" />
-                <span>Create New Deck</span>
-              </Button>
+              <div className="flex flex-col sm:flex-row gap-3">
+                {totalDue > 0 && (
+                  <Button 
+                    variant="secondary"
+                    onClick={() => navigate('/study')}
+                    className="w-full sm:w-auto shadow-card hover:shadow-card-hover transform hover:scale-105 active:scale-95 transition-all duration-300 flex items-center justify-center gap-2"
+                  >
+                    <AcademicCapIcon className="w-5 h-5" />
+                    <span>Study All Due ({totalDue})</span>
+                  </Button>
+                )}
+                <Button 
+                  variant="secondary"
+                  onClick={() => setShowCustomStudy(true)}
+                  className="w-full sm:w-auto shadow-card hover:shadow-card-hover transform hover:scale-105 active:scale-95 transition-all duration-300 flex items-center justify-center gap-2"
+                >
+                  <AdjustmentsHorizontalIcon className="w-5 h-5" />
+                  <span>Custom Study</span>
+                </Button>
+                <Button 
+                  onClick={() => setShowCreateDeck(true)}
+                  className="w-full sm:w-auto shadow-card hover:shadow-card-hover transform hover:scale-105 active:scale-95 transition-all duration-300 flex items-center justify-center gap-2"
+                >
+                  <PlusCircleIcon className="w-5 h-5" />
+                  <span>Create New Deck</span>
+                </Button>
+              </div>
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 lg:gap-8">
@@ -180,7 +204,7 @@ const DashboardPage: React.FC = () => {
                   </div>
 
                   {/* Stats Section - Fixed Position */}
-                  <div className="flex justify-between items-center text-sm mb-4 sm:mb-6">
+                  <div className="flex justify-between items-center text-sm mb-2">
                     <div className="flex items-center space-x-1">
                       <span className="text-text-primary font-semibold">{deck.cardCount}</span>
                       <span className="text-text-secondary">cards</span>
@@ -194,6 +218,9 @@ const DashboardPage: React.FC = () => {
                       <span>due</span>
                     </div>
                   </div>
+                  <p className="text-xs text-text-secondary mb-4 sm:mb-6">
+                    {deck.newLeft ?? 0} new • {deck.reviewsLeft ?? 0} reviews left today
+                  </p>
 
                   {/* Buttons Section - Always at Bottom */}
                   <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 mt-auto pt-2 pb-3">
@@ -228,6 +255,11 @@ const DashboardPage: React.FC = () => {
         <CreateDeckModal onClose={() => setShowCreateDeck(false)} />
       )}
       
+      {/* Custom Study Modal */}
+      {showCustomStudy && (
+        <CustomStudyModal onClose={() => setShowCustomStudy(false)} />
+      )}
+      
       {/* Edit Deck Modal */}
       {editingDeck && (
         <EditDeckModal
@@ -6,9 +6,9 @@
 
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { PencilSquareIcon, TrashIcon, ArrowPathIcon, AcademicCapIcon, PlusCircleIcon, ArrowUpOnSquareIcon } from '@heroicons/react/24/outline';
+import { PencilSquareIcon, TrashIcon, ArrowPathIcon, AcademicCapIcon, PlusCircleIcon, ArrowUpOnSquareIcon, ArrowDownTrayIcon, AdjustmentsHorizontalIcon, VariableIcon } from '@heroicons/react/24/outline';
 import { ApiService } from '../services';
-import { Button, CreateCardModal, CardList, EditDeckModal, ImportModal, ConfirmModal, SettingsDropdown } from '../components';
+import { Button, CreateCardModal, CardList, LeechList, EditDeckModal, ExportDeckModal, ImportModal, ConfirmModal, SettingsDropdown, CustomStudyModal, MathLintModal } from '../components';
 import { formatDate } from '../utils/dateUtils';
 import type { Deck, Card } from '../types';
 
@@ -22,6 +22,9 @@ const DeckViewPage: React.FC = () => {
   const [showCreateCard, setShowCreateCard] = useState(false);
   const [showEditDeck, setShowEditDeck] = useState(false);
   const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showCustomStudy, setShowCustomStudy] = useState(false);
+  const [showMathLint, setShowMathLint] = useState(false);
   const [error, setError] = useState<string>('');
   const [selectedCards, setSelectedCards] = useState<Set<string>>(new Set());
   const [confirmModal, setConfirmModal] = useState<{
@@ -62,13 +65,8 @@ const DeckViewPage: React.FC = () => {
 
   const handleStartStudy = () => {
     if (deck && cards.length > 0) {
-      // Check if there are any cards that need studying (not mastered)
-      const masteredCards = cards.filter(card => card.stage === 'mastered');
-      if (masteredCards.length < cards.length) {
-        navigate(`/study/${deck.id}`);
-      } else {
-        alert('All cards are mastered! Great job! 🎉');
-      }
+      // The study page decides what is due, including mastered cards on long intervals
+      navigate(`/study/${deck.id}`);
     }
   };
 
@@ -243,7 +241,7 @@ const DeckViewPage: React.FC = () => {
                 {deck.name}
               </h1>
               <p className="text-xs sm:text-sm text-text-secondary">
-                {cards.length} cards • {cards.filter(card => card.nextReviewAt <= new Date() || card.stage === 'new').length} due
+                {cards.length} cards • {deck.newLeft ?? 0} new • {deck.reviewsLeft ?? 0} reviews left today
               </p>
             </div>
 
@@ -397,6 +395,16 @@ const DeckViewPage: React.FC = () => {
                 Study Now
               </Button>
             )}
+            {cards.length > 0 && (
+              <Button 
+                variant="secondary" 
+                onClick={() => setShowCustomStudy(true)}
+                className="flex items-center justify-center gap-2 min-h-[48px]"
+              >
+                <AdjustmentsHorizontalIcon className="w-5 h-5" />
+                Custom Study
+              </Button>
+            )}
             <Button 
               variant="secondary" 
               onClick={() => setShowCreateCard(true)}
@@ -406,14 +414,26 @@ const DeckViewPage: React.FC = () => {
               Add Card
             </Button>
           </div>
-          <Button 
-            variant="secondary" 
-            onClick={handleImportCards}
-            className="flex items-center justify-center gap-2 min-h-[48px] w-full sm:w-auto"
-          >
-            <ArrowUpOnSquareIcon className="w-5 h-5" />
-            Import
-          </Button>
+          <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+            <Button 
+              variant="secondary" 
+              onClick={handleImportCards}
+              className="flex items-center justify-center gap-2 min-h-[48px] w-full sm:w-auto"
+            >
+              <ArrowUpOnSquareIcon className="w-5 h-5" />
+              Import
+            </Button>
+            {cards.length > 0 && (
+              <Button 
+                variant="secondary" 
+                onClick={() => setShowExport(true)}
+                className="flex items-center justify-center gap-2 min-h-[48px] w-full sm:w-auto"
+              >
+                <ArrowDownTrayIcon className="w-5 h-5" />
+                Export
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Cards Section */}
@@ -441,65 +461,80 @@ const DeckViewPage: React.FC = () => {
             </div>
           </div>
         ) : (
-          // Cards Management
-          <div className="bg-surface rounded-2xl border border-border overflow-hidden">
-            {/* Cards Header */}
-            <div className="px-6 py-4 border-b border-border bg-surface-elevated">
-              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-                <div className="flex items-center gap-4">
-                  <h3 className="text-xl font-semibold text-text-primary">
-                    Cards ({cards.length})
-                  </h3>
-                  {cards.length > 0 && (
-                    <button
-                      onClick={handleResetProgress}
-                      className="flex items-center gap-2 px-3 py-1 text-text-muted hover:text-koda-primary transition-all duration-200 hover:bg-koda-primary/10 rounded-lg text-sm min-h-[36px]"
-                      title="Reset all progress"
-                    >
-                      <ArrowPathIcon className="w-4 h-4" />
-                      Reset Progress
-                    </button>
-                  )}
-                  {selectedCards.size > 0 && (
-                    <div className="flex items-center gap-4">
-                      <span className="text-sm text-text-secondary">
-                        {selectedCards.size} selected
-                      </span>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={handleBulkDelete}
-                        className="text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300"
+          <>
+            <LeechList deck={deck} cards={cards} onCardsChanged={fetchDeckData} />
+
+            {/* Cards Management */}
+            <div className="bg-surface rounded-2xl border border-border overflow-hidden">
+              {/* Cards Header */}
+              <div className="px-6 py-4 border-b border-border bg-surface-elevated">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                  <div className="flex items-center gap-4">
+                    <h3 className="text-xl font-semibold text-text-primary">
+                      Cards ({cards.length})
+                    </h3>
+                    {cards.length > 0 && (
+                      <button
+                        onClick={handleResetProgress}
+                        className="flex items-center gap-2 px-3 py-1 text-text-muted hover:text-koda-primary transition-all duration-200 hover:bg-koda-primary/10 rounded-lg text-sm min-h-[36px]"
+                        title="Reset all progress"
                       >
-                        Delete Selected
-                      </Button>
-                    </div>
-                  )}
-                </div>
+                        <ArrowPathIcon className="w-4 h-4" />
+                        Reset Progress
+                      </button>
+                    )}
+                    {cards.length > 0 && (
+                      <button
+                        onClick={() => setShowMathLint(true)}
+                        className="flex items-center gap-2 px-3 py-1 text-text-muted hover:text-koda-primary transition-all duration-200 hover:bg-koda-primary/10 rounded-lg text-sm min-h-[36px]"
+                        title="Find formulas that fail to parse"
+                      >
+                        <VariableIcon className="w-4 h-4" />
+                        Check Math
+                      </button>
+                    )}
+                    {selectedCards.size > 0 && (
+                      <div className="flex items-center gap-4">
+                        <span className="text-sm text-text-secondary">
+                          {selectedCards.size} selected
+                        </span>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          onClick={handleBulkDelete}
+                          className="text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300"
+                        >
+                          Delete Selected
+                        </Button>
+                      </div>
+                    )}
+                  </div>
                 
-                <div className="flex items-center gap-2">
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                    onClick={handleSelectAllCards}
-                  >
-                    {selectedCards.size === cards.length ? 'Deselect All' : 'Select All'}
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      onClick={handleSelectAllCards}
+                    >
+                      {selectedCards.size === cards.length ? 'Deselect All' : 'Select All'}
+                    </Button>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            {/* Cards List */}
-            <div className="p-6">
-              <CardList 
-                cards={cards}
-                selectedCards={selectedCards}
-                onCardDeleted={handleCardDeleted}
-                onCardUpdated={fetchDeckData}
-                onCardSelect={handleSelectCard}
-              />
+              {/* Cards List */}
+              <div className="p-6">
+                <CardList 
+                  cards={cards}
+                  selectedCards={selectedCards}
+                  onCardDeleted={handleCardDeleted}
+                  onCardUpdated={fetchDeckData}
+                  onCardSelect={handleSelectCard}
+                  mathMacros={deck?.mathMacros}
+                />
+              </div>
             </div>
-          </div>
+          </>
         )}
       </main>
 
@@ -528,6 +563,29 @@ const DeckViewPage: React.FC = () => {
         />
       )}
 
+      {showExport && (
+        <ExportDeckModal
+          deck={deck}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showCustomStudy && (
+        <CustomStudyModal
+          initialDeckId={deck.id}
+          onClose={() => setShowCustomStudy(false)}
+        />
+      )}
+
+      {showMathLint && (
+        <MathLintModal
+          deck={deck}
+          cards={cards}
+          onClose={() => setShowMathLint(false)}
+          onCardsChanged={fetchDeckData}
+        />
+      )}
+
       <ConfirmModal
         isOpen={confirmModal.isOpen}
         title={confirmModal.title}
@@ -4,21 +4,76 @@
  * Interactive study session with card flipping and spaced repetition.
  */
 
-import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ApiService } from '../services';
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowUturnLeftIcon, EyeSlashIcon, ListBulletIcon, PauseCircleIcon } from '@heroicons/react/24/outline';
+import { ApiService, apiErrorMessage } from '../services';
 import { Button, KodaBear, StudyCard, StudyProgress, StudyComplete, SettingsDropdown } from '../components';
-import type { Deck, Card, StudySession } from '../types';
+import { formatCountdown } from '../utils/dateUtils';
+import { customStudyFromSearchParams } from '../utils/customStudy';
+import type { Deck, Card, CardQueueState, StudySession, LeechEvent } from '../types';
+import { resolveSchedulingOptions, scheduleReview, startOfNextDay, SESSION_TYPES, type SessionType } from '../../../shared/scheduler';
+import { buildChoices, seededRandom } from '../../../shared/multipleChoice';
 
-const StudySessionPage: React.FC = () => {
+type QueuedCard = Card & { reviewCount: number; nextShowTime?: Date };
+
+// Everything needed to roll the session back to just before a review, bury or suspend
+interface UndoEntry {
+  reviewId?: string; // Missing when the review never reached the server
+  setAside?: { cardId: string; queueState: CardQueueState }; // Queue state to put back
+  queue: QueuedCard[];
+  finished: Card[];
+  cardIndex: number;
+  stats: {
+    studied: number;
+    correct: number;
+    totalReviews: number;
+    startTime: Date;
+    completedCards: Set<string>;
+    stageProgress: { new: number; learning: number; review: number; mastered: number };
+    leeches: LeechEvent[];
+  };
+}
+
+const SESSION_TYPE_LABELS: Record<SessionType, string> = {
+  mixed: 'Mixed',
+  learn: 'New cards only',
+  review: 'Reviews only',
+};
+
+// Find the next card whose learning step has passed, rotating from the given index
+const findNextCardIndex = (queue: QueuedCard[], fromIndex: number, now: Date): number => {
+  for (let offset = 0; offset < queue.length; offset++) {
+    const index = (fromIndex + offset) % queue.length;
+    const card = queue[index];
+    if (!card.nextShowTime || card.nextShowTime <= now) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+interface StudySessionPageProps {
+  custom?: boolean; // Custom study session built from the filters in the URL
+}
+
+const StudySessionPage: React.FC<StudySessionPageProps> = ({ custom = false }) => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedType = searchParams.get('mode') as SessionType | null;
+  const sessionType: SessionType = requestedType && SESSION_TYPES.includes(requestedType) ? requestedType : 'mixed';
+  const customQuery = custom ? searchParams.toString() : '';
+  const customFilters = custom ? customStudyFromSearchParams(searchParams) : null;
+  const deckId = id || customFilters?.deckId;
   
   const [deck, setDeck] = useState<Deck | null>(null);
   const [session, setSession] = useState<StudySession | null>(null);
   const [initialCards, setInitialCards] = useState<Card[]>([]);
-  const [studyQueue, setStudyQueue] = useState<Array<Card & { reviewCount: number; nextShowTime?: Date }>>([]);
+  const [studyQueue, setStudyQueue] = useState<QueuedCard[]>([]);
+  const [finishedCards, setFinishedCards] = useState<Card[]>([]);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
+  const [now, setNow] = useState(() => new Date());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
   
@@ -35,31 +90,42 @@ const StudySessionPage: React.FC = () => {
       review: 0,
       mastered: 0,
     },
+    leeches: [] as LeechEvent[],
   });
   const [isOfflineMode, setIsOfflineMode] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [multipleChoice, setMultipleChoice] = useState(false); // Present every card as multiple choice
+  const [choicePool, setChoicePool] = useState<Card[] | null>(null); // Cards of the studied decks, for distractors
   
 
-  const currentCard = studyQueue[currentCardIndex];
-  // Session is complete when all cards are mastered (removed from active study queue)
+  // -1 while every remaining card is waiting for its learning step
+  const currentCard = currentCardIndex >= 0 ? studyQueue[currentCardIndex] : undefined;
+  // Session is complete when no card is due again today (all removed from active study queue)
   const isSessionComplete = studyQueue.length === 0;
+  const needsChoices = multipleChoice || initialCards.some(card => card.type === 'choice');
+  const showAsChoice = Boolean(currentCard) && (currentCard?.type === 'choice' || (multipleChoice && currentCard?.type !== 'cloze' && currentCard?.type !== 'occlusion'));
+  const nextShowTime = currentCard
+    ? null
+    : studyQueue.reduce<Date | null>((earliest, card) =>
+        card.nextShowTime && (!earliest || card.nextShowTime < earliest) ? card.nextShowTime : earliest, null);
 
-  // Calculate stage progress from current queue AND completed cards
-  const calculateStageProgress = (cards: Card[], masteredCount: number = sessionStats.studied) => {
-    const progress = { new: 0, learning: 0, review: 0, mastered: masteredCount };
+  // Calculate stage progress from current queue AND finished cards
+  const calculateStageProgress = (cards: Card[]) => {
+    const progress = { new: 0, learning: 0, review: 0, mastered: 0 };
     cards.forEach(card => {
       switch (card.stage) {
         case 'new': progress.new++; break;
         case 'learning': progress.learning++; break;
         case 'review': progress.review++; break;
-        // Don't count mastered cards in queue - they should be removed
-        // mastered count comes from the parameter (cards removed from queue)
+        case 'mastered': progress.mastered++; break;
       }
     });
     return progress;
   };
 
   // Calculate weighted progress (0-100%) based on stage advancement
-  const calculateWeightedProgress = (initialCards: Card[], currentQueue: Card[], masteredCount: number) => {
+  const calculateWeightedProgress = (initialCards: Card[], currentQueue: Card[], finishedCount: number) => {
     if (initialCards.length === 0) return 0;
     
     // Stage weights: new=0%, learning=25%, review=60%, mastered=100%
@@ -67,8 +133,8 @@ const StudySessionPage: React.FC = () => {
     
     let totalWeightedProgress = 0;
     
-    // Add progress from completed (mastered) cards
-    totalWeightedProgress += masteredCount * stageWeights.mastered;
+    // Cards finished for today count as complete
+    totalWeightedProgress += finishedCount;
     
     // Add progress from cards still in queue
     currentQueue.forEach(card => {
@@ -80,28 +146,31 @@ const StudySessionPage: React.FC = () => {
   };
 
   const fetchStudyData = async () => {
-    if (!id) return;
-    
     try {
       setIsLoading(true);
       setError('');
       
-      // Get deck info and start study session
+      // Get deck info and start study session; without a deck id, study every deck
       const [deckResponse, sessionResponse] = await Promise.all([
-        ApiService.getDeck(id),
-        ApiService.startStudySession({
-          deckId: id,
-          sessionType: 'mixed',
-          maxCards: 100, // Increased limit to show all available cards
-        }),
+        deckId ? ApiService.getDeck(deckId) : Promise.resolve(null),
+        customFilters
+          ? ApiService.startCustomStudy(customFilters)
+          : ApiService.startStudySession({
+              deckId,
+              sessionType,
+              maxCards: 100, // Upper bound only; the deck's daily limits decide what is left today
+            }),
       ]);
       
-      setDeck(deckResponse.deck);
+      setDeck(deckResponse ? deckResponse.deck : null);
       setSession(sessionResponse.session);
       setInitialCards(sessionResponse.cards);
+      setChoicePool(null);
       
       if (sessionResponse.cards.length === 0) {
-        setError('No cards are due for study right now. Great job!');
+        setError(customFilters
+          ? 'No cards match these custom study filters.'
+          : 'No cards are due for study right now. Great job!');
       } else {
         // Initialize study queue with cards that need review counts
         const initialQueue = sessionResponse.cards.map(card => ({
@@ -110,6 +179,8 @@ const StudySessionPage: React.FC = () => {
           nextShowTime: undefined,
         }));
         setStudyQueue(initialQueue);
+        setFinishedCards([]);
+        setUndoStack([]);
         setCurrentCardIndex(0);
         
         // Initialize stage progress
@@ -131,107 +202,91 @@ const StudySessionPage: React.FC = () => {
 
   useEffect(() => {
     fetchStudyData();
-  }, [id, navigate]);
+  }, [id, sessionType, customQuery, navigate]);
 
-  // Enhanced SM-2 Algorithm implementation with intuitive stage progression
-  const calculateSM2 = (card: any, quality: number) => {
-    let { interval = 0, repetition = 0, easeFactor = 2.5, stage = 'new', consecutiveCorrect = 0 } = card;
-    
-    // Handle different quality ratings (1-4 paw system)
-    if (quality >= 3) {
-      // Successful review (Good=3 or Easy=4)
-      repetition += 1;
-      consecutiveCorrect += 1;
-      
-      // Stage progression logic
-      if (stage === 'new') {
-        stage = 'learning';
-        interval = quality === 4 ? 2 : 1; // Easy gets 2 days, Good gets 1 day
-      } else if (stage === 'learning') {
-        // Graduate to review after 1-2 successful reviews depending on quality
-        if (quality === 4 && consecutiveCorrect >= 1) {
-          stage = 'review';
-          interval = 4; // Easy progression
-        } else if (quality === 3 && consecutiveCorrect >= 2) {
-          stage = 'review';
-          interval = 3; // Good progression
-        } else {
-          interval = Math.max(1, Math.round(interval * 1.5));
-        }
-      } else if (stage === 'review') {
-        // Graduate to mastered after consistent good performance
-        if (quality === 4 && consecutiveCorrect >= 2) {
-          stage = 'mastered';
-        } else if (quality === 3 && consecutiveCorrect >= 3) {
-          stage = 'mastered';
-        }
-        interval = Math.round(interval * easeFactor);
-      } else if (stage === 'mastered') {
-        interval = Math.round(interval * easeFactor);
-      }
-      
-      // Update ease factor for successful reviews
-      if (quality === 4) {
-        easeFactor = Math.min(2.5, easeFactor + 0.1);
-      } else if (quality === 3) {
-        easeFactor = Math.min(2.5, easeFactor + 0.05);
-      }
-      
-    } else {
-      // Failed review (Again=1 or Hard=2)
-      consecutiveCorrect = 0; // Reset streak
-      
-      if (quality === 1) {
-        // "Again" - significant regression
-        repetition = Math.max(0, repetition - 1);
-        interval = 0.25; // 6 hours
-        if (stage === 'review' || stage === 'mastered') {
-          stage = 'learning'; // Drop back to learning
-        }
-        easeFactor = Math.max(1.3, easeFactor - 0.2);
-      } else {
-        // "Hard" - mild regression
-        interval = Math.max(0.5, Math.round(interval * 0.7)); // 12 hours minimum
-        easeFactor = Math.max(1.3, easeFactor - 0.1);
-      }
-    }
-    
-    // Ensure interval is reasonable
-    interval = Math.max(0.25, Math.min(365, interval));
+  // Load the studied decks' cards once multiple choice needs distractors
+  useEffect(() => {
+    if (!needsChoices || choicePool || initialCards.length === 0) return;
     
-    return { interval, repetition, easeFactor, stage, consecutiveCorrect };
+    const deckIds = Array.from(new Set(initialCards.map(card => card.deckId)));
+    Promise.all(deckIds.map(deckId => ApiService.getDeckCards(deckId)))
+      .then(responses => setChoicePool(responses.flatMap(response => response.cards)))
+      .catch(error => {
+        console.error('Failed to load cards for multiple choice:', error);
+        setChoicePool([]);
+      });
+  }, [needsChoices, choicePool, initialCards]);
+
+  // Options are shuffled per session and card, so they keep their places while the card is shown
+  const choices = useMemo(
+    () => currentCard && showAsChoice && choicePool
+      ? buildChoices(currentCard, choicePool, seededRandom(`${session?.id}:${currentCard.id}`))
+      : [],
+    [currentCard, showAsChoice, choicePool, session?.id]
+  );
+
+  // Switching mode starts a fresh session of that type
+  const handleSessionTypeChange = (type: SessionType) => {
+    setSearchParams(type === 'mixed' ? {} : { mode: type }, { replace: true });
   };
 
+  const sessionTypePicker = (
+    <select
+      value={sessionType}
+      onChange={(e) => handleSessionTypeChange(e.target.value as SessionType)}
+      className="input-primary py-2 text-sm w-auto"
+      aria-label="Study mode"
+    >
+      {SESSION_TYPES.map(type => (
+        <option key={type} value={type}>{SESSION_TYPE_LABELS[type]}</option>
+      ))}
+    </select>
+  );
+
+  // While every card is waiting on a learning step, tick until the next one is ready
+  useEffect(() => {
+    if (currentCardIndex !== -1 || studyQueue.length === 0) return;
+    
+    const timer = setInterval(() => {
+      const tick = new Date();
+      setNow(tick);
+      const readyIndex = findNextCardIndex(studyQueue, 0, tick);
+      if (readyIndex !== -1) {
+        setCurrentCardIndex(readyIndex);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [currentCardIndex, studyQueue]);
+
   const handleCardReview = async (quality: number, responseTime: number, wasCorrect: boolean) => {
     if (!currentCard) return;
 
-    // Apply SM-2 algorithm first to get updated card state
-    const updatedQueue = [...studyQueue];
-    const currentCardData = updatedQueue[currentCardIndex];
-    const oldStage = currentCardData.stage;
-    
-    // Calculate SM-2 values with current card state
-    const sm2Result = calculateSM2(currentCardData, quality);
-    
-    // Update card with SM-2 results
-    Object.assign(currentCardData, sm2Result);
-    currentCardData.reviewCount = (currentCardData.reviewCount || 0) + 1;
-    
+    // Apply the scheduler first to get updated card state; cram sessions leave it untouched
+    const isCram = Boolean(session?.isCram);
+    const reviewedAt = new Date();
+    const scheduled = scheduleReview(
+      currentCard,
+      { quality, wasCorrect },
+      { algorithm: (currentCard.deck || deck)?.algorithm, options: (currentCard.deck || deck)?.options },
+      reviewedAt
+    );
+    const updatedCard: QueuedCard = {
+      ...currentCard,
+      ...(isCram ? {} : scheduled),
+      reviewCount: (currentCard.reviewCount || 0) + 1,
+    };
 
-    // Determine if card should graduate from session based on improved logic
-    let shouldRemoveFromQueue = false;
-    
-    // Updated graduation rules - cards only graduate when truly mastered:
-    // - Only remove cards from session when they reach 'mastered' stage
-    // - This ensures proper progression through all stages in the session
-    // - Cards stay in rotation until they are actually mastered
-    
-    shouldRemoveFromQueue = sm2Result.stage === 'mastered';
+    // Cards stay in the session while their next learning step falls within today.
+    // Cram sessions simply repeat a card until it is answered correctly.
+    const shouldRemoveFromQueue = isCram ? wasCorrect : scheduled.nextReviewAt >= startOfNextDay(reviewedAt);
 
+    let reviewId: string | undefined;
+    let leech: LeechEvent | undefined;
     try {
       // Validate and submit review to backend with updated card state
       const reviewData = {
         cardId: currentCard.id,
+        sessionId: session?.id,
         quality: Math.floor(quality), // Ensure it's an integer
         responseTime: Math.floor(responseTime), // Ensure it's an integer
         wasCorrect: Boolean(wasCorrect), // Ensure it's a boolean
@@ -248,43 +303,17 @@ const StudySessionPage: React.FC = () => {
         throw new Error('Invalid response time');
       }
 
-      await ApiService.submitReview(reviewData);
+      const result = await ApiService.submitReview(reviewData);
+      reviewId = result.reviewId;
+      if (result.leech) {
+        leech = { cardId: currentCard.id, front: currentCard.front, suspended: result.card.queueState === 'suspended' };
+      }
 
-      // Successfully submitted to backend - reset offline mode and update session stats
+      // Successfully submitted to backend - reset offline mode
       if (isOfflineMode) {
         setIsOfflineMode(false);
         console.info('🌐 Reconnected to server - syncing progress');
       }
-      setSessionStats(prev => ({
-        ...prev,
-        totalReviews: prev.totalReviews + 1,
-        correct: prev.correct + (wasCorrect ? 1 : 0),
-        studied: shouldRemoveFromQueue ? prev.studied + 1 : prev.studied, // Only increment when card is mastered
-        stageProgress: calculateStageProgress(updatedQueue, shouldRemoveFromQueue ? prev.studied + 1 : prev.studied), // Recalculate from actual queue state
-      }));
-
-      // Update queue and move to next card
-      if (shouldRemoveFromQueue) {
-        updatedQueue.splice(currentCardIndex, 1);
-        
-        // Adjust current index if needed
-        if (currentCardIndex >= updatedQueue.length && updatedQueue.length > 0) {
-          setCurrentCardIndex(0);
-        } else if (updatedQueue.length === 0) {
-          // Session complete - let the component render StudyComplete
-          // Don't call handleSessionComplete here, let the user see the completion screen
-        }
-      } else {
-        // Move to next card in rotation
-        let nextIndex = currentCardIndex + 1;
-        if (nextIndex >= updatedQueue.length) {
-          nextIndex = 0; // Loop back to start
-        }
-        setCurrentCardIndex(nextIndex);
-      }
-
-      setStudyQueue(updatedQueue);
-      
     } catch (error: any) {
       console.error('Failed to submit review:', error);
       
@@ -310,65 +339,128 @@ const StudySessionPage: React.FC = () => {
         // Show a brief notification that we're now in offline mode
         console.info('📱 Switched to offline mode - progress is being saved locally');
       }
-      
-      // Still update local state so user can continue studying
-      // The variables are already available from the outer scope
-      
-      // Move to next card
-      let nextIndex = currentCardIndex;
-      if (shouldRemoveFromQueue) {
-        updatedQueue.splice(currentCardIndex, 1);
-        if (currentCardIndex >= updatedQueue.length && updatedQueue.length > 0) {
-          nextIndex = 0;
-        }
-      } else {
-        nextIndex = (currentCardIndex + 1) % updatedQueue.length;
-      }
-      
-      setStudyQueue(updatedQueue);
-      setCurrentCardIndex(nextIndex);
-      
-      // Update session stats even if backend fails
-      setSessionStats(prev => ({
-        ...prev,
-        totalReviews: prev.totalReviews + 1,
-        correct: prev.correct + (wasCorrect ? 1 : 0),
-        studied: shouldRemoveFromQueue ? prev.studied + 1 : prev.studied, // Only increment when card is mastered
-        stageProgress: calculateStageProgress(updatedQueue, shouldRemoveFromQueue ? prev.studied + 1 : prev.studied), // Recalculate from actual queue state
-      }));
     }
-  };
 
-  const moveToNextAvailableCard = (queue: typeof studyQueue) => {
-    const now = new Date();
-    let nextIndex = -1;
+    // Update queue and move to the next ready card, even if the backend failed.
+    // Siblings from the same note are buried for the rest of the day.
+    const updatedQueue = isCram || !currentCard.noteId
+      ? [...studyQueue]
+      : studyQueue.filter(card => card.id === currentCard.id || card.noteId !== currentCard.noteId);
+    const queueIndex = updatedQueue.findIndex(card => card.id === currentCard.id);
+    let updatedFinished = finishedCards;
+    let nextIndex: number;
     
-    // Find next card that's ready to be shown
-    for (let i = 0; i < queue.length; i++) {
-      const card = queue[i];
-      if (!card.nextShowTime || card.nextShowTime <= now) {
-        nextIndex = i;
-        break;
-      }
+    // A leech that was just suspended leaves the session as well
+    if (shouldRemoveFromQueue || leech?.suspended) {
+      updatedQueue.splice(queueIndex, 1);
+      updatedFinished = [...finishedCards, updatedCard];
+      nextIndex = findNextCardIndex(updatedQueue, queueIndex, reviewedAt);
+    } else {
+      // Hold the card back until its learning step has passed
+      updatedQueue[queueIndex] = { ...updatedCard, nextShowTime: isCram ? undefined : scheduled.nextReviewAt };
+      nextIndex = findNextCardIndex(updatedQueue, queueIndex + 1, reviewedAt);
     }
-    
-    // If no card is immediately ready, find the one with earliest next show time
-    if (nextIndex === -1 && queue.length > 0) {
-      let earliestTime = queue[0].nextShowTime;
-      nextIndex = 0;
-      
-      for (let i = 1; i < queue.length; i++) {
-        const card = queue[i];
-        if (card.nextShowTime && (!earliestTime || card.nextShowTime < earliestTime)) {
-          earliestTime = card.nextShowTime;
-          nextIndex = i;
-        }
+
+    setUndoStack(prev => [...prev, {
+      reviewId,
+      queue: studyQueue,
+      finished: finishedCards,
+      cardIndex: currentCardIndex,
+      stats: sessionStats,
+    }]);
+    setStudyQueue(updatedQueue);
+    setFinishedCards(updatedFinished);
+    setCurrentCardIndex(nextIndex);
+    setNow(reviewedAt);
+    setSessionStats(prev => ({
+      ...prev,
+      totalReviews: prev.totalReviews + 1,
+      correct: prev.correct + (wasCorrect ? 1 : 0),
+      studied: updatedFinished.length, // Cards finished for today
+      completedCards: new Set(updatedFinished.map(card => card.id)),
+      stageProgress: calculateStageProgress([...updatedQueue, ...updatedFinished]),
+      leeches: leech ? [...prev.leeches, leech] : prev.leeches,
+    }));
+  };
+
+  // Roll back the last review and put its card at the front of the queue
+  const handleUndo = async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || isUndoing) return;
+
+    try {
+      setIsUndoing(true);
+      if (entry.reviewId) {
+        await ApiService.undoReview(entry.reviewId);
+      } else if (entry.setAside) {
+        await ApiService.updateCard(entry.setAside.cardId, { queueState: entry.setAside.queueState });
       }
+    } catch (error) {
+      alert(apiErrorMessage(error, 'Failed to undo review'));
+      return;
+    } finally {
+      setIsUndoing(false);
     }
-    
-    setCurrentCardIndex(nextIndex >= 0 ? nextIndex : 0);
+
+    const restoredQueue = [...entry.queue];
+    const [card] = restoredQueue.splice(entry.cardIndex, 1);
+    restoredQueue.unshift({ ...card, nextShowTime: undefined });
+
+    setUndoStack(prev => prev.slice(0, -1));
+    setStudyQueue(restoredQueue);
+    setFinishedCards(entry.finished);
+    setCurrentCardIndex(0);
+    setSessionStats(entry.stats);
   };
 
+  // Take the current card out of the session without reviewing it
+  const handleSetAside = async (queueState: 'buried-manually' | 'suspended') => {
+    if (!currentCard) return;
+
+    try {
+      await ApiService.updateCard(currentCard.id, { queueState });
+    } catch (error) {
+      alert(apiErrorMessage(error, 'Failed to update card'));
+      return;
+    }
+
+    const updatedQueue = studyQueue.filter((_, index) => index !== currentCardIndex);
+    const reviewedAt = new Date();
+
+    setUndoStack(prev => [...prev, {
+      setAside: { cardId: currentCard.id, queueState: currentCard.queueState || 'normal' },
+      queue: studyQueue,
+      finished: finishedCards,
+      cardIndex: currentCardIndex,
+      stats: sessionStats,
+    }]);
+    setStudyQueue(updatedQueue);
+    setCurrentCardIndex(findNextCardIndex(updatedQueue, currentCardIndex, reviewedAt));
+    setNow(reviewedAt);
+    setSessionStats(prev => ({
+      ...prev,
+      stageProgress: calculateStageProgress([...updatedQueue, ...finishedCards]),
+    }));
+  };
+
+  // Ctrl+Z / Cmd+Z undoes the last review
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const exitPath = deckId ? `/deck/${deckId}` : '/dashboard';
+
   const handleSessionComplete = async () => {
     if (!session) return;
 
@@ -384,12 +476,12 @@ const StudySessionPage: React.FC = () => {
       console.error('Failed to complete session:', error);
     }
     
-    navigate(`/deck/${id}`);
+    navigate(exitPath);
   };
 
   const handleExitSession = () => {
     if (confirm('Are you sure you want to exit this study session? Your progress will be saved.')) {
-      navigate(`/deck/${id}`);
+      navigate(exitPath);
     }
   };
 
@@ -424,8 +516,9 @@ const StudySessionPage: React.FC = () => {
     );
   }
 
-  if (error || !deck) {
-    const isAllDone = error.includes('No cards');
+  if (error || (deckId && !deck)) {
+    const isAllDone = error.includes('No cards') && !custom;
+    const isNoMatch = error.includes('No cards') && custom;
     return (
       <div className="min-h-screen bg-gradient-to-br from-koda-accent-light/30 to-white flex items-center justify-center">
         <div className="text-center max-w-md mx-auto px-4">
@@ -446,28 +539,39 @@ const StudySessionPage: React.FC = () => {
           </div>
           
           <h2 className="text-2xl font-bold text-koda-primary-dark mb-4">
-            {isAllDone ? 'Fantastic! All caught up!' : 'Something went wrong'}
+            {isAllDone ? 'Fantastic! All caught up!' : isNoMatch ? 'No matching cards' : 'Something went wrong'}
           </h2>
           
           <div className="bg-white/80 backdrop-blur-sm rounded-xl p-4 mb-6 border border-koda-primary/10">
             <p className="text-neutral-700">
               {isAllDone 
                 ? "You've completed all your due cards! I'm so proud of your dedication to learning. Come back later for your next review session!"
-                : "Don't worry, these things happen sometimes. Let's get you back on track!"
+                : isNoMatch
+                  ? "None of your cards match these filters. Try widening them and start again."
+                  : "Don't worry, these things happen sometimes. Let's get you back on track!"
               }
             </p>
-            {!isAllDone && (
+            {!isAllDone && !isNoMatch && (
               <p className="text-sm text-neutral-500 mt-2 italic">
                 Error details: {error}
               </p>
             )}
           </div>
           
+          {isAllDone && sessionType !== 'mixed' && (
+            <div className="flex items-center justify-center gap-2 mb-6 text-sm text-neutral-700">
+              <span>Nothing left in this mode. Try:</span>
+              {sessionTypePicker}
+            </div>
+          )}
+          
           <div className="space-x-3">
-            <Button onClick={() => navigate(`/deck/${id}`)}>
-              Back to Deck
-            </Button>
-            <Button variant="outline" onClick={() => navigate('/dashboard')}>
+            {deckId && (
+              <Button onClick={() => navigate(`/deck/${deckId}`)}>
+                Back to Deck
+              </Button>
+            )}
+            <Button variant={deckId ? 'outline' : 'primary'} onClick={() => navigate('/dashboard')}>
               Dashboard
             </Button>
           </div>
@@ -485,6 +589,8 @@ const StudySessionPage: React.FC = () => {
         onStudyMore={() => {
           // Restart session with fresh data
           setCurrentCardIndex(0);
+          setFinishedCards([]);
+          setUndoStack([]);
           setSessionStats({
             studied: 0,
             correct: 0,
@@ -497,6 +603,7 @@ const StudySessionPage: React.FC = () => {
               review: 0,
               mastered: 0,
             },
+            leeches: [],
           });
           setStudyQueue([]);
           fetchStudyData();
@@ -522,14 +629,57 @@ const StudySessionPage: React.FC = () => {
               </button>
               <div>
                 <h1 className="text-2xl font-display font-bold text-text-primary">
-                  {deck.name}
+                  {deck ? deck.name : 'All Decks'}
                 </h1>
                 <p className="text-base text-text-secondary font-medium">
-                  Study Session
+                  {!custom ? 'Study Session' : session?.isCram ? 'Custom Study • Schedule unchanged' : 'Custom Study'}
                 </p>
               </div>
             </div>
             <div className="flex items-center gap-4">
+              <button
+                onClick={() => handleSetAside('buried-manually')}
+                disabled={!currentCard}
+                className="text-text-secondary hover:text-koda-primary transition-all duration-200 p-2 hover:bg-surface-elevated rounded-xl font-medium flex items-center gap-2 disabled:opacity-40 disabled:pointer-events-none"
+                aria-label="Bury card until tomorrow"
+                title="Bury card until tomorrow"
+              >
+                <EyeSlashIcon className="w-5 h-5" />
+                <span className="hidden sm:inline">Bury</span>
+              </button>
+              <button
+                onClick={() => handleSetAside('suspended')}
+                disabled={!currentCard}
+                className="text-text-secondary hover:text-koda-primary transition-all duration-200 p-2 hover:bg-surface-elevated rounded-xl font-medium flex items-center gap-2 disabled:opacity-40 disabled:pointer-events-none"
+                aria-label="Suspend card"
+                title="Suspend card until you unsuspend it"
+              >
+                <PauseCircleIcon className="w-5 h-5" />
+                <span className="hidden sm:inline">Suspend</span>
+              </button>
+              <button
+                onClick={() => setMultipleChoice(!multipleChoice)}
+                className={`transition-all duration-200 p-2 hover:bg-surface-elevated rounded-xl font-medium flex items-center gap-2 ${
+                  multipleChoice ? 'text-koda-primary bg-koda-primary/10' : 'text-text-secondary hover:text-koda-primary'
+                }`}
+                aria-label="Multiple choice"
+                aria-pressed={multipleChoice}
+                title="Show the cards as multiple choice"
+              >
+                <ListBulletIcon className="w-5 h-5" />
+                <span className="hidden sm:inline">Choices</span>
+              </button>
+              <button
+                onClick={handleUndo}
+                disabled={undoStack.length === 0 || isUndoing}
+                className="text-text-secondary hover:text-koda-primary transition-all duration-200 p-2 hover:bg-surface-elevated rounded-xl font-medium flex items-center gap-2 disabled:opacity-40 disabled:pointer-events-none"
+                aria-label="Undo last action"
+                title="Undo last action (Ctrl+Z)"
+              >
+                <ArrowUturnLeftIcon className="w-5 h-5" />
+                <span className="hidden sm:inline">Undo</span>
+              </button>
+              {!custom && sessionTypePicker}
               {isOfflineMode && (
                 <div className="flex items-center px-4 py-2 bg-warning-light text-warning text-sm font-semibold rounded-full border border-warning/30 shadow-subtle animate-pulse">
                   <KodaBear size="xs" expression="alert" className="mr-2" />
@@ -554,12 +704,26 @@ const StudySessionPage: React.FC = () => {
         current={sessionStats.studied}
         total={initialCards.length}
         remaining={studyQueue.length}
-        weightedProgress={calculateWeightedProgress(initialCards, studyQueue, sessionStats.studied)}
+        weightedProgress={calculateWeightedProgress(initialCards, studyQueue, finishedCards.length)}
         sessionStats={sessionStats}
       />
 
       {/* Study Card */}
       <main className="max-w-5xl mx-auto px-4 sm:px-6 py-6 sm:py-12 pb-safe">
+        {!currentCard && nextShowTime && (
+          <div className="max-w-md mx-auto text-center py-12">
+            <KodaBear size="lg" expression="patient" animation="float" className="mx-auto mb-6" />
+            <h2 className="text-2xl font-display font-bold text-text-primary mb-2">
+              Next card in <span className="font-mono text-koda-primary">{formatCountdown(nextShowTime.getTime() - now.getTime())}</span>
+            </h2>
+            <p className="text-text-secondary mb-6">
+              Your learning cards come back once their step has passed. Take a short break!
+            </p>
+            <Button variant="outline" onClick={handleSessionComplete}>
+              End Session
+            </Button>
+          </div>
+        )}
         {currentCard && (
           <StudyCard
             card={currentCard}
@@ -567,6 +731,10 @@ const StudySessionPage: React.FC = () => {
             totalCards={initialCards.length}
             remainingCards={studyQueue.length}
             reviewCount={currentCard.reviewCount || 0}
+            showDeckName={!deck}
+            answerOptions={resolveSchedulingOptions((currentCard.deck || deck)?.options)}
+            choices={choices}
+            mathMacros={(currentCard.deck || deck)?.mathMacros}
             onReview={handleCardReview}
           />
         )}
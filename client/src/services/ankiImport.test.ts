@@ -0,0 +1,235 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import ApiService from './api';
+import { importAnkiPackage, prepareAnkiImport } from './ankiImport';
+import type { AnkiCard, AnkiCollection } from '../../../shared/anki';
+import { buildAnkiCollection, collectAnkiExportNotes, type AnkiExportCard, type AnkiExportReview } from '../../../shared/ankiExport';
+import { builtInNoteType, generateNoteCards, type NoteFields } from '../../../shared/noteTypes';
+import { readAnkiPackage, writeAnkiPackage, type AnkiPackage } from '../utils/ankiPackage';
+import type { ImportNoteData } from '../types';
+
+vi.mock('./api', () => ({
+  default: {
+    uploadMedia: vi.fn(async (file: File) => ({ media: { filename: `stored-${file.name}` } })),
+    getNoteTypes: vi.fn(async () => ({ noteTypes: [] })),
+    createNoteType: vi.fn(async () => ({ noteType: { id: 'created-note-type' } })),
+    importNotes: vi.fn(async (_deckId: string, notes: ImportNoteData[]) => ({ noteCount: notes.length, cardCount: notes.length })),
+  },
+}));
+
+// Vite serves the wasm from a URL; under Node sql.js reads it from disk
+vi.mock('sql.js/dist/sql-wasm-browser.wasm?url', () => ({
+  default: createRequire(import.meta.url).resolve('sql.js/dist/sql-wasm.wasm'),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const createdAt = Math.floor((Date.now() - 100 * DAY_MS) / 1000);
+const nowSeconds = Math.floor(Date.now() / 1000);
+
+const card = (id: string, fields: Partial<AnkiCard>): AnkiCard => ({
+  id, noteId: id, ord: 0, type: 0, queue: 0, due: 1, interval: 0, factor: 2500, reps: 0, lapses: 0, ...fields,
+});
+
+const collection = (cards: AnkiCard[]): AnkiCollection => ({
+  createdAt,
+  noteTypes: [{
+    id: 'basic-type',
+    name: 'Basic',
+    isCloze: false,
+    fields: ['Front', 'Back'],
+    templates: [{ name: 'Card 1', front: '{{Front}}', back: '{{FrontSide}}<hr id=answer>{{Back}}' }],
+  }],
+  notes: cards.map(({ id }) => ({ id, noteTypeId: 'basic-type', fields: [`front ${id}`, `back ${id}`], tags: [] })),
+  cards,
+  reviews: [
+    { id: Date.now() - DAY_MS, cardId: 'review', ease: 3, interval: 5, lastInterval: 2, time: 3000, type: 1 },
+    { id: Date.now() - DAY_MS, cardId: 'review', ease: 0, interval: 5, lastInterval: 5, time: 0, type: 4 },
+    { id: Date.now() - 600_000, cardId: 'held', ease: 1, interval: -600, lastInterval: 3, time: 5000, type: 2 },
+  ],
+});
+
+const ankiPackage = (cards: AnkiCard[]): AnkiPackage => ({
+  collection: collection(cards),
+  hasMedia: () => false,
+  readMedia: () => new Map(),
+});
+
+const importedNotes = () => vi.mocked(ApiService.importNotes).mock.calls.flatMap(([, notes]) => notes);
+
+describe('Anki import scheduling', () => {
+  const cards = [
+    card('new', {}),
+    card('review', { type: 2, queue: 2, due: 105, interval: 5, reps: 4 }),
+    card('held', { type: 3, queue: -1, due: nowSeconds + 600, reps: 3, lapses: 1 }),
+    // Due on a day no date can hold, as in a damaged collection
+    card('damaged', { type: 2, queue: 2, due: 1e15, interval: 5 }),
+  ];
+
+  beforeEach(() => {
+    vi.mocked(ApiService.importNotes).mockClear();
+  });
+
+  it('prepares a collection with unreadable schedules, counting what could be carried over', () => {
+    const prepared = prepareAnkiImport(ankiPackage(cards));
+    expect(prepared.notes).toHaveLength(4);
+    expect(prepared.scheduledCards).toBe(3);
+    expect(prepared.reviewCount).toBe(2);
+  });
+
+  it('imports the readable schedules and starts the others as new', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const source = ankiPackage(cards);
+    const result = await importAnkiPackage(source, prepareAnkiImport(source), 'deck', { includeScheduling: true, onProgress: () => {} });
+    warn.mockRestore();
+
+    expect(result).toMatchObject({ noteCount: 4, unscheduledCards: 1 });
+    const schedules = Object.fromEntries(importedNotes().map(note => [note.fields.Front, note.cards]));
+    expect(schedules['front new']).toEqual([expect.objectContaining({ templateIndex: 0, schedule: expect.objectContaining({ stage: 'new' }) })]);
+    expect(schedules['front review']?.[0]).toMatchObject({ schedule: { stage: 'review', interval: 5 }, reviews: [{ quality: 3 }] });
+    expect(schedules['front held']?.[0]).toMatchObject({
+      schedule: { stage: 'learning', queueState: 'suspended', nextReviewAt: new Date((nowSeconds + 600) * 1000).toISOString() },
+      reviews: [{ quality: 1, wasCorrect: false }],
+    });
+    expect(schedules['front damaged']).toEqual([]);
+  });
+
+  it('does not read schedules when they are not imported', async () => {
+    const source = ankiPackage(cards);
+    const result = await importAnkiPackage(source, prepareAnkiImport(source), 'deck', { includeScheduling: false, onProgress: () => {} });
+    expect(result.unscheduledCards).toBe(0);
+    expect(importedNotes().every(note => note.cards?.length === 0)).toBe(true);
+  });
+});
+
+describe('Anki export round trip', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const later = (ms: number) => new Date(now.getTime() + ms).toISOString();
+
+  const notes = [
+    { id: 'euler', noteTypeId: 'basic', fields: { Front: 'What is $e^{i\\pi}$?', Back: '$$-1$$ <img src="euler.png">' } },
+    { id: 'katze', noteTypeId: 'reverse', fields: { Front: 'cat', Back: 'Katze [sound:katze.mp3]' } },
+    { id: 'paris', noteTypeId: 'cloze', fields: { Text: '{{c1::Paris}} is in {{c2::France}}', Extra: 'geography' } },
+    { id: 'water', noteTypeId: 'typed', fields: { Front: 'H<sub>2</sub>O?', Back: 'water' } },
+  ];
+
+  // How each card stands in Koda, by note and position
+  const schedules: Record<string, Partial<AnkiExportCard>> = {
+    'euler 0': { stage: 'review', interval: 12, nextReviewAt: '2026-10-24T00:00:00.000Z', reviewCount: 4, lapses: 1, stability: 11.5, difficulty: 0.4 },
+    'katze 0': { stage: 'learning', queueState: 'suspended', nextReviewAt: later(10 * 60_000), reviewCount: 2 },
+    'katze 1': { stage: 'learning', queueState: 'buried-manually', nextReviewAt: later(2 * DAY_MS), reviewCount: 3 },
+    'paris 1': { stage: 'learning', queueState: 'buried-until-tomorrow', nextReviewAt: later(60_000), reviewCount: 1 },
+    'paris 2': { stage: 'new', queueState: 'suspended' },
+    'water 0': { stage: 'mastered', interval: 200, nextReviewAt: '2027-03-01T00:00:00.000Z', reviewCount: 9 },
+  };
+
+  const cards: AnkiExportCard[] = notes.flatMap(note =>
+    generateNoteCards(builtInNoteType(note.noteTypeId), note.fields as NoteFields).map(card => ({
+      id: `${note.id} ${card.clozeIndex ?? card.templateIndex}`,
+      noteId: note.id,
+      front: card.front,
+      back: card.back,
+      type: card.type,
+      templateIndex: card.templateIndex,
+      clozeIndex: card.clozeIndex,
+      tags: note.id === 'paris' ? 'geography;capitals' : '',
+      stage: 'new',
+      interval: 1,
+      easeFactor: 2.3,
+      nextReviewAt: now.toISOString(),
+      reviewCount: 0,
+      lapses: 0,
+      queueState: 'normal',
+      stability: 0,
+      difficulty: 0.5,
+      ...schedules[`${note.id} ${card.clozeIndex ?? card.templateIndex}`],
+    })));
+
+  const reviews: AnkiExportReview[] = [
+    { cardId: 'euler 0', quality: 3, responseTime: 4000, wasCorrect: true, intervalBefore: 0, intervalAfter: 4, stageBefore: 'learning', createdAt: '2026-10-01T10:00:00Z' },
+    { cardId: 'euler 0', quality: 1, responseTime: 6000, wasCorrect: false, intervalBefore: 4, intervalAfter: 10 / 1440, stageBefore: 'review', createdAt: '2026-10-05T10:00:00Z' },
+    { cardId: 'katze 0', quality: 1, responseTime: 5000, wasCorrect: false, intervalBefore: 0, intervalAfter: 10 / 1440, stageBefore: 'new', createdAt: '2026-10-19T11:50:00Z' },
+  ];
+
+  const media: Record<string, string> = { 'euler.png': 'png bytes', 'katze.mp3': 'mp3 bytes' };
+
+  const exportAndImport = async (includeScheduling: boolean) => {
+    vi.mocked(ApiService.importNotes).mockClear();
+    vi.mocked(ApiService.uploadMedia).mockClear();
+    const collection = await buildAnkiCollection(
+      { name: 'Round Trip' },
+      collectAnkiExportNotes(cards, notes, notes.map(note => builtInNoteType(note.noteTypeId))),
+      includeScheduling ? reviews : null,
+      async text => createHash('sha1').update(text).digest('hex'),
+      now
+    );
+    const blob = await writeAnkiPackage(collection, async filename => media[filename] ? new TextEncoder().encode(media[filename]) : null);
+    const source = await readAnkiPackage(new File([blob], 'Round Trip.apkg'));
+    const prepared = prepareAnkiImport(source);
+    const result = await importAnkiPackage(source, prepared, 'deck', { includeScheduling, onProgress: () => {} });
+    return { prepared, result, imported: importedNotes() };
+  };
+
+  it('brings back the notes as their built-in note types, with their tags', async () => {
+    const { prepared, result, imported } = await exportAndImport(false);
+
+    expect(result).toMatchObject({ noteCount: 4, skippedMedia: [], unscheduledCards: 0 });
+    expect(Array.from(prepared.noteTypes.values(), noteType => noteType.builtInId).sort()).toEqual(['basic', 'cloze', 'reverse', 'typed']);
+    expect(prepared.notes.map(note => note.generated.length)).toEqual([1, 2, 2, 1]);
+    expect(imported.map(note => [note.noteTypeId, note.tags])).toEqual([
+      ['basic', ''],
+      ['reverse', ''],
+      ['cloze', 'geography;capitals'],
+      ['typed', ''],
+    ]);
+  });
+
+  it('keeps the fields, with math in the delimiters Anki reads and media pointing at the uploaded files', async () => {
+    const { imported } = await exportAndImport(false);
+
+    expect(imported.map(note => note.fields)).toEqual([
+      { Front: 'What is \\(e^{i\\pi}\\)?', Back: '\\[-1\\] <img src="stored-euler.png">' },
+      { Front: 'cat', Back: 'Katze [sound:stored-katze.mp3]' },
+      { Text: '{{c1::Paris}} is in {{c2::France}}', Extra: 'geography' },
+      { Front: 'H<sub>2</sub>O?', Back: 'water' },
+    ]);
+    const uploaded = await Promise.all(vi.mocked(ApiService.uploadMedia).mock.calls.map(async ([file]) => [file.name, file.type, await file.text()]));
+    expect(uploaded).toEqual([
+      ['euler.png', 'image/png', 'png bytes'],
+      ['katze.mp3', 'audio/mpeg', 'mp3 bytes'],
+    ]);
+  });
+
+  it('exports every card as new without scheduling', async () => {
+    const { prepared } = await exportAndImport(false);
+    expect(prepared.scheduledCards).toBe(0);
+    expect(prepared.reviewCount).toBe(0);
+  });
+
+  it('brings back each card\'s schedule, including held learning cards', async () => {
+    const { prepared, result, imported } = await exportAndImport(true);
+
+    expect(result.unscheduledCards).toBe(0);
+    expect(prepared.scheduledCards).toBe(5);
+    expect(prepared.reviewCount).toBe(3);
+
+    const importedCards = Object.fromEntries(imported.flatMap((note, index) =>
+      (note.cards ?? []).map(card => [`${notes[index].id} ${card.clozeIndex ?? card.templateIndex}`, card])));
+    expect(Object.keys(importedCards).sort()).toEqual(cards.map(card => card.id).sort());
+
+    expect(importedCards['euler 0'].schedule).toMatchObject({
+      stage: 'review', interval: 12, easeFactor: 2.3, nextReviewAt: '2026-10-24T00:00:00.000Z', reviewCount: 4, lapses: 1, queueState: 'normal',
+    });
+    expect(importedCards['euler 0'].schedule.stability).toBeCloseTo(11.5);
+    expect(importedCards['euler 0'].schedule.difficulty).toBeCloseTo(0.4);
+    expect(importedCards['euler 0'].reviews.map(review => review.quality)).toEqual([3, 1]);
+
+    // Suspended cards stay suspended; burials only last the day, so buried cards come back in rotation
+    expect(importedCards['katze 0'].schedule).toMatchObject({ stage: 'learning', queueState: 'suspended', nextReviewAt: later(10 * 60_000) });
+    expect(importedCards['katze 0'].reviews).toEqual([expect.objectContaining({ quality: 1, wasCorrect: false })]);
+    expect(importedCards['katze 1'].schedule).toMatchObject({ stage: 'learning', queueState: 'normal', nextReviewAt: later(2 * DAY_MS) });
+    expect(importedCards['paris 1'].schedule).toMatchObject({ stage: 'learning', queueState: 'normal', nextReviewAt: later(60_000) });
+    expect(importedCards['paris 2'].schedule).toMatchObject({ stage: 'new', queueState: 'suspended' });
+    expect(importedCards['water 0'].schedule).toMatchObject({ stage: 'mastered', interval: 200, nextReviewAt: '2027-03-01T00:00:00.000Z' });
+  });
+});
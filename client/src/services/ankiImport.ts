@@ -0,0 +1,268 @@
+/**
+ * Anki Import Service
+ *
+ * Turns a read Anki package into Koda notes. Note types that match a
+ * built-in one are imported as it; others are recreated, or reused when an
+ * identical one was imported before. Referenced media is uploaded and the
+ * notes are pointed at the stored files, then notes are created in batches,
+ * optionally with their cards' schedules and review logs. Schedules are only
+ * read when they are imported, and a card whose schedule can't be read starts
+ * as new rather than failing the import.
+ */
+
+import ApiService from './api';
+import {
+  ankiCardPosition,
+  ankiMediaName,
+  ankiNoteFields,
+  convertAnkiLatex,
+  convertAnkiNoteType,
+  convertAnkiReviews,
+  convertAnkiSchedule,
+  convertAnkiTags,
+  isAnsweredAnkiReview,
+  type AnkiCard,
+  type AnkiReview,
+  type ConvertedNoteType,
+  type ImportedCard,
+} from '../../../shared/anki';
+import { BUILT_IN_NOTE_TYPES, generateNoteCards, type GeneratedCard, type NoteTypeDefinition } from '../../../shared/noteTypes';
+import { MAX_MEDIA_BYTES, contentTypeForFilename, renameMediaReferences } from '../../../shared/media';
+import type { AnkiPackage } from '../utils/ankiPackage';
+import type { ImportNoteData, NoteFields } from '../types';
+
+export interface PreparedAnkiNote {
+  noteTypeKey: string; // the Anki note type's id
+  fields: NoteFields; // still referring to media by the package's names
+  tags: string;
+  cards: AnkiCard[]; // the note's cards in the package, whose schedules may be imported
+  generated: GeneratedCard[]; // what the note will look like in Koda
+}
+
+export interface PreparedAnkiImport {
+  noteTypes: Map<string, ConvertedNoteType>;
+  notes: PreparedAnkiNote[];
+  media: string[]; // packaged files the notes refer to
+  scheduledCards: number; // cards Anki has already shown
+  reviewCount: number;
+}
+
+export interface AnkiImportResult {
+  noteCount: number;
+  cardCount: number;
+  skippedMedia: string[]; // files Koda can't store, left as plain references
+  unscheduledCards: number; // cards whose Anki schedule couldn't be read, imported as new
+}
+
+export interface AnkiImportProgress {
+  progress: number; // 0-100
+  message: string; // what is being imported, e.g. "notes (50 of 200)"
+}
+
+const NOTE_BATCH_SIZE = 50;
+const MEDIA_BATCH_SIZE = 20;
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item));
+    if (group) group.push(item);
+    else groups.set(key(item), [item]);
+  }
+  return groups;
+}
+
+// How a converted note type is stored: as a built-in, or as itself under the Anki id until created
+const noteTypeDefinition = (key: string, noteType: ConvertedNoteType): NoteTypeDefinition =>
+  BUILT_IN_NOTE_TYPES.find(builtIn => builtIn.id === noteType.builtInId) ||
+  { id: key, name: noteType.name, fields: noteType.fields, templates: noteType.templates, isCloze: noteType.isCloze };
+
+/**
+ * Convert a package's notes and work out the cards they generate, for the
+ * import preview
+ */
+export function prepareAnkiImport(ankiPackage: AnkiPackage): PreparedAnkiImport {
+  const { collection } = ankiPackage;
+  const noteTypes = new Map(collection.noteTypes.map(noteType => [noteType.id, convertAnkiNoteType(noteType)]));
+
+  const cardsByNote = groupBy(collection.cards, card => card.noteId);
+  const reviewsByCard = groupBy(collection.reviews.filter(isAnsweredAnkiReview), review => review.cardId);
+
+  const media = new Set<string>();
+  const notes = collection.notes.flatMap((ankiNote): PreparedAnkiNote[] => {
+    const noteType = noteTypes.get(ankiNote.noteTypeId);
+    if (!noteType) return [];
+    const definition = noteTypeDefinition(ankiNote.noteTypeId, noteType);
+    const fields = ankiNoteFields(ankiNote, definition.fields, convertAnkiLatex);
+
+    for (const value of Object.values(fields)) {
+      for (const reference of referencedNames(value)) {
+        const name = ankiMediaName(reference, ankiPackage.hasMedia);
+        if (name) media.add(name);
+      }
+    }
+
+    return [{
+      noteTypeKey: ankiNote.noteTypeId,
+      fields,
+      tags: convertAnkiTags(ankiNote.tags),
+      cards: cardsByNote.get(ankiNote.id) || [],
+      generated: generateNoteCards(definition, fields),
+    }];
+  });
+
+  return {
+    noteTypes,
+    notes,
+    media: Array.from(media),
+    scheduledCards: notes.reduce((count, note) => count + note.cards.filter(card => card.type !== 0).length, 0),
+    reviewCount: notes.reduce((count, note) =>
+      count + note.cards.reduce((sum, card) => sum + (reviewsByCard.get(card.id)?.length ?? 0), 0), 0),
+  };
+}
+
+/**
+ * A note's cards with their schedules and review logs in Koda terms. Cards
+ * whose schedule can't be converted are left out, so they start as new.
+ */
+function convertAnkiCards(
+  cards: AnkiCard[],
+  isCloze: boolean,
+  reviewsByCard: Map<string, AnkiReview[]>,
+  collectionCreatedAt: number,
+  onUnreadable: (card: AnkiCard, error: unknown) => void
+): ImportedCard[] {
+  return cards.flatMap(card => {
+    const reviews = reviewsByCard.get(card.id) || [];
+    try {
+      return [{
+        ...ankiCardPosition(card, isCloze),
+        schedule: convertAnkiSchedule(card, reviews, collectionCreatedAt),
+        reviews: convertAnkiReviews(reviews),
+      }];
+    } catch (error) {
+      onUnreadable(card, error);
+      return [];
+    }
+  });
+}
+
+// Every name an image or sound in the text refers to, whether or not Koda could store it under that name
+function referencedNames(text: string): string[] {
+  const names: string[] = [];
+  renameMediaReferences(text, name => {
+    names.push(name);
+    return undefined;
+  });
+  return names;
+}
+
+/**
+ * Upload the package's media, returning the stored filename of each file by its
+ * name in the package. Files Koda doesn't accept are left out.
+ */
+async function uploadAnkiMedia(ankiPackage: AnkiPackage, names: string[], onUploaded: (done: number) => void) {
+  const stored = new Map<string, string>();
+  const skipped: string[] = [];
+  for (let start = 0; start < names.length; start += MEDIA_BATCH_SIZE) {
+    const batch = names.slice(start, start + MEDIA_BATCH_SIZE);
+    const files = ankiPackage.readMedia(batch);
+    for (const name of batch) {
+      const bytes = files.get(name);
+      const contentType = contentTypeForFilename(name);
+      if (!bytes || !contentType || bytes.length > MAX_MEDIA_BYTES) {
+        skipped.push(name);
+        continue;
+      }
+      const { media } = await ApiService.uploadMedia(new File([bytes], name, { type: contentType }));
+      stored.set(name, media.filename);
+    }
+    onUploaded(Math.min(names.length, start + MEDIA_BATCH_SIZE));
+  }
+  return { stored, skipped };
+}
+
+const sameNoteType = (a: Omit<NoteTypeDefinition, 'id'>, b: Omit<NoteTypeDefinition, 'id'>) =>
+  a.name === b.name && a.isCloze === b.isCloze &&
+  JSON.stringify(a.fields) === JSON.stringify(b.fields) &&
+  JSON.stringify(a.templates) === JSON.stringify(b.templates);
+
+/**
+ * Koda note type ids for the Anki note types the notes use, creating the
+ * custom ones that don't exist yet
+ */
+async function resolveNoteTypes(prepared: PreparedAnkiImport): Promise<Map<string, string>> {
+  const used = new Set(prepared.notes.map(note => note.noteTypeKey));
+  const ids = new Map<string, string>();
+  const { noteTypes: existing } = await ApiService.getNoteTypes();
+
+  for (const key of used) {
+    const noteType = prepared.noteTypes.get(key)!;
+    if (noteType.builtInId) {
+      ids.set(key, noteType.builtInId);
+      continue;
+    }
+    const data = { name: noteType.name, fields: noteType.fields, templates: noteType.templates, isCloze: noteType.isCloze };
+    const match = existing.find(candidate => !candidate.builtIn && sameNoteType(candidate, data));
+    ids.set(key, match ? match.id : (await ApiService.createNoteType(data)).noteType.id);
+  }
+  return ids;
+}
+
+/**
+ * Import prepared notes into a deck. Progress runs from media uploads through
+ * note types to the note batches.
+ */
+export async function importAnkiPackage(
+  ankiPackage: AnkiPackage,
+  prepared: PreparedAnkiImport,
+  deckId: string,
+  options: { includeScheduling: boolean; onProgress: (progress: AnkiImportProgress) => void }
+): Promise<AnkiImportResult> {
+  const { onProgress } = options;
+  // Media takes the first fifth of the bar, notes the rest
+  const mediaShare = prepared.media.length > 0 ? 20 : 0;
+
+  onProgress({ progress: 0, message: `media files (0 of ${prepared.media.length})` });
+  const { stored, skipped } = await uploadAnkiMedia(ankiPackage, prepared.media, done =>
+    onProgress({ progress: Math.round((done / prepared.media.length) * mediaShare), message: `media files (${done} of ${prepared.media.length})` })
+  );
+  const rename = (reference: string) => {
+    const name = ankiMediaName(reference, ankiPackage.hasMedia);
+    return name ? stored.get(name) : undefined;
+  };
+
+  onProgress({ progress: mediaShare, message: 'note types' });
+  const noteTypeIds = await resolveNoteTypes(prepared);
+
+  const { collection } = ankiPackage;
+  const reviewsByCard = groupBy(collection.reviews, review => review.cardId);
+  let unscheduledCards = 0;
+  const notes: ImportNoteData[] = prepared.notes.map(note => ({
+    noteTypeId: noteTypeIds.get(note.noteTypeKey)!,
+    fields: Object.fromEntries(Object.entries(note.fields).map(([name, value]) => [name, renameMediaReferences(value, rename)])),
+    tags: note.tags,
+    cards: options.includeScheduling
+      ? convertAnkiCards(note.cards, prepared.noteTypes.get(note.noteTypeKey)!.isCloze, reviewsByCard, collection.createdAt, (card, error) => {
+          console.warn('Could not read the schedule of Anki card', card.id, error);
+          unscheduledCards++;
+        })
+      : [],
+  }));
+
+  let noteCount = 0;
+  let cardCount = 0;
+  for (let start = 0; start < notes.length; start += NOTE_BATCH_SIZE) {
+    const result = await ApiService.importNotes(deckId, notes.slice(start, start + NOTE_BATCH_SIZE));
+    noteCount += result.noteCount;
+    cardCount += result.cardCount;
+    const done = Math.min(notes.length, start + NOTE_BATCH_SIZE);
+    onProgress({
+      progress: mediaShare + Math.round((done / notes.length) * (100 - mediaShare)),
+      message: `notes (${done} of ${notes.length})`,
+    });
+  }
+
+  return { noteCount, cardCount, skippedMedia: skipped, unscheduledCards };
+}
+
@@ -8,6 +8,8 @@ import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
 import type {
   PaginatedResponse,
   Deck,
+  DeckOptions,
+  DeckOptionsData,
   Card,
   StudySession,
   StudyStats,
@@ -17,7 +19,59 @@ import type {
   UpdateCardData,
   ReviewData,
   ReviewResult,
+  ReviewHistory,
+  CustomStudyFilters,
+  Note,
+  NoteType,
+  NoteTypeData,
+  CreateNoteData,
+  ImportNoteData,
+  ImportNotesResult,
 } from '../types';
+import {
+  scheduleReview,
+  seedFsrsState,
+  isLapse,
+  addDays,
+  startOfDay,
+  resolveSchedulingOptions,
+  countTodaysReviews,
+  remainingDailyBudget,
+  isIntradayLearning,
+  composeSession,
+  snapshotCardState,
+  restoreCardState,
+  isLeechLapse,
+  LEECH_TAG,
+  isInRotation,
+  queueStateUpdate,
+  type SessionType,
+} from '../../../shared/scheduler';
+import { hasAnyTag, parseTags, formatTags } from '../../../shared/tags';
+import { generateSiblingCards, syncSiblingContent } from '../../../shared/siblings';
+import { planClozeCards } from '../../../shared/cloze';
+import {
+  BUILT_IN_NOTE_TYPES,
+  builtInNoteType,
+  builtInNoteFields,
+  generateNoteCards,
+  isPlainNoteType,
+  planNoteCards,
+  type GeneratedCard,
+  type NoteFields,
+  type NoteTypeDefinition,
+} from '../../../shared/noteTypes';
+import {
+  MEDIA_TYPES,
+  MAX_MEDIA_BYTES,
+  MEDIA_GC_GRACE_MS,
+  mediaFilename,
+  unreferencedMedia,
+  type MediaFile,
+} from '../../../shared/media';
+import { buildAnkiCollection, collectAnkiExportNotes } from '../../../shared/ankiExport';
+import { putDemoMedia, getDemoMedia, listDemoMedia, deleteDemoMedia, demoMediaUrl, forgetDemoMediaUrl } from './demoMedia';
+import { writeAnkiPackage } from '../utils/ankiPackage';
 
 // Create axios instance with default config
 const api: AxiosInstance = axios.create({
@@ -41,6 +95,10 @@ const DEMO_KEYS = {
   decks: 'koda_demo_decks',
   cards: 'koda_demo_cards',
   sessions: 'koda_demo_sessions',
+  reviews: 'koda_demo_reviews',
+  options: 'koda_demo_options',
+  notes: 'koda_demo_notes',
+  noteTypes: 'koda_demo_note_types',
 } as const;
 
 // Demo mode utilities
@@ -63,6 +121,127 @@ const setDemoData = <T>(key: keyof typeof DEMO_KEYS, data: T): void => {
   }
 };
 
+// Attach a deck's scheduling preset from demo storage
+const withDemoOptions = (deck: Deck): Deck => {
+  const presets = getDemoData('options', [] as DeckOptions[]);
+  return { ...deck, options: presets.find(preset => preset.id === deck.optionsId) || null };
+};
+
+// A fresh, unreviewed demo card generated from a note
+const newDemoCard = (deckId: string, noteId: string, card: GeneratedCard, tags?: string): Card => ({
+  id: generateId(),
+  deckId,
+  noteId,
+  front: card.front,
+  back: card.back,
+  hint: card.hint || '',
+  type: card.type,
+  templateIndex: card.templateIndex,
+  clozeIndex: card.clozeIndex,
+  tags: tags || '',
+  stage: 'new',
+  interval: 1.0,
+  easeFactor: 2.5,
+  reviewCount: 0,
+  consecutiveCorrect: 0,
+  lapses: 0,
+  queueState: 'normal',
+  difficulty: 0.5,
+  stability: 0,
+  lastReviewedAt: null,
+  nextReviewAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const newDemoNote = (deckId: string, noteTypeId: string, fields: NoteFields): Note => ({
+  id: generateId(),
+  deckId,
+  noteTypeId,
+  fields,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+// Built-in note types come from shared code, custom ones from demo storage
+const findDemoNoteType = (id: string): NoteTypeDefinition | null =>
+  BUILT_IN_NOTE_TYPES.find(noteType => noteType.id === id) ||
+  getDemoData('noteTypes', [] as NoteType[]).find(noteType => noteType.id === id) ||
+  null;
+
+// Keep a demo deck's card count in step with added or removed cards
+const adjustDemoCardCount = (deckId: string, change: number) => {
+  if (change === 0) return;
+  setDemoData('decks', getDemoData('decks', [] as Deck[]).map(deck =>
+    deck.id === deckId ? { ...deck, cardCount: Math.max(0, deck.cardCount + change) } : deck
+  ));
+};
+
+// Re-render a demo note's cards from its fields, keeping the schedule of every card still generated
+const syncDemoNoteCards = (cards: Card[], note: Note, noteType: NoteTypeDefinition): Card[] => {
+  const existing = cards.filter(card => card.noteId === note.id);
+  const plan = planNoteCards(noteType, generateNoteCards(noteType, note.fields), existing);
+  const updates = new Map(plan.update.map(entry => [entry.id, entry.card]));
+  // New cards share the note's tags, but not a leech tag earned by one of its cards
+  const tags = formatTags(parseTags(existing[0]?.tags).filter(tag => tag !== LEECH_TAG));
+  
+  adjustDemoCardCount(note.deckId, plan.create.length - plan.remove.length);
+  return [
+    ...plan.create.map(card => newDemoCard(note.deckId, note.id, card, tags)),
+    ...cards
+      .filter(card => !plan.remove.includes(card.id))
+      .map(card => {
+        const update = updates.get(card.id);
+        if (!update) return card;
+        const { front, back, type, templateIndex, clozeIndex } = update;
+        return { ...card, front, back, type, templateIndex, clozeIndex: clozeIndex ?? null, updatedAt: new Date() };
+      }),
+  ];
+};
+
+// Uploads are sent as base64 JSON; encode in chunks to stay within argument limits
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Anki checksums notes with SHA-1 of their sort field
+const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Today's remaining new/review quota for a demo deck, from the demo review log
+const getDemoDailyBudget = (deck: Deck, now: Date = new Date()) => {
+  const deckCardIds = new Set(
+    getDemoData('cards', [] as Card[]).filter(card => card.deckId === deck.id).map(card => card.id)
+  );
+  const reviews = getDemoData('reviews', [] as ReviewHistory[])
+    .filter(review => deckCardIds.has(review.cardId) && !review.isCram);
+  return remainingDailyBudget(withDemoOptions(deck).options, countTodaysReviews(reviews, now));
+};
+
+
+// Attach options, due count and today's remaining quota to a demo deck
+const withDemoStudyStatus = (deck: Deck): Deck => {
+  const now = new Date();
+  const deckCards = getDemoData('cards', [] as Card[]).filter(card => card.deckId === deck.id && isInRotation(card, now));
+  const budget = getDemoDailyBudget(deck, now);
+  const dueCards = deckCards.filter(card => new Date(card.nextReviewAt) <= now);
+  const learningDue = dueCards.filter(isIntradayLearning).length;
+  const newLeft = Math.min(budget.newLeft, dueCards.filter(card => card.stage === 'new').length);
+  const reviewsLeft = Math.min(budget.reviewsLeft, dueCards.filter(card => card.stage !== 'new').length - learningDue);
+  return { ...withDemoOptions(deck), dueCount: newLeft + reviewsLeft + learningDue, newLeft, reviewsLeft, learningDue };
+};
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response: AxiosResponse) => response,
@@ -92,6 +271,11 @@ api.interceptors.response.use(
   }
 );
 
+// Whether a request failed because the API can't be reached, so demo mode answers instead
+const isApiUnavailable = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null &&
+  (('isDemoMode' in error && error.isDemoMode === true) || ('status' in error && error.status === 0));
+
 // API Service Class
 export class ApiService {
 
@@ -108,7 +292,7 @@ export class ApiService {
       if (error.isDemoMode || error.status === 0) {
         // Fallback to demo mode
         isDemoMode = true;
-        const decks = getDemoData('decks', [] as Deck[]);
+        const decks = getDemoData('decks', [] as Deck[]).map(withDemoStudyStatus);
         return { 
           decks, 
           pagination: { page: 1, limit: 50, total: decks.length, totalPages: 1 }
@@ -131,7 +315,7 @@ export class ApiService {
         if (!deck) {
           throw { message: 'Deck not found', status: 404 };
         }
-        return { deck };
+        return { deck: withDemoStudyStatus(deck) };
       }
       throw error;
     }
@@ -152,6 +336,9 @@ export class ApiService {
           description: data.description || '',
           isPublic: data.isPublic || false,
           tags: data.tags || '',
+          algorithm: data.algorithm || 'sm2',
+          optionsId: data.optionsId || null,
+          mathMacros: data.mathMacros || {},
           cardCount: 0,
           dueCount: 0,
           createdAt: new Date(),
@@ -179,6 +366,18 @@ export class ApiService {
           throw { message: 'Deck not found', status: 404 };
         }
         
+        // Seed FSRS memory state from review history when switching algorithms
+        if (data.algorithm === 'fsrs' && decks[deckIndex].algorithm !== 'fsrs') {
+          const reviews = getDemoData('reviews', [] as ReviewHistory[]);
+          const cards = getDemoData('cards', [] as Card[]);
+          const seededCards = cards.map(card => {
+            if (card.deckId !== id) return card;
+            const state = seedFsrsState(reviews.filter(review => review.cardId === card.id && !review.isCram));
+            return state ? { ...card, ...state } : card;
+          });
+          setDemoData('cards', seededCards);
+        }
+        
         const updatedDeck = {
           ...decks[deckIndex],
           ...data,
@@ -189,7 +388,7 @@ export class ApiService {
         updatedDecks[deckIndex] = updatedDeck;
         setDemoData('decks', updatedDecks);
         
-        return { deck: updatedDeck };
+        return { deck: withDemoOptions(updatedDeck) };
       }
       throw error;
     }
@@ -217,6 +416,173 @@ export class ApiService {
         const updatedCards = cards.filter(card => card.deckId !== id);
         setDemoData('cards', updatedCards);
         
+        // And their notes and review history
+        setDemoData('notes', getDemoData('notes', [] as Note[]).filter(note => note.deckId !== id));
+        const remainingCardIds = new Set(updatedCards.map(card => card.id));
+        const reviews = getDemoData('reviews', [] as ReviewHistory[]);
+        setDemoData('reviews', reviews.filter(review => remainingCardIds.has(review.cardId)));
+        
+        return;
+      }
+      throw error;
+    }
+  }
+
+  // Deck Options
+  static async getDeckOptions(): Promise<{ options: DeckOptions[] }> {
+    try {
+      const response = await api.get<{ options: DeckOptions[] }>('/deck-options');
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const presets = getDemoData('options', [] as DeckOptions[]);
+        const decks = getDemoData('decks', [] as Deck[]);
+        return {
+          options: presets.map(preset => ({
+            ...preset,
+            deckCount: decks.filter(deck => deck.optionsId === preset.id).length,
+          }))
+        };
+      }
+      throw error;
+    }
+  }
+
+  static async createDeckOptions(data: DeckOptionsData): Promise<{ options: DeckOptions }> {
+    try {
+      const response = await api.post<{ options: DeckOptions }>('/deck-options', data);
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const presets = getDemoData('options', [] as DeckOptions[]);
+        const newPreset: DeckOptions = {
+          ...resolveSchedulingOptions(data),
+          id: generateId(),
+          name: data.name,
+          deckCount: 0,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+        setDemoData('options', [...presets, newPreset]);
+        return { options: newPreset };
+      }
+      throw error;
+    }
+  }
+
+  static async updateDeckOptions(id: string, data: Partial<DeckOptionsData>): Promise<{ options: DeckOptions }> {
+    try {
+      const response = await api.put<{ options: DeckOptions }>(`/deck-options/${id}`, data);
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const presets = getDemoData('options', [] as DeckOptions[]);
+        const presetIndex = presets.findIndex(preset => preset.id === id);
+        if (presetIndex === -1) {
+          throw { message: 'Deck options not found', status: 404 };
+        }
+        
+        const updatedPreset = {
+          ...presets[presetIndex],
+          ...data,
+          updatedAt: new Date(),
+        };
+        
+        const updatedPresets = [...presets];
+        updatedPresets[presetIndex] = updatedPreset;
+        setDemoData('options', updatedPresets);
+        
+        return { options: updatedPreset };
+      }
+      throw error;
+    }
+  }
+
+  // Note Types
+  static async getNoteTypes(): Promise<{ noteTypes: NoteType[] }> {
+    try {
+      const response = await api.get<{ noteTypes: NoteType[] }>('/note-types');
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        return {
+          noteTypes: [
+            ...BUILT_IN_NOTE_TYPES.map(noteType => ({ ...noteType, builtIn: true })),
+            ...getDemoData('noteTypes', [] as NoteType[]),
+          ]
+        };
+      }
+      throw error;
+    }
+  }
+
+  static async createNoteType(data: NoteTypeData): Promise<{ noteType: NoteType }> {
+    try {
+      const response = await api.post<{ noteType: NoteType }>('/note-types', data);
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const noteType: NoteType = { ...data, id: generateId(), builtIn: false };
+        setDemoData('noteTypes', [...getDemoData('noteTypes', [] as NoteType[]), noteType]);
+        return { noteType };
+      }
+      throw error;
+    }
+  }
+
+  static async updateNoteType(id: string, data: Partial<NoteTypeData>): Promise<{ noteType: NoteType; notesUpdated: number }> {
+    try {
+      const response = await api.put<{ noteType: NoteType; notesUpdated: number }>(`/note-types/${id}`, data);
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const noteTypes = getDemoData('noteTypes', [] as NoteType[]);
+        const existing = noteTypes.find(noteType => noteType.id === id);
+        if (!existing) {
+          throw { message: 'Note type not found', status: 404 };
+        }
+        
+        const noteType = { ...existing, ...data };
+        setDemoData('noteTypes', noteTypes.map(candidate => candidate.id === id ? noteType : candidate));
+        
+        // Re-render every note of this type with the new fields and templates
+        const notes = getDemoData('notes', [] as Note[]).filter(note => note.noteTypeId === id);
+        setDemoData('cards', notes.reduce(
+          (cards, note) => syncDemoNoteCards(cards, note, noteType),
+          getDemoData('cards', [] as Card[])
+        ));
+        
+        return { noteType, notesUpdated: notes.length };
+      }
+      throw error;
+    }
+  }
+
+  static async deleteNoteType(id: string): Promise<void> {
+    try {
+      await api.delete(`/note-types/${id}`);
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const noteCount = getDemoData('notes', [] as Note[]).filter(note => note.noteTypeId === id).length;
+        if (noteCount > 0) {
+          throw { message: `This note type is used by ${noteCount} note${noteCount === 1 ? '' : 's'}`, status: 409 };
+        }
+        
+        setDemoData('noteTypes', getDemoData('noteTypes', [] as NoteType[]).filter(noteType => noteType.id !== id));
         return;
       }
       throw error;
@@ -255,6 +621,11 @@ export class ApiService {
                 easeFactor: 2.5,
                 reviewCount: 0,
                 consecutiveCorrect: 0,
+                lapses: 0,
+                difficulty: 0.5,
+                stability: 0,
+                lastReviewedAt: null,
+                relearningInterval: null,
                 nextReviewAt: new Date(),
                 updatedAt: new Date(),
               }
@@ -272,51 +643,80 @@ export class ApiService {
     }
   }
 
+  /**
+   * The deck as an Anki package, optionally with each card's schedule and
+   * review history
+   */
+  static async exportDeck(id: string, options: { includeScheduling: boolean }): Promise<Blob> {
+    try {
+      const response = await api.get<Blob>(`/decks/${id}/export`, {
+        params: { format: 'apkg', scheduling: String(options.includeScheduling) },
+        responseType: 'blob',
+        timeout: 60000,
+      });
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const deck = getDemoData('decks', [] as Deck[]).find(candidate => candidate.id === id);
+        if (!deck) {
+          throw { message: 'Deck not found', status: 404 };
+        }
+        
+        const cards = getDemoData('cards', [] as Card[]).filter(card => card.deckId === id);
+        const cardIds = new Set(cards.map(card => card.id));
+        const notes = getDemoData('notes', [] as Note[]).filter(note => note.deckId === id);
+        const noteTypes = Array.from(new Set(notes.map(note => note.noteTypeId)))
+          .map(findDemoNoteType)
+          .filter((noteType): noteType is NoteTypeDefinition => noteType !== null);
+        const reviews = options.includeScheduling
+          ? getDemoData('reviews', [] as ReviewHistory[]).filter(review => cardIds.has(review.cardId))
+          : null;
+        
+        const collection = await buildAnkiCollection(deck, collectAnkiExportNotes(cards, notes, noteTypes), reviews, sha1Hex);
+        return writeAnkiPackage(collection, async filename => {
+          const media = await getDemoMedia(filename).catch(() => undefined);
+          return media ? new Uint8Array(await media.blob.arrayBuffer()) : null;
+        });
+      }
+      throw error;
+    }
+  }
+
   // Cards
   static async getCard(id: string): Promise<{ card: Card }> {
     const response = await api.get<{ card: Card }>(`/cards/${id}`);
     return response.data;
   }
 
-  static async createCard(data: CreateCardData): Promise<{ card: Card }> {
+  static async createCard(data: CreateCardData): Promise<{ card: Card; cards?: Card[] }> {
     try {
-      const response = await api.post<{ card: Card }>('/cards', data);
+      const response = await api.post<{ card: Card; cards?: Card[] }>('/cards', data);
       return response.data;
     } catch (error: any) {
       if (error.isDemoMode || error.status === 0) {
         // Fallback to demo mode
         isDemoMode = true;
         const cards = getDemoData('cards', [] as Card[]);
-        const newCard: Card = {
-          id: generateId(),
-          deckId: data.deckId,
-          front: data.front,
-          back: data.back,
-          hint: data.hint || '',
-          type: data.type || 'basic',
-          tags: data.tags || '',
-          stage: 'new',
-          interval: 1.0,
-          easeFactor: 2.5,
-          reviewCount: 0,
-          consecutiveCorrect: 0,
-          nextReviewAt: new Date(),
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-        const updatedCards = [newCard, ...cards];
+        // Plain cards are notes of a built-in note type
+        const noteType = builtInNoteType(data.type);
+        const note = newDemoNote(data.deckId, noteType.id, builtInNoteFields(noteType, data));
+        const newCards = generateSiblingCards(data).map(card => newDemoCard(data.deckId, note.id, card, data.tags));
+        setDemoData('notes', [note, ...getDemoData('notes', [] as Note[])]);
+        const updatedCards = [...newCards, ...cards];
         setDemoData('cards', updatedCards);
         
         // Update deck card count
         const decks = getDemoData('decks', [] as Deck[]);
         const updatedDecks = decks.map(deck => 
           deck.id === data.deckId 
-            ? { ...deck, cardCount: deck.cardCount + 1 }
+            ? { ...deck, cardCount: deck.cardCount + newCards.length }
             : deck
         );
         setDemoData('decks', updatedDecks);
         
-        return { card: newCard };
+        return { card: newCards[0], cards: newCards };
       }
       throw error;
     }
@@ -336,14 +736,100 @@ export class ApiService {
           throw { message: 'Card not found', status: 404 };
         }
         
-        const updatedCard = {
+        // Content edits to a card with a note go through the note's fields, and its card types through the note type
+        const notes = getDemoData('notes', [] as Note[]);
+        const existingCard = cards[cardIndex];
+        const note = existingCard.noteId ? notes.find(candidate => candidate.id === existingCard.noteId) : undefined;
+        if (note && data.type !== undefined && data.type !== existingCard.type) {
+          throw { message: "A note's cards take their type from its note type", status: 400 };
+        }
+        if (note && (data.front !== undefined || data.back !== undefined)) {
+          if (!isPlainNoteType(note.noteTypeId)) {
+            throw { message: 'Edit this card through its note fields', status: 400 };
+          }
+          const noteType = builtInNoteType(note.noteTypeId);
+          const front = data.front ?? existingCard.front;
+          const back = data.back ?? existingCard.back;
+          // Reverse cards show the note's sides swapped
+          const fields = builtInNoteFields(noteType, existingCard.type === 'reverse' ? { front: back, back: front } : { front, back });
+          if (generateNoteCards(noteType, fields).length === 0) {
+            throw { message: 'This note would no longer generate any cards', status: 400 };
+          }
+          
+          const updatedNote = { ...note, fields, updatedAt: new Date() };
+          setDemoData('notes', notes.map(candidate => candidate.id === note.id ? updatedNote : candidate));
+          const withCardData = cards.map(card => card.id === id ? {
+            ...card,
+            hint: data.hint ?? card.hint,
+            tags: data.tags ?? card.tags,
+            ...(data.queueState && queueStateUpdate(data.queueState)),
+            updatedAt: new Date(),
+          } : card);
+          const syncedCards = syncDemoNoteCards(withCardData, updatedNote, noteType);
+          setDemoData('cards', syncedCards);
+          
+          return { card: syncedCards.find(card => card.id === id)! };
+        }
+        
+        let updatedCard: Card = {
           ...cards[cardIndex],
           ...data,
+          ...(data.queueState && queueStateUpdate(data.queueState)),
           updatedAt: new Date(),
         };
+        let updatedCards = [...cards];
+        
+        // A reverse card from before notes existed becomes the forward card of a reverse note,
+        // which gains the back → front sibling it was always meant to have
+        if (updatedCard.type === 'reverse' && !updatedCard.noteId) {
+          const noteType = builtInNoteType('reverse');
+          const legacyNote = newDemoNote(updatedCard.deckId, noteType.id, builtInNoteFields(noteType, updatedCard));
+          setDemoData('notes', [legacyNote, ...notes]);
+          updatedCard = { ...updatedCard, noteId: legacyNote.id, type: 'basic', templateIndex: 0 };
+          updatedCards = syncDemoNoteCards(updatedCards.map(card => card.id === id ? updatedCard : card), legacyNote, noteType);
+          updatedCard = updatedCards.find(card => card.id === id)!;
+        }
+        
+        // Cloze notes have one card per cloze number, so editing the text can add or retire cards
+        if (updatedCard.type === 'cloze' && data.front !== undefined) {
+          const noteId = updatedCard.noteId || generateId();
+          const noteCards = updatedCard.noteId
+            ? cards.filter(card => card.id === id || (card.noteId === noteId && card.type === 'cloze'))
+            : [updatedCard];
+          const plan = planClozeCards(updatedCard.front, id, noteCards);
+          const assigned = new Map(plan.assign.map(entry => [entry.id, entry.clozeIndex]));
+          
+          updatedCard = { ...updatedCard, noteId, clozeIndex: assigned.get(id) ?? updatedCard.clozeIndex };
+          updatedCards = [
+            ...plan.create.map(clozeIndex => newDemoCard(updatedCard.deckId, noteId, { ...updatedCard, clozeIndex }, updatedCard.tags)),
+            ...updatedCards
+              .filter(card => !plan.remove.includes(card.id))
+              .map(card => assigned.has(card.id) ? { ...card, clozeIndex: assigned.get(card.id) } : card),
+          ];
+          // A card whose cloze number was deleted goes with it, so answer with one of the note's remaining cards
+          if (plan.remove.includes(id)) {
+            updatedCard = updatedCards
+              .filter(card => card.noteId === noteId)
+              .sort((a, b) => (a.clozeIndex ?? 0) - (b.clozeIndex ?? 0))[0];
+          }
+          
+          adjustDemoCardCount(updatedCard.deckId, plan.create.length - plan.remove.length);
+        }
         
-        const updatedCards = [...cards];
-        updatedCards[cardIndex] = updatedCard;
+        // The note's cards are rendered from its fields, so only the hint is shared, with cards of the same template.
+        // The other cards of a note from before note types keep showing the same content.
+        const contentChanged = data.front !== undefined || data.back !== undefined || data.hint !== undefined;
+        updatedCards = updatedCards.map(card => {
+          if (card.id === id) return updatedCard;
+          if (!contentChanged || !updatedCard.noteId || card.noteId !== updatedCard.noteId) return card;
+          if (note) {
+            return data.hint !== undefined && card.templateIndex === updatedCard.templateIndex
+              ? { ...card, hint: data.hint, updatedAt: new Date() }
+              : card;
+          }
+          const { hint, ...content } = syncSiblingContent(updatedCard, card);
+          return { ...card, ...content, hint: hint === undefined ? card.hint : hint || '', updatedAt: new Date() };
+        });
         setDemoData('cards', updatedCards);
         
         return { card: updatedCard };
@@ -372,6 +858,16 @@ export class ApiService {
         const updatedCards = cards.filter(card => card.id !== id);
         setDemoData('cards', updatedCards);
         
+        // A note goes once its last card is gone
+        const noteId = cardToDelete?.noteId;
+        if (noteId && !updatedCards.some(card => card.noteId === noteId)) {
+          setDemoData('notes', getDemoData('notes', [] as Note[]).filter(note => note.id !== noteId));
+        }
+        
+        // Remove its review history
+        const reviews = getDemoData('reviews', [] as ReviewHistory[]);
+        setDemoData('reviews', reviews.filter(review => review.cardId !== id));
+        
         // Update deck card count
         if (cardToDelete) {
           const decks = getDemoData('decks', [] as Deck[]);
@@ -409,24 +905,15 @@ export class ApiService {
           throw { message: 'Deck not found', status: 404 };
         }
         
-        // Create all new cards
-        const newCards = cards.map(cardData => ({
-          id: generateId(),
-          deckId,
-          front: cardData.front,
-          back: cardData.back,
-          hint: cardData.hint || '',
-          type: cardData.type || 'basic',
-          tags: cardData.tags || '',
-          stage: 'new' as const,
-          interval: 1.0,
-          easeFactor: 2.5,
-          reviewCount: 0,
-          consecutiveCorrect: 0,
-          nextReviewAt: new Date(),
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        }));
+        // Create all new notes and cards, expanding two-way notes into siblings
+        const newNotes: Note[] = [];
+        const newCards = cards.flatMap(cardData => {
+          const noteType = builtInNoteType(cardData.type);
+          const note = newDemoNote(deckId, noteType.id, builtInNoteFields(noteType, cardData));
+          newNotes.push(note);
+          return generateSiblingCards(cardData).map(card => newDemoCard(deckId, note.id, card, cardData.tags));
+        });
+        setDemoData('notes', [...newNotes, ...getDemoData('notes', [] as Note[])]);
         
         // Add to storage
         const updatedCards = [...newCards, ...existingCards];
@@ -446,6 +933,157 @@ export class ApiService {
     }
   }
 
+  // Notes
+  static async getNote(id: string): Promise<{ note: Note; noteType: NoteTypeDefinition | null; cards: Card[] }> {
+    try {
+      const response = await api.get<{ note: Note; noteType: NoteTypeDefinition | null; cards: Card[] }>(`/notes/${id}`);
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const note = getDemoData('notes', [] as Note[]).find(candidate => candidate.id === id);
+        if (!note) {
+          throw { message: 'Note not found', status: 404 };
+        }
+        
+        const cards = getDemoData('cards', [] as Card[])
+          .filter(card => card.noteId === id)
+          .sort((a, b) => (a.templateIndex ?? 0) - (b.templateIndex ?? 0) || (a.clozeIndex ?? 0) - (b.clozeIndex ?? 0));
+        return { note, noteType: findDemoNoteType(note.noteTypeId), cards };
+      }
+      throw error;
+    }
+  }
+
+  static async createNote(data: CreateNoteData): Promise<{ note: Note; cards: Card[] }> {
+    try {
+      const response = await api.post<{ note: Note; cards: Card[] }>('/notes', data);
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const noteType = findDemoNoteType(data.noteTypeId);
+        if (!noteType) {
+          throw { message: 'Note type not found', status: 404 };
+        }
+        
+        // The hint describes the question side, so reverse cards don't get it
+        const generated = generateNoteCards(noteType, data.fields)
+          .map(card => card.type === 'reverse' ? card : { ...card, hint: data.hint });
+        if (generated.length === 0) {
+          throw { message: 'This note does not generate any cards; fill in the fields its templates use', status: 400 };
+        }
+        
+        const note = newDemoNote(data.deckId, noteType.id, data.fields);
+        const cards = generated.map(card => newDemoCard(data.deckId, note.id, card, data.tags));
+        setDemoData('notes', [note, ...getDemoData('notes', [] as Note[])]);
+        setDemoData('cards', [...cards, ...getDemoData('cards', [] as Card[])]);
+        adjustDemoCardCount(data.deckId, cards.length);
+        
+        return { note, cards };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create notes in bulk, as an import does. Notes that generate no cards
+   * are skipped; cards can take over a schedule and review log from elsewhere.
+   */
+  static async importNotes(deckId: string, notes: ImportNoteData[]): Promise<ImportNotesResult> {
+    try {
+      const response = await api.post<ImportNotesResult>('/notes/batch', { deckId, notes }, { timeout: 60000 });
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        if (!getDemoData('decks', [] as Deck[]).some(deck => deck.id === deckId)) {
+          throw { message: 'Deck not found', status: 404 };
+        }
+        
+        const newNotes: Note[] = [];
+        const newCards: Card[] = [];
+        const newReviews: ReviewHistory[] = [];
+        for (const data of notes) {
+          const noteType = findDemoNoteType(data.noteTypeId);
+          if (!noteType) {
+            throw { message: 'Note type not found', status: 404 };
+          }
+          const generated = generateNoteCards(noteType, data.fields);
+          if (generated.length === 0) continue;
+          
+          const note = newDemoNote(deckId, noteType.id, data.fields);
+          newNotes.push(note);
+          for (const generatedCard of generated) {
+            const card = newDemoCard(deckId, note.id, generatedCard, data.tags);
+            const imported = data.cards?.find(candidate =>
+              candidate.templateIndex === generatedCard.templateIndex && (candidate.clozeIndex ?? null) === (generatedCard.clozeIndex ?? null));
+            if (imported) {
+              const { schedule } = imported;
+              Object.assign(card, {
+                ...schedule,
+                nextReviewAt: new Date(schedule.nextReviewAt),
+                lastReviewedAt: schedule.lastReviewedAt ? new Date(schedule.lastReviewedAt) : null,
+              });
+              newReviews.push(...imported.reviews.map(review => ({
+                ...review,
+                id: generateId(),
+                cardId: card.id,
+                createdAt: new Date(review.createdAt),
+              })));
+            }
+            newCards.push(card);
+          }
+        }
+        
+        setDemoData('notes', [...newNotes, ...getDemoData('notes', [] as Note[])]);
+        setDemoData('cards', [...newCards, ...getDemoData('cards', [] as Card[])]);
+        if (newReviews.length > 0) {
+          // Reviews are kept newest first
+          const reviews = [...newReviews, ...getDemoData('reviews', [] as ReviewHistory[])]
+            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+          setDemoData('reviews', reviews);
+        }
+        adjustDemoCardCount(deckId, newCards.length);
+        
+        return { noteCount: newNotes.length, cardCount: newCards.length, skipped: notes.length - newNotes.length };
+      }
+      throw error;
+    }
+  }
+
+  static async updateNote(id: string, fields: NoteFields): Promise<{ note: Note; cards: Card[] }> {
+    try {
+      const response = await api.put<{ note: Note; cards: Card[] }>(`/notes/${id}`, { fields });
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const notes = getDemoData('notes', [] as Note[]);
+        const note = notes.find(candidate => candidate.id === id);
+        const noteType = note && findDemoNoteType(note.noteTypeId);
+        if (!note || !noteType) {
+          throw { message: note ? 'Note type not found' : 'Note not found', status: 404 };
+        }
+        if (generateNoteCards(noteType, fields).length === 0) {
+          throw { message: 'This note would no longer generate any cards', status: 400 };
+        }
+        
+        const updatedNote = { ...note, fields, updatedAt: new Date() };
+        setDemoData('notes', notes.map(candidate => candidate.id === id ? updatedNote : candidate));
+        const cards = syncDemoNoteCards(getDemoData('cards', [] as Card[]), updatedNote, noteType);
+        setDemoData('cards', cards);
+        
+        return { note: updatedNote, cards: cards.filter(card => card.noteId === id) };
+      }
+      throw error;
+    }
+  }
+
   static async getDeckCards(deckId: string, params?: {
     page?: number;
     limit?: number;
@@ -470,10 +1108,81 @@ export class ApiService {
     }
   }
 
+  // Media
+  static async uploadMedia(file: File): Promise<{ media: MediaFile }> {
+    const contentType = file.type;
+    if (!(contentType in MEDIA_TYPES)) {
+      throw { message: 'Only PNG, JPEG, GIF and WebP images and MP3, OGG, WAV, WebM and M4A audio can be attached', status: 400 };
+    }
+    if (file.size > MAX_MEDIA_BYTES) {
+      throw { message: `Files can be at most ${MAX_MEDIA_BYTES / 1024 / 1024} MB`, status: 413 };
+    }
+    
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    try {
+      const response = await api.post<{ media: MediaFile }>('/media', { contentType, data: toBase64(bytes) }, { timeout: 60000 });
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const media: MediaFile = {
+          filename: mediaFilename((await sha256Hex(bytes)).slice(0, 32), contentType),
+          contentType,
+          size: bytes.length,
+        };
+        await putDemoMedia({ ...media, blob: file, uploadedAt: Date.now() });
+        return { media };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * URLs to load stored files from, keyed by filename. Files that can't be
+   * found are left out.
+   */
+  static async getMediaUrls(filenames: string[]): Promise<Record<string, string>> {
+    const urls: Record<string, string> = {};
+    for (const filename of filenames) {
+      const url = isDemoMode
+        ? await demoMediaUrl(filename).catch(() => undefined)
+        : `${api.defaults.baseURL}/media/${filename}`;
+      if (url) urls[filename] = url;
+    }
+    return urls;
+  }
+
+  static async collectMediaGarbage(): Promise<{ removed: string[] }> {
+    try {
+      const response = await api.post<{ removed: string[] }>('/media/gc');
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        const cutoff = Date.now() - MEDIA_GC_GRACE_MS;
+        const candidates = (await listDemoMedia()).filter(media => media.uploadedAt < cutoff);
+        const texts = [
+          ...getDemoData('cards', [] as Card[]).flatMap(card => [card.front, card.back, card.hint]),
+          ...getDemoData('notes', [] as Note[]).flatMap(note => Object.values(note.fields)),
+        ];
+        
+        const removed = unreferencedMedia(candidates.map(media => media.filename), texts);
+        for (const filename of removed) {
+          await deleteDemoMedia(filename);
+          forgetDemoMediaUrl(filename);
+        }
+        return { removed };
+      }
+      throw error;
+    }
+  }
+
   // Study Sessions
   static async startStudySession(data: {
-    deckId: string;
-    sessionType?: 'review' | 'learn' | 'mixed';
+    deckId?: string; // Omit to study every deck
+    sessionType?: SessionType;
     maxCards?: number;
   }): Promise<{ session: StudySession; cards: Card[] }> {
     try {
@@ -484,30 +1193,43 @@ export class ApiService {
         // Fallback to demo mode
         isDemoMode = true;
         
-        // Verify deck exists
-        const decks = getDemoData('decks', [] as Deck[]);
-        const deck = decks.find(d => d.id === data.deckId);
-        if (!deck) {
+        // Verify deck exists, or study every deck when none is given
+        const allDecks = getDemoData('decks', [] as Deck[]);
+        const decks = data.deckId ? allDecks.filter(d => d.id === data.deckId) : allDecks;
+        if (data.deckId && decks.length === 0) {
           throw { message: 'Deck not found', status: 404 };
         }
         
-        // Get cards for study (not mastered)
+        // Get cards due for study, whatever their stage, capped by each deck's remaining quota
+        const now = new Date();
         const allCards = getDemoData('cards', [] as Card[]);
-        const deckCards = allCards.filter(card => 
-          card.deckId === data.deckId && card.stage !== 'mastered'
-        );
-        
-        // Limit cards for session
         const maxCards = data.maxCards || 20;
-        const cardsForStudy = deckCards
-          .sort((a, b) => new Date(a.nextReviewAt).getTime() - new Date(b.nextReviewAt).getTime())
-          .slice(0, maxCards);
+        const sessionType = data.sessionType || 'mixed';
+        const reviewCards: Card[] = [];
+        const newCards: Card[] = [];
+        decks.forEach(deck => {
+          const { options } = withDemoOptions(deck);
+          const deckCards = allCards
+            .filter(card => card.deckId === deck.id && isInRotation(card, now) && new Date(card.nextReviewAt) <= now)
+            .sort((a, b) => new Date(a.nextReviewAt).getTime() - new Date(b.nextReviewAt).getTime())
+            .map(card => ({ ...card, deck: { name: deck.name, algorithm: deck.algorithm, options, mathMacros: deck.mathMacros } }));
+          const { newLeft, reviewsLeft } = getDemoDailyBudget(deck, now);
+          const learning = deckCards.filter(isIntradayLearning);
+          const reviews = deckCards.filter(card => card.stage !== 'new' && !isIntradayLearning(card));
+          reviewCards.push(...learning, ...reviews.slice(0, Math.min(maxCards, reviewsLeft)));
+          newCards.push(...deckCards.filter(card => card.stage === 'new').slice(0, Math.min(maxCards, newLeft)));
+        });
+        reviewCards.sort((a, b) => new Date(a.nextReviewAt).getTime() - new Date(b.nextReviewAt).getTime());
+        
+        // A single deck mixes at its own ratio; cross-deck sessions use the default
+        const { reviewsPerNewCard } = resolveSchedulingOptions(data.deckId ? withDemoOptions(decks[0]).options : null);
+        const cardsForStudy = composeSession(sessionType, reviewCards, newCards, reviewsPerNewCard, maxCards);
         
         // Create demo study session
         const session = {
           id: generateId(),
-          deckId: data.deckId,
-          sessionType: data.sessionType || 'mixed',
+          deckId: data.deckId || null,
+          sessionType,
           cardsStudied: 0,
           cardsCorrect: 0,
           totalTime: 0,
@@ -526,6 +1248,65 @@ export class ApiService {
     }
   }
 
+  static async startCustomStudy(filters: CustomStudyFilters): Promise<{ session: StudySession; cards: Card[] }> {
+    try {
+      const response = await api.post<{ session: StudySession; cards: Card[] }>('/study/custom', filters);
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        
+        const decks = getDemoData('decks', [] as Deck[]);
+        if (filters.deckId && !decks.some(d => d.id === filters.deckId)) {
+          throw { message: 'Deck not found', status: 404 };
+        }
+        
+        const now = new Date();
+        const reviews = getDemoData('reviews', [] as ReviewHistory[]);
+        const failedSince = filters.failedWithinDays ? addDays(now, -filters.failedWithinDays) : null;
+        const reviewedSince = filters.reviewedWithinDays ? addDays(now, -filters.reviewedWithinDays) : null;
+        
+        const cards = getDemoData('cards', [] as Card[])
+          .filter(card =>
+            (!filters.deckId || card.deckId === filters.deckId) &&
+            isInRotation(card, now) &&
+            (!filters.tags?.length || hasAnyTag(card.tags, filters.tags)) &&
+            (!filters.stages?.length || filters.stages.includes(card.stage)) &&
+            (!filters.minLapses || (card.lapses || 0) >= filters.minLapses) &&
+            (!reviewedSince || (!!card.lastReviewedAt && new Date(card.lastReviewedAt) >= reviewedSince)) &&
+            (!failedSince || reviews.some(review =>
+              review.cardId === card.id && !review.wasCorrect && new Date(review.createdAt) >= failedSince
+            ))
+          )
+          .sort((a, b) => new Date(a.nextReviewAt).getTime() - new Date(b.nextReviewAt).getTime())
+          .slice(0, filters.maxCards || 50)
+          .map(card => {
+            const deck = withDemoOptions(decks.find(d => d.id === card.deckId)!);
+            return { ...card, deck: { name: deck.name, algorithm: deck.algorithm, options: deck.options, mathMacros: deck.mathMacros } };
+          });
+        
+        const session: StudySession = {
+          id: generateId(),
+          deckId: filters.deckId || null,
+          sessionType: 'custom',
+          isCram: (filters.mode || 'preview') === 'preview',
+          cardsStudied: 0,
+          cardsCorrect: 0,
+          totalTime: 0,
+          completedAt: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+        const sessions = getDemoData('sessions', [] as StudySession[]);
+        setDemoData('sessions', [session, ...sessions]);
+        
+        return { session, cards };
+      }
+      throw error;
+    }
+  }
+
   static async submitReview(reviewData: ReviewData, retries: number = 0): Promise<ReviewResult> {
     try {
       const response = await api.post<ReviewResult>('/study/review', reviewData);
@@ -535,7 +1316,7 @@ export class ApiService {
         // Fallback to demo mode
         isDemoMode = true;
         
-        const { cardId, quality, responseTime, wasCorrect } = reviewData;
+        const { cardId, sessionId, quality, responseTime, wasCorrect } = reviewData;
         
         // Get the card
         const cards = getDemoData('cards', [] as Card[]);
@@ -545,81 +1326,87 @@ export class ApiService {
         }
         
         const card = cards[cardIndex];
+        const reviews = getDemoData('reviews', [] as ReviewHistory[]);
         
-        // Apply spaced repetition algorithm
-        let newInterval = card.interval;
-        let newEaseFactor = card.easeFactor;
-        let newStage = card.stage;
-        let newConsecutiveCorrect = card.consecutiveCorrect || 0;
-        
-        if (wasCorrect) {
-          newConsecutiveCorrect = newConsecutiveCorrect + 1;
-          
-          // Stage progression
-          if (card.stage === 'new') {
-            newStage = 'learning';
-            newInterval = quality >= 4 ? 2 : 1;
-          } else if (card.stage === 'learning') {
-            if (newConsecutiveCorrect >= 2 && quality >= 3) {
-              newStage = 'review';
-              newInterval = quality >= 4 ? 5 : 4;
-            } else {
-              newInterval = Math.max(1, Math.round(card.interval * 1.3));
-            }
-          } else if (card.stage === 'review') {
-            if (newConsecutiveCorrect >= 3 && quality >= 4) {
-              newStage = 'mastered';
-            }
-            newInterval = Math.max(1, Math.round(card.interval * newEaseFactor));
-          } else if (card.stage === 'mastered') {
-            newInterval = Math.max(7, Math.round(card.interval * newEaseFactor));
-          }
-          
-          // Adjust ease factor
-          if (quality >= 4) {
-            newEaseFactor = Math.min(2.8, newEaseFactor + 0.1);
-          } else if (quality === 3) {
-            newEaseFactor = Math.min(2.8, newEaseFactor + 0.05);
-          }
-        } else {
-          // Failed review
-          newConsecutiveCorrect = 0;
-          newEaseFactor = Math.max(1.3, newEaseFactor - 0.2);
-          
-          if (card.stage === 'mastered' || card.stage === 'review') {
-            newStage = 'learning';
-            newInterval = 1;
-          } else if (card.stage === 'learning') {
-            newStage = 'new';
-            newInterval = 0.5;
-          } else {
-            newInterval = 0.25;
-          }
+        // Cram sessions log the review but leave the card's schedule untouched
+        const session = sessionId
+          ? getDemoData('sessions', [] as StudySession[]).find(s => s.id === sessionId)
+          : undefined;
+        if (session?.isCram) {
+          const review: ReviewHistory = {
+            id: generateId(),
+            cardId,
+            sessionId,
+            quality,
+            responseTime,
+            wasCorrect,
+            ...snapshotCardState(card),
+            intervalAfter: card.interval,
+            isCram: true,
+            createdAt: new Date(),
+          };
+          setDemoData('reviews', [review, ...reviews]);
+          return { reviewId: review.id, card, nextReviewAt: card.nextReviewAt, interval: card.interval };
         }
         
-        const nextReviewAt = new Date();
-        nextReviewAt.setDate(nextReviewAt.getDate() + newInterval);
+        const deck = getDemoData('decks', [] as Deck[]).find(d => d.id === card.deckId);
+        const deckOptions = deck ? withDemoOptions(deck).options : null;
+        
+        // Apply the shared spaced repetition scheduler
+        const { nextReviewAt, ...scheduled } = scheduleReview(
+          card,
+          { quality, wasCorrect },
+          { algorithm: deck?.algorithm, options: deckOptions }
+        );
+        
+        // Cards that keep lapsing get tagged as leeches and, if the deck says so, suspended
+        const lapsed = isLapse(card, { quality, wasCorrect });
+        const lapses = (card.lapses || 0) + (lapsed ? 1 : 0);
+        const options = resolveSchedulingOptions(deckOptions);
+        const leech = lapsed && isLeechLapse(lapses, options);
         
         // Update card
-        const updatedCard = {
+        const updatedCard: Card = {
           ...card,
-          stage: newStage,
-          interval: newInterval,
-          easeFactor: newEaseFactor,
+          ...scheduled,
           nextReviewAt,
           reviewCount: card.reviewCount + 1,
-          consecutiveCorrect: newConsecutiveCorrect,
+          lapses,
+          tags: leech ? formatTags([...parseTags(card.tags), LEECH_TAG]) : card.tags,
+          queueState: leech && options.leechAction === 'suspend' ? 'suspended' : card.queueState || 'normal',
           updatedAt: new Date(),
         };
         
-        const updatedCards = [...cards];
-        updatedCards[cardIndex] = updatedCard;
+        // Siblings from the same note sit out the rest of the day
+        const updatedCards = cards.map(other =>
+          other.id === cardId
+            ? updatedCard
+            : card.noteId && other.noteId === card.noteId && isInRotation(other)
+              ? { ...other, ...queueStateUpdate('buried-until-tomorrow') }
+              : other
+        );
         setDemoData('cards', updatedCards);
         
+        // Record review history
+        const review: ReviewHistory = {
+          id: generateId(),
+          cardId,
+          sessionId: sessionId || null,
+          quality,
+          responseTime,
+          wasCorrect,
+          ...snapshotCardState(card),
+          intervalAfter: scheduled.interval,
+          createdAt: new Date(),
+        };
+        setDemoData('reviews', [review, ...reviews]);
+        
         return {
+          reviewId: review.id,
           card: updatedCard,
           nextReviewAt,
-          interval: newInterval
+          interval: scheduled.interval,
+          leech
         };
       }
       
@@ -651,6 +1438,79 @@ export class ApiService {
     }
   }
 
+  static async undoReview(reviewId: string): Promise<{ card: Card }> {
+    try {
+      const response = await api.post<{ card: Card }>(`/study/review/${reviewId}/undo`);
+      return response.data;
+    } catch (error) {
+      if (isApiUnavailable(error)) {
+        // Fallback to demo mode
+        isDemoMode = true;
+        
+        const reviews = getDemoData('reviews', [] as ReviewHistory[]);
+        const review = reviews.find(r => r.id === reviewId);
+        if (!review) {
+          throw { message: 'Review not found', status: 404 };
+        }
+        
+        // Reviews are stored newest first; only the card's latest review can be undone
+        const latest = reviews.find(r => r.cardId === review.cardId);
+        if (latest?.id !== review.id) {
+          throw { message: 'Only the most recent review of a card can be undone', status: 409 };
+        }
+        
+        const cards = getDemoData('cards', [] as Card[]);
+        const cardIndex = cards.findIndex(card => card.id === review.cardId);
+        if (cardIndex === -1) {
+          throw { message: 'Card not found', status: 404 };
+        }
+        
+        let card = cards[cardIndex];
+        if (!review.isCram) {
+          const restored = restoreCardState(review);
+          if (!restored) {
+            throw { message: 'This review was recorded before undo was available', status: 409 };
+          }
+          card = {
+            ...card,
+            ...restored,
+            stage: restored.stage as Card['stage'],
+            tags: restored.tags === undefined ? card.tags : restored.tags || '',
+            queueState: (restored.queueState || card.queueState) as Card['queueState'],
+            reviewCount: Math.max(0, card.reviewCount - 1),
+            updatedAt: new Date(),
+          };
+          const updatedCards = [...cards];
+          updatedCards[cardIndex] = card;
+          setDemoData('cards', updatedCards);
+        }
+        
+        const remainingReviews = reviews.filter(r => r.id !== reviewId);
+        setDemoData('reviews', remainingReviews);
+        
+        // Unbury the siblings this review buried, unless another review of the note today still applies
+        const noteId = card.noteId;
+        if (noteId && !review.isCram) {
+          const now = new Date();
+          const noteCardIds = new Set(getDemoData('cards', [] as Card[]).filter(c => c.noteId === noteId).map(c => c.id));
+          const reviewedToday = remainingReviews.some(r =>
+            noteCardIds.has(r.cardId) && !r.isCram && new Date(r.createdAt) >= startOfDay(now)
+          );
+          if (!reviewedToday) {
+            setDemoData('cards', getDemoData('cards', [] as Card[]).map(c =>
+              c.noteId === noteId && c.id !== card.id && c.queueState === 'buried-until-tomorrow'
+                ? { ...c, ...queueStateUpdate('normal', now) }
+                : c
+            ));
+          }
+        }
+        
+        return { card };
+      }
+      throw error;
+    }
+  }
+
   static async completeSession(sessionId: string, data: {
     cardsStudied: number;
     cardsCorrect: number;
@@ -712,7 +1572,7 @@ export class ApiService {
         
         // Find cards that are due for study
         const dueCards = allCards.filter(card => 
-          card.nextReviewAt <= now || card.stage === 'new'
+          isInRotation(card, now) && new Date(card.nextReviewAt) <= now
         );
         
         // Sort by next review date and creation date
@@ -746,6 +1606,12 @@ export class ApiService {
 export const getDemoMode = () => isDemoMode;
 export const setDemoMode = (enabled: boolean) => { isDemoMode = enabled; };
 
+// The message a failed request rejected with, or `fallback` when it has none
+export const apiErrorMessage = (error: unknown, fallback: string): string =>
+  typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string' && error.message
+    ? error.message
+    : fallback;
+
 // Export the axios instance for custom requests if needed
 export { api };
 export default ApiService;
\ No newline at end of file
@@ -0,0 +1,75 @@
+/**
+ * Demo Media Storage
+ *
+ * Keeps uploaded images and audio in IndexedDB while in demo mode, since
+ * localStorage is too small for binary files.
+ */
+
+import type { MediaFile } from '../../../shared/media';
+
+interface StoredMedia extends MediaFile {
+  blob: Blob;
+  uploadedAt: number;
+}
+
+const DB_NAME = 'koda_demo_media';
+const STORE_NAME = 'media';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'filename' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putDemoMedia = (media: StoredMedia) =>
+  run('readwrite', store => store.put(media));
+
+export const getDemoMedia = (filename: string) =>
+  run<StoredMedia | undefined>('readonly', store => store.get(filename));
+
+export const listDemoMedia = () =>
+  run<StoredMedia[]>('readonly', store => store.getAll());
+
+export const deleteDemoMedia = (filename: string) =>
+  run('readwrite', store => store.delete(filename));
+
+// Object URLs are made once per file and kept for the page's lifetime
+const objectUrls = new Map<string, string>();
+
+/**
+ * A URL the browser can load a demo file from, if the file is stored
+ */
+export const demoMediaUrl = async (filename: string): Promise<string | undefined> => {
+  if (!objectUrls.has(filename)) {
+    const media = await getDemoMedia(filename);
+    if (!media) return undefined;
+    objectUrls.set(filename, URL.createObjectURL(media.blob));
+  }
+  return objectUrls.get(filename);
+};
+
+export const forgetDemoMediaUrl = (filename: string) => {
+  const url = objectUrls.get(filename);
+  if (url) URL.revokeObjectURL(url);
+  objectUrls.delete(filename);
+};
@@ -2,4 +2,6 @@
  * Service Exports - API and business logic services
  */
 
-export { default as ApiService, api } from './api';
\ No newline at end of file
+export { default as ApiService, api, apiErrorMessage } from './api';
+export { prepareAnkiImport, importAnkiPackage } from './ankiImport';
+export type { PreparedAnkiImport, AnkiImportResult } from './ankiImport';
@@ -2,6 +2,13 @@
  * Shared TypeScript Types for Koda Frontend
  */
 
+import type { SchedulingOptions, QueueState } from '../../../shared/scheduler';
+import type { NoteFields, NoteTypeDefinition } from '../../../shared/noteTypes';
+import type { MathMacros } from '../../../shared/mathMacros';
+import type { ImportedCard } from '../../../shared/anki';
+
+export type { NoteFields, NoteTemplate, NoteCardType } from '../../../shared/noteTypes';
+
 // API Response Types
 export interface ApiResponse<T = unknown> {
   success?: boolean;
@@ -31,14 +38,23 @@ export interface PaginatedResponse<T> {
 
 
 // Deck Types
+export type SchedulingAlgorithm = 'sm2' | 'fsrs';
+
 export interface Deck {
   id: string;
   name: string;
   description?: string;
   isPublic: boolean;
   tags: string;
+  algorithm: SchedulingAlgorithm;
+  optionsId?: string | null;
+  options?: DeckOptions | null;
+  mathMacros?: MathMacros; // KaTeX macros for every card in the deck
   cardCount: number;
   dueCount: number;
+  newLeft?: number;
+  reviewsLeft?: number;
+  learningDue?: number; // Cards on an intraday learning step, due outside the review limit
   createdAt: Date;
   updatedAt: Date;
 }
@@ -48,10 +64,26 @@ export interface CreateDeckData {
   description?: string;
   tags?: string;
   isPublic?: boolean;
+  algorithm?: SchedulingAlgorithm;
+  optionsId?: string | null;
+  mathMacros?: MathMacros;
 }
 
 export interface UpdateDeckData extends Partial<CreateDeckData> {}
 
+// Shareable scheduling preset
+export interface DeckOptions extends SchedulingOptions {
+  id: string;
+  name: string;
+  deckCount?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DeckOptionsData extends Partial<SchedulingOptions> {
+  name: string;
+}
+
 // Card Types
 export interface Card {
   id: string;
@@ -60,6 +92,9 @@ export interface Card {
   back: string;
   hint?: string;
   type: string;
+  noteId?: string | null; // Note the card was generated from, shared with its siblings
+  templateIndex?: number | null; // Note type template the card was rendered from
+  clozeIndex?: number | null; // Which {{cN::...}} deletion a cloze card asks for, or which mask an occlusion card hides
   tags: string;
   stage: 'new' | 'learning' | 'review' | 'mastered';
   interval: number;
@@ -67,26 +102,83 @@ export interface Card {
   nextReviewAt: Date;
   reviewCount: number;
   consecutiveCorrect: number;
+  lapses: number; // Times forgotten after being learned
+  queueState: CardQueueState;
+  buriedAt?: Date | null;
+  difficulty: number; // FSRS difficulty normalised to 0-1
+  stability: number; // FSRS stability in days, 0 = not initialised
+  lastReviewedAt?: Date | null;
+  relearningInterval?: number | null; // Set while a lapsed card relearns: the interval it returns to review on
+  deck?: CardDeckInfo; // Included when cards from several decks are studied together
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type CardQueueState = QueueState;
+
+export interface CardDeckInfo {
+  name: string;
+  algorithm?: SchedulingAlgorithm;
+  options?: DeckOptions | null;
+  mathMacros?: MathMacros;
+}
+
 export interface CreateCardData {
   deckId: string;
   front: string;
   back: string;
   hint?: string;
-  type?: string;
+  type?: string; // "reverse" creates a forward and a reverse sibling, "reverse-only" just the reverse
+  tags?: string;
+}
+
+export interface UpdateCardData extends Partial<Omit<CreateCardData, 'deckId'>> {
+  queueState?: CardQueueState;
+}
+
+// Note Types
+export interface NoteType extends NoteTypeDefinition {
+  builtIn: boolean; // Built-in types can't be edited or deleted
+}
+
+export type NoteTypeData = Omit<NoteTypeDefinition, 'id'>;
+
+export interface Note {
+  id: string;
+  deckId: string;
+  noteTypeId: string;
+  fields: NoteFields;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateNoteData {
+  deckId: string;
+  noteTypeId: string;
+  fields: NoteFields;
+  hint?: string;
   tags?: string;
 }
 
-export interface UpdateCardData extends Partial<Omit<CreateCardData, 'deckId'>> {}
+export interface ImportNoteData {
+  noteTypeId: string;
+  fields: NoteFields;
+  tags?: string;
+  cards?: ImportedCard[]; // Schedules and review logs carried over from another app
+}
+
+export interface ImportNotesResult {
+  noteCount: number;
+  cardCount: number;
+  skipped: number; // Notes that generated no cards
+}
 
 // Study Types
 export interface StudySession {
   id: string;
-  deckId: string;
+  deckId: string | null; // null when studying every deck
   sessionType: string;
+  isCram?: boolean; // Custom session that leaves the schedule untouched
   cardsStudied: number;
   cardsCorrect: number;
   totalTime: number;
@@ -99,6 +191,18 @@ export interface StudyCard extends Card {
   // Additional study-specific properties can be added here
 }
 
+// Custom study filters combine with AND; every filter is optional
+export interface CustomStudyFilters {
+  deckId?: string;
+  tags?: string[];
+  stages?: Card['stage'][];
+  minLapses?: number;
+  reviewedWithinDays?: number;
+  failedWithinDays?: number;
+  mode?: 'reschedule' | 'preview'; // preview leaves the schedule untouched
+  maxCards?: number;
+}
+
 export interface ReviewData {
   cardId: string;
   sessionId?: string;
@@ -107,10 +211,44 @@ export interface ReviewData {
   wasCorrect: boolean;
 }
 
+export interface ReviewHistory {
+  id: string;
+  cardId: string;
+  sessionId?: string | null;
+  quality: number;
+  responseTime: number;
+  wasCorrect: boolean;
+  intervalBefore: number;
+  intervalAfter: number;
+  isCram?: boolean;
+  // Card state before the review, restored on undo
+  stageBefore?: string | null;
+  easeFactorBefore?: number | null;
+  consecutiveCorrectBefore?: number | null;
+  lapsesBefore?: number | null;
+  stabilityBefore?: number | null;
+  difficultyBefore?: number | null;
+  nextReviewAtBefore?: Date | null;
+  lastReviewedAtBefore?: Date | null;
+  relearningIntervalBefore?: number | null;
+  tagsBefore?: string | null;
+  queueStateBefore?: string | null;
+  createdAt: Date;
+}
+
 export interface ReviewResult {
+  reviewId?: string; // Pass to undoReview to roll the review back
   card: Card;
   nextReviewAt: Date;
   interval: number;
+  leech?: boolean; // The review just flagged the card as a leech
+}
+
+// A card flagged as a leech during a study session
+export interface LeechEvent {
+  cardId: string;
+  front: string;
+  suspended: boolean;
 }
 
 export interface StudyStats {
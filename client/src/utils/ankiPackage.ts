@@ -0,0 +1,256 @@
+/**
+ * Anki Package Reader and Writer
+ *
+ * Reads an .apkg or .colpkg file in the browser: a zip holding the
+ * collection's SQLite database and its media files. Packages from Anki 2.1.50
+ * and later compress the database and media with zstd and describe note
+ * types and the media list in protobuf; older ones use JSON. Either way the
+ * result is plain rows for shared/anki to map onto Koda.
+ *
+ * Writing goes the other way for demo mode exports, turning the rows
+ * shared/ankiExport lays out into a package in the older format, which every
+ * Anki version reads.
+ */
+
+import initSqlJs from 'sql.js';
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { strFromU8, unzipSync } from 'fflate';
+import { decompress } from 'fzstd';
+import type { AnkiCard, AnkiCollection, AnkiNoteType } from '../../../shared/anki';
+import { buildAnkiPackage } from '../../../shared/ankiExport';
+import type { AnkiCollectionData } from '../../../shared/ankiExport';
+
+export interface AnkiPackage {
+  collection: AnkiCollection;
+  hasMedia: (name: string) => boolean;
+  // The package's media files by the names notes use, read in one pass
+  readMedia: (names: string[]) => Map<string, Uint8Array>;
+}
+
+// Newest first: recent packages also carry an old-format collection asking you to update Anki
+const COLLECTION_FILES = ['collection.anki21b', 'collection.anki21', 'collection.anki2'];
+const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+const loadSqlJs = () => sqlJs ??= initSqlJs({ locateFile: () => sqlWasmUrl });
+
+const unzstd = (bytes: Uint8Array) =>
+  ZSTD_MAGIC.every((byte, index) => bytes[index] === byte) ? decompress(bytes) : bytes;
+
+/**
+ * The fields of a protobuf message by number. Only what Anki's note type
+ * and media messages need: varints and length-delimited values.
+ */
+function readProtobuf(bytes: Uint8Array): Map<number, Array<number | Uint8Array>> {
+  const fields = new Map<number, Array<number | Uint8Array>>();
+  let position = 0;
+  const varint = () => {
+    let value = 0;
+    for (let scale = 1; ; scale *= 128) {
+      const byte = bytes[position++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+    }
+  };
+
+  while (position < bytes.length) {
+    const key = varint();
+    const wireType = key % 8;
+    let value: number | Uint8Array;
+    if (wireType === 0) {
+      value = varint();
+    } else if (wireType === 2) {
+      const length = varint();
+      value = bytes.subarray(position, position + length);
+      position += length;
+    } else if (wireType === 1 || wireType === 5) {
+      position += wireType === 1 ? 8 : 4;
+      continue;
+    } else {
+      throw new Error('The package uses a format this version of Koda cannot read');
+    }
+    const number = Math.floor(key / 8);
+    const values = fields.get(number) || [];
+    values.push(value);
+    fields.set(number, values);
+  }
+  return fields;
+}
+
+const protobufString = (fields: Map<number, Array<number | Uint8Array>>, number: number) => {
+  const value = fields.get(number)?.[0];
+  return value instanceof Uint8Array ? strFromU8(value) : '';
+};
+
+const protobufNumber = (fields: Map<number, Array<number | Uint8Array>>, number: number) => {
+  const value = fields.get(number)?.[0];
+  return typeof value === 'number' ? value : 0;
+};
+
+// A note type as older collections store it, in the col table's models JSON
+interface LegacyModel {
+  id: number;
+  name: string;
+  type: number; // 1 for cloze
+  flds: Array<{ name: string; ord: number }>;
+  tmpls: Array<{ name: string; ord: number; qfmt: string; afmt: string }>;
+}
+
+const byOrd = (a: { ord: number }, b: { ord: number }) => a.ord - b.ord;
+
+const rows = (db: Database, sql: string): SqlValue[][] => db.exec(sql)[0]?.values ?? [];
+
+const hasTable = (db: Database, name: string) =>
+  rows(db, `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = '${name}'`).length > 0;
+
+function readNoteTypes(db: Database): AnkiNoteType[] {
+  // Anki 2.1.28 and later keep note types in their own tables
+  if (hasTable(db, 'notetypes')) {
+    const fields = rows(db, 'SELECT ntid, name FROM fields ORDER BY ntid, ord');
+    const templates = rows(db, 'SELECT ntid, name, config FROM templates ORDER BY ntid, ord');
+    return rows(db, 'SELECT id, name, config FROM notetypes').map(([id, name, config]) => ({
+      id: String(id),
+      name: String(name),
+      isCloze: protobufNumber(readProtobuf(config as Uint8Array), 1) === 1,
+      fields: fields.filter(([noteTypeId]) => noteTypeId === id).map(([, fieldName]) => String(fieldName)),
+      templates: templates.filter(([noteTypeId]) => noteTypeId === id).map(([, templateName, templateConfig]) => {
+        const formats = readProtobuf(templateConfig as Uint8Array);
+        return { name: String(templateName), front: protobufString(formats, 1), back: protobufString(formats, 2) };
+      }),
+    }));
+  }
+
+  const models: Record<string, LegacyModel> = JSON.parse(String(rows(db, 'SELECT models FROM col')[0]?.[0] || '{}'));
+  return Object.values(models).map(model => ({
+    id: String(model.id),
+    name: model.name,
+    isCloze: model.type === 1,
+    fields: [...model.flds].sort(byOrd).map(field => field.name),
+    templates: [...model.tmpls].sort(byOrd).map(template => ({ name: template.name, front: template.qfmt, back: template.afmt })),
+  }));
+}
+
+function readCollection(db: Database): AnkiCollection {
+  const cards = rows(db, 'SELECT id, nid, ord, type, queue, due, ivl, factor, reps, lapses, odid, odue, data FROM cards')
+    .map(([id, noteId, ord, type, queue, due, interval, factor, reps, lapses, originalDeck, originalDue, data]): AnkiCard => {
+      let memory: { s?: number; d?: number } = {};
+      try {
+        memory = JSON.parse(String(data || '{}'));
+      } catch {
+        // Cards from older versions keep other things here
+      }
+      return {
+        id: String(id),
+        noteId: String(noteId),
+        ord: Number(ord),
+        type: Number(type),
+        queue: Number(queue),
+        // Cards in a filtered deck remember when they were due in their own deck
+        due: Number(originalDeck) ? Number(originalDue) : Number(due),
+        interval: Number(interval),
+        factor: Number(factor),
+        reps: Number(reps),
+        lapses: Number(lapses),
+        stability: typeof memory.s === 'number' ? memory.s : undefined,
+        difficulty: typeof memory.d === 'number' ? memory.d : undefined,
+      };
+    });
+
+  return {
+    createdAt: Number(rows(db, 'SELECT crt FROM col')[0]?.[0] || 0),
+    noteTypes: readNoteTypes(db),
+    notes: rows(db, 'SELECT id, mid, tags, flds FROM notes').map(([id, noteTypeId, tags, fields]) => ({
+      id: String(id),
+      noteTypeId: String(noteTypeId),
+      fields: String(fields).split('\x1f'),
+      tags: String(tags).split(/\s+/).filter(Boolean),
+    })),
+    cards,
+    reviews: rows(db, 'SELECT id, cid, ease, ivl, lastIvl, time, type FROM revlog ORDER BY id')
+      .map(([id, cardId, ease, interval, lastInterval, time, type]) => ({
+        id: Number(id),
+        cardId: String(cardId),
+        ease: Number(ease),
+        interval: Number(interval),
+        lastInterval: Number(lastInterval),
+        time: Number(time),
+        type: Number(type),
+      })),
+  };
+}
+
+// Media names by their file in the zip: a JSON object in older packages, protobuf in newer ones
+function readMediaIndex(bytes: Uint8Array | undefined): Map<string, string> {
+  const index = new Map<string, string>();
+  if (!bytes) return index;
+
+  const data = unzstd(bytes);
+  if (data !== bytes) {
+    (readProtobuf(data).get(1) || []).forEach((entry, position) => {
+      const fields = readProtobuf(entry as Uint8Array);
+      const zipName = fields.has(255) ? String(protobufNumber(fields, 255)) : String(position);
+      index.set(protobufString(fields, 1), zipName);
+    });
+  } else {
+    for (const [zipName, name] of Object.entries<string>(JSON.parse(strFromU8(data) || '{}'))) {
+      index.set(name, zipName);
+    }
+  }
+  return index;
+}
+
+/**
+ * Read an Anki package's collection, leaving its media in the zip until asked for
+ */
+export async function readAnkiPackage(file: File): Promise<AnkiPackage> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, { filter: entry => COLLECTION_FILES.includes(entry.name) || entry.name === 'media' });
+  } catch {
+    throw new Error('This file is not a valid Anki package');
+  }
+  const collectionFile = COLLECTION_FILES.find(name => files[name]);
+  if (!collectionFile) {
+    throw new Error('No Anki collection was found in this package');
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(unzstd(files[collectionFile]));
+  let collection: AnkiCollection;
+  try {
+    collection = readCollection(db);
+  } finally {
+    db.close();
+  }
+
+  const mediaIndex = readMediaIndex(files.media);
+  return {
+    collection,
+    hasMedia: (name) => mediaIndex.has(name),
+    readMedia: (names) => {
+      const wanted = new Map(names.filter(name => mediaIndex.has(name)).map(name => [mediaIndex.get(name)!, name]));
+      const media = new Map<string, Uint8Array>();
+      if (wanted.size === 0) return media;
+      const extracted = unzipSync(bytes, { filter: entry => wanted.has(entry.name) });
+      for (const [zipName, name] of wanted) {
+        if (extracted[zipName]) media.set(name, unzstd(extracted[zipName]));
+      }
+      return media;
+    },
+  };
+}
+
+/**
+ * Write an .apkg from collection rows, with the media files the notes refer to.
+ * Files `readMedia` can't find are left out of the package.
+ */
+export async function writeAnkiPackage(
+  collection: AnkiCollectionData,
+  readMedia: (filename: string) => Promise<Uint8Array | null>
+): Promise<Blob> {
+  const bytes = await buildAnkiPackage(collection, loadSqlJs, readMedia);
+  return new Blob([bytes], { type: 'application/octet-stream' });
+}
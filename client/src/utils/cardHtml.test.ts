@@ -0,0 +1,221 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { renderCardHtml } from './cardHtml';
+
+const mediaUrl = (filename: string) => `/api/media/${filename}`;
+
+const parse = (html: string) => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return template.content;
+};
+
+// Anything in rendered HTML that could run script once it is on the page
+const scriptingIn = (html: string): string[] => {
+  const found: string[] = [];
+  for (const element of parse(html).querySelectorAll('*')) {
+    if (['script', 'iframe', 'object', 'embed', 'foreignobject'].includes(element.tagName.toLowerCase())) {
+      found.push(`<${element.tagName}>`);
+    }
+    for (const attribute of element.attributes) {
+      if (attribute.name.startsWith('on')) found.push(`${attribute.name}=${attribute.value}`);
+      if (/^\s*(javascript|vbscript|data):/i.test(attribute.value) && /href|src|action/i.test(attribute.name)) {
+        found.push(`${attribute.name}=${attribute.value}`);
+      }
+    }
+  }
+  return found;
+};
+
+const mathIn = (html: string) => Array.from(parse(html).querySelectorAll('annotation'), node => node.textContent);
+
+describe('renderCardHtml', () => {
+  describe('sanitizing', () => {
+    it.each([
+      ['an image error handler', '<img src=x onerror="alert(1)">'],
+      ['a javascript: Markdown link', '[click](javascript:alert(1))'],
+      ['a javascript: link in any case', '<a href="JaVaScRiPt:alert(1)">click</a>'],
+      ['an entity-encoded javascript: link', '<a href="&#106;avascript:alert(1)">click</a>'],
+      ['a script inside SVG', '<svg><script>alert(1)</script></svg>'],
+      ['an SVG load handler', '<svg onload="alert(1)"><circle r="1" /></svg>'],
+      ['an SVG link', '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>'],
+      ['a script in MathML', '<math><mtext><script>alert(1)</script></mtext></math>'],
+      ['an iframe', '<iframe src="https://example.com"></iframe>'],
+      ['a data: URL document', '<a href="data:text/html,<script>alert(1)</script>">x</a>'],
+      ['a handler inside a Markdown image', '![x](y" onerror="alert(1))'],
+    ])('strips %s', (_name, content) => {
+      expect(scriptingIn(renderCardHtml(content))).toEqual([]);
+    });
+
+    it('keeps the safe parts of the markup', () => {
+      const html = renderCardHtml('<img src="cat.png" alt="A cat" onerror="alert(1)"> **bold**');
+      const image = parse(html).querySelector('img')!;
+      expect(image.getAttribute('src')).toBe('cat.png');
+      expect(image.getAttribute('alt')).toBe('A cat');
+      expect(parse(html).querySelector('strong')?.textContent).toBe('bold');
+    });
+
+    it('drops styles and form controls that could restyle or take input on the page', () => {
+      const html = renderCardHtml('<style>body { display: none }</style><form><input name="password"><button>Go</button></form>');
+      expect(parse(html).querySelector('style, form, input, button')).toBeNull();
+    });
+
+    it('strips inline styles and classes that could lay card markup over the page', () => {
+      const html = renderCardHtml('<div style="position: fixed; inset: 0" class="fixed inset-0 z-50 cloze">x</div>'
+        + '<svg style="position: fixed"><rect class="absolute w-screen" width="1" height="1" /></svg>'
+        + '<math><mi style="position: fixed">y</mi></math>');
+      expect(parse(html).querySelector('[style]')).toBeNull();
+      expect(parse(html).querySelector('div')?.getAttribute('class')).toBe('cloze');
+      expect(parse(html).querySelector('rect')?.getAttribute('class')).toBe('');
+    });
+
+    it("keeps the classes of Koda's own card markup", () => {
+      const html = renderCardHtml('<div class="occlusion"><svg class="occlusion-masks"><rect class="occlusion-mask occlusion-target" /></svg></div>'
+        + '<div class="cloze-extra">extra</div>\n\n```js\nconst x = 1;\n```');
+      expect(parse(html).querySelector('.occlusion > .occlusion-masks > .occlusion-mask.occlusion-target')).not.toBeNull();
+      expect(parse(html).querySelector('.cloze-extra')).not.toBeNull();
+      expect(parse(html).querySelector('code.hljs.language-js .hljs-keyword')?.textContent).toBe('const');
+    });
+
+    it("keeps KaTeX's styles and classes", () => {
+      const html = renderCardHtml('$\\frac{a}{b}$');
+      expect(parse(html).querySelector('.katex .mfrac')).not.toBeNull();
+      expect(parse(html).querySelector('.katex [style]')).not.toBeNull();
+    });
+
+    it('leaves KaTeX commands that emit links and attributes unrendered', () => {
+      const html = renderCardHtml('$\\href{javascript:alert(1)}{x}$ $\\htmlData{onclick=alert(1)}{y}$ $\\url{javascript:alert(1)}$');
+      expect(scriptingIn(html)).toEqual([]);
+      expect(parse(html).querySelector('a')).toBeNull();
+    });
+
+    it('escapes markup written inside math', () => {
+      const html = renderCardHtml('$\\text{<img src=x onerror=alert(1)>}$');
+      expect(scriptingIn(html)).toEqual([]);
+      expect(parse(html).querySelector('img')).toBeNull();
+    });
+
+    it('sanitizes math placed inside an attribute', () => {
+      expect(scriptingIn(renderCardHtml('<img src="x" alt="$\\text{" onerror="alert(1)}$">'))).toEqual([]);
+    });
+
+    it('leaves math inside an attribute as written', () => {
+      const html = renderCardHtml('<img src="x.png" alt="$x^2$"> $y$');
+      expect(parse(html).querySelector('img')?.getAttribute('alt')).toBe('$x^2$');
+      expect(mathIn(html)).toEqual(['y']);
+    });
+
+    it('sanitizes cloze answers inside code', () => {
+      const html = renderCardHtml('```\n<span class="cloze"><img src=x onerror=alert(1)></span>\n```');
+      expect(scriptingIn(html)).toEqual([]);
+      expect(parse(html).querySelector('.cloze')?.textContent).toBe('<img src=x onerror=alert(1)>');
+    });
+  });
+
+  describe('placeholders', () => {
+    it('keeps text written like a math placeholder as text', () => {
+      const html = renderCardHtml('%%KATEX0%% and $a$');
+      expect(parse(html).textContent).toContain('%%KATEX0%%');
+      expect(mathIn(html)).toEqual(['a']);
+    });
+
+    it('does not let a forged placeholder carry math into an attribute', () => {
+      const html = renderCardHtml('$\\text{" onerror="alert(1)}$ <img src="x" title="%%KATEX0%%">');
+      expect(scriptingIn(html)).toEqual([]);
+      expect(parse(html).querySelector('img')?.getAttribute('title')).toBe('%%KATEX0%%');
+    });
+
+    it('keeps text written like a cloze placeholder as text', () => {
+      const html = renderCardHtml('KODACLOZE0END\n\n`<span class="cloze">answer</span>`');
+      expect(parse(html).querySelector('p')?.textContent).toBe('KODACLOZE0END');
+      expect(parse(html).querySelector('code .cloze')?.textContent).toBe('answer');
+    });
+  });
+
+  describe('media', () => {
+    it('points images and sound tags at their URLs', () => {
+      const html = renderCardHtml('<img src="cat.png"> [sound:meow.mp3]', {}, mediaUrl);
+      expect(parse(html).querySelector('img')?.getAttribute('src')).toBe('/api/media/cat.png');
+      expect(parse(html).querySelector('audio')?.getAttribute('src')).toBe('/api/media/meow.mp3');
+      expect(parse(html).querySelector('audio')?.className).toBe('card-audio');
+    });
+
+    it('keeps blob: URLs for demo media', () => {
+      const html = renderCardHtml('[sound:meow.mp3]', {}, () => 'blob:http://localhost/3f2a');
+      expect(parse(html).querySelector('audio')?.getAttribute('src')).toBe('blob:http://localhost/3f2a');
+    });
+
+    it('does not let a sound tag inside an attribute break out of it', () => {
+      const html = renderCardHtml('<img title="[sound:a.mp3]<img src=x onerror=alert(1)>" src="b.png">', {}, mediaUrl);
+      expect(scriptingIn(html)).toEqual([]);
+    });
+
+    it('ignores media names that are not stored file names', () => {
+      const html = renderCardHtml('[sound:a.mp3" onerror="alert(1)] <img src="../../etc/passwd"> [sound:javascript:alert(1)]', {}, mediaUrl);
+      expect(scriptingIn(html)).toEqual([]);
+      expect(parse(html).querySelector('audio')).toBeNull();
+      expect(parse(html).querySelector('img')?.getAttribute('src')).toBe('../../etc/passwd');
+    });
+
+    it('does not trust the URLs it is given', () => {
+      const html = renderCardHtml('<img src="a.png"> [sound:b.mp3]', {}, () => 'javascript:alert(1)');
+      expect(scriptingIn(html)).toEqual([]);
+    });
+  });
+
+  describe('math', () => {
+    it('renders each delimiter style', () => {
+      const html = renderCardHtml('\\(a\\) \\[b\\] $$c$$ $d$');
+      expect(mathIn(html)).toEqual(['a', 'b', 'c', 'd']);
+      expect(parse(html).querySelectorAll('.katex-display')).toHaveLength(2);
+    });
+
+    it('keeps prices as text', () => {
+      expect(mathIn(renderCardHtml('It costs $5 or $10'))).toEqual([]);
+      expect(parse(renderCardHtml('It costs $5 or $10')).textContent).toContain('It costs $5 or $10');
+      expect(mathIn(renderCardHtml('From $5 to $x^2$'))).toEqual(['x^2']);
+    });
+
+    it('keeps an escaped dollar literal', () => {
+      expect(mathIn(renderCardHtml('\\$x$ costs \\$5'))).toEqual([]);
+    });
+
+    it('leaves unbalanced delimiters as text without swallowing what follows', () => {
+      for (const content of ['$x + y', '$$x + y', '\\(x + y', '\\[x + y', 'x + y\\)']) {
+        const html = renderCardHtml(`${content}\n\n**after**`);
+        expect(mathIn(html)).toEqual([]);
+        expect(parse(html).textContent).toContain('x + y');
+        expect(parse(html).querySelector('strong')?.textContent).toBe('after');
+      }
+    });
+
+    it('finds the math after an unbalanced dollar', () => {
+      expect(mathIn(renderCardHtml('$x and $y$'))).toEqual(['y']);
+    });
+
+    it('reads Markdown syntax inside math as LaTeX', () => {
+      const html = renderCardHtml('$a_1 * b_2 * c$ and *emphasis*');
+      expect(mathIn(html)).toEqual(['a_1 * b_2 * c']);
+      expect(parse(html).querySelectorAll('em')).toHaveLength(1);
+    });
+
+    it('leaves math inside code as written', () => {
+      const inline = renderCardHtml('`$x$` and $y$');
+      expect(parse(inline).querySelector('code')?.textContent).toBe('$x$');
+      expect(mathIn(inline)).toEqual(['y']);
+
+      const fenced = renderCardHtml('```latex\n$$\\frac{a}{b}$$ \\(c\\)\n```');
+      expect(mathIn(fenced)).toEqual([]);
+      expect(parse(fenced).querySelector('code')?.textContent).toBe('$$\\frac{a}{b}$$ \\(c\\)\n');
+    });
+
+    it('shows invalid LaTeX instead of failing', () => {
+      const html = renderCardHtml('$\\frac{a}{$ and $\\notacommand$');
+      expect(parse(html).querySelector('.katex-error')).not.toBeNull();
+    });
+
+    it('expands the deck macros', () => {
+      expect(parse(renderCardHtml('$\\R$', { '\\R': '\\mathbb{R}' })).querySelector('.mathbb, .amsrm')).not.toBeNull();
+    });
+  });
+});
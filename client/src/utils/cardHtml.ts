@@ -0,0 +1,169 @@
+/**
+ * Card HTML Rendering
+ *
+ * Turns card text into safe HTML: Markdown first, then an allowlist
+ * sanitizer, then KaTeX for the LaTeX it contains and the sanitizer once
+ * more over the result. Card text comes from imports and other people's
+ * decks, so nothing reaches the page without passing the sanitizer, and
+ * only KaTeX's own markup may carry inline styles or arbitrary classes.
+ *
+ * Math may be written as \(...\), \[...\], $$...$$ or $...$; shared/math
+ * finds it, with the rules that keep prices like "$5 or $10" as text.
+ *
+ * Code is left as written: fenced blocks with a language tag are
+ * syntax-highlighted, and neither holds math. Cloze deletions still work
+ * inside code, so a single token of a snippet can be blanked out.
+ *
+ * Images and sound tags are pointed at their files before sanitizing too,
+ * so the player markup they expand to can't open a hole in sanitized HTML.
+ */
+
+import katex from 'katex';
+import 'katex/contrib/mhchem';
+import hljs from 'highlight.js/lib/common';
+import { Marked } from 'marked';
+import DOMPurify from 'dompurify';
+import type { Config, UponSanitizeAttributeHook } from 'dompurify';
+import { findCodeRanges, findMathSpans, type MathSpan } from '../../../shared/math';
+import { renderMedia } from '../../../shared/media';
+import type { MathMacros } from '../../../shared/mathMacros';
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const markdown = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    code({ text, lang }) {
+      const language = (lang || '').match(/^\S*/)?.[0] || '';
+      const highlighted = language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+        : escapeHtml(text);
+      const languageClass = language ? ` language-${escapeHtml(language)}` : '';
+      return `<pre><code class="hljs${languageClass}">${highlighted}\n</code></pre>\n`;
+    },
+  },
+});
+
+// HTML, SVG (image occlusion masks, KaTeX's stretchy symbols) and MathML
+// (KaTeX's accessible output) from DOMPurify's allowlists, minus style
+// sheets and form controls, which could restyle or take input on the page
+// around the card
+const SANITIZE_CONFIG: Config = {
+  USE_PROFILES: { html: true, svg: true, mathMl: true },
+  // KaTeX keeps the LaTeX source in a MathML annotation for screen readers and copying
+  ADD_TAGS: ['semantics', 'annotation'],
+  ADD_ATTR: ['encoding'],
+  FORBID_TAGS: ['style', 'form', 'input', 'button', 'textarea', 'select', 'option'],
+  // DOMPurify's default URL allowlist, plus the blob: URLs demo media is served from
+  ALLOWED_URI_REGEXP: /^(?:(?:(?:f|ht)tps?|mailto|tel|callto|sms|cid|xmpp|matrix|blob):|[^a-z]|[a-z+.-]+(?:[^a-z+.:-]|$))/i,
+};
+
+// Card markup itself gets no inline styles and only the classes Koda's own
+// card markup uses, so it can't lay itself over the page with
+// "position: fixed" or Tailwind's "fixed inset-0 z-50"
+const CARD_SANITIZE_CONFIG: Config = { ...SANITIZE_CONFIG, FORBID_ATTR: ['style'] };
+const CARD_CLASS = /^(?:cloze(?:-extra)?|card-audio|occlusion(?:-[a-z]+)?|hljs(?:-[\w-]+)?|language-[\w+#.-]+)$/;
+
+const cardPurifier = DOMPurify();
+cardPurifier.addHook('uponSanitizeAttribute', (_node, data) => {
+  if (data.attrName === 'class') {
+    data.attrValue = data.attrValue.split(/\s+/).filter(name => CARD_CLASS.test(name)).join(' ');
+  }
+});
+
+// Math is swapped for placeholders while Markdown runs, so underscores,
+// asterisks and backslashes in LaTeX aren't read as formatting. Cloze
+// answers in code are swapped out too, or Markdown would show their markup
+// as text; those placeholders are plain words so the highlighter keeps each
+// one inside a single token. Both carry a token the card text doesn't
+// contain, so text written to look like a placeholder stays text.
+const placeholderToken = (content: string) => {
+  let token: string;
+  do {
+    token = Math.random().toString(36).slice(2, 10);
+  } while (content.includes(token));
+  return token;
+};
+
+const CLOZE_SPAN = /<span class="cloze">([\s\S]*?)<\/span>/g;
+
+const renderMath = (span: MathSpan, macros: MathMacros): string => {
+  try {
+    // KaTeX writes \gdef definitions into the macros it is given, so each expression gets a copy
+    return katex.renderToString(span.expression, {
+      displayMode: span.displayMode,
+      throwOnError: false,
+      strict: false,
+      macros: { ...macros },
+    });
+  } catch (error) {
+    console.warn('KaTeX rendering error:', error, 'Expression:', span.expression);
+    return escapeHtml(span.source); // Show the original if rendering fails
+  }
+};
+
+/**
+ * Render card text (Markdown, HTML and LaTeX) to sanitized HTML, expanding
+ * the deck's KaTeX macros and pointing media at the URLs `mediaUrl` gives
+ */
+export function renderCardHtml(
+  content: string,
+  macros: MathMacros = {},
+  mediaUrl?: (filename: string) => string | undefined
+): string {
+  if (!content) return '';
+
+  const spans = findMathSpans(content);
+  const clozes: string[] = [];
+
+  const token = placeholderToken(content);
+  const placeholder = (index: number) => `%%KATEX${token}N${index}%%`;
+  const clozePlaceholder = (index: number) => `KODACLOZE${token}N${index}END`;
+  const placeholderPattern = new RegExp(`%%KATEX${token}N(\\d+)%%`, 'g');
+  const clozePlaceholderPattern = new RegExp(`KODACLOZE${token}N(\\d+)END`, 'g');
+
+  // Code and math never overlap, so both are swapped out in one pass
+  const regions = [
+    ...findCodeRanges(content).map(({ start, end }) => ({
+      start,
+      end,
+      replacement: content.slice(start, end).replace(CLOZE_SPAN, (_match, answer: string) =>
+        clozePlaceholder(clozes.push(answer) - 1)),
+    })),
+    ...spans.map(({ start, end }, index) => ({ start, end, replacement: placeholder(index) })),
+  ].sort((a, b) => a.start - b.start);
+
+  let text = '';
+  let last = 0;
+  for (const region of regions) {
+    text += content.slice(last, region.start) + region.replacement;
+    last = region.end;
+  }
+  text += content.slice(last);
+
+  const markup = markdown.parse(text, { async: false });
+
+  // Math inside an attribute stays as written, so KaTeX markup never lands in one
+  const restoreMathSource: UponSanitizeAttributeHook = (_node, data) => {
+    data.attrValue = data.attrValue.replace(placeholderPattern, (match, index: string) => spans[Number(index)]?.source ?? match);
+  };
+  cardPurifier.addHook('uponSanitizeAttribute', restoreMathSource);
+  let sanitized: string;
+  try {
+    sanitized = cardPurifier.sanitize(mediaUrl ? renderMedia(markup, mediaUrl) : markup, CARD_SANITIZE_CONFIG);
+  } finally {
+    cardPurifier.removeHook('uponSanitizeAttribute', restoreMathSource);
+  }
+
+  const html = sanitized
+    .replace(placeholderPattern, (match, index: string) => spans[Number(index)] ? renderMath(spans[Number(index)], macros) : match)
+    .replace(clozePlaceholderPattern, (match, index: string) =>
+      clozes[Number(index)] !== undefined ? `<span class="cloze">${escapeHtml(clozes[Number(index)])}</span>` : match);
+
+  return DOMPurify.sanitize(html, SANITIZE_CONFIG);
+}
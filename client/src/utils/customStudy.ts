@@ -0,0 +1,50 @@
+/**
+ * Custom Study Utilities
+ *
+ * Encodes custom study filters in the study page URL so a session can be
+ * reloaded or bookmarked.
+ */
+
+import type { Card, CustomStudyFilters } from '../types';
+
+const STAGES: Card['stage'][] = ['new', 'learning', 'review', 'mastered'];
+
+const parsePositiveInt = (value: string | null): number | undefined => {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Serialize filters into query parameters for /study/custom
+ */
+export function customStudyToSearchParams(filters: CustomStudyFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.deckId) params.set('deck', filters.deckId);
+  if (filters.tags?.length) params.set('tags', filters.tags.join(','));
+  if (filters.stages?.length) params.set('stages', filters.stages.join(','));
+  if (filters.minLapses) params.set('lapses', String(filters.minLapses));
+  if (filters.reviewedWithinDays) params.set('reviewed', String(filters.reviewedWithinDays));
+  if (filters.failedWithinDays) params.set('failed', String(filters.failedWithinDays));
+  if (filters.maxCards) params.set('max', String(filters.maxCards));
+  params.set('schedule', filters.mode || 'preview');
+  return params;
+}
+
+/**
+ * Read filters back from /study/custom query parameters
+ */
+export function customStudyFromSearchParams(params: URLSearchParams): CustomStudyFilters {
+  const tags = (params.get('tags') || '').split(',').map(tag => tag.trim()).filter(Boolean);
+  const stages = (params.get('stages') || '').split(',')
+    .filter((stage): stage is Card['stage'] => STAGES.includes(stage as Card['stage']));
+  return {
+    deckId: params.get('deck') || undefined,
+    tags: tags.length ? tags : undefined,
+    stages: stages.length ? stages : undefined,
+    minLapses: parsePositiveInt(params.get('lapses')),
+    reviewedWithinDays: parsePositiveInt(params.get('reviewed')),
+    failedWithinDays: parsePositiveInt(params.get('failed')),
+    maxCards: parsePositiveInt(params.get('max')),
+    mode: params.get('schedule') === 'reschedule' ? 'reschedule' : 'preview',
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Math Lint
+ *
+ * Parses every math span in card text the way it will be rendered and
+ * reports the ones that fail. When studying, KaTeX shows broken formulas as
+ * red source text, so editors check them before a card is saved.
+ */
+
+import katex from 'katex';
+import { findMathSpans } from '../../../shared/math';
+import type { MathMacros } from '../../../shared/mathMacros';
+
+export interface MathIssue {
+  start: number;
+  end: number;
+  source: string;
+  message: string;
+  // Errors don't render at all; warnings render but use LaTeX KaTeX only tolerates
+  severity: 'error' | 'warning';
+}
+
+const parseErrorMessage = (error: unknown): string => {
+  if (error instanceof katex.ParseError) {
+    const { rawMessage } = error as katex.ParseError & { rawMessage?: string };
+    return rawMessage || error.message.replace(/^KaTeX parse error: /, '');
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Problems with the math in a piece of card text, in order of appearance
+ */
+export function findMathIssues(content: string | null | undefined, macros: MathMacros = {}): MathIssue[] {
+  if (!content) return [];
+
+  return findMathSpans(content).flatMap((span): MathIssue[] => {
+    const issue = (message: string, severity: MathIssue['severity']): MathIssue =>
+      ({ start: span.start, end: span.end, source: span.source, message, severity });
+    const warnings: MathIssue[] = [];
+
+    try {
+      katex.renderToString(span.expression, {
+        displayMode: span.displayMode,
+        throwOnError: true,
+        strict: (_code: string, message: string) => {
+          warnings.push(issue(message, 'warning'));
+          return 'ignore';
+        },
+        macros: { ...macros },
+      });
+      return warnings;
+    } catch (error) {
+      return [issue(parseErrorMessage(error), 'error')];
+    }
+  });
+}
+
+/**
+ * How many formulas across the texts won't render
+ */
+export function countMathErrors(texts: Array<string | null | undefined>, macros?: MathMacros): number {
+  return texts.reduce((count, text) =>
+    count + findMathIssues(text, macros).filter(issue => issue.severity === 'error').length, 0);
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -18,7 +19,16 @@ export default defineConfig({
       }
     }
   },
+  test: {
+    // Specs sit beside the code they cover, in the client, shared code and the API
+    dir: '..',
+    include: ['{client/src,shared,api}/**/*.test.ts'],
+  },
   server: {
+    fs: {
+      // Allow importing the shared scheduler from the repository root
+      allow: ['..'],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:3001',
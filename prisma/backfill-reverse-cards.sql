@@ -0,0 +1,31 @@
+-- Cards saved as "reverse" before notes existed were meant to be studied both
+-- ways but only ever had their front → back card. Give each one a note of the
+-- "reverse" note type and the back → front sibling it was missing. Editing such
+-- a card in the app does the same for that one card.
+--
+-- Only cards without a note are touched, so running this again is harmless.
+-- Run with: npm run db:backfill-reverse
+
+BEGIN;
+
+CREATE TEMP TABLE legacy_reverse_cards ON COMMIT DROP AS
+  SELECT id AS "cardId", gen_random_uuid()::text AS "noteId", "deckId", front, back, tags
+  FROM cards
+  WHERE type = 'reverse' AND "noteId" IS NULL;
+
+INSERT INTO notes (id, "deckId", "noteTypeId", fields, "createdAt", "updatedAt")
+  SELECT "noteId", "deckId", 'reverse', jsonb_build_object('Front', front, 'Back', back), now(), now()
+  FROM legacy_reverse_cards;
+
+-- The existing card keeps its schedule as the front → back card
+UPDATE cards
+  SET type = 'basic', "noteId" = legacy."noteId", "templateIndex" = 0, "updatedAt" = now()
+  FROM legacy_reverse_cards legacy
+  WHERE cards.id = legacy."cardId";
+
+-- The back → front card starts out new; the hint describes the front, so it has none
+INSERT INTO cards (id, "deckId", front, back, type, "noteId", "templateIndex", tags, "createdAt", "updatedAt")
+  SELECT gen_random_uuid()::text, "deckId", back, front, 'reverse', "noteId", 1, tags, now(), now()
+  FROM legacy_reverse_cards;
+
+COMMIT;
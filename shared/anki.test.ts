@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { convertAnkiReviews, convertAnkiSchedule, type AnkiCard, type AnkiReview } from './anki';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-01-10T12:00:00Z');
+// The collection was created 100 days ago, so today is day 100
+const createdAt = (now.getTime() - 100 * DAY_MS) / 1000;
+const nowSeconds = now.getTime() / 1000;
+
+const card = (fields: Partial<AnkiCard>): AnkiCard => ({
+  id: '1', noteId: '1', ord: 0, type: 0, queue: 0, due: 1, interval: 0, factor: 0, reps: 0, lapses: 0, ...fields,
+});
+
+const review = (fields: Partial<AnkiReview>): AnkiReview => ({
+  id: now.getTime() - DAY_MS, cardId: '1', ease: 3, interval: 1, lastInterval: 0, time: 4000, type: 1, ...fields,
+});
+
+describe('convertAnkiSchedule', () => {
+  it('imports a new card as new and due now', () => {
+    expect(convertAnkiSchedule(card({ due: 12 }), [], createdAt, now)).toMatchObject({
+      stage: 'new',
+      nextReviewAt: now.toISOString(),
+      lastReviewedAt: null,
+    });
+  });
+
+  it('dates a review card by its day in the collection', () => {
+    const schedule = convertAnkiSchedule(card({ type: 2, queue: 2, due: 105, interval: 20, factor: 2300, reps: 6 }), [], createdAt, now);
+    expect(schedule).toMatchObject({ stage: 'review', interval: 20, easeFactor: 2.3, reviewCount: 6 });
+    expect(schedule.nextReviewAt).toBe(new Date(now.getTime() + 5 * DAY_MS).toISOString());
+  });
+
+  it('masters review cards with long intervals', () => {
+    expect(convertAnkiSchedule(card({ type: 2, queue: 2, due: 200, interval: 400 }), [], createdAt, now).stage).toBe('mastered');
+  });
+
+  it('dates a learning card due today by its timestamp', () => {
+    const schedule = convertAnkiSchedule(card({ type: 1, queue: 1, due: nowSeconds + 600, interval: 0 }), [], createdAt, now);
+    expect(schedule.stage).toBe('learning');
+    expect(schedule.nextReviewAt).toBe(new Date(now.getTime() + 600_000).toISOString());
+  });
+
+  it('dates a learning card on a later day by its day in the collection', () => {
+    const schedule = convertAnkiSchedule(card({ type: 3, queue: 3, due: 102, interval: 1 }), [], createdAt, now);
+    expect(schedule.nextReviewAt).toBe(new Date(now.getTime() + 2 * DAY_MS).toISOString());
+  });
+
+  it.each([
+    ['suspended', -1],
+    ['buried by the user', -2],
+    ['buried with a sibling', -3],
+  ])('reads a %s learning card due later today', (_name, queue) => {
+    for (const type of [1, 3]) {
+      const schedule = convertAnkiSchedule(card({ type, queue, due: nowSeconds + 600 }), [], createdAt, now);
+      expect(schedule.stage).toBe('learning');
+      expect(schedule.nextReviewAt).toBe(new Date(now.getTime() + 600_000).toISOString());
+    }
+  });
+
+  it('reads a suspended learning card due on a later day', () => {
+    const schedule = convertAnkiSchedule(card({ type: 3, queue: -1, due: 103, interval: 1 }), [], createdAt, now);
+    expect(schedule).toMatchObject({ stage: 'learning', queueState: 'suspended' });
+    expect(schedule.nextReviewAt).toBe(new Date(now.getTime() + 3 * DAY_MS).toISOString());
+  });
+
+  it('keeps suspended cards suspended and brings buried ones back', () => {
+    expect(convertAnkiSchedule(card({ type: 2, queue: -1, due: 100, interval: 5 }), [], createdAt, now).queueState).toBe('suspended');
+    expect(convertAnkiSchedule(card({ type: 2, queue: -2, due: 100, interval: 5 }), [], createdAt, now).queueState).toBe('normal');
+  });
+
+  it('takes the last review and the streak from the review log', () => {
+    const reviews = [
+      review({ id: now.getTime() - 9 * DAY_MS, ease: 1 }),
+      review({ id: now.getTime() - 6 * DAY_MS, ease: 3 }),
+      review({ id: now.getTime() - 4 * DAY_MS, ease: 0, type: 4 }),
+      review({ id: now.getTime() - 3 * DAY_MS, ease: 2 }),
+    ];
+    const schedule = convertAnkiSchedule(card({ type: 2, queue: 2, due: 104, interval: 7 }), reviews, createdAt, now);
+    expect(schedule.consecutiveCorrect).toBe(2);
+    expect(schedule.lastReviewedAt).toBe(new Date(now.getTime() - 3 * DAY_MS).toISOString());
+  });
+
+  it('reads the FSRS memory state onto the 0-1 difficulty scale', () => {
+    const schedule = convertAnkiSchedule(card({ type: 2, queue: 2, due: 104, interval: 7, stability: 12.5, difficulty: 5.5 }), [], createdAt, now);
+    expect(schedule.stability).toBe(12.5);
+    expect(schedule.difficulty).toBeCloseTo(0.5);
+  });
+});
+
+describe('convertAnkiReviews', () => {
+  it('leaves out manual reschedules', () => {
+    const reviews = convertAnkiReviews([
+      review({ ease: 1, type: 0, interval: -600 }),
+      review({ ease: 0, type: 4 }),
+      review({ ease: 3, type: 5 }),
+      review({ ease: 4, type: 3, interval: 3, lastInterval: 1 }),
+    ]);
+    expect(reviews).toEqual([
+      expect.objectContaining({ quality: 1, wasCorrect: false, intervalAfter: 600 / 86400, isCram: false }),
+      expect.objectContaining({ quality: 4, wasCorrect: true, intervalBefore: 1, intervalAfter: 3, isCram: true }),
+    ]);
+  });
+
+  it('imports Hard as a correct answer, as Koda records it', () => {
+    const reviews = convertAnkiReviews([1, 2, 3, 4].map(ease => review({ ease })));
+    expect(reviews.map(({ wasCorrect }) => wasCorrect)).toEqual([false, true, true, true]);
+  });
+});
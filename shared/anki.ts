@@ -0,0 +1,302 @@
+/**
+ * Anki
+ *
+ * Maps the contents of an Anki collection onto Koda: note types and their
+ * templates, note fields, tags, and optionally each card's schedule and
+ * review log. Reading the package itself (a zip holding a SQLite database)
+ * happens on the client; everything here works on plain rows.
+ *
+ * Anki templates use the same {{Field}} syntax as Koda's, plus filters such
+ * as {{cloze:Text}} or {{type:Back}} and special fields like {{FrontSide}}.
+ * Koda shows the back beneath the front, so the copy of the front Anki
+ * puts on the answer side is dropped.
+ */
+
+import { BUILT_IN_NOTE_TYPES } from './noteTypes';
+import type { NoteCardType, NoteFields, NoteTemplate } from './noteTypes';
+import { MASTERED_STABILITY, isRecall } from './scheduler';
+import type { CardStage } from './scheduler';
+
+export const ANKI_PACKAGE_EXTENSIONS = ['apkg', 'colpkg'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AnkiNoteType {
+  id: string;
+  name: string;
+  isCloze: boolean;
+  fields: string[];
+  templates: Array<{ name: string; front: string; back: string }>; // Anki's qfmt and afmt
+}
+
+export interface AnkiNote {
+  id: string;
+  noteTypeId: string;
+  fields: string[]; // in the note type's field order
+  tags: string[];
+}
+
+// A row of Anki's cards table
+export interface AnkiCard {
+  id: string;
+  noteId: string;
+  ord: number; // template index, or cloze number - 1
+  type: number; // 0 new, 1 learning, 2 review, 3 relearning
+  queue: number; // -3/-2 buried, -1 suspended, 0 new, 1 learning, 2 review, 3 day learning
+  due: number; // learning: epoch seconds; review and day learning: days since the collection was created. Suspended and buried cards keep theirs
+  interval: number; // days, or seconds when negative
+  factor: number; // ease in permille
+  reps: number;
+  lapses: number;
+  stability?: number; // FSRS memory state, when Anki has one
+  difficulty?: number; // FSRS scale 1-10
+}
+
+// A row of Anki's revlog table
+export interface AnkiReview {
+  id: number; // epoch milliseconds of the review
+  cardId: string;
+  ease: number; // 1-4 (Again, Hard, Good, Easy), 0 for manual rescheduling
+  interval: number; // days, or seconds when negative
+  lastInterval: number;
+  time: number; // milliseconds spent answering
+  type: number; // 0 learn, 1 review, 2 relearn, 3 filtered deck, 4 manual, 5 rescheduled
+}
+
+export interface AnkiCollection {
+  createdAt: number; // epoch seconds of the day the collection was created
+  noteTypes: AnkiNoteType[];
+  notes: AnkiNote[];
+  cards: AnkiCard[];
+  reviews: AnkiReview[];
+}
+
+// Scheduling fields of a card carried over from another app
+export interface ImportedSchedule {
+  stage: CardStage;
+  interval: number; // days
+  easeFactor: number;
+  nextReviewAt: string;
+  reviewCount: number;
+  consecutiveCorrect: number;
+  lapses: number;
+  queueState: 'normal' | 'suspended';
+  stability: number;
+  difficulty: number; // normalised to 0-1
+  lastReviewedAt: string | null;
+}
+
+export interface ImportedReview {
+  quality: number;
+  responseTime: number;
+  wasCorrect: boolean;
+  intervalBefore: number;
+  intervalAfter: number;
+  isCram: boolean;
+  createdAt: string;
+}
+
+// An imported card's schedule, matched to a generated card by template and cloze number
+export interface ImportedCard {
+  templateIndex: number;
+  clozeIndex?: number;
+  schedule: ImportedSchedule;
+  reviews: ImportedReview[];
+}
+
+export interface ConvertedNoteType {
+  name: string;
+  fields: string[];
+  templates: NoteTemplate[];
+  isCloze: boolean;
+  builtInId?: string; // set when a built-in note type has the same fields and templates
+}
+
+const FIELD_TAG = /\{\{([#^/]?)\s*([^{}]*?)\s*\}\}/g;
+const SPECIAL_FIELDS = ['FrontSide', 'Tags', 'Deck', 'Subdeck', 'Card', 'Type', 'CardFlag'];
+// Line breaks and the answer divider left at the top once the front's copy is gone
+const LEADING_BREAKS = /^(?:\s|<br\s*\/?>|<hr\s+id\s*=\s*["']?answer["']?\s*\/?>)+/i;
+
+/**
+ * Rewrite one Anki template side in Koda's syntax: filters are dropped down
+ * to the field they show, and typing prompts, text-to-speech and special
+ * fields are removed. `omitCloze` drops {{cloze:...}} on the answer side,
+ * where Koda reveals the deletion itself.
+ */
+function convertTemplateSide(source: string, omitCloze: boolean): { text: string; typed: boolean } {
+  let typed = false;
+  const text = source.replace(FIELD_TAG, (match, prefix: string, body: string) => {
+    if (prefix) return `{{${prefix}${body}}}`;
+    const parts = body.split(':');
+    const field = parts.pop()!.trim();
+    const filters = parts.map(filter => filter.trim());
+    if (filters.includes('type')) {
+      typed = true;
+      return '';
+    }
+    if (filters.some(filter => filter.startsWith('tts')) || SPECIAL_FIELDS.includes(field)) return '';
+    if (omitCloze && filters.includes('cloze')) return '';
+    return `{{${field}}}`;
+  });
+  return { text: text.replace(LEADING_BREAKS, '').trim(), typed };
+}
+
+/**
+ * Koda's version of an Anki note type, pointing at a built-in note type
+ * when one is the same apart from field names
+ */
+export function convertAnkiNoteType(noteType: AnkiNoteType): ConvertedNoteType {
+  const templates = noteType.templates.map((ankiTemplate): NoteTemplate => {
+    const front = convertTemplateSide(ankiTemplate.front, false);
+    const back = convertTemplateSide(ankiTemplate.back, noteType.isCloze);
+    const cardType: NoteCardType = noteType.isCloze ? 'cloze' : front.typed ? 'typed' : 'basic';
+    return { name: ankiTemplate.name, front: front.text, back: back.text, cardType };
+  });
+  // Anki cloze note types only ever use their first template
+  const converted = { name: noteType.name, fields: noteType.fields, templates: noteType.isCloze ? templates.slice(0, 1) : templates, isCloze: noteType.isCloze };
+  return { ...converted, builtInId: matchingBuiltInNoteType(converted) };
+}
+
+function matchingBuiltInNoteType(noteType: Omit<ConvertedNoteType, 'builtInId'>): string | undefined {
+  return BUILT_IN_NOTE_TYPES.find(builtIn => {
+    if (builtIn.isCloze !== noteType.isCloze || builtIn.fields.length !== noteType.fields.length) return false;
+    if (builtIn.templates.length !== noteType.templates.length) return false;
+    const renamed = (text: string) => noteType.fields.reduce(
+      (result, name, index) => result.split(`{{${name}}}`).join(`{{${builtIn.fields[index]}}}`), text);
+    return builtIn.templates.every((builtInTemplate, index) => {
+      const candidate = noteType.templates[index];
+      // Anki has no reverse card type; a second template showing the back is one
+      const cardType = builtInTemplate.cardType === 'reverse' ? 'basic' : builtInTemplate.cardType;
+      return renamed(candidate.front) === builtInTemplate.front &&
+        renamed(candidate.back) === builtInTemplate.back &&
+        cardType === candidate.cardType;
+    });
+  })?.id;
+}
+
+/**
+ * A note's field values keyed by the names of the note type it is imported as
+ */
+export function ankiNoteFields(note: AnkiNote, fieldNames: string[], convertField: (value: string) => string): NoteFields {
+  return Object.fromEntries(fieldNames.map((name, index) => [name, convertField(note.fields[index] ?? '')]));
+}
+
+/**
+ * Rewrite Anki's LaTeX tags as the math delimiters Koda renders.
+ * [latex] blocks hold LaTeX with its own math delimiters, so only the tags go.
+ */
+export function convertAnkiLatex(text: string): string {
+  return text
+    .replace(/\[\$\$\]([\s\S]*?)\[\/\$\$\]/g, (_, expression: string) => `\\[${expression}\\]`)
+    .replace(/\[\$\]([\s\S]*?)\[\/\$\]/g, (_, expression: string) => `\\(${expression}\\)`)
+    .replace(/\[latex\]([\s\S]*?)\[\/latex\]/gi, (_, source: string) => source.trim());
+}
+
+/**
+ * The media file a reference in a note field names. Anki may write names
+ * HTML- or URL-escaped, so the unescaped forms are tried when the name as
+ * written isn't one of the package's files.
+ */
+export function ankiMediaName(reference: string, isPackaged: (name: string) => boolean): string | undefined {
+  const unescaped = reference
+    .replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  let decoded = unescaped;
+  try {
+    decoded = decodeURIComponent(unescaped);
+  } catch {
+    // A literal % in the name
+  }
+  return [reference, unescaped, decoded].find(isPackaged);
+}
+
+/**
+ * Anki tags as Koda stores them. Anki tags can't hold spaces; Koda's can't
+ * hold the separators of its tag string.
+ */
+export function convertAnkiTags(tags: string[]): string {
+  return tags.map(tag => tag.replace(/[;,]/g, '_')).filter(Boolean).join(';');
+}
+
+const toDays = (interval: number) => interval < 0 ? -interval / 86400 : interval;
+
+const iso = (time: number) => new Date(time).toISOString();
+
+// Learning cards due later today hold a time in epoch seconds, those due on a
+// later day a day of the collection. Suspended and buried learning cards are
+// no longer in a learning queue to tell them apart, but a day number never
+// grows anywhere near a timestamp's size.
+const isDueTimestamp = (due: number) => due > 1e9;
+
+/**
+ * A card's schedule in Koda terms. Reviews are the card's Anki review log,
+ * oldest first; they give the last review time and current streak.
+ */
+export function convertAnkiSchedule(card: AnkiCard, reviews: AnkiReview[], collectionCreatedAt: number, now: Date = new Date()): ImportedSchedule {
+  const answered = reviews.filter(review => review.ease > 0);
+  const lastReview = answered[answered.length - 1];
+  const interval = toDays(card.interval);
+  const dayOfCollection = (day: number) => collectionCreatedAt * 1000 + day * DAY_MS;
+
+  let stage: CardStage;
+  let nextReviewAt: number;
+  if (card.type === 0) {
+    stage = 'new';
+    nextReviewAt = now.getTime();
+  } else if (card.type === 2) {
+    stage = interval >= MASTERED_STABILITY ? 'mastered' : 'review';
+    nextReviewAt = dayOfCollection(card.due);
+  } else {
+    stage = 'learning';
+    // Learning steps under a day are due at a time, longer ones on a day
+    nextReviewAt = isDueTimestamp(card.due) ? card.due * 1000 : dayOfCollection(card.due);
+  }
+
+  let consecutiveCorrect = 0;
+  for (let index = answered.length - 1; index >= 0 && isRecall({ quality: answered[index].ease }); index--) {
+    consecutiveCorrect++;
+  }
+
+  return {
+    stage,
+    interval: stage === 'new' ? 1 : interval,
+    easeFactor: card.factor > 0 ? card.factor / 1000 : 2.5,
+    nextReviewAt: iso(nextReviewAt),
+    reviewCount: card.reps,
+    consecutiveCorrect,
+    lapses: card.lapses,
+    queueState: card.queue === -1 ? 'suspended' : 'normal',
+    stability: card.stability ?? 0,
+    difficulty: card.difficulty ? (card.difficulty - 1) / 9 : 0.5,
+    lastReviewedAt: lastReview ? iso(lastReview.id) : stage === 'new' ? null : iso(Math.min(now.getTime(), nextReviewAt - interval * DAY_MS)),
+  };
+}
+
+/**
+ * Whether an entry of Anki's log is an answer; manual reschedules aren't reviews
+ */
+export const isAnsweredAnkiReview = (review: AnkiReview) => review.ease > 0 && review.type !== 4 && review.type !== 5;
+
+/**
+ * Answered reviews from Anki's log as review history
+ */
+export function convertAnkiReviews(reviews: AnkiReview[]): ImportedReview[] {
+  return reviews
+    .filter(isAnsweredAnkiReview)
+    .map(review => ({
+      quality: review.ease,
+      responseTime: Math.max(0, Math.round(review.time)),
+      // Hard counts as correct, as it does for reviews made in Koda
+      wasCorrect: isRecall({ quality: review.ease }),
+      intervalBefore: toDays(review.lastInterval),
+      intervalAfter: toDays(review.interval),
+      isCram: review.type === 3,
+      createdAt: iso(review.id),
+    }));
+}
+
+/**
+ * Where an Anki card's schedule goes among the cards its note generates
+ */
+export function ankiCardPosition(card: AnkiCard, isCloze: boolean): Pick<ImportedCard, 'templateIndex' | 'clozeIndex'> {
+  return isCloze ? { templateIndex: 0, clozeIndex: card.ord + 1 } : { templateIndex: card.ord };
+}
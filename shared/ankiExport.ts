@@ -0,0 +1,422 @@
+/**
+ * Anki Export
+ *
+ * Lays a Koda deck out as an Anki collection: the rows of a schema 11
+ * collection.anki2 database, which every Anki version since 2.1 imports.
+ * The rows work on their own, like the import side in ./anki; writing them
+ * into a package takes sql.js, which the server and demo mode each load
+ * their own way and pass in.
+ *
+ * Note types become Anki note types with the front repeated above the
+ * answer, the way Anki shows it, so importing the package back gives the
+ * same templates. Math is rewritten to the \(...\) and \[...\] delimiters
+ * Anki's MathJax reads. Image occlusion has no portable Anki form, so those
+ * cards go out as basic cards showing what Koda rendered.
+ */
+
+import type { SqlJsStatic } from 'sql.js';
+import { strToU8, zipSync } from 'fflate';
+import { BUILT_IN_NOTE_TYPES, builtInNoteFields, builtInNoteType, templateFieldNames } from './noteTypes';
+import type { NoteFields, NoteTemplate, NoteTypeDefinition } from './noteTypes';
+import type { AnkiCard, AnkiReview } from './anki';
+import { findMathSpans } from './math';
+import { mediaReferences } from './media';
+import { parseTags } from './tags';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = '\x1f';
+
+// What the export needs of a card; the API's and the client's cards both fit
+export interface AnkiExportCard {
+  id: string;
+  noteId?: string | null;
+  front: string;
+  back: string;
+  type: string;
+  templateIndex?: number | null;
+  clozeIndex?: number | null;
+  tags: string;
+  stage: string;
+  interval: number;
+  easeFactor: number;
+  nextReviewAt: Date | string;
+  reviewCount: number;
+  lapses: number;
+  queueState: string;
+  stability: number;
+  difficulty: number;
+}
+
+export interface AnkiExportReview {
+  cardId: string;
+  quality: number;
+  responseTime: number;
+  wasCorrect: boolean;
+  intervalBefore: number;
+  intervalAfter: number;
+  isCram?: boolean | null;
+  stageBefore?: string | null;
+  easeFactorBefore?: number | null;
+  createdAt: Date | string;
+}
+
+export interface AnkiExportNote {
+  guid: string; // kept from Koda, so exporting again updates notes instead of duplicating them
+  noteType: NoteTypeDefinition;
+  fields: NoteFields;
+  tags: string[];
+  cards: AnkiExportCard[];
+}
+
+export interface AnkiCollectionData {
+  statements: Array<{ sql: string; params: Array<string | number | null> }>;
+  media: string[]; // stored files the notes refer to, in the order they go in the package
+}
+
+const BASIC = BUILT_IN_NOTE_TYPES[0];
+
+/**
+ * The file name to save a deck's package under
+ */
+export function ankiPackageFilename(deckName: string): string {
+  return `${deckName.replace(/[^\p{L}\p{N} _-]/gu, '').trim() || 'deck'}.apkg`;
+}
+
+const isOcclusion = (noteType: NoteTypeDefinition) =>
+  noteType.templates.some(noteTemplate => noteTemplate.cardType === 'occlusion');
+
+// A card that can't go out with its note, as a basic note showing what Koda rendered
+const flattenedNote = (card: AnkiExportCard): AnkiExportNote => ({
+  guid: card.id,
+  noteType: BASIC,
+  fields: builtInNoteFields(BASIC, card),
+  tags: parseTags(card.tags),
+  cards: [{ ...card, templateIndex: 0, clozeIndex: null }],
+});
+
+/**
+ * Group a deck's cards into the notes to export. Cards from before notes
+ * existed become a note of their built-in type.
+ */
+export function collectAnkiExportNotes(
+  cards: AnkiExportCard[],
+  notes: Array<{ id: string; noteTypeId: string; fields: unknown }>,
+  noteTypes: NoteTypeDefinition[]
+): AnkiExportNote[] {
+  const noteIds = new Set(notes.map(note => note.id));
+  const cardsByNote = new Map<string, AnkiExportCard[]>();
+  const exported: AnkiExportNote[] = [];
+
+  for (const card of cards) {
+    const noteCards = card.noteId ? cardsByNote.get(card.noteId) : undefined;
+    if (noteCards) {
+      noteCards.push(card);
+    } else if (card.noteId && noteIds.has(card.noteId)) {
+      cardsByNote.set(card.noteId, [card]);
+    } else if (card.type === 'cloze' && card.clozeIndex) {
+      const cloze = builtInNoteType('cloze');
+      exported.push({ guid: card.id, noteType: cloze, fields: builtInNoteFields(cloze, card), tags: parseTags(card.tags), cards: [card] });
+    } else {
+      exported.push(flattenedNote(card));
+    }
+  }
+
+  for (const note of notes) {
+    const noteCards = cardsByNote.get(note.id);
+    if (!noteCards) continue;
+    const noteType = noteTypes.find(candidate => candidate.id === note.noteTypeId);
+    if (!noteType || isOcclusion(noteType)) {
+      exported.push(...noteCards.map(flattenedNote));
+      continue;
+    }
+    // Cards share their note's tags, apart from a leech tag one of them earned
+    const tags = Array.from(new Set(noteCards.flatMap(card => parseTags(card.tags))));
+    exported.push({ guid: note.id, noteType, fields: note.fields as NoteFields, tags, cards: noteCards });
+  }
+  return exported;
+}
+
+/**
+ * Rewrite math for Anki's MathJax, which reads \(...\) and \[...\] but not
+ * dollar signs. Dollars Koda doesn't read as math, as in code or prices, stay.
+ */
+export function toAnkiMath(text: string): string {
+  let result = '';
+  let last = 0;
+  for (const span of findMathSpans(text)) {
+    const { source } = span;
+    const converted = source.startsWith('$$')
+      ? `\\[${source.slice(2, -2)}\\]`
+      : source.startsWith('$')
+        ? `\\(${source.slice(1, -1)}\\)`
+        : source;
+    result += text.slice(last, span.start) + converted;
+    last = span.end;
+  }
+  return result + text.slice(last);
+}
+
+/**
+ * Anki tags from Koda's, which may hold spaces Anki uses to separate them
+ */
+export function toAnkiTags(tags: string[]): string[] {
+  return tags.map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean);
+}
+
+/**
+ * One Koda template as Anki's question and answer formats. The answer
+ * repeats the front above a divider; for cloze note types that is the cloze
+ * itself, and typed cards get a typing prompt for their first answer field.
+ */
+function toAnkiTemplate(noteTemplate: NoteTemplate, isCloze: boolean): { qfmt: string; afmt: string } {
+  if (isCloze) {
+    const question = noteTemplate.front.replace(/\{\{\s*([^#^/{}][^{}]*?)\s*\}\}/g, '{{cloze:$1}}');
+    return { qfmt: question, afmt: `${question}<br>\n${noteTemplate.back}` };
+  }
+  const answerField = templateFieldNames(noteTemplate.back)[0];
+  const qfmt = noteTemplate.cardType === 'typed' && answerField
+    ? `${noteTemplate.front}\n\n{{type:${answerField}}}`
+    : noteTemplate.front;
+  return { qfmt, afmt: `{{FrontSide}}\n\n<hr id=answer>\n\n${noteTemplate.back}` };
+}
+
+// Anki's queues for cards taken out of rotation
+const ANKI_HELD_QUEUES: Record<string, number | undefined> = {
+  suspended: -1,
+  'buried-until-tomorrow': -2,
+  'buried-manually': -3,
+};
+
+/**
+ * A card's Anki scheduling columns. Without a schedule every card goes out
+ * new, in deck order.
+ */
+export function toAnkiSchedule(card: AnkiExportCard | null, position: number, collectionCreatedAt: number):
+  Pick<AnkiCard, 'type' | 'queue' | 'due' | 'interval' | 'factor' | 'reps' | 'lapses' | 'stability' | 'difficulty'> {
+  const heldQueue = card && ANKI_HELD_QUEUES[card.queueState];
+  if (!card || card.stage === 'new') {
+    return { type: 0, queue: heldQueue ?? 0, due: position, interval: 0, factor: 0, reps: 0, lapses: 0 };
+  }
+
+  const nextReviewAt = new Date(card.nextReviewAt).getTime();
+  const learning = card.stage === 'learning';
+  return {
+    type: learning ? 1 : 2,
+    queue: heldQueue ?? (learning ? 1 : 2),
+    // Learning cards are due at a time, review cards on a day of the collection
+    due: learning ? Math.floor(nextReviewAt / 1000) : Math.floor((nextReviewAt - collectionCreatedAt * 1000) / DAY_MS),
+    interval: learning ? 0 : Math.max(1, Math.round(card.interval)),
+    factor: Math.round(card.easeFactor * 1000),
+    reps: card.reviewCount,
+    lapses: card.lapses,
+    stability: card.stability > 0 ? card.stability : undefined,
+    difficulty: card.stability > 0 ? 1 + card.difficulty * 9 : undefined,
+  };
+}
+
+// Anki writes intervals under a day as negative seconds
+const toAnkiInterval = (days: number) => days >= 1 ? Math.round(days) : -Math.round(days * 86400);
+
+/**
+ * Koda's review history as Anki's review log
+ */
+export function toAnkiReviews(reviews: AnkiExportReview[], cardIds: Map<string, string>): AnkiReview[] {
+  const taken = new Set<number>();
+  return reviews.flatMap((review): AnkiReview[] => {
+    const cardId = cardIds.get(review.cardId);
+    if (!cardId) return [];
+    // Log ids are review times in milliseconds and have to be unique
+    let id = new Date(review.createdAt).getTime();
+    while (taken.has(id)) id++;
+    taken.add(id);
+    return [{
+      id,
+      cardId,
+      ease: Math.min(4, Math.max(1, Math.round(review.quality))),
+      interval: toAnkiInterval(review.intervalAfter),
+      lastInterval: toAnkiInterval(review.intervalBefore),
+      time: Math.max(0, Math.round(review.responseTime)),
+      type: review.isCram ? 3 : review.stageBefore === 'new' || review.stageBefore === 'learning' ? 0 : 1,
+    }];
+  });
+}
+
+// The first field as Anki sorts and checks notes for duplicates by: text only, media names kept
+const sortFieldText = (html: string) => html
+  .replace(/<img\b[^>]*?\bsrc\s*=\s*["']([^"']*)["'][^>]*>/gi, ' $1 ')
+  .replace(/<[^>]*>/g, '')
+  .replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+  .trim();
+
+const SCHEMA = `CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);`;
+
+const CARD_CSS = '.card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n';
+const CLOZE_CSS = '.cloze {\n  font-weight: bold;\n  color: blue;\n}\n';
+const LATEX_PRE = '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n';
+
+const DECK_DEFAULTS = {
+  usn: -1, lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0],
+  collapsed: false, browserCollapsed: false, dyn: 0, conf: 1, extendNew: 0, extendRev: 0,
+};
+
+const DECK_OPTIONS = {
+  id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+  new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+  rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+};
+
+/**
+ * The rows of an Anki collection holding a deck's notes. Pass the deck's
+ * review history to carry over scheduling, or null to export every card as
+ * new. `sha1Hex` hashes the duplicate-check field the way Anki does.
+ */
+export async function buildAnkiCollection(
+  deck: { name: string; description?: string | null },
+  notes: AnkiExportNote[],
+  reviews: AnkiExportReview[] | null,
+  sha1Hex: (text: string) => Promise<string>,
+  now: Date = new Date()
+): Promise<AnkiCollectionData> {
+  const scheduled = reviews !== null;
+  const modified = Math.floor(now.getTime() / 1000);
+  const deckId = now.getTime();
+
+  // Review cards are due on days counted from the collection's creation, so it starts before any of them
+  const reviewDue = scheduled
+    ? notes.flatMap(note => note.cards.filter(card => card.stage !== 'new').map(card => new Date(card.nextReviewAt).getTime()))
+    : [];
+  const createdAt = Math.floor(reviewDue.reduce((earliest, due) => Math.min(earliest, due), now.getTime()) / DAY_MS) * DAY_MS / 1000;
+
+  const noteTypes = Array.from(new Map(notes.map(note => [note.noteType.id, note.noteType])).values());
+  const modelIds = new Map(noteTypes.map((noteType, index) => [noteType.id, deckId + index + 1]));
+  const models = Object.fromEntries(noteTypes.map(noteType => {
+    const id = modelIds.get(noteType.id)!;
+    const templates = noteType.isCloze ? noteType.templates.slice(0, 1) : noteType.templates;
+    return [String(id), {
+      id,
+      name: noteType.name,
+      type: noteType.isCloze ? 1 : 0,
+      mod: modified,
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tmpls: templates.map((noteTemplate, ord) => ({
+        name: noteTemplate.name, ord, ...toAnkiTemplate(noteTemplate, noteType.isCloze), did: null, bqfmt: '', bafmt: '',
+      })),
+      flds: noteType.fields.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: noteType.isCloze ? CARD_CSS + CLOZE_CSS : CARD_CSS,
+      latexPre: LATEX_PRE,
+      latexPost: '\\end{document}',
+      latexsvg: false,
+      req: templates.map((_, ord) => [ord, 'any', noteType.fields.map((__, index) => index)]),
+      tags: [],
+      vers: [],
+    }];
+  }));
+
+  const statements: AnkiCollectionData['statements'] = [];
+  const cardIds = new Map<string, string>();
+  const media = new Set<string>();
+  let nextCardId = deckId;
+  let position = 0;
+
+  for (const [index, note] of notes.entries()) {
+    const noteId = deckId + index;
+    const values = note.noteType.fields.map(name => toAnkiMath(note.fields[name] ?? ''));
+    values.forEach(value => mediaReferences(value).forEach(filename => media.add(filename)));
+    const sortField = sortFieldText(values[0] ?? '');
+    const checksum = parseInt((await sha1Hex(sortField)).slice(0, 8), 16);
+    const tags = toAnkiTags(note.tags);
+    statements.push({
+      sql: 'INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')',
+      params: [noteId, note.guid, modelIds.get(note.noteType.id)!, modified, tags.length ? ` ${tags.join(' ')} ` : '', values.join(FIELD_SEPARATOR), sortField, checksum],
+    });
+
+    for (const card of note.cards) {
+      const ord = note.noteType.isCloze ? (card.clozeIndex ?? 0) - 1 : card.templateIndex ?? 0;
+      if (ord < 0) continue;
+      const id = nextCardId++;
+      cardIds.set(card.id, String(id));
+      const schedule = toAnkiSchedule(scheduled ? card : null, ++position, createdAt);
+      const memory = schedule.stability !== undefined ? JSON.stringify({ s: schedule.stability, d: schedule.difficulty }) : '';
+      statements.push({
+        sql: 'INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, ?)',
+        params: [id, noteId, deckId, ord, modified, schedule.type, schedule.queue, schedule.due, schedule.interval, schedule.factor, schedule.reps, schedule.lapses, schedule.type === 1 ? 1 : 0, memory],
+      });
+    }
+  }
+
+  for (const review of toAnkiReviews(reviews ?? [], cardIds)) {
+    statements.push({
+      sql: 'INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)',
+      params: [review.id, Number(review.cardId), review.ease, review.interval, review.lastInterval, 0, review.time, review.type],
+    });
+  }
+
+  const config = {
+    nextPos: position + 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false,
+    addToCur: true, curDeck: deckId, newBury: true, newSpread: 0, dueCounts: true, curModel: String(modelIds.values().next().value ?? ''),
+    collapseTime: 1200,
+  };
+  const decks = {
+    1: { id: 1, name: 'Default', desc: '', mod: modified, ...DECK_DEFAULTS },
+    [deckId]: { id: deckId, name: deck.name, desc: deck.description || '', mod: modified, ...DECK_DEFAULTS },
+  };
+  statements.unshift(
+    ...SCHEMA.split('\n').map(sql => ({ sql, params: [] })),
+    {
+      sql: 'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, \'{}\')',
+      params: [createdAt, modified * 1000, modified * 1000, JSON.stringify(config), JSON.stringify(models), JSON.stringify(decks), JSON.stringify({ 1: DECK_OPTIONS })],
+    }
+  );
+
+  return { statements, media: Array.from(media) };
+}
+
+/**
+ * Write an .apkg from collection rows, with the media files the notes refer
+ * to. Files `readMedia` can't find are left out of the package.
+ */
+export async function buildAnkiPackage(
+  collection: AnkiCollectionData,
+  loadSqlJs: () => Promise<SqlJsStatic>,
+  readMedia: (filename: string) => Promise<Uint8Array | null>
+): Promise<Uint8Array> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  let database: Uint8Array;
+  try {
+    for (const { sql, params } of collection.statements) {
+      db.run(sql, params);
+    }
+    database = db.export();
+  } finally {
+    db.close();
+  }
+
+  // Media files go in the zip under their index, with a list mapping them back to their names
+  const files: Record<string, Uint8Array> = { 'collection.anki2': database };
+  const mediaNames: Record<string, string> = {};
+  for (const filename of collection.media) {
+    const bytes = await readMedia(filename);
+    if (!bytes) continue;
+    const index = String(Object.keys(mediaNames).length);
+    files[index] = bytes;
+    mediaNames[index] = filename;
+  }
+  files.media = strToU8(JSON.stringify(mediaNames));
+
+  return zipSync(files);
+}
@@ -0,0 +1,176 @@
+/**
+ * Cloze Deletions
+ *
+ * Cloze notes mark answers inline as {{c1::answer}} or {{c1::answer::hint}}.
+ * Every cloze number becomes its own card: that number's deletions are
+ * hidden on the front and highlighted on the back, the others stay visible.
+ */
+
+export interface ClozeDeletion {
+  index: number;
+  answer: string;
+  hint?: string;
+  start: number; // Offset of the opening {{
+  end: number; // Offset just past the closing }}
+}
+
+const CLOZE_OPEN = /\{\{c(\d+)::/g;
+
+/**
+ * Find every cloze deletion in the text. Braces inside the answer (e.g. from
+ * LaTeX like \frac{a}{b}) are balanced so they don't end the deletion early.
+ */
+export function parseClozes(text: string): ClozeDeletion[] {
+  const deletions: ClozeDeletion[] = [];
+  CLOZE_OPEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = CLOZE_OPEN.exec(text)) !== null) {
+    const bodyStart = match.index + match[0].length;
+    let depth = 0;
+    let hintStart = -1;
+    let end = -1;
+
+    for (let i = bodyStart; i < text.length; i++) {
+      const char = text[i];
+      if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        if (depth === 0 && text[i + 1] === '}') {
+          end = i;
+          break;
+        }
+        depth = Math.max(0, depth - 1);
+      } else if (char === ':' && text[i + 1] === ':' && depth === 0 && hintStart === -1) {
+        hintStart = i;
+        i++;
+      }
+    }
+
+    if (end === -1) break; // Unclosed deletion, leave the rest as plain text
+
+    const answerEnd = hintStart === -1 ? end : hintStart;
+    const hint = hintStart === -1 ? undefined : text.slice(hintStart + 2, end).trim();
+    deletions.push({
+      index: parseInt(match[1], 10),
+      answer: text.slice(bodyStart, answerEnd),
+      hint: hint || undefined,
+      start: match.index,
+      end: end + 2,
+    });
+    CLOZE_OPEN.lastIndex = end + 2;
+  }
+
+  return deletions;
+}
+
+/**
+ * The distinct cloze numbers used in the text, in ascending order
+ */
+export function clozeNumbers(text: string): number[] {
+  return Array.from(new Set(parseClozes(text).map(deletion => deletion.index))).sort((a, b) => a - b);
+}
+
+/**
+ * Render one side of a cloze card as HTML. A card without a cloze number
+ * (created before cloze cards were split) treats every deletion as active.
+ */
+export function renderCloze(text: string, activeIndex: number | null | undefined, side: 'front' | 'back'): string {
+  let html = '';
+  let cursor = 0;
+
+  for (const deletion of parseClozes(text)) {
+    html += text.slice(cursor, deletion.start);
+    const isActive = activeIndex == null || deletion.index === activeIndex;
+    if (!isActive) {
+      html += deletion.answer;
+    } else if (side === 'front') {
+      html += `<span class="cloze">[${deletion.hint || '...'}]</span>`;
+    } else {
+      html += `<span class="cloze">${deletion.answer}</span>`;
+    }
+    cursor = deletion.end;
+  }
+
+  return html + text.slice(cursor);
+}
+
+/**
+ * Front and back HTML for a cloze card; the note's back text is shown
+ * beneath the revealed answer as extra information
+ */
+export function clozeFaces(card: { front: string; back: string; clozeIndex?: number | null }) {
+  const extra = card.back.trim();
+  return {
+    front: renderCloze(card.front, card.clozeIndex, 'front'),
+    back: renderCloze(card.front, card.clozeIndex, 'back') + (extra ? `<div class="cloze-extra">${extra}</div>` : ''),
+  };
+}
+
+/**
+ * Wrap the selected text in a cloze deletion. Without a number the next
+ * unused one is taken. Returns the new text and where the cursor should go.
+ */
+export function wrapCloze(text: string, selectionStart: number, selectionEnd: number, index?: number) {
+  const numbers = clozeNumbers(text);
+  const clozeIndex = index ?? (numbers.length ? numbers[numbers.length - 1] + 1 : 1);
+  const selected = text.slice(selectionStart, selectionEnd);
+  const opening = `{{c${clozeIndex}::`;
+  const wrapped = `${opening}${selected}}}`;
+  return {
+    text: text.slice(0, selectionStart) + wrapped + text.slice(selectionEnd),
+    // Leave the cursor inside an empty deletion, or after a wrapped selection
+    cursor: selectionStart + (selected ? wrapped.length : opening.length),
+  };
+}
+
+export interface ClozeCardRef {
+  id: string;
+  clozeIndex?: number | null;
+}
+
+export interface ClozeCardPlan {
+  assign: Array<{ id: string; clozeIndex: number }>;
+  create: number[];
+  remove: string[];
+}
+
+/**
+ * Work out how a cloze note's cards change after its text was edited.
+ * A card's history belongs to its cloze number: cards keep their number while
+ * it is still used and are removed once it is gone, and new numbers get new
+ * cards. Only cards from before cards were numbered take over a number
+ * (edited card first).
+ */
+export function planClozeCards(text: string, editedId: string, cards: ClozeCardRef[]): ClozeCardPlan {
+  const numbers = clozeNumbers(text);
+  if (numbers.length === 0) return { assign: [], create: [], remove: [] };
+
+  const ordered = [...cards].sort((a, b) => (a.id === editedId ? -1 : b.id === editedId ? 1 : 0));
+  const taken = new Set<number>();
+  const leftovers: ClozeCardRef[] = [];
+  const remove: string[] = [];
+
+  for (const card of ordered) {
+    if (card.clozeIndex == null) {
+      leftovers.push(card);
+    } else if (numbers.includes(card.clozeIndex) && !taken.has(card.clozeIndex)) {
+      taken.add(card.clozeIndex);
+    } else {
+      remove.push(card.id);
+    }
+  }
+
+  const missing = numbers.filter(number => !taken.has(number));
+  const assign: ClozeCardPlan['assign'] = [];
+  for (const card of leftovers) {
+    const clozeIndex = missing.shift();
+    if (clozeIndex === undefined) {
+      remove.push(card.id);
+    } else {
+      assign.push({ id: card.id, clozeIndex });
+    }
+  }
+
+  return { assign, create: missing, remove };
+}
@@ -0,0 +1,92 @@
+/**
+ * Math and Code Spans
+ *
+ * Finds where the math and the code are in card text, for rendering,
+ * linting and converting it.
+ *
+ * Math may be written as \(...\), \[...\], $$...$$ or $...$. A single
+ * dollar only opens math when followed by a non-space and only closes it
+ * when preceded by a non-space and not followed by a digit, so prices like
+ * "$5 or $10" stay text; \$ is always a literal dollar. Code, whether a
+ * fenced block or an inline span, never holds math.
+ */
+
+// Fenced blocks are closed by a matching fence or the end of the text
+const FENCED_CODE = /^ {0,3}(`{3,}|~{3,})[^\n]*(?:\n[\s\S]*?)?(?:\n {0,3}\1[`~]*[ \t]*$|(?![\s\S]))/gm;
+const INLINE_CODE = /(`+)(?!`)[\s\S]+?(?<!`)\1(?!`)/g;
+
+const MATH_PATTERNS: Array<{ pattern: RegExp; displayMode: boolean; wrap?: (expression: string) => string }> = [
+  { pattern: /\\\((.*?)\\\)/gs, displayMode: false },
+  { pattern: /\\\[(.*?)\\\]/gs, displayMode: true },
+  // \displaylines is for multiple lines, which KaTeX writes as an aligned environment
+  { pattern: /\\displaylines\{(.*?)\}/gs, displayMode: true, wrap: expression => `\\begin{aligned}${expression}\\end{aligned}` },
+  { pattern: /(?<!\\)\$\$([\s\S]+?)(?<!\\)\$\$/g, displayMode: true },
+  { pattern: /(?<![\\$])\$(?![\s$])((?:\\[\s\S]|[^\\$\n]|\n(?!\n))+?)(?<!\s)\$(?!\d)/g, displayMode: false },
+];
+
+// Imported LaTeX often arrives HTML-escaped, which KaTeX would read literally
+const decodeEntities = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, "'")
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&');
+
+export interface MathSpan {
+  start: number;
+  end: number;
+  source: string; // as written, delimiters included
+  expression: string; // as handed to KaTeX
+  displayMode: boolean;
+}
+
+/**
+ * Where the code blocks and inline code spans in a piece of card text start
+ * and end, in order
+ */
+export function findCodeRanges(content: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let remaining = content;
+  for (const pattern of [FENCED_CODE, INLINE_CODE]) {
+    remaining = remaining.replace(pattern, (match: string, ...args: unknown[]) => {
+      const offset = args[args.length - 2] as number;
+      ranges.push({ start: offset, end: offset + match.length });
+      return ' '.repeat(match.length);
+    });
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Whether card text has a fenced code block, for opening editors in code mode
+ */
+export function hasCodeBlock(content: string | null | undefined): boolean {
+  return Boolean(content) && content!.search(FENCED_CODE) !== -1;
+}
+
+/**
+ * The math in a piece of card text, in order. Earlier delimiter styles win,
+ * so a dollar inside \(...\) doesn't start another span, and code is skipped.
+ */
+export function findMathSpans(content: string): MathSpan[] {
+  const spans: MathSpan[] = [];
+  let remaining = findCodeRanges(content).reduce((text, { start, end }) =>
+    text.slice(0, start) + ' '.repeat(end - start) + text.slice(end), content);
+  for (const { pattern, displayMode, wrap } of MATH_PATTERNS) {
+    // Found spans are blanked out rather than removed, so offsets keep matching the content
+    remaining = remaining.replace(pattern, (match: string, expression: string, offset: number) => {
+      // Clean up the expression - remove extra whitespace and newlines
+      const cleanExpression = decodeEntities(expression).trim().replace(/\s+/g, ' ');
+      spans.push({
+        start: offset,
+        end: offset + match.length,
+        source: content.slice(offset, offset + match.length),
+        expression: wrap ? wrap(cleanExpression) : cleanExpression,
+        displayMode,
+      });
+      return ' '.repeat(match.length);
+    });
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
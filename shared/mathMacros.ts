@@ -0,0 +1,51 @@
+/**
+ * Math Macros
+ *
+ * KaTeX macros a deck defines for every card in it, e.g. \R for \mathbb{R}.
+ * They are edited one per line as "\name = expansion"; an expansion may take
+ * arguments as #1, #2, ... the way KaTeX's own macros do.
+ */
+
+export type MathMacros = Record<string, string>;
+
+// A control word (\R) or a single control symbol (\!)
+export const MATH_MACRO_NAME = /^\\(?:[A-Za-z]+|[^A-Za-z\s])$/;
+
+export const MAX_MATH_MACROS = 100;
+export const MAX_MATH_MACRO_LENGTH = 500;
+
+const MACRO_LINE = /^(\\(?:[A-Za-z]+|[^A-Za-z\s=]))\s*=\s*(.*)$/;
+
+/**
+ * Read macros written one per line. Blank lines and lines starting with %
+ * are skipped; anything else that isn't "\name = expansion" is reported.
+ */
+export function parseMathMacros(text: string): { macros: MathMacros; errors: string[] } {
+  const macros: MathMacros = {};
+  const errors: string[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('%')) return;
+
+    const match = line.match(MACRO_LINE);
+    if (!match || !match[2].trim()) {
+      errors.push(`Line ${index + 1}: write macros as \\name = expansion`);
+    } else if (match[2].length > MAX_MATH_MACRO_LENGTH) {
+      errors.push(`Line ${index + 1}: ${match[1]} is longer than ${MAX_MATH_MACRO_LENGTH} characters`);
+    } else if (match[1] in macros) {
+      errors.push(`Line ${index + 1}: ${match[1]} is defined twice`);
+    } else {
+      macros[match[1]] = match[2].trim();
+    }
+  });
+
+  if (Object.keys(macros).length > MAX_MATH_MACROS) {
+    errors.push(`A deck can define at most ${MAX_MATH_MACROS} macros`);
+  }
+  return { macros, errors };
+}
+
+export function formatMathMacros(macros: MathMacros | null | undefined): string {
+  return Object.entries(macros || {}).map(([name, expansion]) => `${name} = ${expansion}`).join('\n');
+}
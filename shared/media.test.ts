@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { isMediaFilename, mediaReferences, unreferencedMedia } from './media';
+
+describe('mediaReferences', () => {
+  it('finds images and sounds in order of appearance, once each', () => {
+    const text = '<img src="a.png"> [sound:b.mp3] <IMG class="x" src=\'c.jpg\'> <img src="a.png">';
+    expect(mediaReferences(text)).toEqual(['a.png', 'c.jpg', 'b.mp3']);
+  });
+
+  it('ignores URLs and paths', () => {
+    expect(mediaReferences('<img src="https://example.com/a.png"> <img src="../a.png"> [sound:/etc/passwd]')).toEqual([]);
+  });
+
+  it('handles missing text', () => {
+    expect(mediaReferences(null)).toEqual([]);
+    expect(mediaReferences(undefined)).toEqual([]);
+  });
+});
+
+describe('isMediaFilename', () => {
+  it('accepts stored names and rejects anything that could leave the store', () => {
+    expect(isMediaFilename('3f2a.png')).toBe(true);
+    expect(isMediaFilename('a..png')).toBe(false);
+    expect(isMediaFilename('.hidden')).toBe(false);
+    expect(isMediaFilename('dir/a.png')).toBe(false);
+  });
+});
+
+describe('unreferencedMedia', () => {
+  it('returns the files no text refers to', () => {
+    const texts = ['<img src="kept.png">', null, '[sound:also-kept.mp3]', undefined];
+    expect(unreferencedMedia(['kept.png', 'gone.png', 'also-kept.mp3', 'gone.mp3'], texts))
+      .toEqual(['gone.png', 'gone.mp3']);
+  });
+
+  it('does not count a file mentioned as plain text as referenced', () => {
+    expect(unreferencedMedia(['a.png'], ['see a.png'])).toEqual(['a.png']);
+  });
+
+  it('returns every file when nothing refers to media', () => {
+    expect(unreferencedMedia(['a.png', 'b.ogg'], [])).toEqual(['a.png', 'b.ogg']);
+  });
+});
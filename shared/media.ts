@@ -0,0 +1,130 @@
+/**
+ * Media
+ *
+ * Images and audio clips are stored under content-hash filenames and
+ * referenced from card text the way Anki does: <img src="name.png"> for
+ * images and [sound:name.mp3] for audio. Rendering swaps those names for
+ * URLs the browser can load; garbage collection looks for files no card or
+ * note refers to any more.
+ */
+
+export type MediaKind = 'image' | 'audio';
+
+// Accepted upload types and the extension their files are stored with
+export const MEDIA_TYPES: Record<string, { kind: MediaKind; extension: string }> = {
+  'image/png': { kind: 'image', extension: 'png' },
+  'image/jpeg': { kind: 'image', extension: 'jpg' },
+  'image/gif': { kind: 'image', extension: 'gif' },
+  'image/webp': { kind: 'image', extension: 'webp' },
+  'audio/mpeg': { kind: 'audio', extension: 'mp3' },
+  'audio/ogg': { kind: 'audio', extension: 'ogg' },
+  'audio/wav': { kind: 'audio', extension: 'wav' },
+  'audio/webm': { kind: 'audio', extension: 'webm' },
+  'audio/mp4': { kind: 'audio', extension: 'm4a' },
+};
+
+// Uploads travel as base64 JSON, which has to fit the serverless body limit
+export const MAX_MEDIA_BYTES = 3 * 1024 * 1024;
+
+// Unreferenced files younger than this may belong to a card still being written
+export const MEDIA_GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export interface MediaFile {
+  filename: string;
+  contentType: string;
+  size: number;
+  createdAt?: Date | string;
+}
+
+const IMAGE_SOURCE = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])([^"']*)\2/gi;
+const SOUND_TAG = /\[sound:([^\]]+)\]/g;
+
+/**
+ * A stored file's name: its content hash plus the extension of its type
+ */
+export function mediaFilename(hash: string, contentType: string): string {
+  return `${hash}.${MEDIA_TYPES[contentType]?.extension ?? 'bin'}`;
+}
+
+/**
+ * Whether a name can be a stored file. Rules out URLs and paths, so a
+ * filename can safely be used as a storage key.
+ */
+export function isMediaFilename(name: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name) && !name.includes('..');
+}
+
+// Other extensions files of an accepted type commonly have, e.g. in an Anki collection
+const EXTENSION_ALIASES: Record<string, string> = { jpeg: 'jpg', oga: 'ogg', opus: 'ogg' };
+
+export function contentTypeForFilename(filename: string): string | null {
+  const named = filename.split('.').pop()?.toLowerCase() ?? '';
+  const extension = EXTENSION_ALIASES[named] ?? named;
+  const entry = Object.entries(MEDIA_TYPES).find(([, type]) => type.extension === extension);
+  return entry ? entry[0] : null;
+}
+
+/**
+ * The text to put in a card to show or play a stored file
+ */
+export function mediaMarkup(file: Pick<MediaFile, 'filename' | 'contentType'>): string {
+  return MEDIA_TYPES[file.contentType]?.kind === 'audio'
+    ? `[sound:${file.filename}]`
+    : `<img src="${file.filename}">`;
+}
+
+/**
+ * Stored files a piece of card text refers to, in order of appearance
+ */
+export function mediaReferences(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const names = new Set<string>();
+  for (const match of text.matchAll(IMAGE_SOURCE)) {
+    if (isMediaFilename(match[3])) names.add(match[3]);
+  }
+  for (const match of text.matchAll(SOUND_TAG)) {
+    if (isMediaFilename(match[1].trim())) names.add(match[1].trim());
+  }
+  return Array.from(names);
+}
+
+/**
+ * Swap the file names card text refers to, such as the names of imported
+ * files for the names they were stored under. Names `rename` has no
+ * replacement for are left as they are.
+ */
+export function renameMediaReferences(text: string, rename: (name: string) => string | undefined): string {
+  return text
+    .replace(IMAGE_SOURCE, (match, start: string, quote: string, name: string) => {
+      const renamed = rename(name);
+      return renamed ? `${start}${quote}${renamed}${quote}` : match;
+    })
+    .replace(SOUND_TAG, (match, name: string) => {
+      const renamed = rename(name.trim());
+      return renamed ? `[sound:${renamed}]` : match;
+    });
+}
+
+/**
+ * Point image sources at their URLs and turn sound tags into audio players.
+ * Files without a URL are left as they are.
+ */
+export function renderMedia(html: string, urlFor: (filename: string) => string | undefined): string {
+  return html
+    .replace(IMAGE_SOURCE, (match, start: string, quote: string, name: string) => {
+      const url = isMediaFilename(name) ? urlFor(name) : undefined;
+      return url ? `${start}${quote}${url}${quote}` : match;
+    })
+    .replace(SOUND_TAG, (match, name: string) => {
+      const url = isMediaFilename(name.trim()) ? urlFor(name.trim()) : undefined;
+      return url ? `<audio class="card-audio" controls preload="none" src="${url}"></audio>` : match;
+    });
+}
+
+/**
+ * Stored files none of the given texts refer to
+ */
+export function unreferencedMedia(filenames: string[], texts: Array<string | null | undefined>): string[] {
+  const referenced = new Set(texts.flatMap(mediaReferences));
+  return filenames.filter(filename => !referenced.has(filename));
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { buildChoices, choiceQuality, rankDistractors, seededRandom, type ChoiceCard } from './multipleChoice';
+
+let nextId = 0;
+const choiceCard = (back: string, fields: Partial<ChoiceCard> = {}): ChoiceCard => ({
+  id: `card-${++nextId}`, deckId: 'deck', back, type: 'choice', tags: '', noteId: null, ...fields,
+});
+
+const backs = (cards: ChoiceCard[]) => cards.map(card => card.back);
+
+describe('rankDistractors', () => {
+  const card = choiceCard('Mount Everest', { tags: 'geography' });
+
+  it('returns every usable candidate when there are fewer than asked for', () => {
+    expect(backs(rankDistractors(card, [choiceCard('K2')]))).toEqual(['K2']);
+    expect(rankDistractors(card, [])).toEqual([]);
+  });
+
+  it('ranks the candidates that look most like the answer first', () => {
+    const ranked = rankDistractors(card, [
+      choiceCard('The French Revolution began in 1789'),
+      choiceCard('Mount Kilimanjaro'),
+      choiceCard('Denali', { tags: 'geography' }),
+      choiceCard('Mount Fuji'),
+    ]);
+    expect(backs(ranked)).toEqual(['Mount Fuji', 'Mount Kilimanjaro', 'Denali']);
+  });
+
+  it('skips answers that read the same as the correct one or each other, whatever their case and markup', () => {
+    const ranked = rankDistractors(card, [
+      choiceCard('<b>mount everest</b>'),
+      choiceCard('K2'),
+      choiceCard('<i>k2</i>'),
+      choiceCard('   '),
+    ]);
+    expect(backs(ranked)).toEqual(['K2']);
+  });
+
+  it('leaves out the card itself, its siblings, cloze and image occlusion cards', () => {
+    const noteCard = { ...card, noteId: 'note' };
+    const ranked = rankDistractors(noteCard, [
+      noteCard,
+      choiceCard('Everest (reverse)', { noteId: 'note' }),
+      choiceCard('{{c1::Everest}}', { type: 'cloze' }),
+      choiceCard('<div class="occlusion"></div>', { type: 'occlusion' }),
+      choiceCard('K2'),
+    ]);
+    expect(backs(ranked)).toEqual(['K2']);
+  });
+
+  it('only takes cards from other decks that share a topic tag', () => {
+    const ranked = rankDistractors(card, [
+      choiceCard('Aconcagua', { deckId: 'other', tags: 'Geography' }),
+      choiceCard('Ben Nevis', { deckId: 'other', tags: 'leech' }),
+      choiceCard('Mont Blanc', { deckId: 'other' }),
+    ]);
+    expect(backs(ranked)).toEqual(['Aconcagua']);
+  });
+
+  it('does not treat a shared leech tag as a shared topic', () => {
+    const leech = { ...card, tags: 'leech' };
+    expect(rankDistractors(leech, [choiceCard('Ben Nevis', { deckId: 'other', tags: 'leech' })])).toEqual([]);
+  });
+});
+
+describe('buildChoices', () => {
+  const card = choiceCard('Mount Everest');
+  const pool = [choiceCard('K2'), choiceCard('Mount Fuji'), choiceCard('Denali'), choiceCard('Mont Blanc')];
+
+  it('offers the answer once among the distractors', () => {
+    const choices = buildChoices(card, pool, seededRandom('seed'));
+    expect(choices).toHaveLength(4);
+    expect(choices.filter(choice => choice === 'Mount Everest')).toHaveLength(1);
+  });
+
+  it('offers fewer options when the pool is small', () => {
+    expect(buildChoices(card, [choiceCard('K2')], seededRandom('seed')).sort()).toEqual(['K2', 'Mount Everest']);
+  });
+
+  it('offers nothing when there are no distractors', () => {
+    expect(buildChoices(card, [])).toEqual([]);
+    expect(buildChoices(card, [choiceCard('mount everest')])).toEqual([]);
+  });
+
+  it('shuffles the same way for the same seed', () => {
+    expect(buildChoices(card, pool, seededRandom('session:card'))).toEqual(buildChoices(card, pool, seededRandom('session:card')));
+  });
+});
+
+describe('seededRandom', () => {
+  it('returns numbers in [0, 1) that depend on the seed', () => {
+    const first = seededRandom('a');
+    const values = Array.from({ length: 100 }, () => first());
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(seededRandom('b')()).not.toBe(seededRandom('a')());
+  });
+});
+
+describe('choiceQuality', () => {
+  it('suggests Good for the right option and Again otherwise', () => {
+    expect(choiceQuality(true)).toBe(3);
+    expect(choiceQuality(false)).toBe(1);
+  });
+});
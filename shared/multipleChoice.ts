@@ -0,0 +1,123 @@
+/**
+ * Multiple Choice
+ *
+ * Presents a card's back among distractor backs taken from other cards in the
+ * same deck or sharing a tag. Distractors are ranked by how similar they are
+ * to the correct answer so that the wrong options stay plausible.
+ */
+
+import { parseTags } from './tags';
+import { LEECH_TAG } from './scheduler/leech';
+import { answerText } from './typedAnswer';
+
+export interface ChoiceCard {
+  id: string;
+  deckId: string;
+  back: string;
+  type: string;
+  tags?: string | null;
+  noteId?: string | null;
+}
+
+export const DISTRACTOR_COUNT = 3;
+
+// Bookkeeping tags say nothing about what a card is about
+const topicTags = (tags: string | null | undefined) =>
+  parseTags(tags).map(tag => tag.toLowerCase()).filter(tag => tag !== LEECH_TAG);
+
+const tokens = (text: string) => new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+/**
+ * How alike two answers look, from 0 to 1: similar length, shared words and
+ * shared tags all count
+ */
+export function choiceSimilarity(card: ChoiceCard, candidate: ChoiceCard): number {
+  const answer = answerText(card.back);
+  const other = answerText(candidate.back);
+
+  const longest = Math.max(answer.length, other.length, 1);
+  const lengthScore = 1 - Math.abs(answer.length - other.length) / longest;
+
+  const answerTokens = tokens(answer);
+  const otherTokens = tokens(other);
+  const shared = Array.from(answerTokens).filter(token => otherTokens.has(token)).length;
+  const union = answerTokens.size + otherTokens.size - shared;
+  const tokenScore = union === 0 ? 0 : shared / union;
+
+  const cardTags = topicTags(card.tags);
+  const tagScore = topicTags(candidate.tags).some(tag => cardTags.includes(tag)) ? 1 : 0;
+
+  return 0.4 * lengthScore + 0.4 * tokenScore + 0.2 * tagScore;
+}
+
+/**
+ * The most plausible wrong answers for a card. Candidates must come from the
+ * same deck or share a tag; siblings of the same note, cloze and image
+ * occlusion cards and answers that read the same as the correct one are skipped.
+ */
+export function rankDistractors(card: ChoiceCard, candidates: ChoiceCard[], count = DISTRACTOR_COUNT): ChoiceCard[] {
+  const cardTags = topicTags(card.tags);
+  const seen = new Set([answerText(card.back).toLowerCase()]);
+
+  return candidates
+    .filter(candidate =>
+      candidate.id !== card.id &&
+      !(card.noteId && candidate.noteId === card.noteId) &&
+      candidate.type !== 'cloze' &&
+      candidate.type !== 'occlusion' &&
+      (candidate.deckId === card.deckId || topicTags(candidate.tags).some(tag => cardTags.includes(tag)))
+    )
+    .map(candidate => ({ candidate, score: choiceSimilarity(card, candidate) }))
+    .sort((a, b) => b.score - a.score)
+    .filter(({ candidate }) => {
+      const answer = answerText(candidate.back).toLowerCase();
+      if (!answer || seen.has(answer)) return false;
+      seen.add(answer);
+      return true;
+    })
+    .slice(0, count)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * The options to show for a card: its own back plus the distractors, shuffled.
+ * Empty when the deck has no usable distractors.
+ */
+export function buildChoices(card: ChoiceCard, candidates: ChoiceCard[], random: () => number = Math.random): string[] {
+  const distractors = rankDistractors(card, candidates);
+  if (distractors.length === 0) return [];
+
+  const choices = [card.back, ...distractors.map(distractor => distractor.back)];
+  for (let i = choices.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [choices[i], choices[j]] = [choices[j], choices[i]];
+  }
+  return choices;
+}
+
+/**
+ * A repeatable random number generator, so the same seed (e.g. session and
+ * card) always shuffles the options the same way
+ */
+export function seededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 2654435761) >>> 0;
+  }
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Suggested grade on the 1-4 review scale: Good when the right option was
+ * picked, Again otherwise
+ */
+export function choiceQuality(wasCorrect: boolean): 1 | 3 {
+  return wasCorrect ? 3 : 1;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { builtInNoteType, generateNoteCards, planNoteCards, type NoteTypeDefinition } from './noteTypes';
+import { planClozeCards } from './cloze';
+
+const cloze = builtInNoteType('cloze');
+const reverse = builtInNoteType('reverse');
+
+const plan = (noteType: NoteTypeDefinition, fields: Record<string, string>, existing: Parameters<typeof planNoteCards>[2]) =>
+  planNoteCards(noteType, generateNoteCards(noteType, fields), existing);
+
+describe('planNoteCards', () => {
+  it('keeps each cloze card on its own number', () => {
+    const result = plan(cloze, { Text: '{{c1::a}} {{c2::b}}', Extra: '' }, [
+      { id: 'two', type: 'cloze', templateIndex: 0, clozeIndex: 2 },
+      { id: 'one', type: 'cloze', templateIndex: 0, clozeIndex: 1 },
+    ]);
+    expect(result.update.map(({ id, card }) => [id, card.clozeIndex])).toEqual([['two', 2], ['one', 1]]);
+    expect(result.create).toEqual([]);
+    expect(result.remove).toEqual([]);
+  });
+
+  it('removes the card of a deleted cloze and makes a new one for a new number', () => {
+    const result = plan(cloze, { Text: '{{c2::b}} {{c3::c}}', Extra: '' }, [
+      { id: 'one', type: 'cloze', templateIndex: 0, clozeIndex: 1 },
+      { id: 'two', type: 'cloze', templateIndex: 0, clozeIndex: 2 },
+    ]);
+    expect(result.update.map(({ id, card }) => [id, card.clozeIndex])).toEqual([['two', 2]]);
+    expect(result.create.map(card => card.clozeIndex)).toEqual([3]);
+    expect(result.remove).toEqual(['one']);
+  });
+
+  it('lets a cloze card from before cards were numbered take a number', () => {
+    const result = plan(cloze, { Text: '{{c1::a}}', Extra: '' }, [{ id: 'old', type: 'cloze' }]);
+    expect(result.update.map(({ id, card }) => [id, card.clozeIndex])).toEqual([['old', 1]]);
+    expect(result.create).toEqual([]);
+  });
+
+  it('hands a card whose template no longer matches to a new card of the same template', () => {
+    const result = plan(reverse, { Front: 'a', Back: 'b' }, [
+      { id: 'forward', type: 'basic', templateIndex: 0 },
+    ]);
+    expect(result.update.map(({ id, card }) => [id, card.templateIndex])).toEqual([['forward', 0]]);
+    expect(result.create.map(card => card.templateIndex)).toEqual([1]);
+  });
+});
+
+describe('planClozeCards', () => {
+  it('removes the cards of deleted numbers and creates cards for new ones', () => {
+    expect(planClozeCards('{{c2::b}} {{c3::c}}', 'one', [
+      { id: 'one', clozeIndex: 1 },
+      { id: 'two', clozeIndex: 2 },
+    ])).toEqual({ assign: [], create: [3], remove: ['one'] });
+  });
+
+  it('numbers cards from before cards were numbered, edited card first', () => {
+    expect(planClozeCards('{{c1::a}} {{c2::b}}', 'edited', [
+      { id: 'other', clozeIndex: null },
+      { id: 'edited', clozeIndex: null },
+    ])).toEqual({ assign: [{ id: 'edited', clozeIndex: 1 }, { id: 'other', clozeIndex: 2 }], create: [], remove: [] });
+  });
+
+  it('removes a second card on the same number', () => {
+    expect(planClozeCards('{{c1::a}}', 'one', [
+      { id: 'one', clozeIndex: 1 },
+      { id: 'copy', clozeIndex: 1 },
+    ])).toEqual({ assign: [], create: [], remove: ['copy'] });
+  });
+});
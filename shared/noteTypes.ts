@@ -0,0 +1,256 @@
+/**
+ * Note Types
+ *
+ * A note holds named field values; its note type's templates turn those
+ * fields into cards. Templates are HTML with {{Field}} placeholders and
+ * {{#Field}}...{{/Field}} sections shown only when the field is filled
+ * ({{^Field}}...{{/Field}} when it is empty). Cloze note types make one card
+ * per cloze number in their template's front instead of one per template,
+ * and image occlusion templates one per mask (see ./occlusion).
+ *
+ * Cards keep the rendered front and back, so studying never needs the note.
+ */
+
+import { clozeNumbers } from './cloze';
+import { occlusionCards, OCCLUSION_FIELDS } from './occlusion';
+
+// How a generated card is studied
+export const NOTE_CARD_TYPES = ['basic', 'reverse', 'typed', 'choice'] as const;
+export type NoteCardType = typeof NOTE_CARD_TYPES[number] | 'cloze' | 'occlusion';
+
+export interface NoteTemplate {
+  name: string;
+  front: string;
+  back: string;
+  cardType: NoteCardType;
+}
+
+export interface NoteTypeDefinition {
+  id: string;
+  name: string;
+  fields: string[];
+  templates: NoteTemplate[];
+  isCloze: boolean;
+}
+
+export type NoteFields = Record<string, string>;
+
+export interface GeneratedCard {
+  front: string;
+  back: string;
+  hint?: string | null;
+  type: string;
+  templateIndex?: number;
+  clozeIndex?: number;
+}
+
+const template = (name: string, front: string, back: string, cardType: NoteCardType): NoteTemplate =>
+  ({ name, front, back, cardType });
+
+// Built-in types use the card type names as ids, so existing cards map onto them
+export const BUILT_IN_NOTE_TYPES: NoteTypeDefinition[] = [
+  {
+    id: 'basic',
+    name: 'Basic (Front → Back)',
+    fields: ['Front', 'Back'],
+    templates: [template('Card 1', '{{Front}}', '{{Back}}', 'basic')],
+    isCloze: false,
+  },
+  {
+    // Cards have always been saved as "reverse" to be studied both ways
+    id: 'reverse',
+    name: 'Reverse (Back → Front too)',
+    fields: ['Front', 'Back'],
+    templates: [
+      template('Card 1', '{{Front}}', '{{Back}}', 'basic'),
+      template('Reverse', '{{Back}}', '{{Front}}', 'reverse'),
+    ],
+    isCloze: false,
+  },
+  {
+    id: 'reverse-only',
+    name: 'Back → Front only',
+    fields: ['Front', 'Back'],
+    templates: [template('Reverse', '{{Back}}', '{{Front}}', 'reverse')],
+    isCloze: false,
+  },
+  {
+    id: 'cloze',
+    name: 'Cloze Deletion',
+    fields: ['Text', 'Extra'],
+    templates: [template('Cloze', '{{Text}}', '{{Extra}}', 'cloze')],
+    isCloze: true,
+  },
+  {
+    id: 'typed',
+    name: 'Type in the Answer',
+    fields: ['Front', 'Back'],
+    templates: [template('Card 1', '{{Front}}', '{{Back}}', 'typed')],
+    isCloze: false,
+  },
+  {
+    id: 'choice',
+    name: 'Multiple Choice',
+    fields: ['Front', 'Back'],
+    templates: [template('Card 1', '{{Front}}', '{{Back}}', 'choice')],
+    isCloze: false,
+  },
+  {
+    id: 'occlusion',
+    name: 'Image Occlusion',
+    fields: [OCCLUSION_FIELDS.image, OCCLUSION_FIELDS.masks, OCCLUSION_FIELDS.header, OCCLUSION_FIELDS.extra],
+    templates: [template('Occlusion', '{{Image}}', '{{Back Extra}}', 'occlusion')],
+    isCloze: false,
+  },
+];
+
+export function isBuiltInNoteType(id: string): boolean {
+  return BUILT_IN_NOTE_TYPES.some(noteType => noteType.id === id);
+}
+
+const isOcclusionNoteType = (noteType: NoteTypeDefinition) =>
+  noteType.templates.some(noteTemplate => noteTemplate.cardType === 'occlusion');
+
+/**
+ * Whether a note's cards can be edited as a plain front and back, i.e. it is
+ * a built-in type other than image occlusion
+ */
+export function isPlainNoteType(id: string): boolean {
+  return isBuiltInNoteType(id) && !isOcclusionNoteType(builtInNoteType(id));
+}
+
+/**
+ * The built-in note type behind a card type, falling back to basic
+ */
+export function builtInNoteType(type?: string | null): NoteTypeDefinition {
+  return BUILT_IN_NOTE_TYPES.find(noteType => noteType.id === type) || BUILT_IN_NOTE_TYPES[0];
+}
+
+/**
+ * Field values for a built-in note written as a plain front and back
+ */
+export function builtInNoteFields(noteType: NoteTypeDefinition, content: { front: string; back: string }): NoteFields {
+  const [first, second] = noteType.fields;
+  return { [first]: content.front, [second]: content.back };
+}
+
+const SECTION = /\{\{([#^])\s*([^{}]+?)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const PLACEHOLDER = /\{\{\s*([^#^/{}][^{}]*?)\s*\}\}/g;
+
+/**
+ * Fill a template with the note's fields. Unknown fields render empty.
+ */
+export function renderTemplate(source: string, fields: NoteFields): string {
+  const filled = (name: string) => Boolean(fields[name]?.trim());
+
+  let rendered = source;
+  // Sections may be nested, so expand from the inside out until none are left
+  for (let previous = ''; previous !== rendered;) {
+    previous = rendered;
+    rendered = rendered.replace(SECTION, (_, kind: string, name: string, body: string) =>
+      (kind === '#') === filled(name) ? body : ''
+    );
+  }
+
+  return rendered.replace(PLACEHOLDER, (_, name: string) => fields[name] ?? '').trim();
+}
+
+/**
+ * Field names a template refers to
+ */
+export function templateFieldNames(source: string): string[] {
+  const names = new Set<string>();
+  for (const match of source.matchAll(/\{\{[#^/]?\s*([^{}]+?)\s*\}\}/g)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+/**
+ * The cards a note produces. Templates whose front renders empty are skipped;
+ * a cloze template makes one card per cloze number on its front.
+ */
+export function generateNoteCards(noteType: NoteTypeDefinition, fields: NoteFields): GeneratedCard[] {
+  return noteType.templates.flatMap((noteTemplate, templateIndex): GeneratedCard[] => {
+    if (noteTemplate.cardType === 'occlusion') {
+      return occlusionCards(fields).map(card => ({ ...card, type: 'occlusion', templateIndex }));
+    }
+
+    const front = renderTemplate(noteTemplate.front, fields);
+    if (!front) return [];
+    const card = { front, back: renderTemplate(noteTemplate.back, fields), templateIndex };
+
+    if (!noteType.isCloze) return [{ ...card, type: noteTemplate.cardType }];
+    return clozeNumbers(front).map(clozeIndex => ({ ...card, type: 'cloze', clozeIndex }));
+  });
+}
+
+/**
+ * Why a note can't be saved as filled in, or null when it makes at least one card
+ */
+export function noteFieldsError(noteType: NoteTypeDefinition, fields: NoteFields): string | null {
+  if (generateNoteCards(noteType, fields).length > 0) return null;
+  if (noteType.isCloze) return 'Add at least one cloze deletion, e.g. {{c1::answer}}';
+  if (isOcclusionNoteType(noteType)) return 'Add an image and draw at least one mask over it';
+
+  const frontFields = new Set(noteType.templates.flatMap(noteTemplate => templateFieldNames(noteTemplate.front)));
+  return `Fill in a field shown on the front of a card (${Array.from(frontFields).join(', ')})`;
+}
+
+export interface NoteCardRef {
+  id: string;
+  type: string;
+  templateIndex?: number | null;
+  clozeIndex?: number | null;
+}
+
+export interface NoteCardPlan {
+  update: Array<{ id: string; card: GeneratedCard }>;
+  create: GeneratedCard[];
+  remove: string[];
+}
+
+/**
+ * Match a note's existing cards with the cards it generates after an edit.
+ * Cards keep their template and cloze number where still generated; the rest
+ * take over new cards of the same template (keeping their history) before
+ * anything is removed. Cloze and image occlusion cards belong to their cloze
+ * deletion or mask alone, so a deleted one's card is removed rather than handed
+ * to a new number, which starts as a new card. Cards made before note types
+ * recorded a template are matched by their card type.
+ */
+export function planNoteCards(noteType: NoteTypeDefinition, generated: GeneratedCard[], existing: NoteCardRef[]): NoteCardPlan {
+  const templateOf = (card: NoteCardRef) => card.templateIndex ??
+    noteType.templates.findIndex(noteTemplate => noteTemplate.cardType === card.type);
+  const key = (templateIndex: number | undefined, clozeIndex?: number | null) => `${templateIndex}:${clozeIndex ?? ''}`;
+  const numbered = noteType.isCloze || isOcclusionNoteType(noteType);
+
+  const unmatched = new Map(generated.map(card => [key(card.templateIndex, card.clozeIndex), card]));
+  const update: NoteCardPlan['update'] = [];
+  const leftovers: NoteCardRef[] = [];
+
+  for (const card of existing) {
+    const cardKey = key(templateOf(card), numbered ? card.clozeIndex : undefined);
+    const match = unmatched.get(cardKey);
+    if (match) {
+      update.push({ id: card.id, card: match });
+      unmatched.delete(cardKey);
+    } else {
+      leftovers.push(card);
+    }
+  }
+
+  const remove: string[] = [];
+  for (const card of leftovers) {
+    const replacement = !(numbered && card.clozeIndex != null) &&
+      Array.from(unmatched.entries()).find(([, candidate]) => candidate.templateIndex === templateOf(card));
+    if (replacement) {
+      update.push({ id: card.id, card: replacement[1] });
+      unmatched.delete(replacement[0]);
+    } else {
+      remove.push(card.id);
+    }
+  }
+
+  return { update, create: Array.from(unmatched.values()), remove };
+}
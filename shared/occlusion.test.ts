@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_OCCLUSION_MASKS,
+  nextOcclusionId,
+  occlusionCards,
+  parseOcclusionMasks,
+  renderOcclusion,
+  serializeOcclusionMasks,
+  type OcclusionMasks,
+  type OcclusionShape,
+} from './occlusion';
+
+const image = '<img src="heart.png">';
+const rect = (id: number, x = 10, y = 10): OcclusionShape => ({ id, kind: 'rect', x, y, width: 30, height: 30 });
+
+// The class of each shape in an overlay, in drawing order
+const drawn = (html: string) => Array.from(html.matchAll(/<(rect|polygon) class="([^"]+)"/g), match => match[2]);
+
+describe('parseOcclusionMasks', () => {
+  it('reads an empty or unreadable field as no masks', () => {
+    for (const json of [undefined, null, '', '  ', '{not json', '[]', '{"shapes": "none"}']) {
+      expect(parseOcclusionMasks(json)).toEqual(EMPTY_OCCLUSION_MASKS);
+    }
+  });
+
+  it('reads back what it wrote', () => {
+    const masks: OcclusionMasks = {
+      mode: 'hide-all',
+      shapes: [rect(1), { id: 2, kind: 'polygon', points: [[0, 0], [10, 0], [5, 8]] }],
+    };
+    expect(parseOcclusionMasks(serializeOcclusionMasks(masks))).toEqual(masks);
+  });
+
+  it('drops malformed shapes and shapes reusing a number', () => {
+    const masks = parseOcclusionMasks(JSON.stringify({
+      mode: 'sideways',
+      shapes: [
+        rect(1),
+        rect(1, 50, 50),
+        { id: 0, kind: 'rect', x: 0, y: 0, width: 1, height: 1 },
+        { id: 3, kind: 'rect', x: 0, y: 0, width: '1', height: 1 },
+        { id: 4, kind: 'polygon', points: [[0, 0], [1, 1]] },
+        { id: 5, kind: 'circle', x: 0, y: 0 },
+      ],
+    }));
+    expect(masks).toEqual({ mode: 'hide-one', shapes: [rect(1)] });
+  });
+});
+
+describe('nextOcclusionId', () => {
+  it('never reuses a number below the highest one still in use', () => {
+    expect(nextOcclusionId([])).toBe(1);
+    expect(nextOcclusionId([rect(1), rect(4)])).toBe(5);
+  });
+});
+
+describe('renderOcclusion', () => {
+  // Mask 2 overlaps both of the others
+  const overlapping: OcclusionMasks = { mode: 'hide-all', shapes: [rect(1, 10, 10), rect(2, 20, 20), rect(3, 30, 30)] };
+
+  it('hides only the asked-for mask in hide-one mode', () => {
+    const masks = { ...overlapping, mode: 'hide-one' as const };
+    expect(drawn(renderOcclusion(image, masks, 2, 'front'))).toEqual(['occlusion-mask occlusion-target']);
+    expect(drawn(renderOcclusion(image, masks, 2, 'back'))).toEqual(['occlusion-revealed']);
+  });
+
+  it('hides every mask in hide-all mode and draws the asked-for one over overlapping masks', () => {
+    expect(drawn(renderOcclusion(image, overlapping, 2, 'front'))).toEqual([
+      'occlusion-mask',
+      'occlusion-mask',
+      'occlusion-mask occlusion-target',
+    ]);
+    expect(drawn(renderOcclusion(image, overlapping, 1, 'back'))).toEqual(['occlusion-mask', 'occlusion-mask', 'occlusion-revealed']);
+  });
+
+  it('keeps the image under the overlay', () => {
+    const html = renderOcclusion(image, overlapping, 1, 'front');
+    expect(html.startsWith(`<div class="occlusion">${image}<svg`)).toBe(true);
+  });
+});
+
+describe('occlusionCards', () => {
+  const fields = (masks: OcclusionMasks, extra: Record<string, string> = {}) => ({
+    Image: image,
+    Masks: serializeOcclusionMasks(masks),
+    ...extra,
+  });
+
+  it('makes one card per mask, numbered by the mask, even when masks overlap', () => {
+    const cards = occlusionCards(fields({ mode: 'hide-one', shapes: [rect(3), rect(1, 12, 12)] }));
+    expect(cards.map(card => card.clozeIndex)).toEqual([3, 1]);
+    expect(new Set(cards.map(card => card.front)).size).toBe(2);
+  });
+
+  it('makes no cards without an image or masks', () => {
+    expect(occlusionCards(fields({ mode: 'hide-one', shapes: [rect(1)] }, { Image: ' ' }))).toEqual([]);
+    expect(occlusionCards(fields(EMPTY_OCCLUSION_MASKS))).toEqual([]);
+  });
+
+  it('adds the header to both sides and the extra to the back', () => {
+    const [card] = occlusionCards(fields({ mode: 'hide-one', shapes: [rect(1)] }, { Header: 'Heart', 'Back Extra': 'Left atrium' }));
+    expect(card.front).toContain('<div class="occlusion-header">Heart</div>');
+    expect(card.back).toContain('<div class="occlusion-header">Heart</div>');
+    expect(card.front).not.toContain('Left atrium');
+    expect(card.back).toContain('<div class="cloze-extra">Left atrium</div>');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Image Occlusion
+ *
+ * Masks drawn over an image, each of which becomes its own card. Mask
+ * geometry is stored as JSON in the note's Masks field, in percentages of
+ * the image's size. Every mask keeps the number it was given when drawn,
+ * which its card records, so masks can be moved, reshaped or deleted later
+ * without the other cards losing their review history.
+ *
+ * "hide-one" hides only the asked-for region; "hide-all" hides every region
+ * and highlights the one being asked for. Cards keep the rendered result:
+ * the image with an SVG overlay of the masks.
+ */
+
+export type OcclusionMode = 'hide-one' | 'hide-all';
+
+export type OcclusionPoint = [number, number];
+
+export type OcclusionShape =
+  | { id: number; kind: 'rect'; x: number; y: number; width: number; height: number }
+  | { id: number; kind: 'polygon'; points: OcclusionPoint[] };
+
+export interface OcclusionMasks {
+  mode: OcclusionMode;
+  shapes: OcclusionShape[];
+}
+
+// Field names of the built-in image occlusion note type
+export const OCCLUSION_FIELDS = {
+  image: 'Image',
+  masks: 'Masks',
+  header: 'Header',
+  extra: 'Back Extra',
+} as const;
+
+export const EMPTY_OCCLUSION_MASKS: OcclusionMasks = { mode: 'hide-one', shapes: [] };
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isShape = (shape: unknown): shape is OcclusionShape => {
+  const candidate = shape as Record<string, unknown> | null;
+  if (!candidate || !Number.isInteger(candidate.id) || (candidate.id as number) < 1) return false;
+  if (candidate.kind === 'rect') {
+    return [candidate.x, candidate.y, candidate.width, candidate.height].every(isNumber);
+  }
+  return candidate.kind === 'polygon' &&
+    Array.isArray(candidate.points) &&
+    candidate.points.length >= 3 &&
+    candidate.points.every(point => Array.isArray(point) && point.length === 2 && point.every(isNumber));
+};
+
+/**
+ * Read a Masks field. Anything unreadable counts as no masks, and shapes
+ * reusing a number are dropped, so every card keeps a unique mask.
+ */
+export function parseOcclusionMasks(json: string | null | undefined): OcclusionMasks {
+  if (!json?.trim()) return EMPTY_OCCLUSION_MASKS;
+  try {
+    const parsed = JSON.parse(json);
+    const seen = new Set<number>();
+    const shapes = (Array.isArray(parsed?.shapes) ? parsed.shapes : []).filter((shape: unknown) => {
+      if (!isShape(shape) || seen.has(shape.id)) return false;
+      seen.add(shape.id);
+      return true;
+    });
+    return { mode: parsed?.mode === 'hide-all' ? 'hide-all' : 'hide-one', shapes };
+  } catch {
+    return EMPTY_OCCLUSION_MASKS;
+  }
+}
+
+export function serializeOcclusionMasks(masks: OcclusionMasks): string {
+  return JSON.stringify(masks);
+}
+
+/**
+ * The number for a newly drawn mask. Numbers are never reused while the
+ * note keeps higher ones, so a new mask doesn't inherit a deleted card.
+ */
+export function nextOcclusionId(shapes: OcclusionShape[]): number {
+  return shapes.reduce((highest, shape) => Math.max(highest, shape.id), 0) + 1;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const shapeMarkup = (shape: OcclusionShape, className: string): string => {
+  if (shape.kind === 'rect') {
+    return `<rect class="${className}" x="${round(shape.x)}" y="${round(shape.y)}" width="${round(shape.width)}" height="${round(shape.height)}"/>`;
+  }
+  const points = shape.points.map(([x, y]) => `${round(x)},${round(y)}`).join(' ');
+  return `<polygon class="${className}" points="${points}"/>`;
+};
+
+/**
+ * The image with the masks for one card drawn over it. The asked-for mask is
+ * drawn last, so masks overlapping it can't cover it up.
+ */
+export function renderOcclusion(image: string, masks: OcclusionMasks, targetId: number, side: 'front' | 'back'): string {
+  const shapes = [...masks.shapes]
+    .sort((a, b) => Number(a.id === targetId) - Number(b.id === targetId))
+    .map(shape => {
+      if (shape.id === targetId) {
+        return shapeMarkup(shape, side === 'front' ? 'occlusion-mask occlusion-target' : 'occlusion-revealed');
+      }
+      return masks.mode === 'hide-all' ? shapeMarkup(shape, 'occlusion-mask') : '';
+    })
+    .join('');
+
+  return `<div class="occlusion">${image}<svg class="occlusion-masks" viewBox="0 0 100 100" preserveAspectRatio="none">${shapes}</svg></div>`;
+}
+
+/**
+ * The cards of an image occlusion note: one per mask, numbered by its mask
+ */
+export function occlusionCards(fields: Record<string, string>): Array<{ front: string; back: string; clozeIndex: number }> {
+  const image = fields[OCCLUSION_FIELDS.image]?.trim();
+  if (!image) return [];
+
+  const masks = parseOcclusionMasks(fields[OCCLUSION_FIELDS.masks]);
+  const header = fields[OCCLUSION_FIELDS.header]?.trim();
+  const extra = fields[OCCLUSION_FIELDS.extra]?.trim();
+  const headerMarkup = header ? `<div class="occlusion-header">${header}</div>` : '';
+
+  return masks.shapes.map(shape => ({
+    front: headerMarkup + renderOcclusion(image, masks, shape.id, 'front'),
+    back: headerMarkup + renderOcclusion(image, masks, shape.id, 'back') + (extra ? `<div class="cloze-extra">${extra}</div>` : ''),
+    clozeIndex: shape.id,
+  }));
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { fsrsInterval, retrievability, scheduleFSRS, seedFsrsState, MASTERED_STABILITY } from './fsrs';
+import { addDays } from './time';
+import type { SchedulingState } from './types';
+
+const now = new Date('2026-01-10T12:00:00Z');
+
+const newCard: SchedulingState = { stage: 'new', interval: 1, easeFactor: 2.5, consecutiveCorrect: 0 };
+
+const review = (quality: number) => ({ quality, wasCorrect: quality > 1 });
+
+describe('retrievability and intervals', () => {
+  it('is 90% after as many days as the stability', () => {
+    expect(retrievability(10, 10)).toBeCloseTo(0.9);
+    expect(retrievability(0, 10)).toBe(1);
+  });
+
+  it('schedules at the stability for 90% retention', () => {
+    expect(fsrsInterval(10, 0.9)).toBe(10);
+  });
+
+  it('schedules sooner for higher retention and clamps to the maximum', () => {
+    expect(fsrsInterval(10, 0.95)).toBeLessThan(10);
+    expect(fsrsInterval(10000, 0.9, 365)).toBe(365);
+    expect(fsrsInterval(0.1, 0.9)).toBe(1);
+  });
+});
+
+describe('scheduleFSRS', () => {
+  it('moves a new card to learning with an initial memory state', () => {
+    const result = scheduleFSRS(newCard, review(3), null, now);
+    expect(result.stage).toBe('learning');
+    expect(result.stability).toBeCloseTo(3.7145);
+    expect(result.interval).toBe(fsrsInterval(result.stability));
+    expect(result.nextReviewAt).toEqual(addDays(now, result.interval));
+  });
+
+  it('rates a new card easier the better the first grade', () => {
+    const hard = scheduleFSRS(newCard, review(2), null, now);
+    const easy = scheduleFSRS(newCard, review(4), null, now);
+    expect(easy.stability).toBeGreaterThan(hard.stability);
+    expect(easy.difficulty).toBeLessThan(hard.difficulty);
+  });
+
+  it('moves a learned card to review and grows its stability on recall', () => {
+    const learned: SchedulingState = { stage: 'learning', interval: 4, easeFactor: 2.5, consecutiveCorrect: 1, stability: 4, difficulty: 0.5, lastReviewedAt: addDays(now, -4) };
+    const result = scheduleFSRS(learned, review(3), null, now);
+    expect(result.stage).toBe('review');
+    expect(result.stability).toBeGreaterThan(4);
+    expect(result.consecutiveCorrect).toBe(2);
+  });
+
+  it('counts Hard as a recall', () => {
+    const learned: SchedulingState = { stage: 'review', interval: 10, easeFactor: 2.5, consecutiveCorrect: 2, stability: 10, difficulty: 0.5, lastReviewedAt: addDays(now, -10) };
+    const result = scheduleFSRS(learned, review(2), null, now);
+    expect(result.stage).toBe('review');
+    expect(result.stability).toBeGreaterThan(10);
+  });
+
+  it('masters a card once its stability reaches the mastered stability', () => {
+    const strong: SchedulingState = { stage: 'review', interval: 80, easeFactor: 2.5, consecutiveCorrect: 5, stability: 80, difficulty: 0.3, lastReviewedAt: addDays(now, -80) };
+    const result = scheduleFSRS(strong, review(3), null, now);
+    expect(result.stability).toBeGreaterThanOrEqual(MASTERED_STABILITY);
+    expect(result.stage).toBe('mastered');
+  });
+
+  it('demotes a forgotten card to learning on the relearning step with lower stability', () => {
+    const mastered: SchedulingState = { stage: 'mastered', interval: 120, easeFactor: 2.5, consecutiveCorrect: 6, stability: 120, difficulty: 0.4, lastReviewedAt: addDays(now, -120) };
+    const result = scheduleFSRS(mastered, review(1), { relearningSteps: [15] }, now);
+    expect(result.stage).toBe('learning');
+    expect(result.stability).toBeLessThan(120);
+    expect(result.consecutiveCorrect).toBe(0);
+    expect(result.nextReviewAt.getTime() - now.getTime()).toBe(15 * 60000);
+    expect(result.difficulty).toBeGreaterThan(0.4);
+  });
+
+  it('falls back to the interval for cards last scheduled with SM-2', () => {
+    const sm2Card: SchedulingState = { stage: 'review', interval: 12, easeFactor: 2.5, consecutiveCorrect: 2, stability: 0, lastReviewedAt: addDays(now, -12) };
+    expect(scheduleFSRS(sm2Card, review(3), null, now).stability).toBeGreaterThan(12);
+  });
+});
+
+describe('seedFsrsState', () => {
+  it('returns null without history', () => {
+    expect(seedFsrsState([])).toBeNull();
+  });
+
+  it('replays reviews in date order to the same state as scheduling them one by one', () => {
+    const first = addDays(now, -10);
+    const seeded = seedFsrsState([
+      { quality: 3, createdAt: now.toISOString() },
+      { quality: 3, createdAt: first },
+    ])!;
+    const afterFirst = scheduleFSRS(newCard, review(3), null, first);
+    const afterSecond = scheduleFSRS(afterFirst, review(3), null, now);
+    expect(seeded.stability).toBeCloseTo(afterSecond.stability);
+    expect(seeded.difficulty).toBeCloseTo(afterSecond.difficulty);
+    expect(seeded.lastReviewedAt).toEqual(now);
+  });
+});
+
+describe('difficulty', () => {
+  it('reverts towards the default difficulty after a Good answer, as FSRS-4.5 does', () => {
+    const learned: SchedulingState = { stage: 'review', interval: 10, easeFactor: 2.5, consecutiveCorrect: 2, stability: 10, difficulty: 0.9, lastReviewedAt: addDays(now, -10) };
+    const result = scheduleFSRS(learned, review(3), null, now);
+    // D' = w7 * w4 + (1 - w7) * D, with Good leaving D otherwise unchanged
+    const difficulty = 1 + 9 * 0.9;
+    expect(1 + 9 * result.difficulty).toBeCloseTo(0.031 * 5.1618 + (1 - 0.031) * difficulty);
+  });
+
+  it('keeps a Good first review at the default difficulty', () => {
+    const first = scheduleFSRS(newCard, review(3), null, now);
+    const second = scheduleFSRS(first, review(3), null, addDays(now, first.interval));
+    expect(second.difficulty).toBeCloseTo(first.difficulty);
+  });
+});
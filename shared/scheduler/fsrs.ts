@@ -0,0 +1,181 @@
+/**
+ * FSRS Scheduler
+ * 
+ * Free Spaced Repetition Scheduler (FSRS-4.5). Models each card's memory with
+ * stability (days until recall probability drops to 90%), difficulty (1-10)
+ * and retrievability, using the published default weights.
+ */
+
+import { DEFAULT_DIFFICULTY, isRecall } from './sm2';
+import { addDays, addMinutes, DAY_MS, MINUTES_PER_DAY } from './time';
+import { DEFAULT_SCHEDULING_OPTIONS, resolveSchedulingOptions, type SchedulingOptionsInput } from './options';
+import type { CardStage, ReviewInput, ReviewLogEntry, SchedulingResult, SchedulingState } from './types';
+
+const W = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+export const MASTERED_STABILITY = 90; // days
+
+interface MemoryState {
+  stability: number;
+  difficulty: number; // FSRS scale 1-10
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Cards store difficulty normalised to 0-1, FSRS works on 1-10
+const toFsrsDifficulty = (difficulty: number) => 1 + 9 * clamp(difficulty, 0, 1);
+const fromFsrsDifficulty = (difficulty: number) => (difficulty - 1) / 9;
+
+const toGrade = (quality: number) => clamp(Math.round(quality), 1, 4);
+
+/**
+ * Probability of recalling a card after the given number of days
+ */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FACTOR * elapsedDays / stability, DECAY);
+}
+
+/**
+ * Interval in days at which recall probability drops to the desired retention
+ */
+export function fsrsInterval(
+  stability: number,
+  desiredRetention: number = DEFAULT_SCHEDULING_OPTIONS.desiredRetention,
+  maximumInterval: number = DEFAULT_SCHEDULING_OPTIONS.maximumInterval
+): number {
+  const interval = stability / FACTOR * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, maximumInterval);
+}
+
+const initialStability = (grade: number) => Math.max(0.1, W[grade - 1]);
+const initialDifficulty = (grade: number) => clamp(W[4] - (grade - 3) * W[5], 1, 10);
+
+function nextDifficulty(difficulty: number, grade: number): number {
+  const next = difficulty - W[6] * (grade - 3);
+  // Mean reversion towards the default difficulty, that of a "Good" first review
+  return clamp(W[7] * W[4] + (1 - W[7]) * next, 1, 10);
+}
+
+function nextRecallStability(difficulty: number, stability: number, recall: number, grade: number): number {
+  const hardPenalty = grade === 2 ? W[15] : 1;
+  const easyBonus = grade === 4 ? W[16] : 1;
+  return stability * (
+    1 + Math.exp(W[8]) * (11 - difficulty) * Math.pow(stability, -W[9]) * (Math.exp((1 - recall) * W[10]) - 1) * hardPenalty * easyBonus
+  );
+}
+
+function nextForgetStability(difficulty: number, stability: number, recall: number): number {
+  return Math.min(
+    stability,
+    W[11] * Math.pow(difficulty, -W[12]) * (Math.pow(stability + 1, W[13]) - 1) * Math.exp((1 - recall) * W[14])
+  );
+}
+
+function updateMemoryState(memory: MemoryState | null, grade: number, elapsedDays: number): MemoryState {
+  if (!memory) {
+    return { stability: initialStability(grade), difficulty: initialDifficulty(grade) };
+  }
+  
+  const recall = retrievability(Math.max(0, elapsedDays), memory.stability);
+  return {
+    stability: grade === 1
+      ? nextForgetStability(memory.difficulty, memory.stability, recall)
+      : nextRecallStability(memory.difficulty, memory.stability, recall, grade),
+    difficulty: nextDifficulty(memory.difficulty, grade),
+  };
+}
+
+// Memory state before this review; cards last reviewed with SM-2 fall back to their interval
+function currentMemoryState(state: SchedulingState): MemoryState | null {
+  const difficulty = toFsrsDifficulty(state.difficulty ?? DEFAULT_DIFFICULTY);
+  
+  if (state.stability && state.stability > 0) {
+    return { stability: state.stability, difficulty };
+  }
+  if (state.stage === 'new') {
+    return null;
+  }
+  return { stability: Math.max(0.1, state.interval), difficulty };
+}
+
+/**
+ * Calculate the next scheduling state for a card after a review
+ */
+export function scheduleFSRS(
+  state: SchedulingState,
+  review: ReviewInput,
+  options: SchedulingOptionsInput | null = null,
+  now: Date = new Date()
+): SchedulingResult {
+  const { relearningSteps, desiredRetention, maximumInterval } = resolveSchedulingOptions(options);
+  const grade = toGrade(review.quality);
+  const elapsedDays = state.lastReviewedAt
+    ? (now.getTime() - new Date(state.lastReviewedAt).getTime()) / DAY_MS
+    : state.interval;
+  
+  const memory = updateMemoryState(currentMemoryState(state), grade, elapsedDays);
+  
+  let stage: CardStage;
+  let interval: number;
+  let nextReviewAt: Date;
+  
+  if (grade === 1) {
+    // Forgotten - relearn after the first relearning step
+    stage = 'learning';
+    interval = relearningSteps[0] / MINUTES_PER_DAY;
+    nextReviewAt = addMinutes(now, relearningSteps[0]);
+  } else {
+    interval = fsrsInterval(memory.stability, desiredRetention, maximumInterval);
+    if (memory.stability >= MASTERED_STABILITY) {
+      stage = 'mastered';
+    } else {
+      stage = state.stage === 'new' ? 'learning' : 'review';
+    }
+    nextReviewAt = addDays(now, interval);
+  }
+  
+  return {
+    stage,
+    interval,
+    easeFactor: state.easeFactor,
+    consecutiveCorrect: isRecall(review) ? (state.consecutiveCorrect || 0) + 1 : 0,
+    stability: memory.stability,
+    difficulty: fromFsrsDifficulty(memory.difficulty),
+    lastReviewedAt: now,
+    nextReviewAt,
+    relearningInterval: null, // FSRS sets the interval after a lapse from the memory state
+  };
+}
+
+/**
+ * Replay a card's review history to seed its FSRS memory state.
+ * Returns null when the card has never been reviewed.
+ */
+export function seedFsrsState(history: ReviewLogEntry[]): { stability: number; difficulty: number; lastReviewedAt: Date } | null {
+  const reviews = [...history].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  if (reviews.length === 0) {
+    return null;
+  }
+  
+  let memory: MemoryState | null = null;
+  let previousAt: Date | null = null;
+  
+  for (const review of reviews) {
+    const reviewedAt = new Date(review.createdAt);
+    const elapsedDays = previousAt ? (reviewedAt.getTime() - previousAt.getTime()) / DAY_MS : 0;
+    memory = updateMemoryState(memory, toGrade(review.quality), elapsedDays);
+    previousAt = reviewedAt;
+  }
+  
+  return {
+    stability: memory!.stability,
+    difficulty: fromFsrsDifficulty(memory!.difficulty),
+    lastReviewedAt: previousAt!,
+  };
+}
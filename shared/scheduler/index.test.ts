@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { isLapse, scheduleFSRS, scheduleReview, scheduleSM2 } from './index';
+import type { SchedulingState } from './types';
+
+const now = new Date('2026-01-10T12:00:00Z');
+
+const reviewCard: SchedulingState = { stage: 'review', interval: 10, easeFactor: 2.5, consecutiveCorrect: 1, stability: 10, difficulty: 0.5, lastReviewedAt: new Date('2025-12-31T12:00:00Z') };
+
+describe('scheduleReview', () => {
+  it('uses SM-2 by default', () => {
+    const review = { quality: 3, wasCorrect: true };
+    expect(scheduleReview(reviewCard, review, {}, now)).toEqual(scheduleSM2(reviewCard, review, null, now));
+  });
+
+  it('uses FSRS for FSRS decks, with the deck options', () => {
+    const review = { quality: 1, wasCorrect: false };
+    const options = { relearningSteps: [30] };
+    expect(scheduleReview(reviewCard, review, { algorithm: 'fsrs', options }, now))
+      .toEqual(scheduleFSRS(reviewCard, review, options, now));
+  });
+});
+
+describe('isLapse', () => {
+  it('counts a failed review of a learned card', () => {
+    expect(isLapse({ stage: 'review' }, { quality: 1, wasCorrect: false })).toBe(true);
+    expect(isLapse({ stage: 'mastered' }, { quality: 1, wasCorrect: false })).toBe(true);
+  });
+
+  it('does not count failing a card that has not graduated yet', () => {
+    expect(isLapse({ stage: 'new' }, { quality: 1, wasCorrect: false })).toBe(false);
+    expect(isLapse({ stage: 'learning' }, { quality: 1, wasCorrect: false })).toBe(false);
+  });
+
+  it('does not count a correct answer', () => {
+    expect(isLapse({ stage: 'review' }, { quality: 3, wasCorrect: true })).toBe(false);
+  });
+
+  it('does not count Hard, even when it is sent as an incorrect answer', () => {
+    expect(isLapse({ stage: 'review' }, { quality: 2, wasCorrect: false })).toBe(false);
+    expect(isLapse({ stage: 'mastered' }, { quality: 2, wasCorrect: true })).toBe(false);
+  });
+});
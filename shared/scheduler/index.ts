@@ -0,0 +1,45 @@
+/**
+ * Scheduler
+ * 
+ * Single source of truth for spaced repetition scheduling. Imported by the
+ * serverless API, the demo-mode fallback and the study session page so a
+ * review produces the same next interval whichever path handles it.
+ */
+
+import { isRecall, scheduleSM2 } from './sm2';
+import { scheduleFSRS } from './fsrs';
+import type { ReviewInput, SchedulerConfig, SchedulingResult, SchedulingState } from './types';
+
+export * from './types';
+export { scheduleSM2, isRecall, MIN_EASE_FACTOR, MAX_EASE_FACTOR, DEFAULT_EASE_FACTOR, DEFAULT_DIFFICULTY } from './sm2';
+export { scheduleFSRS, seedFsrsState, retrievability, fsrsInterval, MASTERED_STABILITY } from './fsrs';
+export * from './options';
+export * from './time';
+export * from './limits';
+export * from './session';
+export * from './snapshot';
+export * from './leech';
+export * from './queue';
+
+/**
+ * Schedule the next review of a card with the deck's algorithm
+ */
+export function scheduleReview(
+  state: SchedulingState,
+  review: ReviewInput,
+  config: SchedulerConfig = {},
+  now: Date = new Date()
+): SchedulingResult {
+  if (config.algorithm === 'fsrs') {
+    return scheduleFSRS(state, review, config.options, now);
+  }
+  return scheduleSM2(state, review, config.options, now);
+}
+
+/**
+ * Whether a review counts as a lapse: forgetting a card that had already graduated to review.
+ * Failing a card that is still on its learning steps is not a lapse.
+ */
+export function isLapse(state: Pick<SchedulingState, 'stage'>, review: ReviewInput): boolean {
+  return !isRecall(review) && (state.stage === 'review' || state.stage === 'mastered');
+}
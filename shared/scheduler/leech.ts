@@ -0,0 +1,21 @@
+/**
+ * Leech Detection
+ *
+ * Cards that keep lapsing waste review time. Once a card reaches the deck's
+ * lapse threshold it is flagged as a leech, and again every half threshold
+ * after that if it keeps failing.
+ */
+
+import type { SchedulingOptions } from './options';
+
+export const LEECH_TAG = 'leech';
+
+/**
+ * Whether a card that has just reached `lapses` should be flagged as a leech
+ */
+export function isLeechLapse(lapses: number, options: Pick<SchedulingOptions, 'leechThreshold'>): boolean {
+  const threshold = options.leechThreshold;
+  if (threshold <= 0 || lapses < threshold) return false;
+  const repeatEvery = Math.max(1, Math.ceil(threshold / 2));
+  return (lapses - threshold) % repeatEvery === 0;
+}
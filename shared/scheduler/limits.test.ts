@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { countTodaysReviews, isIntradayLearning, remainingDailyBudget } from './limits';
+
+const now = new Date('2026-01-10T12:00:00');
+const today = (hours: number) => new Date(2026, 0, 10, hours);
+const TEN_MINUTES = 10 / (24 * 60);
+
+describe('countTodaysReviews', () => {
+  it('counts each card once, by its stage when first seen today', () => {
+    const counts = countTodaysReviews([
+      { cardId: 'a', stageBefore: 'new', createdAt: today(9) },
+      { cardId: 'a', stageBefore: 'learning', intervalBefore: TEN_MINUTES, createdAt: today(10) },
+      { cardId: 'b', stageBefore: 'review', intervalBefore: 12, createdAt: today(9) },
+      { cardId: 'b', stageBefore: 'learning', intervalBefore: TEN_MINUTES, createdAt: today(10) },
+      { cardId: 'c', stageBefore: 'review', intervalBefore: 3, createdAt: new Date(2026, 0, 9, 20) },
+    ], now);
+    expect(counts).toEqual({ newCardsStudied: 1, reviewsDone: 1 });
+  });
+
+  it('leaves out cards first seen today on an intraday learning step', () => {
+    const counts = countTodaysReviews([
+      { cardId: 'a', stageBefore: 'learning', intervalBefore: TEN_MINUTES, createdAt: today(8) },
+      { cardId: 'b', stageBefore: 'learning', intervalBefore: 2, createdAt: today(8) },
+    ], now);
+    expect(counts).toEqual({ newCardsStudied: 0, reviewsDone: 1 });
+  });
+});
+
+describe('isIntradayLearning', () => {
+  it('only matches learning cards on a step shorter than a day', () => {
+    expect(isIntradayLearning({ stage: 'learning', interval: TEN_MINUTES })).toBe(true);
+    expect(isIntradayLearning({ stage: 'learning', interval: 1 })).toBe(false);
+    expect(isIntradayLearning({ stage: 'new', interval: TEN_MINUTES })).toBe(false);
+    expect(isIntradayLearning({ stage: 'review', interval: 0.5 })).toBe(false);
+  });
+});
+
+describe('remainingDailyBudget', () => {
+  it('never goes below zero', () => {
+    expect(remainingDailyBudget({ newCardsPerDay: 5, reviewsPerDay: 10 }, { newCardsStudied: 7, reviewsDone: 4 }))
+      .toEqual({ newLeft: 0, reviewsLeft: 6 });
+  });
+});
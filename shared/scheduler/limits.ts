@@ -0,0 +1,80 @@
+/**
+ * Daily Limits
+ *
+ * Works out how many new cards and reviews are left for today from the
+ * review log, so the API and demo mode enforce the same per-deck quotas.
+ * Cards on an intraday learning step sit outside the review quota, as in
+ * Anki's learning queue, so a card is never left stranded partway through
+ * its steps once the quota runs out.
+ */
+
+import { resolveSchedulingOptions, type SchedulingOptionsInput } from './options';
+import { startOfDay } from './time';
+
+export interface DailyReviewEntry {
+  cardId: string;
+  stageBefore?: string | null;
+  intervalBefore?: number | null;
+  createdAt: Date | string;
+}
+
+export interface DailyStudyCounts {
+  newCardsStudied: number;
+  reviewsDone: number;
+}
+
+export interface DailyBudget {
+  newLeft: number;
+  reviewsLeft: number;
+}
+
+/**
+ * Whether a card is waiting on a learning or relearning step shorter than a day
+ */
+export function isIntradayLearning(card: { stage: string; interval: number }): boolean {
+  return card.stage === 'learning' && card.interval < 1;
+}
+
+/**
+ * Count the distinct cards studied today, split by whether they were new
+ * when first seen today. Later learning steps of the same card don't count twice,
+ * and cards first seen today on an intraday learning step don't count at all.
+ */
+export function countTodaysReviews(entries: DailyReviewEntry[], now: Date = new Date()): DailyStudyCounts {
+  const dayStart = startOfDay(now).getTime();
+  const firstToday = new Map<string, DailyReviewEntry>();
+
+  for (const entry of entries) {
+    const time = new Date(entry.createdAt).getTime();
+    if (time < dayStart) continue;
+    const seen = firstToday.get(entry.cardId);
+    if (!seen || time < new Date(seen.createdAt).getTime()) {
+      firstToday.set(entry.cardId, entry);
+    }
+  }
+
+  let newCardsStudied = 0;
+  let reviewsDone = 0;
+  firstToday.forEach(entry => {
+    if (entry.stageBefore === 'new') {
+      newCardsStudied++;
+    } else if (!isIntradayLearning({ stage: entry.stageBefore || '', interval: entry.intervalBefore ?? 1 })) {
+      reviewsDone++;
+    }
+  });
+  return { newCardsStudied, reviewsDone };
+}
+
+/**
+ * Today's remaining quota for a deck given what has already been studied
+ */
+export function remainingDailyBudget(
+  options: SchedulingOptionsInput | null | undefined,
+  counts: DailyStudyCounts
+): DailyBudget {
+  const { newCardsPerDay, reviewsPerDay } = resolveSchedulingOptions(options);
+  return {
+    newLeft: Math.max(0, newCardsPerDay - counts.newCardsStudied),
+    reviewsLeft: Math.max(0, reviewsPerDay - counts.reviewsDone),
+  };
+}
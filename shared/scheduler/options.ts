@@ -0,0 +1,107 @@
+/**
+ * Scheduling Options
+ * 
+ * Per-deck pacing (learning steps, intervals, ease, daily limits, leech
+ * handling and typed-answer checking) shared by the scheduler, the study
+ * session endpoint and the deck editor.
+ */
+
+export type LeechAction = 'tag' | 'suspend';
+
+export interface SchedulingOptions {
+  learningSteps: number[]; // in minutes, delays before a new card graduates
+  relearningSteps: number[]; // in minutes, delays after a failed review
+  graduatingInterval: number; // in days
+  easyInterval: number; // in days
+  maximumInterval: number; // in days
+  startingEase: number;
+  masteryStreak: number; // consecutive correct reviews before a card is mastered
+  desiredRetention: number; // FSRS target probability of recall
+  newCardsPerDay: number;
+  reviewsPerDay: number;
+  reviewsPerNewCard: number; // reviews shown between new cards in mixed sessions
+  leechThreshold: number; // lapses before a card is flagged as a leech
+  leechAction: LeechAction; // leeches are always tagged, optionally also suspended
+  answerIgnoreCase: boolean; // typed answers
+  answerIgnoreAccents: boolean;
+  answerIgnorePunctuation: boolean;
+  answerTolerance: number; // typos accepted as a near miss (graded Hard)
+}
+
+// Options as stored per deck, where the leech action is a plain string
+export type SchedulingOptionsInput = Partial<Omit<SchedulingOptions, 'leechAction'>> & {
+  leechAction?: string;
+};
+
+export const DEFAULT_SCHEDULING_OPTIONS: SchedulingOptions = {
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  graduatingInterval: 4,
+  easyInterval: 5,
+  maximumInterval: 36500,
+  startingEase: 2.5,
+  masteryStreak: 3,
+  desiredRetention: 0.9,
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
+  reviewsPerNewCard: 3,
+  leechThreshold: 8,
+  leechAction: 'tag',
+  answerIgnoreCase: true,
+  answerIgnoreAccents: false,
+  answerIgnorePunctuation: true,
+  answerTolerance: 1,
+};
+
+/**
+ * Fill in missing options with the defaults
+ */
+export function resolveSchedulingOptions(options?: SchedulingOptionsInput | null): SchedulingOptions {
+  const resolved = { ...DEFAULT_SCHEDULING_OPTIONS };
+  if (!options) return resolved;
+  
+  for (const key of Object.keys(resolved) as Array<keyof SchedulingOptions>) {
+    const value = options[key];
+    if (value !== undefined && value !== null) {
+      (resolved as Record<keyof SchedulingOptions, unknown>)[key] = value;
+    }
+  }
+  if (resolved.learningSteps.length === 0) resolved.learningSteps = DEFAULT_SCHEDULING_OPTIONS.learningSteps;
+  if (resolved.relearningSteps.length === 0) resolved.relearningSteps = DEFAULT_SCHEDULING_OPTIONS.relearningSteps;
+  if (resolved.leechAction !== 'suspend') resolved.leechAction = 'tag';
+  
+  return resolved;
+}
+
+const STEP_UNITS: Record<string, number> = { m: 1, h: 60, d: 1440 };
+
+/**
+ * Parse a step list like "10m 1h 1d" into minutes. Returns null if invalid.
+ */
+export function parseSteps(text: string): number[] | null {
+  const parts = text.trim().split(/[\s,]+/).filter(Boolean);
+  if (parts.length === 0) return null;
+  
+  const steps: number[] = [];
+  for (const part of parts) {
+    const match = part.match(/^(\d+(?:\.\d+)?)([mhd]?)$/i);
+    if (!match) return null;
+    const minutes = parseFloat(match[1]) * STEP_UNITS[(match[2] || 'm').toLowerCase()];
+    if (minutes <= 0) return null;
+    steps.push(Math.round(minutes));
+  }
+  return steps;
+}
+
+/**
+ * Format minutes as a step list like "10m 1h 1d"
+ */
+export function formatSteps(steps: number[]): string {
+  return steps
+    .map(minutes => {
+      if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+      if (minutes % 60 === 0) return `${minutes / 60}h`;
+      return `${minutes}m`;
+    })
+    .join(' ');
+}
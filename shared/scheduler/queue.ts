@@ -0,0 +1,49 @@
+/**
+ * Queue States
+ *
+ * Suspended cards stay out of study until they are unsuspended. Buried cards
+ * only sit out the current day: burials made before today's start no longer
+ * count, so cards come back at the day boundary without a background job.
+ */
+
+import { startOfDay } from './time';
+
+export type QueueState = 'normal' | 'suspended' | 'buried-until-tomorrow' | 'buried-manually';
+
+export const QUEUE_STATES: QueueState[] = ['normal', 'suspended', 'buried-until-tomorrow', 'buried-manually'];
+
+export const BURIED_QUEUE_STATES: QueueState[] = ['buried-until-tomorrow', 'buried-manually'];
+
+export interface QueuedCardState {
+  queueState?: string | null;
+  buriedAt?: Date | string | null;
+}
+
+export function isBuriedState(queueState: string | null | undefined): boolean {
+  return BURIED_QUEUE_STATES.includes(queueState as QueueState);
+}
+
+/**
+ * The card's queue state as of `now`, treating burials from earlier days as over
+ */
+export function effectiveQueueState(card: QueuedCardState, now: Date = new Date()): QueueState {
+  const state = (card.queueState || 'normal') as QueueState;
+  if (isBuriedState(state) && (!card.buriedAt || new Date(card.buriedAt) < startOfDay(now))) {
+    return 'normal';
+  }
+  return state;
+}
+
+/**
+ * Whether the card can be shown in a study session
+ */
+export function isInRotation(card: QueuedCardState, now: Date = new Date()): boolean {
+  return effectiveQueueState(card, now) === 'normal';
+}
+
+/**
+ * The card fields to write when moving a card to another queue state
+ */
+export function queueStateUpdate(queueState: QueueState, now: Date = new Date()) {
+  return { queueState, buriedAt: isBuriedState(queueState) ? now : null };
+}
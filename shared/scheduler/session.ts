@@ -0,0 +1,51 @@
+/**
+ * Session Composition
+ *
+ * Picks which of a deck's due cards make up a study session for each
+ * session type, shared by the API and the demo-mode fallback.
+ */
+
+export type SessionType = 'review' | 'learn' | 'mixed';
+
+export const SESSION_TYPES: SessionType[] = ['mixed', 'learn', 'review'];
+
+/**
+ * Interleave new cards into reviews, showing one new card after every
+ * `reviewsPerNewCard` reviews. Whatever is left of either list goes last.
+ */
+export function interleaveCards<T>(reviewCards: T[], newCards: T[], reviewsPerNewCard: number): T[] {
+  if (reviewsPerNewCard <= 0) return [...newCards, ...reviewCards];
+
+  const result: T[] = [];
+  let reviewIndex = 0;
+  let newIndex = 0;
+  while (reviewIndex < reviewCards.length || newIndex < newCards.length) {
+    const reviewsTaken = reviewCards.slice(reviewIndex, reviewIndex + reviewsPerNewCard);
+    result.push(...reviewsTaken);
+    reviewIndex += reviewsTaken.length;
+    if (newIndex < newCards.length) {
+      result.push(newCards[newIndex++]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Build the session card list for a session type from due reviews and new cards
+ */
+export function composeSession<T>(
+  sessionType: SessionType,
+  reviewCards: T[],
+  newCards: T[],
+  reviewsPerNewCard: number,
+  maxCards: number
+): T[] {
+  switch (sessionType) {
+    case 'learn':
+      return newCards.slice(0, maxCards);
+    case 'review':
+      return reviewCards.slice(0, maxCards);
+    default:
+      return interleaveCards(reviewCards, newCards, reviewsPerNewCard).slice(0, maxCards);
+  }
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { scheduleSM2, MAX_EASE_FACTOR, MIN_EASE_FACTOR } from './sm2';
+import { MINUTES_PER_DAY } from './time';
+import type { SchedulingState } from './types';
+
+const now = new Date('2026-01-10T12:00:00Z');
+
+const newCard: SchedulingState = { stage: 'new', interval: 1, easeFactor: 2.5, consecutiveCorrect: 0 };
+
+const good = { quality: 3, wasCorrect: true };
+const easy = { quality: 4, wasCorrect: true };
+const again = { quality: 1, wasCorrect: false };
+
+const minutesUntil = (date: Date) => (date.getTime() - now.getTime()) / 60000;
+
+describe('scheduleSM2', () => {
+  describe('new → learning → review', () => {
+    it('puts a new card answered Good on the first learning step', () => {
+      const result = scheduleSM2(newCard, good, null, now);
+      expect(result.stage).toBe('learning');
+      expect(result.consecutiveCorrect).toBe(1);
+      expect(minutesUntil(result.nextReviewAt)).toBe(1);
+      expect(result.interval).toBeCloseTo(1 / MINUTES_PER_DAY);
+    });
+
+    it('steps through the learning steps and graduates after the last one', () => {
+      const first = scheduleSM2(newCard, good, null, now);
+      const second = scheduleSM2(first, good, null, now);
+      expect(second.stage).toBe('learning');
+      expect(minutesUntil(second.nextReviewAt)).toBe(10);
+
+      const graduated = scheduleSM2(second, good, null, now);
+      expect(graduated.stage).toBe('review');
+      expect(graduated.interval).toBe(4);
+    });
+
+    it('does not count the learning steps towards mastery', () => {
+      let card: SchedulingState = newCard;
+      for (let i = 0; i < 3; i++) card = scheduleSM2(card, good, null, now);
+      expect(card).toMatchObject({ stage: 'review', consecutiveCorrect: 0 });
+      expect(scheduleSM2(card, easy, null, now).stage).toBe('review');
+    });
+
+    it('graduates a new card answered Easy straight to review on the easy interval', () => {
+      const result = scheduleSM2(newCard, easy, null, now);
+      expect(result.stage).toBe('review');
+      expect(result.interval).toBe(5);
+    });
+
+    it('uses the deck learning steps and graduating interval', () => {
+      const options = { learningSteps: [5], graduatingInterval: 2 };
+      const first = scheduleSM2(newCard, good, options, now);
+      expect(minutesUntil(first.nextReviewAt)).toBe(5);
+      expect(scheduleSM2(first, good, options, now)).toMatchObject({ stage: 'review', interval: 2 });
+    });
+
+    it('starts new cards from the deck starting ease', () => {
+      const result = scheduleSM2({ ...newCard, easeFactor: 1.7 }, good, { startingEase: 2.0 }, now);
+      expect(result.easeFactor).toBeCloseTo(2.05);
+    });
+  });
+
+  describe('review → mastered', () => {
+    const reviewCard: SchedulingState = { stage: 'review', interval: 10, easeFactor: 2.5, consecutiveCorrect: 2 };
+
+    it('multiplies the interval by the ease factor', () => {
+      const result = scheduleSM2({ ...reviewCard, consecutiveCorrect: 0 }, good, null, now);
+      expect(result.stage).toBe('review');
+      expect(result.interval).toBe(25);
+    });
+
+    it('masters a card answered Easy once the streak reaches the mastery streak', () => {
+      expect(scheduleSM2(reviewCard, easy, null, now).stage).toBe('mastered');
+    });
+
+    it('needs one more correct answer to master a card answered Good', () => {
+      expect(scheduleSM2(reviewCard, good, null, now).stage).toBe('review');
+      expect(scheduleSM2({ ...reviewCard, consecutiveCorrect: 3 }, good, null, now).stage).toBe('mastered');
+    });
+
+    it('keeps mastered cards on intervals of at least a week', () => {
+      const result = scheduleSM2({ stage: 'mastered', interval: 2, easeFactor: 1.3, consecutiveCorrect: 5 }, good, null, now);
+      expect(result.stage).toBe('mastered');
+      expect(result.interval).toBe(7);
+    });
+
+    it('caps the interval at the maximum interval', () => {
+      const result = scheduleSM2({ ...reviewCard, interval: 400 }, good, { maximumInterval: 365 }, now);
+      expect(result.interval).toBe(365);
+    });
+  });
+
+  describe('demotions', () => {
+    it('demotes a failed review card to learning on the relearning step', () => {
+      const result = scheduleSM2({ stage: 'review', interval: 20, easeFactor: 2.5, consecutiveCorrect: 3 }, again, null, now);
+      expect(result.stage).toBe('learning');
+      expect(result.consecutiveCorrect).toBe(0);
+      expect(minutesUntil(result.nextReviewAt)).toBe(10);
+      expect(result.easeFactor).toBeCloseTo(2.3);
+      expect(result.relearningInterval).toBe(10);
+    });
+
+    it('demotes a failed mastered card to learning', () => {
+      const result = scheduleSM2({ stage: 'mastered', interval: 120, easeFactor: 2.6, consecutiveCorrect: 8 }, again, null, now);
+      expect(result.stage).toBe('learning');
+    });
+
+    it('demotes a failed learning card to new', () => {
+      const result = scheduleSM2({ stage: 'learning', interval: 0.01, easeFactor: 2.5, consecutiveCorrect: 1 }, again, null, now);
+      expect(result.stage).toBe('new');
+      expect(minutesUntil(result.nextReviewAt)).toBe(10);
+    });
+
+    it('keeps a failed new card new', () => {
+      expect(scheduleSM2(newCard, again, null, now).stage).toBe('new');
+    });
+  });
+
+  describe('relearning', () => {
+    const reviewCard: SchedulingState = { stage: 'review', interval: 20, easeFactor: 2.5, consecutiveCorrect: 3 };
+    const options = { relearningSteps: [10, 60] };
+
+    it('steps through the relearning steps and returns on the reduced interval', () => {
+      const lapsed = scheduleSM2(reviewCard, again, options, now);
+      expect(minutesUntil(lapsed.nextReviewAt)).toBe(10);
+
+      const second = scheduleSM2(lapsed, good, options, now);
+      expect(second).toMatchObject({ stage: 'learning', relearningInterval: 10 });
+      expect(minutesUntil(second.nextReviewAt)).toBe(60);
+
+      const relearned = scheduleSM2(second, good, options, now);
+      expect(relearned).toMatchObject({ stage: 'review', interval: 10, relearningInterval: null, consecutiveCorrect: 0 });
+    });
+
+    it('returns after a single relearning step by default', () => {
+      const lapsed = scheduleSM2(reviewCard, again, null, now);
+      expect(scheduleSM2(lapsed, good, null, now)).toMatchObject({ stage: 'review', interval: 10 });
+    });
+
+    it('returns to review on at least a day', () => {
+      const lapsed = scheduleSM2({ ...reviewCard, interval: 1 }, again, null, now);
+      expect(scheduleSM2(lapsed, good, null, now).interval).toBe(1);
+    });
+
+    it('starts the relearning steps over when a relearning card is failed again', () => {
+      const second = scheduleSM2(scheduleSM2(reviewCard, again, options, now), good, options, now);
+      const failed = scheduleSM2(second, again, options, now);
+      expect(failed).toMatchObject({ stage: 'learning', consecutiveCorrect: 0, relearningInterval: 10 });
+      expect(minutesUntil(failed.nextReviewAt)).toBe(10);
+    });
+
+    it('leaves new cards on the learning steps', () => {
+      const first = scheduleSM2(newCard, good, options, now);
+      expect(first.relearningInterval).toBeNull();
+      expect(minutesUntil(scheduleSM2(first, good, options, now).nextReviewAt)).toBe(10);
+    });
+  });
+
+  describe('Hard', () => {
+    const reviewCard: SchedulingState = { stage: 'review', interval: 10, easeFactor: 2.5, consecutiveCorrect: 1 };
+
+    it('keeps a card in review, whether or not it is sent as correct', () => {
+      for (const wasCorrect of [true, false]) {
+        const result = scheduleSM2(reviewCard, { quality: 2, wasCorrect }, null, now);
+        expect(result).toMatchObject({ stage: 'review', interval: 12, consecutiveCorrect: 2 });
+      }
+    });
+
+    it('moves a learning card on to its next step', () => {
+      const result = scheduleSM2(scheduleSM2(newCard, good, null, now), { quality: 2, wasCorrect: true }, null, now);
+      expect(minutesUntil(result.nextReviewAt)).toBe(10);
+    });
+  });
+
+  describe('ease factor', () => {
+    it('never drops below the minimum ease', () => {
+      const result = scheduleSM2({ stage: 'review', interval: 3, easeFactor: 1.35, consecutiveCorrect: 0 }, again, null, now);
+      expect(result.easeFactor).toBe(MIN_EASE_FACTOR);
+    });
+
+    it('never rises above the maximum ease', () => {
+      const result = scheduleSM2({ stage: 'review', interval: 3, easeFactor: 2.75, consecutiveCorrect: 0 }, easy, null, now);
+      expect(result.easeFactor).toBe(MAX_EASE_FACTOR);
+    });
+
+    it('lowers the ease on Hard', () => {
+      const result = scheduleSM2({ stage: 'review', interval: 3, easeFactor: 2.5, consecutiveCorrect: 0 }, { quality: 2, wasCorrect: true }, null, now);
+      expect(result.easeFactor).toBeCloseTo(2.4);
+    });
+  });
+});
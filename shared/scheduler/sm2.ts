@@ -0,0 +1,144 @@
+/**
+ * SM-2 Scheduler
+ * 
+ * Koda's variant of the SM-2 algorithm with explicit stage progression
+ * (new → learning → review → mastered) and demotion on failed reviews.
+ */
+
+import { resolveSchedulingOptions, type SchedulingOptionsInput } from './options';
+import { addDays, addMinutes, MINUTES_PER_DAY } from './time';
+import type { CardStage, ReviewInput, SchedulingResult, SchedulingState } from './types';
+
+export const MIN_EASE_FACTOR = 1.3;
+export const MAX_EASE_FACTOR = 2.8;
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const DEFAULT_DIFFICULTY = 0.5;
+// A lapsed card returns to review on this share of its previous interval, at least a day
+export const LAPSE_INTERVAL_FACTOR = 0.5;
+// Hard still grows the interval, but more slowly than the ease factor would
+export const HARD_INTERVAL_FACTOR = 1.2;
+
+/**
+ * Whether a review recalled the card. Only Again means forgotten; Hard is a
+ * recall, however shaky, as FSRS and Anki treat it.
+ */
+export function isRecall(review: Pick<ReviewInput, 'quality'>): boolean {
+  return review.quality >= 2;
+}
+
+/**
+ * Calculate the next scheduling state for a card after a review
+ */
+export function scheduleSM2(
+  state: SchedulingState,
+  review: ReviewInput,
+  options: SchedulingOptionsInput | null = null,
+  now: Date = new Date()
+): SchedulingResult {
+  const { quality } = review;
+  const {
+    learningSteps,
+    relearningSteps,
+    graduatingInterval,
+    easyInterval,
+    maximumInterval,
+    startingEase,
+    masteryStreak,
+  } = resolveSchedulingOptions(options);
+  
+  let interval = state.interval;
+  let stepMinutes: number | null = null; // Set when the card is on an intraday learning step
+  // New cards start from the deck's starting ease
+  let easeFactor = state.stage === 'new' ? startingEase : (state.easeFactor || DEFAULT_EASE_FACTOR);
+  let stage: CardStage = state.stage;
+  let consecutiveCorrect = state.consecutiveCorrect || 0;
+  // Set while a lapsed card works through the relearning steps
+  const relearning = state.stage === 'learning' && state.relearningInterval != null;
+  let relearningInterval = relearning ? state.relearningInterval ?? null : null;
+  
+  if (isRecall(review)) {
+    consecutiveCorrect = consecutiveCorrect + 1;
+    
+    // Stage progression based on performance and consecutive correct answers
+    if (relearning) {
+      // The lapse already put the card on the first relearning step
+      if (quality >= 4 || consecutiveCorrect >= relearningSteps.length) {
+        stage = 'review';
+        interval = relearningInterval!;
+        relearningInterval = null;
+        consecutiveCorrect = 0; // Only recalls made in review count towards mastery
+      } else {
+        stepMinutes = relearningSteps[consecutiveCorrect];
+      }
+    } else if (state.stage === 'new' || state.stage === 'learning') {
+      // Step through the learning steps and graduate after the last one
+      const stepIndex = consecutiveCorrect - 1;
+      if (quality >= 4) {
+        stage = 'review';
+        interval = easyInterval; // Easy graduates immediately
+        consecutiveCorrect = 0;
+      } else if (stepIndex < learningSteps.length) {
+        stage = 'learning';
+        stepMinutes = learningSteps[stepIndex];
+      } else {
+        stage = 'review';
+        interval = graduatingInterval;
+        consecutiveCorrect = 0;
+      }
+    } else if (state.stage === 'review' || state.stage === 'mastered') {
+      const growth = quality === 2 ? HARD_INTERVAL_FACTOR : easeFactor;
+      // Graduate to mastered after excellent consistent performance
+      if (state.stage === 'mastered') {
+        // Maintain mastered status with longer intervals
+        interval = Math.max(7, Math.round(state.interval * growth));
+      } else {
+        if (consecutiveCorrect >= masteryStreak && quality >= 4) {
+          stage = 'mastered';
+        } else if (consecutiveCorrect >= masteryStreak + 1 && quality >= 3) {
+          stage = 'mastered';
+        }
+        // Continue with spaced repetition
+        interval = Math.max(1, Math.round(state.interval * growth));
+      }
+    }
+    
+    // Adjust ease factor based on quality
+    if (quality >= 4) {
+      easeFactor = Math.min(MAX_EASE_FACTOR, easeFactor + 0.1);
+    } else if (quality === 3) {
+      easeFactor = Math.min(MAX_EASE_FACTOR, easeFactor + 0.05);
+    } else {
+      easeFactor = Math.max(MIN_EASE_FACTOR, easeFactor - 0.1);
+    }
+  } else {
+    // Failed review - reset consecutive correct and demote if necessary
+    consecutiveCorrect = 0;
+    easeFactor = Math.max(MIN_EASE_FACTOR, easeFactor - 0.2);
+    
+    if (state.stage === 'mastered' || state.stage === 'review') {
+      stage = 'learning'; // Demote to learning and relearn
+      relearningInterval = Math.max(1, Math.round(state.interval * LAPSE_INTERVAL_FACTOR));
+    } else if (state.stage === 'learning' && !relearning) {
+      stage = 'new'; // Demote to new
+    }
+    stepMinutes = relearningSteps[0]; // A failed relearning card starts its steps over
+  }
+  
+  if (stepMinutes !== null) {
+    interval = stepMinutes / MINUTES_PER_DAY;
+  }
+  interval = Math.min(maximumInterval, interval);
+  
+  return {
+    stage,
+    interval,
+    easeFactor,
+    consecutiveCorrect,
+    relearningInterval,
+    // FSRS memory state is left untouched and re-seeded from history when a deck switches algorithm
+    stability: state.stability ?? 0,
+    difficulty: state.difficulty ?? DEFAULT_DIFFICULTY,
+    lastReviewedAt: now,
+    nextReviewAt: stepMinutes !== null ? addMinutes(now, stepMinutes) : addDays(now, interval),
+  };
+}
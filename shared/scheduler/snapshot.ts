@@ -0,0 +1,108 @@
+/**
+ * Review Snapshots
+ *
+ * Each review log entry keeps the card's full scheduling state from before
+ * the review (including tags and queue state, which leech handling can
+ * change), so the review can be undone by writing that state back.
+ */
+
+export interface SnapshotCardState {
+  stage: string;
+  interval: number;
+  easeFactor: number;
+  consecutiveCorrect: number;
+  lapses: number;
+  stability: number;
+  difficulty: number;
+  nextReviewAt: Date | string;
+  lastReviewedAt?: Date | string | null;
+  relearningInterval?: number | null;
+  tags?: string | null;
+  queueState?: string;
+}
+
+// Stored alongside each review, mirroring the ReviewHistory "...Before" columns
+export interface ReviewSnapshot {
+  stageBefore: string;
+  intervalBefore: number;
+  easeFactorBefore: number;
+  consecutiveCorrectBefore: number;
+  lapsesBefore: number;
+  stabilityBefore: number;
+  difficultyBefore: number;
+  nextReviewAtBefore: Date;
+  lastReviewedAtBefore: Date | null;
+  relearningIntervalBefore: number | null;
+  tagsBefore: string | null;
+  queueStateBefore: string;
+}
+
+/**
+ * Capture a card's scheduling state before it is reviewed
+ */
+export function snapshotCardState(card: SnapshotCardState): ReviewSnapshot {
+  return {
+    stageBefore: card.stage,
+    intervalBefore: card.interval,
+    easeFactorBefore: card.easeFactor,
+    consecutiveCorrectBefore: card.consecutiveCorrect,
+    lapsesBefore: card.lapses || 0,
+    stabilityBefore: card.stability,
+    difficultyBefore: card.difficulty,
+    nextReviewAtBefore: new Date(card.nextReviewAt),
+    lastReviewedAtBefore: card.lastReviewedAt ? new Date(card.lastReviewedAt) : null,
+    relearningIntervalBefore: card.relearningInterval ?? null,
+    tagsBefore: card.tags ?? null,
+    queueStateBefore: card.queueState || 'normal',
+  };
+}
+
+export interface RestoredCardState {
+  stage: string;
+  interval: number;
+  easeFactor: number;
+  consecutiveCorrect: number;
+  lapses: number;
+  stability: number;
+  difficulty: number;
+  nextReviewAt: Date;
+  lastReviewedAt: Date | null;
+  relearningInterval: number | null;
+  tags?: string | null;
+  queueState?: string;
+}
+
+type StoredSnapshot = { [K in keyof ReviewSnapshot]?: ReviewSnapshot[K] | string | null };
+
+/**
+ * The card fields to write back when undoing a review. Returns null for log
+ * entries recorded before snapshots existed.
+ */
+export function restoreCardState(entry: StoredSnapshot): RestoredCardState | null {
+  if (
+    entry.stageBefore == null ||
+    entry.intervalBefore == null ||
+    entry.easeFactorBefore == null ||
+    entry.consecutiveCorrectBefore == null ||
+    entry.nextReviewAtBefore == null
+  ) {
+    return null;
+  }
+  return {
+    stage: entry.stageBefore,
+    interval: Number(entry.intervalBefore),
+    easeFactor: Number(entry.easeFactorBefore),
+    consecutiveCorrect: Number(entry.consecutiveCorrectBefore),
+    lapses: Number(entry.lapsesBefore ?? 0),
+    stability: Number(entry.stabilityBefore ?? 0),
+    difficulty: Number(entry.difficultyBefore ?? 0.5),
+    nextReviewAt: new Date(entry.nextReviewAtBefore),
+    lastReviewedAt: entry.lastReviewedAtBefore ? new Date(entry.lastReviewedAtBefore) : null,
+    relearningInterval: entry.relearningIntervalBefore != null ? Number(entry.relearningIntervalBefore) : null,
+    // Older snapshots did not record tags or queue state; leave those untouched
+    ...(entry.queueStateBefore != null && {
+      tags: entry.tagsBefore ?? null,
+      queueState: String(entry.queueStateBefore),
+    }),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Scheduler Time Helpers
+ * 
+ * Date arithmetic with minute precision and the daily boundary used for
+ * limits and in-session learning steps.
+ */
+
+export const MINUTE_MS = 60 * 1000;
+export const DAY_MS = 24 * 60 * MINUTE_MS;
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Add a (possibly fractional) number of days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Add a number of minutes to a date
+ */
+export function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * MINUTE_MS);
+}
+
+/**
+ * Midnight at the start of the given day
+ */
+export function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Midnight at the start of the following day
+ */
+export function startOfNextDay(date: Date): Date {
+  const next = startOfDay(date);
+  next.setDate(next.getDate() + 1);
+  return next;
+}
@@ -0,0 +1,47 @@
+/**
+ * Scheduler Types
+ * 
+ * Shared types for the spaced repetition scheduler used by the API and the client.
+ */
+
+import type { SchedulingOptionsInput } from './options';
+
+export type CardStage = 'new' | 'learning' | 'review' | 'mastered';
+
+export type SchedulingAlgorithm = 'sm2' | 'fsrs';
+
+// The scheduling fields stored on a card
+export interface SchedulingState {
+  stage: CardStage;
+  interval: number; // in days
+  easeFactor: number;
+  consecutiveCorrect: number;
+  stability?: number; // FSRS memory stability in days (0 = not initialised)
+  difficulty?: number; // FSRS difficulty normalised to 0-1
+  lastReviewedAt?: Date | string | null;
+  relearningInterval?: number | null; // in days, the interval a lapsed card returns to review on
+}
+
+export interface ReviewInput {
+  quality: number; // 1-4 paw scale (Again, Hard, Good, Easy)
+  wasCorrect: boolean;
+}
+
+export interface SchedulingResult extends SchedulingState {
+  stability: number;
+  difficulty: number;
+  lastReviewedAt: Date;
+  nextReviewAt: Date;
+  relearningInterval: number | null;
+}
+
+export interface SchedulerConfig {
+  algorithm?: SchedulingAlgorithm;
+  options?: SchedulingOptionsInput | null;
+}
+
+// A past review used to replay FSRS memory state
+export interface ReviewLogEntry {
+  quality: number;
+  createdAt: Date | string;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { generateSiblingCards, syncSiblingContent } from './siblings';
+
+const note = { front: 'cat', back: 'Katze', hint: 'an animal' };
+
+describe('generateSiblingCards', () => {
+  it('makes one forward card for a basic note', () => {
+    expect(generateSiblingCards({ ...note, type: 'basic' })).toEqual([
+      { front: 'cat', back: 'Katze', hint: 'an animal', type: 'basic', templateIndex: 0 },
+    ]);
+  });
+
+  it('studies a reverse note both ways, as reverse cards always meant', () => {
+    const cards = generateSiblingCards({ ...note, type: 'reverse' });
+    expect(cards.map(card => [card.front, card.back, card.type])).toEqual([
+      ['cat', 'Katze', 'basic'],
+      ['Katze', 'cat', 'reverse'],
+    ]);
+  });
+
+  it('makes only the back → front card for a reverse-only note', () => {
+    expect(generateSiblingCards({ ...note, type: 'reverse-only' })).toEqual([
+      { front: 'Katze', back: 'cat', type: 'reverse', templateIndex: 0 },
+    ]);
+  });
+
+  it('keeps the hint off reverse cards, since it describes the front', () => {
+    const [forward, reverse] = generateSiblingCards({ ...note, type: 'reverse' });
+    expect(forward.hint).toBe('an animal');
+    expect(reverse.hint).toBeUndefined();
+  });
+});
+
+describe('syncSiblingContent', () => {
+  it('swaps the sides for a sibling facing the other way', () => {
+    expect(syncSiblingContent({ front: 'dog', back: 'Hund', type: 'basic' }, { type: 'reverse' }))
+      .toEqual({ front: 'Hund', back: 'dog' });
+  });
+
+  it('copies the sides and hint to a sibling facing the same way', () => {
+    expect(syncSiblingContent({ front: 'dog', back: 'Hund', hint: 'pet', type: 'basic' }, { type: 'basic' }))
+      .toEqual({ front: 'dog', back: 'Hund', hint: 'pet' });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Sibling Cards
+ *
+ * One note can produce several cards, such as front→back and back→front, or
+ * one card per cloze number (see noteTypes.ts).
+ * Siblings share a noteId but keep their own schedules. Reverse cards store
+ * the note's sides swapped, so they render and study like any other card.
+ */
+
+import { builtInNoteFields, builtInNoteType, generateNoteCards, type GeneratedCard } from './noteTypes';
+
+export type { GeneratedCard };
+
+export interface NoteContent {
+  front: string;
+  back: string;
+  hint?: string | null;
+  type?: string;
+}
+
+const isReverse = (type: string | undefined) => type === 'reverse';
+
+/**
+ * The cards to create for a note written as a plain front and back, using the
+ * built-in note type named by its type. The hint describes the front, so
+ * reverse cards don't get it.
+ */
+export function generateSiblingCards(note: NoteContent): GeneratedCard[] {
+  const noteType = builtInNoteType(note.type);
+  const cards = generateNoteCards(noteType, builtInNoteFields(noteType, note));
+  // A cloze note without deletions yet still becomes one card
+  const generated = cards.length ? cards : [{ front: note.front, back: note.back, type: noteType.templates[0].cardType, templateIndex: 0 }];
+  return generated.map(card => isReverse(card.type) ? card : { ...card, hint: note.hint });
+}
+
+/**
+ * The content a sibling should take after one card of the note was edited
+ */
+export function syncSiblingContent(edited: NoteContent, sibling: { type: string }): Partial<GeneratedCard> {
+  if (isReverse(edited.type) !== isReverse(sibling.type)) {
+    return { front: edited.back, back: edited.front };
+  }
+  return { front: edited.front, back: edited.back, hint: edited.hint };
+}
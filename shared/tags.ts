@@ -0,0 +1,31 @@
+/**
+ * Card Tags
+ *
+ * Cards store tags as a single delimited string ("verbs;chapter-1"). These
+ * helpers read and update that string the same way on the API and client.
+ */
+
+const TAG_DELIMITER = /[;,]/;
+
+/**
+ * Split a stored tag string into trimmed, non-empty tags
+ */
+export function parseTags(tags: string | null | undefined): string[] {
+  if (!tags) return [];
+  return tags.split(TAG_DELIMITER).map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Join tags back into the stored form, dropping duplicates
+ */
+export function formatTags(tags: string[]): string {
+  return Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean))).join(';');
+}
+
+/**
+ * Whether a tag string contains any of the given tags (case-insensitive)
+ */
+export function hasAnyTag(tags: string | null | undefined, wanted: string[]): boolean {
+  const lower = parseTags(tags).map(tag => tag.toLowerCase());
+  return wanted.some(tag => lower.includes(tag.trim().toLowerCase()));
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { answerText, compareTypedAnswer, diffAnswer, levenshtein, normalizeAnswer, type TypedAnswerOptions } from './typedAnswer';
+
+const strict: TypedAnswerOptions = { answerIgnoreCase: false, answerIgnoreAccents: false, answerIgnorePunctuation: false, answerTolerance: 0 };
+const forgiving: TypedAnswerOptions = { answerIgnoreCase: true, answerIgnoreAccents: true, answerIgnorePunctuation: true, answerTolerance: 1 };
+
+describe('compareTypedAnswer', () => {
+  it('suggests Again for an empty answer, however forgiving the deck', () => {
+    for (const typed of ['', '   ']) {
+      expect(compareTypedAnswer(typed, 'a', forgiving).suggestedQuality).toBe(1);
+    }
+  });
+
+  it('suggests Easy for an exact answer, ignoring surrounding and repeated spaces', () => {
+    expect(compareTypedAnswer('  mitochondria ', 'mitochondria', strict).suggestedQuality).toBe(4);
+    expect(compareTypedAnswer('New   York', 'New York', strict).suggestedQuality).toBe(4);
+  });
+
+  it('suggests Good when the answer only differs in case, accents or punctuation the deck ignores', () => {
+    expect(compareTypedAnswer('PARIS', 'Paris', forgiving)).toMatchObject({ suggestedQuality: 3, distance: 0 });
+    expect(compareTypedAnswer('creme brulee', 'Crème brûlée', forgiving)).toMatchObject({ suggestedQuality: 3, distance: 0 });
+    expect(compareTypedAnswer('well known', 'Well-known!', forgiving).suggestedQuality).toBe(3);
+  });
+
+  it('counts case and accents as typos when the deck does not ignore them', () => {
+    expect(compareTypedAnswer('paris', 'Paris', strict)).toMatchObject({ suggestedQuality: 1, distance: 1 });
+    expect(compareTypedAnswer('cafe', 'café', strict)).toMatchObject({ suggestedQuality: 1, distance: 1 });
+    expect(compareTypedAnswer('cafe', 'café', { ...strict, answerTolerance: 1 }).suggestedQuality).toBe(2);
+  });
+
+  it('suggests Hard within the typo tolerance and Again beyond it', () => {
+    expect(compareTypedAnswer('mitochondira', 'mitochondria', { ...strict, answerTolerance: 2 }).suggestedQuality).toBe(2);
+    expect(compareTypedAnswer('mitochondira', 'mitochondria', { ...strict, answerTolerance: 1 }).suggestedQuality).toBe(1);
+    expect(compareTypedAnswer('b', 'a', { ...strict, answerTolerance: -1 }).suggestedQuality).toBe(1);
+  });
+
+  it('compares against the plain text of the back', () => {
+    const result = compareTypedAnswer('x < 2', '<b>x &lt; 2</b> [sound:hint.mp3]', strict);
+    expect(result).toMatchObject({ expected: 'x < 2', suggestedQuality: 4 });
+  });
+});
+
+describe('answerText', () => {
+  it('drops markup, sound tags and LaTeX delimiters', () => {
+    expect(answerText('<i>E</i> = \\(mc^2\\)<br>[sound:a.mp3]&nbsp;&amp; more')).toBe('E = mc^2 & more');
+  });
+});
+
+describe('normalizeAnswer', () => {
+  it('folds only what the options ask for', () => {
+    expect(normalizeAnswer('Ça va?', forgiving)).toBe('ca va');
+    expect(normalizeAnswer('Ça va?', strict)).toBe('Ça va?');
+  });
+});
+
+describe('levenshtein', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+    expect(levenshtein('abc', 'abc')).toBe(0);
+  });
+
+  it('counts characters outside the Basic Multilingual Plane once', () => {
+    expect(levenshtein('😀', '😃')).toBe(1);
+  });
+});
+
+describe('diffAnswer', () => {
+  it('marks missing and extra characters', () => {
+    expect(diffAnswer('cart', 'cat', strict)).toEqual([
+      { kind: 'correct', text: 'ca' },
+      { kind: 'extra', text: 'r' },
+      { kind: 'correct', text: 't' },
+    ]);
+    expect(diffAnswer('ct', 'cat', strict)).toEqual([
+      { kind: 'correct', text: 'c' },
+      { kind: 'missing', text: 'a' },
+      { kind: 'correct', text: 't' },
+    ]);
+  });
+
+  it('shows the whole answer as missing when nothing was typed', () => {
+    expect(diffAnswer('', 'cat', strict)).toEqual([{ kind: 'missing', text: 'cat' }]);
+  });
+
+  it('matches characters that only differ in ignored case and accents, showing the expected ones', () => {
+    expect(diffAnswer('CAFE', 'café', forgiving)).toEqual([{ kind: 'correct', text: 'café' }]);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Typed Answers
+ *
+ * "Type in the answer" cards compare what was typed with the card's back,
+ * forgiving case, accents, punctuation and small typos as configured per
+ * deck, and suggest a grade on the 1-4 review scale.
+ */
+
+export interface TypedAnswerOptions {
+  answerIgnoreCase: boolean;
+  answerIgnoreAccents: boolean;
+  answerIgnorePunctuation: boolean;
+  answerTolerance: number; // typos (edits) still accepted as a near miss
+}
+
+export type AnswerDiffSegment = {
+  kind: 'correct' | 'missing' | 'extra'; // missing = expected but not typed, extra = typed but not expected
+  text: string;
+};
+
+export interface TypedAnswerResult {
+  expected: string;
+  distance: number; // Levenshtein distance after normalising both answers
+  suggestedQuality: 1 | 2 | 3 | 4;
+  diff: AnswerDiffSegment[];
+}
+
+// Longer answers are still graded, but only the start is diffed character by character
+const MAX_DIFF_LENGTH = 500;
+
+/**
+ * The plain text of a card side: markup and sound tags removed and LaTeX
+ * delimiters dropped so that formulas can be typed as written inside them
+ */
+export function answerText(content: string): string {
+  return content
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\\[()[\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const foldChar = (char: string, options: TypedAnswerOptions): string => {
+  let folded = options.answerIgnoreCase ? char.toLowerCase() : char;
+  if (options.answerIgnoreAccents) folded = folded.normalize('NFD').replace(/\p{M}/gu, '');
+  return folded;
+};
+
+/**
+ * Normalise an answer for comparison according to the deck's options
+ */
+export function normalizeAnswer(text: string, options: TypedAnswerOptions): string {
+  let normalized = Array.from(text).map(char => foldChar(char, options)).join('');
+  if (options.answerIgnorePunctuation) normalized = normalized.replace(/[\p{P}\p{S}]/gu, ' ');
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Minimum number of single-character insertions, deletions and substitutions
+ * turning one string into the other
+ */
+export function levenshtein(a: string, b: string): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const substitution = previous[j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[target.length];
+}
+
+/**
+ * Character-level diff of the typed answer against the expected one, based on
+ * their longest common subsequence. Characters match when equal after folding
+ * case and accents as configured.
+ */
+export function diffAnswer(typed: string, expected: string, options: TypedAnswerOptions): AnswerDiffSegment[] {
+  const typedChars = Array.from(typed).slice(0, MAX_DIFF_LENGTH);
+  const expectedChars = Array.from(expected).slice(0, MAX_DIFF_LENGTH);
+  const typedKeys = typedChars.map(char => foldChar(char, options));
+  const expectedKeys = expectedChars.map(char => foldChar(char, options));
+
+  // lcs[i][j] = common subsequence length of typed[i..] and expected[j..]
+  const lcs = Array.from({ length: typedChars.length + 1 }, () => new Array<number>(expectedChars.length + 1).fill(0));
+  for (let i = typedChars.length - 1; i >= 0; i--) {
+    for (let j = expectedChars.length - 1; j >= 0; j--) {
+      lcs[i][j] = typedKeys[i] === expectedKeys[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: AnswerDiffSegment[] = [];
+  const push = (kind: AnswerDiffSegment['kind'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      segments.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < typedChars.length || j < expectedChars.length) {
+    if (i < typedChars.length && j < expectedChars.length && typedKeys[i] === expectedKeys[j]) {
+      push('correct', expectedChars[j]);
+      i++;
+      j++;
+    } else if (j < expectedChars.length && (i >= typedChars.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push('missing', expectedChars[j]);
+      j++;
+    } else {
+      push('extra', typedChars[i]);
+      i++;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Compare a typed answer with the card's back and suggest a grade:
+ * Easy when typed exactly, Good when it only differs in ignored details,
+ * Hard when within the typo tolerance, Again otherwise.
+ */
+export function compareTypedAnswer(typed: string, back: string, options: TypedAnswerOptions): TypedAnswerResult {
+  const expected = answerText(back);
+  const answer = typed.replace(/\s+/g, ' ').trim();
+  const distance = levenshtein(normalizeAnswer(answer, options), normalizeAnswer(expected, options));
+
+  let suggestedQuality: TypedAnswerResult['suggestedQuality'] = 1;
+  if (!answer) {
+    suggestedQuality = 1;
+  } else if (answer === expected) {
+    suggestedQuality = 4;
+  } else if (distance === 0) {
+    suggestedQuality = 3;
+  } else if (distance <= Math.max(0, options.answerTolerance)) {
+    suggestedQuality = 2;
+  }
+
+  return {
+    expected,
+    distance,
+    suggestedQuality,
+    diff: diffAnswer(answer, expected, options),
+  };
+}